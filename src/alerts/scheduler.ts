@@ -0,0 +1,265 @@
+import { SatellitePass } from '../api-client.js';
+import { applyHorizonMask } from '../orbit/horizon.js';
+import { findPasses } from '../orbit/passes.js';
+import { LocalSatellite } from '../orbit/propagator.js';
+import { PassAlert, PassAlertEvent, PassAlertStore, notificationKey, wasDelivered } from '../store/pass-alerts.js';
+
+// Default time between two pass predictions for every alert
+const DEFAULT_RECOMPUTE_MINUTES = 30;
+
+// Passes are predicted this far ahead
+const LOOKAHEAD_MS = 24 * 3600000;
+
+// Passes are searched from this long ago, so a pass in progress keeps its real AOS
+const LOOKBACK_MS = 3600000;
+
+// Notifications this late (e.g. the server was busy or just restarted) are still sent
+const DEFAULT_LATE_SECONDS = 120;
+
+// Interface for the clock driving the scheduler, replaceable in tests
+export interface SchedulerClock {
+  now(): number; // Unix milliseconds
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as NodeJS.Timeout),
+};
+
+// Interface for a notification scheduled for an alert
+export interface PassAlertNotification {
+  key: string; // event, AOS and LOS, unique per alert
+  alert: PassAlert;
+  event: PassAlertEvent;
+  at: number; // Unix milliseconds
+  pass: SatellitePass;
+}
+
+// Interface for pass alert scheduler options
+export interface PassAlertSchedulerOptions {
+  store: PassAlertStore;
+  loadSatellite: (noradId: number) => Promise<LocalSatellite>;
+  notify: (notification: PassAlertNotification) => Promise<void>;
+  clock?: SchedulerClock;
+  recomputeMinutes?: number;
+  lateSeconds?: number;
+}
+
+/**
+ * Delivers pass alerts: predicts the upcoming passes of every alert once
+ * per `recomputeMinutes` and sends its lead time, AOS and LOS notifications
+ * as they fall due. Sent notifications are recorded in the alert store, so
+ * a restart neither repeats them nor loses the alerts.
+ */
+export class PassAlertScheduler {
+  private options: PassAlertSchedulerOptions;
+  private clock: SchedulerClock;
+  private recomputeMs: number;
+  private lateMs: number;
+  private pending: PassAlertNotification[] = [];
+  private recomputedAt = -Infinity;
+  private running = false;
+  private timer: unknown = null;
+  private recomputing: Promise<void> | null = null;
+  private recomputeQueued: Promise<void> | null = null;
+  private ticking: Promise<void> = Promise.resolve();
+
+  constructor(options: PassAlertSchedulerOptions) {
+    this.options = options;
+    this.clock = options.clock || systemClock;
+    this.recomputeMs = (options.recomputeMinutes ?? DEFAULT_RECOMPUTE_MINUTES) * 60000;
+    this.lateMs = (options.lateSeconds ?? DEFAULT_LATE_SECONDS) * 1000;
+  }
+
+  /**
+   * Options from ALERT_* environment variables
+   */
+  static environmentOptions(): Pick<PassAlertSchedulerOptions, 'recomputeMinutes'> {
+    const recomputeMinutes = parseFloat(process.env.ALERT_RECOMPUTE_MINUTES || '');
+
+    return {
+      recomputeMinutes: Number.isFinite(recomputeMinutes) && recomputeMinutes > 0 ? recomputeMinutes : undefined,
+    };
+  }
+
+  /**
+   * Predict the passes of every alert and start delivering notifications
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    await this.recompute();
+  }
+
+  /**
+   * Stop delivering notifications
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Notifications not sent yet, in time order, optionally of one alert
+   */
+  upcoming(alertId?: string): PassAlertNotification[] {
+    return this.pending.filter(notification => alertId === undefined || notification.alert.id === alertId);
+  }
+
+  /**
+   * Predict the passes of every alert again, e.g. after an alert was
+   * created or cancelled. A prediction in progress may have read the alerts
+   * before the change, so calls made meanwhile share one more prediction after it.
+   */
+  recompute(): Promise<void> {
+    if (!this.recomputing) {
+      return this.startRecompute();
+    }
+
+    if (!this.recomputeQueued) {
+      this.recomputeQueued = this.recomputing
+        .catch(() => undefined)
+        .then(() => {
+          this.recomputeQueued = null;
+          return this.recomputing || this.startRecompute();
+        });
+    }
+    return this.recomputeQueued;
+  }
+
+  private startRecompute(): Promise<void> {
+    this.recomputing = this.recomputeAll().finally(() => {
+      this.recomputing = null;
+    });
+    return this.recomputing;
+  }
+
+  /**
+   * Send the notifications that are due, recomputing first when the
+   * predictions are older than the recompute interval. Calls run one at a time.
+   */
+  tick(): Promise<void> {
+    this.ticking = this.ticking
+      .catch(() => undefined)
+      .then(() => this.deliverDue());
+    return this.ticking;
+  }
+
+  private async recomputeAll(): Promise<void> {
+    const now = this.clock.now();
+    const notifications: PassAlertNotification[] = [];
+
+    for (const alert of await this.options.store.list()) {
+      try {
+        const satellite = await this.options.loadSatellite(alert.noradId);
+        notifications.push(...this.alertNotifications(alert, satellite, now));
+      } catch (error) {
+        // Keep the earlier prediction until the satellite can be loaded again
+        console.error(`Error predicting passes for alert ${alert.id} (NORAD ID ${alert.noradId}):`, error);
+        notifications.push(...this.pending.filter(notification => notification.alert.id === alert.id));
+      }
+    }
+
+    this.pending = notifications.sort((a, b) => a.at - b.at);
+    this.recomputedAt = now;
+    this.schedule();
+  }
+
+  private alertNotifications(alert: PassAlert, satellite: LocalSatellite, now: number): PassAlertNotification[] {
+    const start = now - LOOKBACK_MS;
+    const end = now + LOOKAHEAD_MS;
+    const passes = findPasses(satellite, alert.observer, {
+      start: new Date(start),
+      end: new Date(end),
+      minElevation: alert.minElevation,
+    });
+
+    const notifications: PassAlertNotification[] = [];
+    for (const predicted of passes) {
+      // Passes truncated by the search window are picked up complete by a later prediction
+      if (predicted.startUTC * 1000 <= start || predicted.endUTC * 1000 >= end) {
+        continue;
+      }
+
+      let pass = predicted;
+      if (alert.observer.horizonMask) {
+        const masked = applyHorizonMask(satellite, alert.observer, predicted, alert.observer.horizonMask, alert.minElevation);
+        if (!masked) {
+          continue;
+        }
+        pass = masked.pass;
+      }
+      if (pass.maxEl < alert.minMaxElevation) {
+        continue;
+      }
+
+      const times: Record<PassAlertEvent, number> = {
+        lead: (pass.startUTC - alert.leadMinutes * 60) * 1000,
+        aos: pass.startUTC * 1000,
+        los: pass.endUTC * 1000,
+      };
+
+      for (const event of alert.events) {
+        // A lead time of zero coincides with AOS
+        if ((event === 'lead' && alert.leadMinutes === 0) || wasDelivered(alert, event, pass) || times[event] < now - this.lateMs) {
+          continue;
+        }
+        notifications.push({ key: notificationKey(event, pass), alert, event, at: times[event], pass });
+      }
+    }
+
+    return notifications;
+  }
+
+  private async deliverDue(): Promise<void> {
+    if (this.clock.now() >= this.recomputedAt + this.recomputeMs) {
+      await this.recompute();
+    }
+
+    const now = this.clock.now();
+    const due = this.pending.filter(notification => notification.at <= now);
+    this.pending = this.pending.filter(notification => notification.at > now);
+
+    for (const notification of due) {
+      // The alert may have been cancelled, or the notification sent before a recompute
+      const alert = await this.options.store.get(notification.alert.id);
+      if (!alert || wasDelivered(alert, notification.event, notification.pass) || notification.at < now - this.lateMs) {
+        continue;
+      }
+
+      try {
+        await this.options.notify(notification);
+      } catch (error) {
+        console.error(`Error sending ${notification.event} notification of alert ${alert.id}:`, error);
+        continue;
+      }
+      await this.options.store.markDelivered(alert.id, notification.key, new Date(notification.pass.endUTC * 1000), new Date(now));
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Wake up for the next notification or the next recompute, whichever comes first
+   */
+  private schedule(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.running) {
+      return;
+    }
+
+    const next = Math.min(this.pending[0]?.at ?? Infinity, this.recomputedAt + this.recomputeMs);
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.tick().catch(error => console.error('Error delivering pass alerts:', error));
+    }, Math.max(0, next - this.clock.now()));
+  }
+}
@@ -1,5 +1,8 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { EndpointName, QuotaManager } from './providers/n2yo-quota.js';
+import { SatelliteDataProvider } from './providers/provider.js';
+import { ElementProvenance } from './store/element-store.js';
 
 // N2YO API endpoints
 export const ENDPOINTS = {
@@ -34,12 +37,42 @@ export interface SatellitePosition {
   eclipsed: boolean;
 }
 
+// Interface for TLE cache metadata
+export interface TLECacheInfo {
+  cached: boolean; // served from the local cache without contacting a provider
+  stale: boolean; // served from the cache because no provider could be reached
+  epoch: string;
+  epochAgeHours: number;
+  fetchedAt: string;
+}
+
+// Interface for the age of an imported element set
+export interface ImportedEpochInfo {
+  epoch: string;
+  epochAgeHours: number;
+  stale: boolean; // older than the TLE cache's maximum epoch age, and the providers have nothing newer
+}
+
 // Interface for satellite TLE data
 export interface SatelliteTLE {
   satid: number;
   satname: string;
   transactionscount: number;
   tle: string;
+  cache?: TLECacheInfo;
+  provenance?: ElementProvenance; // set when the element set was imported from a local file
+  imported?: ImportedEpochInfo; // set with provenance
+}
+
+// Interface for client options
+export interface N2YOApiClientOptions {
+  baseUrl?: string; // e.g. a local stand-in for the N2YO API
+  quota?: QuotaManager | null; // per-endpoint hourly budget, shared by all clients of the key
+}
+
+// Interface for TLE request options
+export interface TLEOptions {
+  refresh?: boolean; // bypass the cache and fetch from the providers
 }
 
 // Interface for satellite pass data
@@ -58,7 +91,7 @@ export interface SatellitePass {
   endAzCompass: string;
   endEl: number;
   endUTC: number;
-  mag: number;
+  mag?: number; // visual magnitude; absent when unknown (radio passes, local predictions without a brightness estimate)
   duration: number;
 }
 
@@ -111,19 +144,23 @@ export interface AboveParams {
   category_id?: number;
 }
 
-export class N2YOApiClient {
+export class N2YOApiClient implements SatelliteDataProvider {
+  readonly name = 'n2yo';
   private axiosInstance: AxiosInstance;
   private apiKey: string;
   private baseUrl: string = 'https://api.n2yo.com/rest/v1/satellite';
   private retryDelay: number = 1000; // Initial retry delay in ms
   private maxRetries: number = 3;
+  private quota: QuotaManager | null;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: N2YOApiClientOptions = {}) {
     if (!apiKey) {
       throw new McpError(ErrorCode.InvalidParams, ERROR_MESSAGES.MISSING_API_KEY);
     }
 
     this.apiKey = apiKey;
+    this.baseUrl = options.baseUrl || this.baseUrl;
+    this.quota = options.quota || null;
     this.axiosInstance = axios.create({
       baseURL: this.baseUrl,
       timeout: 10000,
@@ -138,6 +175,14 @@ export class N2YOApiClient {
     params: Record<string, any> = {},
     retryCount: number = 0
   ): Promise<T> {
+    const endpointName = (Object.keys(ENDPOINTS) as EndpointName[])
+      .find(name => endpoint.startsWith(ENDPOINTS[name]));
+
+    // Wait for (or be refused) a slot in the endpoint's hourly budget
+    if (this.quota && endpointName) {
+      await this.quota.acquire(endpointName);
+    }
+
     try {
       // Add API key to the endpoint
       const fullEndpoint = `${endpoint}/&apiKey=${this.apiKey}`;
@@ -145,11 +190,22 @@ export class N2YOApiClient {
       const config: AxiosRequestConfig = {};
 
       const response: AxiosResponse = await this.axiosInstance.get(fullEndpoint, config);
+
+      // Every response reports the transactions made with this key in the last hour
+      const transactionsCount = response.data?.info?.transactionscount;
+      if (this.quota && endpointName && typeof transactionsCount === 'number') {
+        this.quota.recordTransactions(endpointName, transactionsCount);
+      }
+
       return response.data as T;
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const axiosError = error as AxiosError;
 
+        if (axiosError.response?.status === 429 && this.quota && endpointName) {
+          this.quota.recordRateLimited(endpointName);
+        }
+
         // Handle rate limiting (429 Too Many Requests)
         if (axiosError.response?.status === 429 && retryCount < this.maxRetries) {
           const delay = this.retryDelay * Math.pow(2, retryCount);
@@ -240,30 +296,4 @@ export class N2YOApiClient {
 
     return response.above || [];
   }
-
-  /**
-   * Search for satellites by name (using the above endpoint with category filtering)
-   */
-  async searchSatellites(searchQuery: string, category_id: number = 0): Promise<SatelliteAbove[]> {
-    // Use a default location (equator) and large search radius to get many satellites
-    const params: AboveParams = {
-      observer_lat: 0,
-      observer_lng: 0,
-      search_radius: 90,
-      category_id,
-    };
-
-    const satellites = await this.getAbove(params);
-
-    // Filter by name if search query is provided
-    if (searchQuery) {
-      const lowerQuery = searchQuery.toLowerCase();
-      return satellites.filter(sat =>
-        sat.satname.toLowerCase().includes(lowerQuery) ||
-        sat.intDesignator.toLowerCase().includes(lowerQuery)
-      );
-    }
-
-    return satellites;
-  }
 }
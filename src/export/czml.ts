@@ -0,0 +1,111 @@
+import { observerToEcf } from '../orbit/coordinates.js';
+import { TrackExport, isoTime } from './track.js';
+
+export const CZML_MIME_TYPE = 'application/czml+json';
+
+/**
+ * CZML document for Cesium: a clock covering the track, the satellite with
+ * time-tagged earth-fixed position samples and its orbit path and, when an
+ * observer is given, the observer and a link to the satellite that is only
+ * available during passes
+ */
+export function trackToCZML(track: TrackExport): object[] {
+  const { points } = track;
+  const start = points[0].time;
+  const end = points[points.length - 1].time;
+  const interval = `${isoTime(start)}/${isoTime(end)}`;
+  const satelliteId = `satellite/${track.noradId}`;
+  const periodSeconds = (end - start) / 1000;
+
+  // Earth-fixed cartesian samples interpolate cleanly across the antimeridian and poles
+  const cartesian: number[] = [];
+  for (const point of points) {
+    const ecf = observerToEcf({ latitude: point.latitude, longitude: point.longitude, altitude: point.altitude * 1000 });
+    cartesian.push(
+      Math.round((point.time - start) / 10) / 100,
+      Math.round(ecf.x * 1000),
+      Math.round(ecf.y * 1000),
+      Math.round(ecf.z * 1000)
+    );
+  }
+
+  const packets: object[] = [
+    {
+      id: 'document',
+      name: `${track.name} (${track.noradId})`,
+      version: '1.0',
+      clock: {
+        interval,
+        currentTime: isoTime(start),
+        multiplier: 60,
+        range: 'LOOP_STOP',
+        step: 'SYSTEM_CLOCK_MULTIPLIER',
+      },
+    },
+    {
+      id: satelliteId,
+      name: track.name,
+      description: `NORAD ID ${track.noradId}`,
+      availability: interval,
+      label: {
+        text: track.name,
+        font: '11pt Lucida Console',
+        horizontalOrigin: 'LEFT',
+        pixelOffset: { cartesian2: [12, 0] },
+        fillColor: { rgba: [255, 255, 0, 255] },
+      },
+      point: {
+        pixelSize: 8,
+        color: { rgba: [255, 255, 0, 255] },
+      },
+      path: {
+        show: true,
+        width: 1,
+        resolution: 120,
+        leadTime: periodSeconds,
+        trailTime: periodSeconds,
+        material: { solidColor: { color: { rgba: [255, 255, 0, 160] } } },
+      },
+      position: {
+        epoch: isoTime(start),
+        referenceFrame: 'FIXED',
+        interpolationAlgorithm: 'LAGRANGE',
+        interpolationDegree: 5,
+        cartesian,
+      },
+    },
+  ];
+
+  if (track.observer) {
+    const observerId = 'observer';
+    packets.push({
+      id: observerId,
+      name: track.observer.name || `Observer ${track.observer.latitude}, ${track.observer.longitude}`,
+      position: {
+        cartographicDegrees: [track.observer.longitude, track.observer.latitude, track.observer.altitude],
+      },
+      point: {
+        pixelSize: 8,
+        color: { rgba: [0, 255, 255, 255] },
+      },
+    });
+
+    const passes = track.passes ?? [];
+    if (passes.length > 0) {
+      packets.push({
+        id: `${observerId}-to-${satelliteId}`,
+        name: `${track.name} in view`,
+        availability: passes.map(pass => `${isoTime(pass.start)}/${isoTime(pass.end)}`),
+        polyline: {
+          show: true,
+          width: 1,
+          material: { solidColor: { color: { rgba: [0, 255, 255, 255] } } },
+          arcType: 'NONE',
+          positions: { references: [`${observerId}#position`, `${satelliteId}#position`] },
+        },
+      });
+    }
+  }
+
+  return packets;
+}
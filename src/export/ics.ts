@@ -0,0 +1,133 @@
+import { SatellitePass } from '../api-client.js';
+
+// Product identifier of generated calendars
+const PRODUCT_ID = '-//satellite-tracking-mcp-server//Pass predictions//EN';
+
+// UID domain of generated events
+const UID_DOMAIN = 'satellite-tracking-mcp-server';
+
+// Culmination times are rounded to this in the UID a pass first gets
+const UID_TIME_ROUNDING_SECONDS = 600;
+
+// Interface for calendar export options
+export interface PassCalendarOptions {
+  kind: 'visual' | 'radio';
+  observer: { latitude: number; longitude: number; profile?: string | null };
+  calendarName?: string;
+  notes?: (pass: SatellitePass, index: number) => string[]; // extra description lines per pass
+  uids?: string[]; // event UID per pass, e.g. from CalendarUidStore (default: passUid)
+  now?: Date;
+}
+
+/**
+ * Escape a TEXT property value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 3.1)
+ */
+function foldLine(line: string): string {
+  const folded: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, leaving 74 octets of content
+    const limit = folded.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      folded.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  folded.push(current);
+
+  return folded.join('\r\n ');
+}
+
+/**
+ * UTC DATE-TIME value, e.g. "20240101T162013Z"
+ */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${seconds % 60} s` : `${seconds} s`;
+}
+
+/**
+ * Pass kind and observer location shared by the UIDs of one calendar's events
+ */
+export function passUidScope(options: PassCalendarOptions): string {
+  return `${options.kind}-${options.observer.latitude.toFixed(3)}_${options.observer.longitude.toFixed(3)}`;
+}
+
+/**
+ * Event UID of a pass: satellite, pass kind, observer and culmination time
+ * rounded to ten minutes. Later predictions of the same pass keep the UID
+ * it first got through CalendarUidStore, even when the culmination moves.
+ */
+export function passUid(pass: SatellitePass, options: PassCalendarOptions): string {
+  const culmination = Math.round(pass.maxUTC / UID_TIME_ROUNDING_SECONDS) * UID_TIME_ROUNDING_SECONDS;
+  return `${pass.satid}-${passUidScope(options)}-${formatDateTime(new Date(culmination * 1000))}@${UID_DOMAIN}`;
+}
+
+/**
+ * iCalendar (RFC 5545) document with one VEVENT per pass
+ */
+export function passesToICS(passes: SatellitePass[], options: PassCalendarOptions): string {
+  const stamp = formatDateTime(options.now ?? new Date());
+  const { observer } = options;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.calendarName ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`] : []),
+  ];
+
+  passes.forEach((pass, index) => {
+    const point = (label: string, unixSeconds: number, azimuth: number, compass: string, elevation: number) =>
+      `${label}: ${new Date(unixSeconds * 1000).toISOString()}, azimuth ${azimuth}° (${compass}), elevation ${elevation}°`;
+
+    const description = [
+      point('Start', pass.startUTC, pass.startAz, pass.startAzCompass, pass.startEl),
+      point('Max', pass.maxUTC, pass.maxAz, pass.maxAzCompass, pass.maxEl),
+      point('End', pass.endUTC, pass.endAz, pass.endAzCompass, pass.endEl),
+      `Duration: ${formatDuration(pass.duration)}`,
+      ...(pass.mag !== undefined ? [`Magnitude: ${pass.mag}`] : []),
+      ...(options.notes ? options.notes(pass, index) : []),
+    ];
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${options.uids?.[index] ?? passUid(pass, options)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatDateTime(new Date(pass.startUTC * 1000))}`,
+      `DTEND:${formatDateTime(new Date(pass.endUTC * 1000))}`,
+      `SUMMARY:${escapeText(`${pass.satname} ${options.kind} pass, max ${pass.maxEl}° ${pass.maxAzCompass}`)}`,
+      `DESCRIPTION:${escapeText(description.join('\n'))}`,
+      `LOCATION:${escapeText(observer.profile || `${observer.latitude}, ${observer.longitude}`)}`,
+      `GEO:${observer.latitude};${observer.longitude}`,
+      `CATEGORIES:${options.kind === 'visual' ? 'Visual pass' : 'Radio pass'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
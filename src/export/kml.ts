@@ -0,0 +1,104 @@
+import { GroundTrackPoint, splitAtAntimeridian } from '../orbit/ground-track.js';
+import { TrackExport, isoTime } from './track.js';
+
+export const KML_MIME_TYPE = 'application/vnd.google-earth.kml+xml';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function coordinates(points: GroundTrackPoint[], withAltitude: boolean): string {
+  return points
+    .map(point => [
+      point.longitude.toFixed(6),
+      point.latitude.toFixed(6),
+      withAltitude ? Math.round(point.altitude * 1000) : 0,
+    ].join(','))
+    .join(' ');
+}
+
+/**
+ * Placemark with one LineString per antimeridian-split segment
+ */
+function linePlacemark(
+  name: string,
+  style: string,
+  points: GroundTrackPoint[],
+  withAltitude: boolean,
+  description?: string
+): string {
+  const lines = splitAtAntimeridian(points)
+    .filter(segment => segment.length >= 2)
+    .map(segment => [
+      '<LineString>',
+      withAltitude ? '<altitudeMode>absolute</altitudeMode>' : '<tessellate>1</tessellate><altitudeMode>clampToGround</altitudeMode>',
+      `<coordinates>${coordinates(segment, withAltitude)}</coordinates>`,
+      '</LineString>',
+    ].join(''));
+
+  return [
+    '<Placemark>',
+    `<name>${escapeXml(name)}</name>`,
+    ...(description ? [`<description>${escapeXml(description)}</description>`] : []),
+    `<TimeSpan><begin>${isoTime(points[0].time)}</begin><end>${isoTime(points[points.length - 1].time)}</end></TimeSpan>`,
+    `<styleUrl>#${style}</styleUrl>`,
+    `<MultiGeometry>${lines.join('')}</MultiGeometry>`,
+    '</Placemark>',
+  ].join('\n');
+}
+
+/**
+ * KML document for Google Earth: the ground track clamped to the ground,
+ * the orbit at altitude, the observer placemark and the part of the track
+ * flown during each pass over the observer
+ */
+export function trackToKML(track: TrackExport): string {
+  const { points } = track;
+  const placemarks: string[] = [
+    linePlacemark('Ground track', 'groundTrack', points, false),
+    linePlacemark('Orbit', 'orbit', points, true),
+  ];
+
+  if (track.observer) {
+    const { observer } = track;
+    placemarks.push([
+      '<Placemark>',
+      `<name>${escapeXml(observer.name || 'Observer')}</name>`,
+      '<styleUrl>#observer</styleUrl>',
+      `<Point><coordinates>${observer.longitude},${observer.latitude},${observer.altitude}</coordinates></Point>`,
+      '</Placemark>',
+    ].join('\n'));
+
+    (track.passes ?? []).forEach((pass, index) => {
+      const inPass = points.filter(point => point.time >= pass.start && point.time <= pass.end);
+      if (inPass.length >= 2) {
+        placemarks.push(linePlacemark(
+          `Pass ${index + 1}`,
+          'pass',
+          inPass,
+          false,
+          `In view from ${isoTime(pass.start)} to ${isoTime(pass.end)}`
+        ));
+      }
+    });
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `<name>${escapeXml(`${track.name} (${track.noradId})`)}</name>`,
+    '<Style id="groundTrack"><LineStyle><color>ff00ffff</color><width>2</width></LineStyle></Style>',
+    '<Style id="orbit"><LineStyle><color>a000ffff</color><width>1</width></LineStyle></Style>',
+    '<Style id="pass"><LineStyle><color>ffffff00</color><width>4</width></LineStyle></Style>',
+    '<Style id="observer"><IconStyle><Icon><href>http://maps.google.com/mapfiles/kml/shapes/target.png</href></Icon></IconStyle></Style>',
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
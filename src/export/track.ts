@@ -0,0 +1,44 @@
+import { Observer } from '../orbit/coordinates.js';
+import { GroundTrackPoint } from '../orbit/ground-track.js';
+
+// Interface for a satellite track to export for 3D visualization
+export interface TrackExport {
+  noradId: number;
+  name: string;
+  points: GroundTrackPoint[]; // in time order
+  observer?: Observer & { name?: string | null };
+  passes?: { start: number; end: number }[]; // ms, when the observer sees the satellite
+}
+
+/**
+ * Intervals (ms) in which sampled elevations are at or above the horizon,
+ * with boundaries interpolated linearly between samples
+ */
+export function aboveHorizonIntervals(samples: { time: number; elevation: number }[]): { start: number; end: number }[] {
+  const intervals: { start: number; end: number }[] = [];
+  let start: number | null = null;
+
+  samples.forEach((sample, index) => {
+    const previous = samples[index - 1];
+    const crossing = () => previous.time + (0 - previous.elevation) / (sample.elevation - previous.elevation) * (sample.time - previous.time);
+
+    if (sample.elevation >= 0 && start === null) {
+      start = previous ? crossing() : sample.time;
+    } else if (sample.elevation < 0 && start !== null) {
+      intervals.push({ start, end: crossing() });
+      start = null;
+    }
+  });
+  if (start !== null) {
+    intervals.push({ start, end: samples[samples.length - 1].time });
+  }
+
+  return intervals;
+}
+
+/**
+ * ISO 8601 time without milliseconds
+ */
+export function isoTime(timeMs: number): string {
+  return new Date(Math.round(timeMs / 1000) * 1000).toISOString().replace('.000Z', 'Z');
+}
@@ -7,25 +7,110 @@ import {
   ListResourcesRequestSchema,
   ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
+  LoggingLevelSchema,
   McpError,
   ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { N2YOApiClient } from './api-client.js';
+import { CelesTrakProvider } from './providers/celestrak.js';
+import { ProviderChain } from './providers/chain.js';
+import { QuotaManager } from './providers/n2yo-quota.js';
+import { SatelliteDataProvider } from './providers/provider.js';
+import { SatelliteCatalog } from './store/catalog.js';
+import { TransmitterRegistry } from './store/transmitters.js';
+import { ObserverProfileStore } from './store/observer-profiles.js';
+import { ElementStore } from './store/element-store.js';
+import { CalendarUidStore } from './store/calendar-uids.js';
+import { TLECache } from './store/tle-cache.js';
+import { TLEHistory } from './store/tle-history.js';
+import { PassAlertStore } from './store/pass-alerts.js';
+import { PassAlertScheduler } from './alerts/scheduler.js';
+import { loadSatellite } from './orbit/propagator.js';
 import { getSatellitePositionTool, getSatellitePositionToolSchema } from './tools/satellite-position.js';
 import { getSatelliteTLETool, getSatelliteTLEToolSchema } from './tools/satellite-tle.js';
 import { predictVisualPassesTool, predictVisualPassesToolSchema } from './tools/visual-passes.js';
 import { predictRadioPassesTool, predictRadioPassesToolSchema } from './tools/radio-passes.js';
+import { computeDopplerTool, computeDopplerToolSchema } from './tools/doppler.js';
+import { getFootprintTool, getFootprintToolSchema } from './tools/footprint.js';
+import { getGroundTrackTool, getGroundTrackToolSchema } from './tools/ground-track.js';
+import { screenConjunctionsTool, screenConjunctionsToolSchema } from './tools/conjunctions.js';
+import { planPassScheduleTool, planPassScheduleToolSchema } from './tools/pass-schedule.js';
+import { planNetworkScheduleTool, planNetworkScheduleToolSchema } from './tools/network-schedule.js';
 import { getSatellitesAboveTool, getSatellitesAboveToolSchema } from './tools/satellites-above.js';
 import { searchSatellitesByNameTool, searchSatellitesByNameToolSchema } from './tools/satellite-search-by-name.js';
 import { searchSatellitesByCategoryTool, searchSatellitesByCategoryToolSchema } from './tools/satellite-search-by-category.js';
+import { importElementsTool, importElementsToolSchema } from './tools/import-elements.js';
+import { getTLEHistoryTool, getTLEHistoryToolSchema } from './tools/tle-history.js';
+import { estimateDecayTool, estimateDecayToolSchema } from './tools/decay.js';
+import { getApiUsageTool, getApiUsageToolSchema } from './tools/api-usage.js';
+import { importCatalogTool, importCatalogToolSchema } from './tools/import-catalog.js';
+import { importTransmittersTool, importTransmittersToolSchema } from './tools/import-transmitters.js';
+import {
+  createObserverProfileTool,
+  createObserverProfileToolSchema,
+  deleteObserverProfileTool,
+  deleteObserverProfileToolSchema,
+  listObserverProfilesTool,
+  listObserverProfilesToolSchema,
+  setHorizonMaskTool,
+  setHorizonMaskToolSchema,
+} from './tools/observer-profiles.js';
+import {
+  cancelPassAlertTool,
+  cancelPassAlertToolSchema,
+  createPassAlertTool,
+  createPassAlertToolSchema,
+  formatPassAlertNotification,
+  listPassAlertsTool,
+  listPassAlertsToolSchema,
+} from './tools/pass-alerts.js';
 import { getSatelliteResource, satelliteResourceTemplate } from './resources/satellite.js';
+import { getSatelliteCatalogResource, satelliteCatalogResourceTemplate } from './resources/satellite-catalog.js';
+import { getSatelliteTransmittersResource, satelliteTransmittersResourceTemplate } from './resources/satellite-transmitters.js';
+import { getSatelliteTrackResource, satelliteTrackMimeType, satelliteTrackResourceTemplates } from './resources/satellite-track.js';
 import { getSatellitesCategoryResource, satellitesCategoryResourceTemplate } from './resources/category.js';
 import { getSatellitesAboveResource, satellitesAboveResourceTemplate } from './resources/above.js';
+import { getPassesCalendarResource, passesCalendarResourceTemplate } from './resources/passes-calendar.js';
+import { ResourceSubscriptions } from './resources/subscriptions.js';
+
+// Longest time a shutdown waits for tool calls in progress
+const SHUTDOWN_GRACE_MS = 10000;
 
 class SatelliteTrackingServer {
   private server: Server;
-  private apiClient: N2YOApiClient | null = null;
+  private providers: ProviderChain | null = null;
+  private shuttingDown: Promise<void> | null = null;
+  private inFlight = new Set<Promise<unknown>>();
+  private catalog = new SatelliteCatalog();
+  private history = new TLEHistory(process.env.TLE_HISTORY_FILE || undefined, TLEHistory.environmentOptions());
+  private tleCache = TLECache.fromEnvironment();
+  private calendarUids = new CalendarUidStore();
+  // Group membership for conjunction screens, whichever providers are configured
+  private celestrak = new CelesTrakProvider({ baseUrl: process.env.CELESTRAK_BASE_URL || undefined });
+  private elementStore = new ElementStore({ catalog: this.catalog, history: this.history });
+  private transmitters = new TransmitterRegistry();
+  private profiles = new ObserverProfileStore(process.env.OBSERVER_PROFILES_FILE || undefined);
+  private quota = QuotaManager.fromEnvironment();
+  private subscriptions = new ResourceSubscriptions({
+    read: async uri => (await this.readResource(uri)).content,
+    notify: uri => this.server.sendResourceUpdated({ uri }),
+    quota: this.quota,
+    ...ResourceSubscriptions.environmentOptions(),
+  });
+  // Least severe log level sent to the client, set with logging/setLevel
+  private logLevel: LoggingLevel = 'debug';
+  private alerts = new PassAlertStore(process.env.ALERTS_FILE || undefined);
+  private alertScheduler = new PassAlertScheduler({
+    store: this.alerts,
+    loadSatellite: async noradId => loadSatellite((await this.getProviders().getTLE(noradId)).data),
+    notify: notification => this.sendLog('notice', 'pass-alerts', formatPassAlertNotification(notification)),
+    ...PassAlertScheduler.environmentOptions(),
+  });
 
   constructor() {
     this.server = new Server(
@@ -35,34 +120,108 @@ class SatelliteTrackingServer {
       },
       {
         capabilities: {
-          resources: {},
+          resources: { subscribe: true },
           tools: {},
+          logging: {},
         },
       }
     );
 
     // Error handling
     this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    this.server.onclose = () => {
+      this.subscriptions.clear();
+      this.alertScheduler.stop();
+      this.flushStores();
+    };
+    process.on('SIGINT', () => this.shutdown());
+    process.on('SIGTERM', () => this.shutdown());
+    // Clients usually stop a stdio server by closing its stdin
+    process.stdin.on('end', () => this.shutdown());
 
     this.setupHandlers();
   }
 
-  private getApiClient(): N2YOApiClient {
-    if (!this.apiClient) {
-      const apiKey = process.env.N2YO_API_KEY;
-      if (!apiKey) {
+  /**
+   * Write batched store changes still waiting to go to disk
+   */
+  private flushStores(): Promise<void> {
+    return Promise.all([this.catalog.flush(), this.history.flush(), this.tleCache.flush(), this.calendarUids.flush()])
+      .then(() => undefined)
+      .catch(error => console.error('Error writing data files:', error));
+  }
+
+  private track<T>(run: () => Promise<T>): Promise<T> {
+    const pending = run();
+    this.inFlight.add(pending);
+    pending.finally(() => this.inFlight.delete(pending)).catch(() => undefined);
+    return pending;
+  }
+
+  /**
+   * Let tool calls in progress finish (for up to SHUTDOWN_GRACE_MS), write
+   * pending changes, close the connection and exit
+   */
+  private shutdown(): Promise<void> {
+    if (!this.shuttingDown) {
+      this.shuttingDown = (async () => {
+        await Promise.race([
+          Promise.allSettled(this.inFlight),
+          new Promise(resolve => setTimeout(resolve, SHUTDOWN_GRACE_MS)),
+        ]);
+        await this.server.close();
+        await this.flushStores();
+        process.exit(0);
+      })();
+    }
+    return this.shuttingDown;
+  }
+
+  /**
+   * Build the provider chain from SATELLITE_PROVIDERS (comma-separated, primary first)
+   */
+  private getProviders(): ProviderChain {
+    if (!this.providers) {
+      const names = (process.env.SATELLITE_PROVIDERS || 'n2yo')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(name => name.length > 0);
+
+      this.providers = new ProviderChain(names.map(name => this.createProvider(name)), {
+        tleCache: this.tleCache,
+        elementStore: this.elementStore,
+        history: this.history,
+        catalog: this.catalog,
+      });
+    }
+    return this.providers;
+  }
+
+  private createProvider(name: string): SatelliteDataProvider {
+    switch (name) {
+      case 'n2yo': {
+        const apiKey = process.env.N2YO_API_KEY;
+        if (!apiKey) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            'N2YO_API_KEY environment variable is required'
+          );
+        }
+        return new N2YOApiClient(apiKey, {
+          baseUrl: process.env.N2YO_BASE_URL || undefined,
+          quota: this.quota,
+        });
+      }
+
+      case 'celestrak':
+        return new CelesTrakProvider({ baseUrl: process.env.CELESTRAK_BASE_URL || undefined });
+
+      default:
         throw new McpError(
           ErrorCode.InvalidRequest,
-          'N2YO_API_KEY environment variable is required'
+          `Unknown satellite data provider "${name}". Supported providers: n2yo, celestrak`
         );
-      }
-      this.apiClient = new N2YOApiClient(apiKey);
     }
-    return this.apiClient;
   }
 
   private setupHandlers() {
@@ -73,37 +232,112 @@ class SatelliteTrackingServer {
         getSatelliteTLEToolSchema,
         predictVisualPassesToolSchema,
         predictRadioPassesToolSchema,
+        computeDopplerToolSchema,
+        getGroundTrackToolSchema,
+        getFootprintToolSchema,
+        screenConjunctionsToolSchema,
+        planPassScheduleToolSchema,
+        planNetworkScheduleToolSchema,
         getSatellitesAboveToolSchema,
         searchSatellitesByNameToolSchema,
         searchSatellitesByCategoryToolSchema,
+        importElementsToolSchema,
+        getTLEHistoryToolSchema,
+        estimateDecayToolSchema,
+        getApiUsageToolSchema,
+        importCatalogToolSchema,
+        importTransmittersToolSchema,
+        createObserverProfileToolSchema,
+        listObserverProfilesToolSchema,
+        setHorizonMaskToolSchema,
+        deleteObserverProfileToolSchema,
+        createPassAlertToolSchema,
+        listPassAlertsToolSchema,
+        cancelPassAlertToolSchema,
       ],
     }));
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const apiClient = this.getApiClient();
-
+    // Tool calls in progress are tracked so that a shutdown lets them finish their writes
+    this.server.setRequestHandler(CallToolRequestSchema, (request) => this.track(async () => {
       switch (request.params.name) {
         case 'get_satellite_position':
-          return getSatellitePositionTool(apiClient, request.params.arguments as any);
+          return getSatellitePositionTool(this.getProviders(), this.profiles, request.params.arguments as any);
 
         case 'get_satellite_tle':
-          return getSatelliteTLETool(apiClient, request.params.arguments as any);
+          return getSatelliteTLETool(this.getProviders(), request.params.arguments as any);
 
         case 'predict_visual_passes':
-          return predictVisualPassesTool(apiClient, request.params.arguments as any);
+          return predictVisualPassesTool(this.getProviders(), this.profiles, this.calendarUids, request.params.arguments as any);
 
         case 'predict_radio_passes':
-          return predictRadioPassesTool(apiClient, request.params.arguments as any);
+          return predictRadioPassesTool(this.getProviders(), this.profiles, this.transmitters, this.calendarUids, request.params.arguments as any);
+
+        case 'compute_doppler':
+          return computeDopplerTool(this.getProviders(), this.profiles, request.params.arguments as any);
+
+        case 'get_ground_track':
+          return getGroundTrackTool(this.getProviders(), request.params.arguments as any);
+
+        case 'get_footprint':
+          return getFootprintTool(this.getProviders(), request.params.arguments as any);
+
+        case 'screen_conjunctions':
+          return screenConjunctionsTool(this.getProviders(), this.celestrak, request.params.arguments as any);
+
+        case 'plan_pass_schedule':
+          return planPassScheduleTool(this.getProviders(), this.profiles, request.params.arguments as any);
+
+        case 'plan_network_schedule':
+          return planNetworkScheduleTool(this.getProviders(), this.profiles, request.params.arguments as any);
 
         case 'get_satellites_above':
-          return getSatellitesAboveTool(apiClient, request.params.arguments as any);
+          return getSatellitesAboveTool(this.getProviders(), this.catalog, this.profiles, request.params.arguments as any);
 
         case 'search_satellites_by_name':
-          return searchSatellitesByNameTool(apiClient, request.params.arguments as any);
+          return searchSatellitesByNameTool(this.catalog, request.params.arguments as any);
 
         case 'search_satellites_by_category':
-          return searchSatellitesByCategoryTool(apiClient, request.params.arguments as any);
+          return searchSatellitesByCategoryTool(this.getProviders(), request.params.arguments as any);
+
+        case 'import_elements':
+          return importElementsTool(this.elementStore, request.params.arguments as any);
+
+        case 'get_tle_history':
+          return getTLEHistoryTool(this.history, request.params.arguments as any);
+
+        case 'estimate_decay':
+          return estimateDecayTool(this.getProviders(), this.history, request.params.arguments as any);
+
+        case 'get_api_usage':
+          return getApiUsageTool(this.quota, request.params.arguments as any);
+
+        case 'import_catalog':
+          return importCatalogTool(this.catalog, request.params.arguments as any);
+
+        case 'import_transmitters':
+          return importTransmittersTool(this.transmitters, request.params.arguments as any);
+
+        case 'create_observer_profile':
+          return createObserverProfileTool(this.profiles, request.params.arguments as any);
+
+        case 'list_observer_profiles':
+          return listObserverProfilesTool(this.profiles);
+
+        case 'set_horizon_mask':
+          return setHorizonMaskTool(this.profiles, request.params.arguments as any);
+
+        case 'delete_observer_profile':
+          return deleteObserverProfileTool(this.profiles, request.params.arguments as any);
+
+        case 'create_pass_alert':
+          return createPassAlertTool(this.getProviders(), this.profiles, this.alerts, this.alertScheduler, request.params.arguments as any);
+
+        case 'list_pass_alerts':
+          return listPassAlertsTool(this.alerts, this.alertScheduler);
+
+        case 'cancel_pass_alert':
+          return cancelPassAlertTool(this.alerts, this.alertScheduler, request.params.arguments as any);
 
         default:
           throw new McpError(
@@ -111,14 +345,18 @@ class SatelliteTrackingServer {
             `Unknown tool: ${request.params.name}`
           );
       }
-    });
+    }));
 
     // List resource templates
     this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
       resourceTemplates: [
         satelliteResourceTemplate,
+        satelliteCatalogResourceTemplate,
+        satelliteTransmittersResourceTemplate,
+        ...satelliteTrackResourceTemplates,
         satellitesCategoryResourceTemplate,
         satellitesAboveResourceTemplate,
+        passesCalendarResourceTemplate,
       ],
     }));
 
@@ -127,42 +365,146 @@ class SatelliteTrackingServer {
       resources: [],
     }));
 
-    // Handle resource requests
+    // Handle resource requests, serving subscribed resources from their last refresh
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const apiClient = this.getApiClient();
       const uri = request.params.uri;
-
-      let content: string;
-
-      if (uri.startsWith('satellite://')) {
-        content = await getSatelliteResource(apiClient, uri);
-      } else if (uri.startsWith('satellites://category/')) {
-        content = await getSatellitesCategoryResource(apiClient, uri);
-      } else if (uri.startsWith('satellites://above/')) {
-        content = await getSatellitesAboveResource(apiClient, uri);
-      } else {
-        throw new McpError(
-          ErrorCode.InvalidRequest,
-          `Unsupported resource URI: ${uri}`
-        );
-      }
+      const cached = this.subscriptions.cached(uri);
+      const { content, mimeType } = cached !== null
+        ? { content: cached, mimeType: 'application/json' }
+        : await this.readResource(uri);
 
       return {
         contents: [
           {
             uri: request.params.uri,
-            mimeType: 'application/json',
+            mimeType,
             text: content,
           },
         ],
       };
     });
+
+    // Handle resource subscriptions
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.subscribe(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    // Handle the client's log level
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.logLevel = request.params.level;
+      return {};
+    });
+  }
+
+  /**
+   * Send a log message to the client, unless it is below the level the client asked for
+   */
+  private async sendLog(level: LoggingLevel, logger: string, data: unknown): Promise<void> {
+    const levels = LoggingLevelSchema.options;
+    if (levels.indexOf(level) < levels.indexOf(this.logLevel)) {
+      return;
+    }
+    await this.server.sendLoggingMessage({ level, logger, data });
+  }
+
+  private async readResource(uri: string): Promise<{ content: string; mimeType: string }> {
+    let content: string;
+    let mimeType = 'application/json';
+
+    if (/^satellite:\/\/\d+\/catalog$/.test(uri)) {
+      content = await getSatelliteCatalogResource(this.catalog, uri);
+    } else if (/^satellite:\/\/\d+\/transmitters$/.test(uri)) {
+      content = await getSatelliteTransmittersResource(this.transmitters, uri);
+    } else if (/^satellite:\/\/\d+\/track\.(json|czml|kml)$/.test(uri)) {
+      content = await getSatelliteTrackResource(this.getProviders(), uri);
+      mimeType = satelliteTrackMimeType(uri);
+    } else if (uri.startsWith('satellite://')) {
+      content = await getSatelliteResource(this.getProviders(), uri);
+    } else if (uri.startsWith('satellites://category/')) {
+      content = await getSatellitesCategoryResource(this.getProviders(), uri);
+    } else if (uri.startsWith('satellites://above/')) {
+      content = await getSatellitesAboveResource(this.getProviders(), uri);
+    } else if (uri.startsWith('passes://')) {
+      content = await getPassesCalendarResource(this.getProviders(), this.calendarUids, uri);
+      mimeType = passesCalendarResourceTemplate.mimeType;
+    } else {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Unsupported resource URI: ${uri}`
+      );
+    }
+
+    return { content, mimeType };
   }
 
   async run() {
+    await this.importConfiguredCatalog();
+    await this.importConfiguredElements();
+    await this.importConfiguredTransmitters();
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('Satellite Tracking MCP server running on stdio');
+
+    // Pass alerts saved before a restart resume once a client is connected to notify
+    await this.alertScheduler.start();
+  }
+
+  private async importConfiguredCatalog() {
+    const directory = process.env.CATALOG_IMPORT_DIR;
+    if (!directory) {
+      return;
+    }
+
+    try {
+      const report = await this.catalog.importPath(directory);
+      console.error(
+        `Imported satellite catalog from ${directory} (${report.added} added, ${report.updated} updated, ${report.errors.length} errors)`
+      );
+      report.errors.forEach(error => console.error(`[Catalog Error] ${error.file}:${error.line ?? '-'} ${error.message}`));
+    } catch (error) {
+      console.error(`Error importing satellite catalog from ${directory}:`, error);
+    }
+  }
+
+  private async importConfiguredElements() {
+    const directory = process.env.ELEMENTS_IMPORT_DIR;
+    if (!directory) {
+      return;
+    }
+
+    try {
+      const report = await this.elementStore.importPath(directory);
+      console.error(
+        `Imported ${report.imported.length} element sets from ${directory} (${report.errors.length} errors, ${report.skipped.length} skipped)`
+      );
+      report.errors.forEach(error => console.error(`[Import Error] ${error.file}:${error.line ?? '-'} ${error.message}`));
+    } catch (error) {
+      console.error(`Error importing element sets from ${directory}:`, error);
+    }
+  }
+
+  private async importConfiguredTransmitters() {
+    const directory = process.env.TRANSMITTERS_IMPORT_DIR;
+    if (!directory) {
+      return;
+    }
+
+    try {
+      const report = await this.transmitters.importPath(directory);
+      console.error(
+        `Imported transmitters from ${directory} (${report.added} added, ${report.updated} updated, ${report.errors.length} errors)`
+      );
+      report.errors.forEach(error => console.error(`[Transmitter Error] ${error.file}: ${error.message}`));
+    } catch (error) {
+      console.error(`Error importing transmitters from ${directory}:`, error);
+    }
   }
 }
 
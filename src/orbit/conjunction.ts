@@ -0,0 +1,158 @@
+import { cross, dot, magnitude, subtract } from './coordinates.js';
+import { LocalSatellite, propagateState } from './propagator.js';
+import { StateVector, Vector3 } from './sgp4.js';
+import { orbitGeometry } from './tle.js';
+
+// Upper bound on the relative speed of two earth orbiting objects (head-on LEO), km/s
+const MAX_RELATIVE_SPEED_KM_S = 16;
+// Mean-element altitudes differ from osculating ones by up to a few tens of km
+const ALTITUDE_FILTER_MARGIN_KM = 30;
+// Time tolerance when refining the time of closest approach
+const TCA_TOLERANCE_MS = 1;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// Interface for the perigee and apogee altitudes of an orbit
+export interface AltitudeShell {
+  perigee: number; // km
+  apogee: number; // km
+}
+
+// Interface for states of a satellite sampled at fixed times
+export interface StateSamples {
+  times: number[]; // ms
+  states: StateVector[];
+}
+
+// Interface for a close approach between two satellites
+export interface Conjunction {
+  tca: number; // ms
+  missDistance: number; // km
+  relativeSpeed: number; // km/s
+  // Secondary position relative to the primary in the primary's orbital frame, km
+  radial: number;
+  inTrack: number;
+  crossTrack: number;
+}
+
+/**
+ * Perigee and apogee altitudes of a satellite from its mean elements
+ */
+export function altitudeShell(satellite: LocalSatellite): AltitudeShell {
+  const { perigee, apogee } = orbitGeometry(satellite.elements);
+  return { perigee, apogee };
+}
+
+/**
+ * Apogee/perigee filter: whether two orbits can come within the threshold
+ * of each other at all
+ */
+export function shellsOverlap(a: AltitudeShell, b: AltitudeShell, thresholdKm: number): boolean {
+  const gap = Math.max(a.perigee, b.perigee) - Math.min(a.apogee, b.apogee);
+  return gap <= thresholdKm + ALTITUDE_FILTER_MARGIN_KM;
+}
+
+/**
+ * Propagate a satellite at a fixed step from start to end, always
+ * including the end point
+ */
+export function sampleStates(satellite: LocalSatellite, start: Date, end: Date, stepSeconds: number): StateSamples {
+  const times: number[] = [];
+  const endMs = end.getTime();
+
+  for (let t = start.getTime(); t < endMs; t += stepSeconds * 1000) {
+    times.push(t);
+  }
+  times.push(endMs);
+
+  return {
+    times,
+    states: times.map(t => propagateState(satellite, new Date(t))),
+  };
+}
+
+function unit(v: Vector3): Vector3 {
+  const length = magnitude(v);
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
+
+/**
+ * Miss vector and relative velocity of the secondary with respect to the
+ * primary, with the miss vector resolved in the primary's radial,
+ * in-track and cross-track directions
+ */
+export function relativeMotion(primary: StateVector, secondary: StateVector): Omit<Conjunction, 'tca'> {
+  const offset = subtract(secondary.position, primary.position);
+  const radialAxis = unit(primary.position);
+  const crossTrackAxis = unit(cross(primary.position, primary.velocity));
+  const inTrackAxis = cross(crossTrackAxis, radialAxis);
+
+  return {
+    missDistance: magnitude(offset),
+    relativeSpeed: magnitude(subtract(secondary.velocity, primary.velocity)),
+    radial: dot(offset, radialAxis),
+    inTrack: dot(offset, inTrackAxis),
+    crossTrack: dot(offset, crossTrackAxis),
+  };
+}
+
+/**
+ * Find every close approach of the secondary to the primary under the
+ * threshold. Local minima of the sampled distance are refined with a
+ * golden-section search between the neighbouring samples; minima that
+ * cannot dip under the threshold between samples are skipped.
+ */
+export function findConjunctions(
+  primary: LocalSatellite,
+  primarySamples: StateSamples,
+  secondary: LocalSatellite,
+  thresholdKm: number
+): Conjunction[] {
+  const { times, states } = primarySamples;
+  const distances = times.map((t, i) => magnitude(subtract(propagateState(secondary, new Date(t)).position, states[i].position)));
+  const distanceAt = (t: number) => magnitude(subtract(
+    propagateState(secondary, new Date(t)).position,
+    propagateState(primary, new Date(t)).position
+  ));
+
+  const conjunctions: Conjunction[] = [];
+  for (let i = 0; i < times.length; i++) {
+    const isMinimum = (i === 0 || distances[i] < distances[i - 1]) &&
+      (i === times.length - 1 || distances[i] <= distances[i + 1]);
+    const stepMs = Math.max(times[i] - (times[i - 1] ?? times[i]), (times[i + 1] ?? times[i]) - times[i]);
+    if (!isMinimum || distances[i] - MAX_RELATIVE_SPEED_KM_S * stepMs / 1000 > thresholdKm) {
+      continue;
+    }
+
+    // Golden-section search for the closest approach between the neighbouring samples
+    let low = times[i - 1] ?? times[i];
+    let high = times[i + 1] ?? times[i];
+    let a = high - GOLDEN_RATIO * (high - low);
+    let b = low + GOLDEN_RATIO * (high - low);
+    let fa = distanceAt(a);
+    let fb = distanceAt(b);
+    while (high - low > TCA_TOLERANCE_MS) {
+      if (fa < fb) {
+        high = b;
+        b = a;
+        fb = fa;
+        a = high - GOLDEN_RATIO * (high - low);
+        fa = distanceAt(a);
+      } else {
+        low = a;
+        a = b;
+        fa = fb;
+        b = low + GOLDEN_RATIO * (high - low);
+        fb = distanceAt(b);
+      }
+    }
+
+    const tca = (low + high) / 2;
+    const date = new Date(tca);
+    const motion = relativeMotion(propagateState(primary, date), propagateState(secondary, date));
+    if (motion.missDistance <= thresholdKm) {
+      conjunctions.push({ tca, ...motion });
+    }
+  }
+
+  return conjunctions;
+}
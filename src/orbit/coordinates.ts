@@ -0,0 +1,190 @@
+import { DEG2RAD, RAD2DEG, TWO_PI, Vector3 } from './sgp4.js';
+
+// WGS-84 ellipsoid used for geodetic conversions
+const WGS84_A = 6378.137; // km
+const WGS84_F = 1 / 298.257223563;
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+
+// Interface for a ground observer
+export interface Observer {
+  latitude: number; // degrees
+  longitude: number; // degrees
+  altitude: number; // meters
+}
+
+// Interface for geodetic coordinates of a point above the Earth
+export interface Geodetic {
+  latitude: number; // degrees
+  longitude: number; // degrees
+  altitude: number; // km
+}
+
+// Interface for topocentric look angles
+export interface LookAngles {
+  azimuth: number; // degrees, 0 = north, clockwise
+  elevation: number; // degrees
+  range: number; // km
+}
+
+/**
+ * Rotate a TEME (earth-centered inertial) vector into the earth-fixed frame
+ */
+export function eciToEcf(eci: Vector3, gmst: number): Vector3 {
+  const cosG = Math.cos(gmst);
+  const sinG = Math.sin(gmst);
+  return {
+    x: eci.x * cosG + eci.y * sinG,
+    y: -eci.x * sinG + eci.y * cosG,
+    z: eci.z,
+  };
+}
+
+/**
+ * Rotate an earth-fixed vector into the TEME (earth-centered inertial) frame
+ */
+export function ecfToEci(ecf: Vector3, gmst: number): Vector3 {
+  const cosG = Math.cos(gmst);
+  const sinG = Math.sin(gmst);
+  return {
+    x: ecf.x * cosG - ecf.y * sinG,
+    y: ecf.x * sinG + ecf.y * cosG,
+    z: ecf.z,
+  };
+}
+
+/**
+ * Convert an earth-fixed position (km) to geodetic latitude/longitude/altitude
+ */
+export function ecfToGeodetic(ecf: Vector3): Geodetic {
+  const longitude = Math.atan2(ecf.y, ecf.x);
+  const p = Math.sqrt(ecf.x * ecf.x + ecf.y * ecf.y);
+
+  let latitude = Math.atan2(ecf.z, p * (1 - WGS84_E2));
+  let altitude = 0;
+  for (let i = 0; i < 10; i++) {
+    const sinLat = Math.sin(latitude);
+    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+    altitude = p / Math.cos(latitude) - n;
+    const next = Math.atan2(ecf.z, p * (1 - (WGS84_E2 * n) / (n + altitude)));
+    if (Math.abs(next - latitude) < 1e-12) {
+      latitude = next;
+      break;
+    }
+    latitude = next;
+  }
+
+  // Near the poles the cos(latitude) form above loses precision
+  if (Math.abs(latitude) > 80 * DEG2RAD) {
+    const sinLat = Math.sin(latitude);
+    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+    altitude = ecf.z / sinLat - n * (1 - WGS84_E2);
+  }
+
+  return {
+    latitude: latitude * RAD2DEG,
+    longitude: longitude * RAD2DEG,
+    altitude,
+  };
+}
+
+/**
+ * Convert an observer location to an earth-fixed position (km)
+ */
+export function observerToEcf(observer: Observer): Vector3 {
+  const lat = observer.latitude * DEG2RAD;
+  const lng = observer.longitude * DEG2RAD;
+  const alt = observer.altitude / 1000;
+  const sinLat = Math.sin(lat);
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+
+  return {
+    x: (n + alt) * Math.cos(lat) * Math.cos(lng),
+    y: (n + alt) * Math.cos(lat) * Math.sin(lng),
+    z: (n * (1 - WGS84_E2) + alt) * sinLat,
+  };
+}
+
+/**
+ * Rotate an earth-fixed range vector into the observer's south/east/zenith frame
+ */
+export function ecfToTopocentric(observer: Observer, rangeEcf: Vector3): Vector3 {
+  const lat = observer.latitude * DEG2RAD;
+  const lng = observer.longitude * DEG2RAD;
+  const sinLat = Math.sin(lat);
+  const cosLat = Math.cos(lat);
+  const sinLng = Math.sin(lng);
+  const cosLng = Math.cos(lng);
+
+  return {
+    x: sinLat * cosLng * rangeEcf.x + sinLat * sinLng * rangeEcf.y - cosLat * rangeEcf.z, // south
+    y: -sinLng * rangeEcf.x + cosLng * rangeEcf.y, // east
+    z: cosLat * cosLng * rangeEcf.x + cosLat * sinLng * rangeEcf.y + sinLat * rangeEcf.z, // zenith
+  };
+}
+
+/**
+ * Azimuth, elevation and range from an observer to an earth-fixed position
+ */
+export function lookAngles(observer: Observer, satelliteEcf: Vector3): LookAngles {
+  const observerEcf = observerToEcf(observer);
+  const sez = ecfToTopocentric(observer, subtract(satelliteEcf, observerEcf));
+  const range = magnitude(sez);
+
+  let azimuth = Math.atan2(sez.y, -sez.x) * RAD2DEG;
+  if (azimuth < 0) {
+    azimuth += 360;
+  }
+
+  return {
+    azimuth,
+    elevation: Math.asin(sez.z / range) * RAD2DEG,
+    range,
+  };
+}
+
+/**
+ * Topocentric right ascension and declination (degrees) of an inertial position
+ */
+export function topocentricRaDec(observer: Observer, satelliteEci: Vector3, gmst: number): { ra: number; dec: number } {
+  const observerEci = ecfToEci(observerToEcf(observer), gmst);
+  const rho = subtract(satelliteEci, observerEci);
+
+  let ra = Math.atan2(rho.y, rho.x);
+  if (ra < 0) {
+    ra += TWO_PI;
+  }
+
+  return {
+    ra: ra * RAD2DEG,
+    dec: Math.asin(rho.z / magnitude(rho)) * RAD2DEG,
+  };
+}
+
+/**
+ * 16-point compass direction for an azimuth in degrees
+ */
+export function azimuthToCompass(azimuth: number): string {
+  const points = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW'];
+  const index = Math.round((((azimuth % 360) + 360) % 360) / 22.5) % 16;
+  return points[index];
+}
+
+export function subtract(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+export function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+export function magnitude(v: Vector3): number {
+  return Math.sqrt(dot(v, v));
+}
+
+export function cross(a: Vector3, b: Vector3): Vector3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
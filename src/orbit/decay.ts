@@ -0,0 +1,153 @@
+import { EARTH_RADIUS_KM, MU } from './sgp4.js';
+import { TLEElements, orbitGeometry } from './tle.js';
+
+// Reference solar flux (F10.7, solar flux units) the density table corresponds to
+export const REFERENCE_SOLAR_FLUX = 150;
+// Altitude at which a satellite is considered to have reentered, km
+export const REENTRY_ALTITUDE_KM = 120;
+// Lifetimes beyond this are reported as "more than"
+export const MAX_LIFETIME_DAYS = 100 * 365.25;
+// Cd·A/m (m²/kg) per unit of B* (1/earth radii), from the SGP4 reference density
+const BSTAR_TO_BALLISTIC = 12.741621;
+// Largest change of semi-major axis per integration step, km
+const MAX_STEP_KM = 1;
+
+// Piecewise exponential atmosphere (CIRA-72 / US Standard 1976, as tabulated by Vallado):
+// base altitude (km), base density (kg/m³), scale height (km)
+const DENSITY_TABLE: [number, number, number][] = [
+  [0, 1.225, 7.249],
+  [25, 3.899e-2, 6.349],
+  [30, 1.774e-2, 6.682],
+  [40, 3.972e-3, 7.554],
+  [50, 1.057e-3, 8.382],
+  [60, 3.206e-4, 7.714],
+  [70, 8.770e-5, 6.549],
+  [80, 1.905e-5, 5.799],
+  [90, 3.396e-6, 5.382],
+  [100, 5.297e-7, 5.877],
+  [110, 9.661e-8, 7.263],
+  [120, 2.438e-8, 9.473],
+  [130, 8.484e-9, 12.636],
+  [140, 3.845e-9, 16.149],
+  [150, 2.070e-9, 22.523],
+  [180, 5.464e-10, 29.740],
+  [200, 2.789e-10, 37.105],
+  [250, 7.248e-11, 45.546],
+  [300, 2.418e-11, 53.628],
+  [350, 9.518e-12, 53.298],
+  [400, 3.725e-12, 58.515],
+  [450, 1.585e-12, 60.828],
+  [500, 6.967e-13, 63.822],
+  [600, 1.454e-13, 71.835],
+  [700, 3.614e-14, 88.667],
+  [800, 1.170e-14, 124.64],
+  [900, 5.245e-15, 181.05],
+  [1000, 3.019e-15, 268.00],
+];
+
+/**
+ * Atmospheric density (kg/m³) at an altitude. Above 120 km the table is
+ * scaled with solar activity by exp((F10.7 - 150) / 80), phased in up to
+ * 200 km, which spans about an order of magnitude from solar minimum to maximum.
+ */
+export function atmosphericDensity(altitudeKm: number, solarFlux: number = REFERENCE_SOLAR_FLUX): number {
+  const altitude = Math.max(0, altitudeKm);
+  let index = DENSITY_TABLE.length - 1;
+  while (index > 0 && DENSITY_TABLE[index][0] > altitude) {
+    index--;
+  }
+
+  const [base, density, scaleHeight] = DENSITY_TABLE[index];
+  const weight = Math.min(1, Math.max(0, (altitude - 120) / 80));
+  return density * Math.exp(-(altitude - base) / scaleHeight) * Math.exp(weight * (solarFlux - REFERENCE_SOLAR_FLUX) / 80);
+}
+
+/**
+ * Ballistic coefficient Cd·A/m (m²/kg) implied by a TLE's B* drag term
+ */
+export function ballisticCoefficientFromBstar(bstar: number): number {
+  return BSTAR_TO_BALLISTIC * bstar;
+}
+
+/**
+ * Rate of change of the semi-major axis (km/day, negative when decaying)
+ * of a circular orbit under drag
+ */
+export function decayRate(semiMajorAxis: number, ballisticCoefficient: number, solarFlux: number = REFERENCE_SOLAR_FLUX): number {
+  const density = atmosphericDensity(semiMajorAxis - EARTH_RADIUS_KM, solarFlux);
+  // ρ·B in 1/km times sqrt(μa) in km²/s gives km/s
+  return -density * ballisticCoefficient * 1000 * Math.sqrt(MU * semiMajorAxis) * 86400;
+}
+
+/**
+ * Ballistic coefficient (m²/kg) that explains an observed decay rate (km/day)
+ * at a semi-major axis under the density model
+ */
+export function ballisticCoefficientFromDecayRate(semiMajorAxis: number, rate: number, solarFlux: number = REFERENCE_SOLAR_FLUX): number {
+  return rate / decayRate(semiMajorAxis, 1, solarFlux);
+}
+
+/**
+ * Decay rate of the semi-major axis (km/day) implied by a TLE's first
+ * derivative of mean motion (a ∝ n^-2/3, so da/dt = -2/3 · a · ṅ / n)
+ */
+export function meanMotionDecayRate(elements: TLEElements): number {
+  const { semiMajorAxis } = orbitGeometry(elements);
+  // The published first derivative is half the mean motion rate
+  return -(2 / 3) * semiMajorAxis * (2 * elements.meanMotionDot) / elements.meanMotion;
+}
+
+/**
+ * Observed decay rate of the semi-major axis (km/day): least-squares slope
+ * through a series of element sets in epoch order
+ */
+export function observedDecayRate(history: TLEElements[]): number | null {
+  if (history.length < 2) {
+    return null;
+  }
+
+  const t0 = history[0].epoch.getTime();
+  const points = history.map(elements => ({
+    x: (elements.epoch.getTime() - t0) / 86400000,
+    y: orbitGeometry(elements).semiMajorAxis,
+  }));
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const sxx = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  if (sxx === 0) {
+    return null;
+  }
+
+  return points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0) / sxx;
+}
+
+/**
+ * Days until the semi-major axis of a circular orbit decays to the reentry
+ * altitude, or null when that takes longer than MAX_LIFETIME_DAYS
+ */
+export function orbitalLifetimeDays(
+  semiMajorAxis: number,
+  ballisticCoefficient: number,
+  solarFlux: number = REFERENCE_SOLAR_FLUX
+): number | null {
+  const reentry = EARTH_RADIUS_KM + REENTRY_ALTITUDE_KM;
+  let a = semiMajorAxis;
+  let days = 0;
+
+  while (a > reentry) {
+    // Step the semi-major axis down by at most MAX_STEP_KM, using the decay rate halfway through the step
+    const step = Math.min(MAX_STEP_KM, a - reentry);
+    const rate = decayRate(a - step / 2, ballisticCoefficient, solarFlux);
+    if (rate >= 0) {
+      return null;
+    }
+
+    days += step / -rate;
+    a -= step;
+    if (days > MAX_LIFETIME_DAYS) {
+      return null;
+    }
+  }
+
+  return days;
+}
@@ -0,0 +1,118 @@
+import { LookAngles, Observer, dot, ecfToEci, eciToEcf, lookAngles, magnitude, observerToEcf, subtract } from './coordinates.js';
+import { LocalSatellite, propagateState } from './propagator.js';
+import { dateToJulian, gstime } from './sgp4.js';
+
+export const SPEED_OF_LIGHT_KM_S = 299792.458;
+
+// Earth rotation rate (rad/s) used to move the observer through inertial space
+const EARTH_ROTATION_RAD_S = 7.292115e-5;
+
+// How a linear transponder maps its uplink passband onto its downlink passband
+export type TransponderMode = 'none' | 'inverting' | 'non_inverting';
+
+// Interface for topocentric geometry including the line-of-sight velocity
+export interface RangeRate extends LookAngles {
+  rangeRate: number; // km/s, positive when the satellite is moving away
+}
+
+// Interface for the nominal frequencies at the satellite (Hz)
+export interface DopplerFrequencies {
+  uplink?: number;
+  downlink?: number;
+  transponder?: TransponderMode;
+}
+
+// Interface for Doppler-corrected frequencies at one instant (Hz)
+export interface DopplerSample extends RangeRate {
+  downlink: number | null; // frequency to receive on to hear the nominal downlink
+  uplink: number | null; // frequency to transmit on so the satellite hears the nominal uplink
+  fixedUplinkDownlink: number | null; // where our own signal comes back when transmitting on the nominal uplink
+}
+
+/**
+ * Look angles and range rate of a satellite from an observer at a date.
+ * Both positions and velocities are taken in the inertial frame, so the
+ * observer's motion with the rotating Earth is included.
+ */
+export function computeRangeRate(satellite: LocalSatellite, observer: Observer, date: Date): RangeRate {
+  const { position, velocity } = propagateState(satellite, date);
+  const gmst = gstime(dateToJulian(date));
+
+  const observerEci = ecfToEci(observerToEcf(observer), gmst);
+  const observerVelocity = {
+    x: -EARTH_ROTATION_RAD_S * observerEci.y,
+    y: EARTH_ROTATION_RAD_S * observerEci.x,
+    z: 0,
+  };
+
+  const rho = subtract(position, observerEci);
+  const rhoRate = subtract(velocity, observerVelocity);
+
+  return {
+    ...lookAngles(observer, eciToEcf(position, gmst)),
+    rangeRate: dot(rho, rhoRate) / magnitude(rho),
+  };
+}
+
+/**
+ * Ratio of received to transmitted frequency for a given range rate (first order)
+ */
+export function dopplerFactor(rangeRate: number): number {
+  return 1 - rangeRate / SPEED_OF_LIGHT_KM_S;
+}
+
+/**
+ * Doppler-corrected uplink and downlink frequencies (Hz) for one instant.
+ *
+ * For a linear transponder the satellite retransmits whatever it hears, so an
+ * uncorrected uplink shifts the downlink too: by the same amount through a
+ * non-inverting transponder and by the opposite amount through an inverting one.
+ */
+export function dopplerSample(
+  geometry: RangeRate,
+  frequencies: DopplerFrequencies
+): DopplerSample {
+  const factor = dopplerFactor(geometry.rangeRate);
+  const { uplink, downlink } = frequencies;
+  const transponder = frequencies.transponder || 'none';
+
+  let fixedUplinkDownlink: number | null = null;
+  if (transponder !== 'none' && uplink !== undefined && downlink !== undefined) {
+    const uplinkError = uplink * factor - uplink;
+    const retransmitted = transponder === 'inverting' ? downlink - uplinkError : downlink + uplinkError;
+    fixedUplinkDownlink = retransmitted * factor;
+  }
+
+  return {
+    ...geometry,
+    downlink: downlink !== undefined ? downlink * factor : null,
+    uplink: uplink !== undefined ? uplink / factor : null,
+    fixedUplinkDownlink,
+  };
+}
+
+/**
+ * Doppler table over a time window at a fixed step (the end time is always included)
+ */
+export function computeDopplerTable(
+  satellite: LocalSatellite,
+  observer: Observer,
+  start: Date,
+  end: Date,
+  stepSeconds: number,
+  frequencies: DopplerFrequencies
+): Array<DopplerSample & { timestamp: number }> {
+  const samples: Array<DopplerSample & { timestamp: number }> = [];
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+
+  for (let t = startMs; ; t = Math.min(t + stepSeconds * 1000, endMs)) {
+    const geometry = computeRangeRate(satellite, observer, new Date(t));
+    samples.push({ timestamp: t, ...dopplerSample(geometry, frequencies) });
+    if (t >= endMs) {
+      break;
+    }
+  }
+
+  return samples;
+}
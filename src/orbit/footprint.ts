@@ -0,0 +1,229 @@
+import { GroundTrackPoint } from './ground-track.js';
+import { DEG2RAD, RAD2DEG } from './sgp4.js';
+
+// Mean Earth radius used for footprint geometry (km)
+export const EARTH_MEAN_RADIUS_KM = 6371.0088;
+
+// Vertices used to draw a full footprint circle
+const CIRCLE_VERTICES = 120;
+
+// Interface for the footprint of a satellite at one instant
+export interface Footprint {
+  latitude: number; // sub-satellite point, degrees
+  longitude: number; // degrees
+  altitude: number; // km
+  minElevation: number; // degrees
+  halfAngle: number; // Earth central angle from the sub-satellite point to the edge, degrees
+  radiusKm: number; // great-circle distance from the sub-satellite point to the edge
+}
+
+// Interface for a GeoJSON footprint or swath geometry
+export type FootprintGeometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+/**
+ * Earth central angle (radians) between the sub-satellite point and the
+ * points that see the satellite at `minElevation` degrees
+ */
+export function footprintHalfAngle(altitudeKm: number, minElevation: number): number {
+  const elevation = minElevation * DEG2RAD;
+  return Math.acos(EARTH_MEAN_RADIUS_KM / (EARTH_MEAN_RADIUS_KM + altitudeKm) * Math.cos(elevation)) - elevation;
+}
+
+/**
+ * Footprint of a satellite above a sub-satellite point
+ */
+export function computeFootprint(latitude: number, longitude: number, altitudeKm: number, minElevation: number): Footprint {
+  const halfAngle = Math.max(0, footprintHalfAngle(altitudeKm, minElevation));
+
+  return {
+    latitude,
+    longitude,
+    altitude: altitudeKm,
+    minElevation,
+    halfAngle: halfAngle * RAD2DEG,
+    radiusKm: halfAngle * EARTH_MEAN_RADIUS_KM,
+  };
+}
+
+/**
+ * Point at an angular distance (radians) and bearing (radians) from a start point, in degrees
+ */
+function destination(latitude: number, longitude: number, bearing: number, distance: number): [number, number] {
+  const lat1 = latitude * DEG2RAD;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(distance) + Math.cos(lat1) * Math.sin(distance) * Math.cos(bearing));
+  const lng2 = longitude * DEG2RAD + Math.atan2(
+    Math.sin(bearing) * Math.sin(distance) * Math.cos(lat1),
+    Math.cos(distance) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return [lng2 * RAD2DEG, lat2 * RAD2DEG];
+}
+
+/**
+ * Initial bearing (radians) from one point to another
+ */
+function bearing(from: GroundTrackPoint, to: GroundTrackPoint): number {
+  const lat1 = from.latitude * DEG2RAD;
+  const lat2 = to.latitude * DEG2RAD;
+  const dLng = (to.longitude - from.longitude) * DEG2RAD;
+  return Math.atan2(
+    Math.sin(dLng) * Math.cos(lat2),
+    Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng)
+  );
+}
+
+/**
+ * Make longitudes continuous along a ring (no jumps of more than 180°)
+ */
+function unwrap(ring: [number, number][]): [number, number][] {
+  const result: [number, number][] = [];
+  for (const [lng, lat] of ring) {
+    if (result.length === 0) {
+      result.push([lng, lat]);
+      continue;
+    }
+    const prev = result[result.length - 1][0];
+    result.push([lng + 360 * Math.round((prev - lng) / 360), lat]);
+  }
+  return result;
+}
+
+/**
+ * Sutherland-Hodgman clip of a ring against the half-plane `sign * (lng - edge) <= 0`
+ */
+function clipLongitude(ring: [number, number][], edge: number, sign: 1 | -1): [number, number][] {
+  const inside = (point: [number, number]) => sign * (point[0] - edge) <= 0;
+  const result: [number, number][] = [];
+
+  for (let i = 0; i < ring.length; i++) {
+    const current = ring[i];
+    const previous = ring[(i + ring.length - 1) % ring.length];
+    if (inside(current) !== inside(previous)) {
+      const fraction = (edge - previous[0]) / (current[0] - previous[0]);
+      result.push([edge, previous[1] + fraction * (current[1] - previous[1])]);
+    }
+    if (inside(current)) {
+      result.push(current);
+    }
+  }
+
+  return result;
+}
+
+function round6(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Close a ring and orient it counterclockwise, as RFC 7946 asks of exterior rings
+ */
+function closeRing(ring: [number, number][]): number[][] {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  const oriented = area < 0 ? [...ring].reverse() : ring;
+  const coordinates = oriented.map(([lng, lat]) => [round6(lng), round6(lat)]);
+  return [...coordinates, coordinates[0]];
+}
+
+/**
+ * Turn a ring on the sphere into GeoJSON. Rings that wind around a pole are
+ * closed over that pole, and rings crossing the antimeridian are cut at ±180°
+ * into a MultiPolygon.
+ */
+export function ringToGeoJSON(ring: [number, number][]): FootprintGeometry {
+  let unwrapped = unwrap(ring);
+
+  // A ring around a pole spans 360° of longitude: close it over the pole
+  const first = unwrapped[0];
+  const last = unwrapped[unwrapped.length - 1];
+  const closing = first[0] - last[0];
+  const winding = last[0] - first[0] + closing - 360 * Math.round(closing / 360);
+  if (winding !== 0) {
+    const pole = unwrapped.reduce((total, [, lat]) => total + lat, 0) >= 0 ? 90 : -90;
+    unwrapped = [
+      ...unwrapped,
+      [first[0] + winding, first[1]],
+      [first[0] + winding, pole],
+      [first[0], pole],
+    ];
+  }
+
+  // Cut into 360° windows and shift each piece back into [-180, 180]
+  const lngs = unwrapped.map(([lng]) => lng);
+  const minWindow = Math.floor((Math.min(...lngs) + 180) / 360);
+  const maxWindow = Math.floor((Math.max(...lngs) + 180) / 360 - 1e-9);
+  const polygons: number[][][][] = [];
+
+  for (let window = minWindow; window <= maxWindow; window++) {
+    const offset = window * 360;
+    const piece = clipLongitude(clipLongitude(unwrapped, 180 + offset, 1), -180 + offset, -1)
+      .map(([lng, lat]) => [lng - offset, lat] as [number, number]);
+    if (piece.length >= 3) {
+      polygons.push([closeRing(piece)]);
+    }
+  }
+
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * GeoJSON coverage circle of a footprint
+ */
+export function footprintToGeoJSON(footprint: Footprint): FootprintGeometry {
+  const distance = footprint.halfAngle * DEG2RAD;
+  const ring: [number, number][] = [];
+
+  for (let i = 0; i < CIRCLE_VERTICES; i++) {
+    ring.push(destination(footprint.latitude, footprint.longitude, (2 * Math.PI * i) / CIRCLE_VERTICES, distance));
+  }
+
+  return ringToGeoJSON(ring);
+}
+
+/**
+ * GeoJSON swath covered by the footprint while the satellite moves along a
+ * ground track: the footprint edges either side of the track, capped by half
+ * circles at the start and end
+ */
+export function swathToGeoJSON(track: GroundTrackPoint[], minElevation: number): FootprintGeometry {
+  if (track.length < 2) {
+    const point = track[0];
+    return footprintToGeoJSON(computeFootprint(point.latitude, point.longitude, point.altitude, minElevation));
+  }
+
+  const halfAngle = (point: GroundTrackPoint) => Math.max(0, footprintHalfAngle(point.altitude, minElevation));
+  const heading = (index: number) => index < track.length - 1
+    ? bearing(track[index], track[index + 1])
+    : bearing(track[index - 1], track[index]);
+
+  const left: [number, number][] = [];
+  const right: [number, number][] = [];
+  track.forEach((point, index) => {
+    left.push(destination(point.latitude, point.longitude, heading(index) - Math.PI / 2, halfAngle(point)));
+    right.push(destination(point.latitude, point.longitude, heading(index) + Math.PI / 2, halfAngle(point)));
+  });
+
+  const cap = (point: GroundTrackPoint, from: number) => {
+    const vertices: [number, number][] = [];
+    for (let i = 1; i < CIRCLE_VERTICES / 2; i++) {
+      vertices.push(destination(point.latitude, point.longitude, from + (Math.PI * i) / (CIRCLE_VERTICES / 2), halfAngle(point)));
+    }
+    return vertices;
+  };
+
+  const first = track[0];
+  const last = track[track.length - 1];
+  return ringToGeoJSON([
+    ...left,
+    ...cap(last, heading(track.length - 1) - Math.PI / 2),
+    ...right.reverse(),
+    ...cap(first, heading(0) + Math.PI / 2),
+  ]);
+}
@@ -0,0 +1,136 @@
+import { ecfToGeodetic, eciToEcf } from './coordinates.js';
+import { LocalSatellite, propagateState } from './propagator.js';
+import { dateToJulian, gstime } from './sgp4.js';
+
+// Interface for one vertex of a ground track
+export interface GroundTrackPoint {
+  time: number; // ms
+  latitude: number; // degrees
+  longitude: number; // degrees, -180 to 180
+  altitude: number; // km
+}
+
+// Interface for a GeoJSON ground track feature
+export interface GroundTrackFeature {
+  type: 'Feature';
+  geometry:
+    | { type: 'LineString'; coordinates: number[][] }
+    | { type: 'MultiLineString'; coordinates: number[][][] };
+  properties: Record<string, unknown> & {
+    coordTimes: string[] | string[][]; // ISO time of every vertex, shaped like the coordinates
+  };
+}
+
+/**
+ * Orbital period of a satellite in seconds, from its mean motion
+ */
+export function orbitalPeriodSeconds(satellite: LocalSatellite): number {
+  return 86400 / satellite.elements.meanMotion;
+}
+
+/**
+ * Default ground track vertex spacing: ~180 vertices per orbit, between 10 seconds and 5 minutes
+ */
+export function defaultTrackStepSeconds(satellite: LocalSatellite): number {
+  return Math.round(Math.min(300, Math.max(10, orbitalPeriodSeconds(satellite) / 180)));
+}
+
+/**
+ * Sub-satellite point of a satellite at a time (ms)
+ */
+export function subSatellitePoint(satellite: LocalSatellite, timeMs: number): GroundTrackPoint {
+  const date = new Date(timeMs);
+  const { position } = propagateState(satellite, date);
+  const geodetic = ecfToGeodetic(eciToEcf(position, gstime(dateToJulian(date))));
+
+  return {
+    time: timeMs,
+    latitude: geodetic.latitude,
+    longitude: geodetic.longitude,
+    altitude: geodetic.altitude,
+  };
+}
+
+/**
+ * Sample the ground track at a fixed step from start to end, always
+ * including the end point
+ */
+export function computeGroundTrack(satellite: LocalSatellite, start: Date, end: Date, stepSeconds: number): GroundTrackPoint[] {
+  const points: GroundTrackPoint[] = [];
+  const endMs = end.getTime();
+
+  for (let t = start.getTime(); t < endMs; t += stepSeconds * 1000) {
+    points.push(subSatellitePoint(satellite, t));
+  }
+  points.push(subSatellitePoint(satellite, endMs));
+
+  return points;
+}
+
+/**
+ * Split a ground track into segments wherever it crosses the antimeridian.
+ * Each segment ends and the next begins on ±180°, at the latitude and time
+ * interpolated across the crossing, so maps draw no wrap-around lines.
+ */
+export function splitAtAntimeridian(points: GroundTrackPoint[]): GroundTrackPoint[][] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  const segments: GroundTrackPoint[][] = [[points[0]]];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    const delta = next.longitude - prev.longitude;
+
+    if (Math.abs(delta) > 180) {
+      // Unwrap the next longitude to continue past ±180 and interpolate the crossing
+      const edge = delta < 0 ? 180 : -180;
+      const unwrapped = next.longitude + (delta < 0 ? 360 : -360);
+      const fraction = (edge - prev.longitude) / (unwrapped - prev.longitude);
+      const crossing = {
+        time: prev.time + fraction * (next.time - prev.time),
+        latitude: prev.latitude + fraction * (next.latitude - prev.latitude),
+        altitude: prev.altitude + fraction * (next.altitude - prev.altitude),
+      };
+
+      segments[segments.length - 1].push({ ...crossing, longitude: edge });
+      segments.push([{ ...crossing, longitude: -edge }]);
+    }
+
+    segments[segments.length - 1].push(next);
+  }
+
+  return segments;
+}
+
+function round6(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * GeoJSON feature for a ground track: a LineString, or a MultiLineString
+ * when it crosses the antimeridian. Vertex times are given in the
+ * `coordTimes` property, shaped like the coordinates.
+ */
+export function groundTrackToGeoJSON(
+  segments: GroundTrackPoint[][],
+  properties: Record<string, unknown> = {}
+): GroundTrackFeature {
+  const coordinates = segments.map(segment => segment.map(point => [round6(point.longitude), round6(point.latitude)]));
+  const times = segments.map(segment => segment.map(point => new Date(Math.round(point.time)).toISOString()));
+
+  if (segments.length === 1) {
+    return {
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: coordinates[0] },
+      properties: { ...properties, coordTimes: times[0] },
+    };
+  }
+
+  return {
+    type: 'Feature',
+    geometry: { type: 'MultiLineString', coordinates },
+    properties: { ...properties, coordTimes: times },
+  };
+}
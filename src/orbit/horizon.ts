@@ -0,0 +1,180 @@
+import { SatellitePass } from '../api-client.js';
+import { Observer } from './coordinates.js';
+import { buildPass } from './passes.js';
+import { LocalSatellite, computeLookAngles } from './propagator.js';
+
+// Sampling interval used to scan a pass against the horizon mask
+const SAMPLE_MS = 5000;
+
+// Time tolerance for mask crossings
+const CROSSING_TOLERANCE_MS = 100;
+
+// Interface for one point of a horizon mask
+export interface HorizonPoint {
+  azimuth: number; // degrees from north, 0-360
+  elevation: number; // minimum elevation in degrees at this azimuth
+}
+
+// Interface for a pass clipped to the horizon mask
+export interface MaskedPass {
+  pass: SatellitePass; // from the first to the last moment above the mask
+  secondsAboveMask: number;
+  obstructions: { start: number; end: number }[]; // Unix seconds, between masked AOS and LOS
+}
+
+/**
+ * Parse a horizon mask from CSV ("azimuth,elevation" rows, comma or
+ * semicolon separated, optional header) or a Stellarium polygonal horizon
+ * list ("azimuth altitude" per line, "#" comments). Points are returned
+ * sorted by azimuth.
+ */
+export function parseHorizonMask(content: string): HorizonPoint[] {
+  const points: HorizonPoint[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (line === '') {
+      return;
+    }
+
+    const fields = line.split(/[\s,;]+/).filter(field => field !== '');
+    const azimuth = Number(fields[0]);
+    const elevation = Number(fields[1]);
+    if (fields.length < 2 || !Number.isFinite(azimuth) || !Number.isFinite(elevation)) {
+      // A header row is only allowed before the first point
+      if (points.length === 0 && fields.some(field => /[a-z]/i.test(field))) {
+        return;
+      }
+      throw new Error(`Line ${index + 1}: expected an azimuth and an elevation in degrees.`);
+    }
+    if (azimuth < 0 || azimuth > 360) {
+      throw new Error(`Line ${index + 1}: azimuth ${azimuth} is outside 0-360 degrees.`);
+    }
+    if (elevation < -90 || elevation > 90) {
+      throw new Error(`Line ${index + 1}: elevation ${elevation} is outside -90 to 90 degrees.`);
+    }
+
+    points.push({ azimuth: azimuth % 360, elevation });
+  });
+
+  if (points.length === 0) {
+    throw new Error('The horizon mask has no points.');
+  }
+
+  // Stable sort keeps the file order of points sharing an azimuth (vertical edges)
+  return points.sort((a, b) => a.azimuth - b.azimuth);
+}
+
+/**
+ * Mask elevation at an azimuth, interpolating linearly between points and
+ * wrapping around north
+ */
+export function maskElevation(mask: HorizonPoint[], azimuth: number): number {
+  if (mask.length === 1) {
+    return mask[0].elevation;
+  }
+
+  const az = ((azimuth % 360) + 360) % 360;
+  let before = mask[mask.length - 1];
+  let beforeAz = before.azimuth - 360;
+  let after = mask[0];
+  let afterAz = after.azimuth;
+
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i].azimuth > az) {
+      after = mask[i];
+      afterAz = after.azimuth;
+      break;
+    }
+    before = mask[i];
+    beforeAz = before.azimuth;
+    after = mask[(i + 1) % mask.length];
+    afterAz = i + 1 < mask.length ? after.azimuth : after.azimuth + 360;
+  }
+
+  if (afterAz === beforeAz) {
+    return Math.max(before.elevation, after.elevation);
+  }
+  const fraction = (az - beforeAz) / (afterAz - beforeAz);
+  return before.elevation + fraction * (after.elevation - before.elevation);
+}
+
+/**
+ * Clip a pass to the part where the satellite clears both the horizon mask
+ * and the minimum elevation. Returns null when it never does.
+ */
+export function applyHorizonMask(
+  satellite: LocalSatellite,
+  observer: Observer,
+  pass: SatellitePass,
+  mask: HorizonPoint[],
+  minElevation: number = 0
+): MaskedPass | null {
+  const startMs = pass.startUTC * 1000;
+  const endMs = pass.endUTC * 1000;
+
+  const clearance = (timeMs: number) => {
+    const look = computeLookAngles(satellite, observer, new Date(timeMs));
+    return look.elevation - Math.max(minElevation, maskElevation(mask, look.azimuth));
+  };
+
+  const crossing = (t0: number, t1: number) => {
+    const startAbove = clearance(t0) >= 0;
+    let a = t0;
+    let b = t1;
+    while (b - a > CROSSING_TOLERANCE_MS) {
+      const mid = (a + b) / 2;
+      if (clearance(mid) >= 0 === startAbove) {
+        a = mid;
+      } else {
+        b = mid;
+      }
+    }
+    return (a + b) / 2;
+  };
+
+  // Intervals above the mask, in ms
+  const intervals: { start: number; end: number }[] = [];
+  let prevT = startMs;
+  let prevAbove = clearance(prevT) >= 0;
+  let openedAt: number | null = prevAbove ? startMs : null;
+
+  while (prevT < endMs) {
+    const t = Math.min(prevT + SAMPLE_MS, endMs);
+    const above = clearance(t) >= 0;
+
+    if (above !== prevAbove) {
+      const crossedAt = crossing(prevT, t);
+      if (above) {
+        openedAt = crossedAt;
+      } else if (openedAt !== null) {
+        intervals.push({ start: openedAt, end: crossedAt });
+        openedAt = null;
+      }
+    }
+
+    prevT = t;
+    prevAbove = above;
+  }
+  if (openedAt !== null) {
+    intervals.push({ start: openedAt, end: endMs });
+  }
+
+  if (intervals.length === 0) {
+    return null;
+  }
+
+  const aosMs = intervals[0].start;
+  const losMs = intervals[intervals.length - 1].end;
+  const maxMs = Math.min(Math.max(pass.maxUTC * 1000, aosMs), losMs);
+  const obstructions = intervals.slice(1).map((interval, i) => ({
+    start: Math.round(intervals[i].end / 1000),
+    end: Math.round(interval.start / 1000),
+  }));
+
+  return {
+    pass: { ...buildPass(satellite, observer, aosMs, maxMs, losMs), ...(pass.mag !== undefined && { mag: pass.mag }) },
+    secondsAboveMask: Math.round(intervals.reduce((total, interval) => total + interval.end - interval.start, 0) / 1000),
+    obstructions,
+  };
+}
@@ -0,0 +1,94 @@
+import { TLEElements, orbitGeometry } from './tle.js';
+
+// Interface for the jumps between consecutive element sets that flag a maneuver
+export interface ManeuverThresholds {
+  semiMajorAxisKm: number;
+  inclinationDeg: number;
+  meanMotion: number; // rev/day
+}
+
+export const DEFAULT_MANEUVER_THRESHOLDS: ManeuverThresholds = {
+  semiMajorAxisKm: 1,
+  inclinationDeg: 0.02,
+  meanMotion: 0.002,
+};
+
+export type ManeuverParameter = 'semi_major_axis' | 'inclination' | 'mean_motion';
+
+export type ManeuverType = 'orbit_raise' | 'orbit_lowering' | 'plane_change';
+
+// Interface for a flagged jump between two consecutive element sets
+export interface Maneuver {
+  index: number; // index of the later element set
+  previousEpoch: Date;
+  epoch: Date;
+  // Changes not explained by the drag trend of the earlier element set
+  semiMajorAxisChange: number; // km
+  inclinationChange: number; // degrees
+  meanMotionChange: number; // rev/day
+  exceeded: ManeuverParameter[];
+  types: ManeuverType[];
+}
+
+/**
+ * Compare each element set with the one before it and flag the epochs where
+ * the semi-major axis, inclination or mean motion jump beyond the
+ * thresholds. The mean motion (and so semi-major axis) drift that the
+ * earlier set's first derivative predicts is removed first, so steady
+ * drag decay is not mistaken for a maneuver.
+ */
+export function detectManeuvers(
+  history: TLEElements[],
+  thresholds: ManeuverThresholds = DEFAULT_MANEUVER_THRESHOLDS
+): Maneuver[] {
+  const maneuvers: Maneuver[] = [];
+
+  for (let i = 1; i < history.length; i++) {
+    const previous = history[i - 1];
+    const current = history[i];
+    const days = (current.epoch.getTime() - previous.epoch.getTime()) / 86400000;
+
+    // The published first derivative is half the mean motion rate
+    const expectedMeanMotion = previous.meanMotion + 2 * previous.meanMotionDot * days;
+    const expected = orbitGeometry({ ...previous, meanMotion: expectedMeanMotion });
+
+    const semiMajorAxisChange = orbitGeometry(current).semiMajorAxis - expected.semiMajorAxis;
+    const inclinationChange = current.inclination - previous.inclination;
+    const meanMotionChange = current.meanMotion - expectedMeanMotion;
+
+    const exceeded: ManeuverParameter[] = [];
+    if (Math.abs(semiMajorAxisChange) > thresholds.semiMajorAxisKm) {
+      exceeded.push('semi_major_axis');
+    }
+    if (Math.abs(inclinationChange) > thresholds.inclinationDeg) {
+      exceeded.push('inclination');
+    }
+    if (Math.abs(meanMotionChange) > thresholds.meanMotion) {
+      exceeded.push('mean_motion');
+    }
+    if (exceeded.length === 0) {
+      continue;
+    }
+
+    const types: ManeuverType[] = [];
+    if (exceeded.includes('semi_major_axis') || exceeded.includes('mean_motion')) {
+      types.push(semiMajorAxisChange > 0 ? 'orbit_raise' : 'orbit_lowering');
+    }
+    if (exceeded.includes('inclination')) {
+      types.push('plane_change');
+    }
+
+    maneuvers.push({
+      index: i,
+      previousEpoch: previous.epoch,
+      epoch: current.epoch,
+      semiMajorAxisChange,
+      inclinationChange,
+      meanMotionChange,
+      exceeded,
+      types,
+    });
+  }
+
+  return maneuvers;
+}
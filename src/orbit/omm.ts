@@ -0,0 +1,208 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ElementParseError, TLELines, formatTLE } from './tle.js';
+
+// Interface for the keyword/value pairs of one CCSDS Orbit Mean-elements Message
+export interface OMMRecord {
+  fields: Record<string, string>;
+  line: number | null; // 1-based line where the message starts, when known
+}
+
+// Keywords that every OMM must provide to be converted to a TLE
+const REQUIRED_FIELDS = [
+  'NORAD_CAT_ID',
+  'EPOCH',
+  'MEAN_MOTION',
+  'ECCENTRICITY',
+  'INCLINATION',
+  'RA_OF_ASC_NODE',
+  'ARG_OF_PERICENTER',
+  'MEAN_ANOMALY',
+];
+
+function lineAt(content: string, offset: number): number {
+  return content.substring(0, offset).split('\n').length;
+}
+
+/**
+ * Read OMMs from an XML document (one record per <omm> or <segment> element)
+ */
+export function parseOMMXml(content: string): { records: OMMRecord[]; errors: ElementParseError[] } {
+  const records: OMMRecord[] = [];
+  const fieldPattern = /<([A-Z_]+)(?:\s[^>]*)?>([^<]*)<\/\1>/g;
+
+  // Prefer <segment> blocks, which exist once per object even inside an <omm> wrapper
+  const blockType = /<segment\b/i.test(content) ? 'segment' : 'omm';
+  const blockPattern = new RegExp(`<${blockType}\\b[^>]*>([\\s\\S]*?)<\\/${blockType}>`, 'gi');
+  for (const block of content.matchAll(blockPattern)) {
+    const fields: Record<string, string> = {};
+    for (const field of block[1].matchAll(fieldPattern)) {
+      fields[field[1]] = field[2].trim();
+    }
+    records.push({ fields, line: lineAt(content, block.index ?? 0) });
+  }
+
+  return {
+    records,
+    errors: records.length === 0 ? [{ line: null, message: 'No <omm> or <segment> elements found.' }] : [],
+  };
+}
+
+/**
+ * Read OMMs from JSON (a single object or an array, e.g. CelesTrak GP data)
+ */
+export function parseOMMJson(content: string): { records: OMMRecord[]; errors: ElementParseError[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { records: [], errors: [{ line: null, message: `Invalid JSON: ${(error as Error).message}` }] };
+  }
+
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  const records: OMMRecord[] = [];
+  const errors: ElementParseError[] = [];
+
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object') {
+      errors.push({ line: null, message: `Record ${index + 1} is not an object.` });
+      return;
+    }
+
+    const fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+      if (value !== null && value !== undefined && typeof value !== 'object') {
+        fields[key.toUpperCase()] = String(value);
+      }
+    }
+    records.push({ fields, line: null });
+  });
+
+  return { records, errors };
+}
+
+/**
+ * Read OMMs from Keyword = Value Notation; each message starts at CCSDS_OMM_VERS
+ */
+export function parseOMMKvn(content: string): { records: OMMRecord[]; errors: ElementParseError[] } {
+  const records: OMMRecord[] = [];
+  const errors: ElementParseError[] = [];
+  let current: OMMRecord | null = null;
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('COMMENT')) {
+      return;
+    }
+
+    const match = line.match(/^([A-Z0-9_]+)\s*=\s*(.*?)(?:\s+\[[^\]]*\])?$/);
+    if (!match) {
+      errors.push({ line: index + 1, message: `Unrecognised KVN line: "${line.substring(0, 40)}"` });
+      return;
+    }
+
+    if (match[1] === 'CCSDS_OMM_VERS' || !current) {
+      current = { fields: {}, line: index + 1 };
+      records.push(current);
+    }
+    current.fields[match[1]] = match[2].trim();
+  });
+
+  return { records, errors };
+}
+
+/**
+ * Parse an OMM/CCSDS epoch (calendar or day-of-year form, always UTC)
+ */
+function parseEpoch(value: string): Date {
+  const calendar = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)Z?$/);
+  const ordinal = value.match(/^(\d{4})-(\d{3})T(\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)Z?$/);
+
+  let ms: number;
+  if (calendar) {
+    const [, year, month, day, hour, minute, second] = calendar;
+    ms = Date.UTC(+year, +month - 1, +day, +hour, +minute) + parseFloat(second) * 1000;
+  } else if (ordinal) {
+    const [, year, dayOfYear, hour, minute, second] = ordinal;
+    ms = Date.UTC(+year, 0, +dayOfYear, +hour, +minute) + parseFloat(second) * 1000;
+  } else {
+    ms = NaN;
+  }
+
+  if (Number.isNaN(ms)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid EPOCH: ${value}`);
+  }
+  return new Date(ms);
+}
+
+/**
+ * International designator in TLE form ("1998-067A" -> "98067A")
+ */
+function toTLEDesignator(objectId: string | undefined): string {
+  const match = (objectId || '').match(/^\d{2}(\d{2})-(\d{3})([A-Z]{0,3})$/);
+  return match ? `${match[1]}${match[2]}${match[3]}` : '';
+}
+
+/**
+ * Validate an OMM and convert it to a named TLE
+ */
+export function ommToTLE(record: OMMRecord): TLELines {
+  const { fields } = record;
+
+  const missing = REQUIRED_FIELDS.filter(field => !fields[field]);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing OMM fields: ${missing.join(', ')}`);
+  }
+
+  if (fields.MEAN_ELEMENT_THEORY && !/^SGP4$/i.test(fields.MEAN_ELEMENT_THEORY)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unsupported MEAN_ELEMENT_THEORY "${fields.MEAN_ELEMENT_THEORY}". Only SGP4 elements can be imported.`
+    );
+  }
+
+  const number = (field: string, fallback?: number): number => {
+    if (fields[field] === undefined || fields[field] === '') {
+      if (fallback !== undefined) {
+        return fallback;
+      }
+    }
+    const value = Number(fields[field]);
+    if (!Number.isFinite(value)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${field}: ${fields[field]}`);
+    }
+    return value;
+  };
+
+  const elements = {
+    noradId: number('NORAD_CAT_ID'),
+    classification: (fields.CLASSIFICATION_TYPE || 'U').charAt(0),
+    intDesignator: toTLEDesignator(fields.OBJECT_ID),
+    epoch: parseEpoch(fields.EPOCH),
+    meanMotionDot: number('MEAN_MOTION_DOT', 0),
+    meanMotionDdot: number('MEAN_MOTION_DDOT', 0),
+    bstar: number('BSTAR', 0),
+    elementSetNumber: number('ELEMENT_SET_NO', 999),
+    inclination: number('INCLINATION'),
+    raan: number('RA_OF_ASC_NODE'),
+    eccentricity: number('ECCENTRICITY'),
+    argOfPerigee: number('ARG_OF_PERICENTER'),
+    meanAnomaly: number('MEAN_ANOMALY'),
+    meanMotion: number('MEAN_MOTION'),
+    revolutionNumber: number('REV_AT_EPOCH', 0),
+  };
+
+  if (elements.eccentricity < 0 || elements.eccentricity >= 1) {
+    throw new McpError(ErrorCode.InvalidParams, `ECCENTRICITY must be in [0, 1), got ${elements.eccentricity}`);
+  }
+  if (elements.inclination < 0 || elements.inclination > 180) {
+    throw new McpError(ErrorCode.InvalidParams, `INCLINATION must be in [0, 180], got ${elements.inclination}`);
+  }
+  if (elements.meanMotion <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `MEAN_MOTION must be positive, got ${elements.meanMotion}`);
+  }
+
+  return {
+    name: fields.OBJECT_NAME || undefined,
+    ...formatTLE(elements),
+  };
+}
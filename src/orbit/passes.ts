@@ -0,0 +1,189 @@
+import { SatellitePass } from '../api-client.js';
+import { Observer, azimuthToCompass } from './coordinates.js';
+import { LocalSatellite, computeLookAngles } from './propagator.js';
+
+// Time tolerance for AOS/LOS and culmination refinement
+const ROOT_TOLERANCE_MS = 100;
+
+// Sampled maxima this close below the threshold are refined in case the peak is hidden between samples
+const GRAZING_MARGIN_DEG = 5;
+
+// Interface for pass search options
+export interface PassSearchOptions {
+  start: Date;
+  end: Date;
+  minElevation?: number; // degrees
+  stepSeconds?: number;
+}
+
+/**
+ * Default scan step: ~180 samples per orbit, between 10 seconds and 10 minutes
+ */
+function defaultStepSeconds(satellite: LocalSatellite): number {
+  const periodSeconds = 86400 / satellite.elements.meanMotion;
+  return Math.min(600, Math.max(10, periodSeconds / 180));
+}
+
+/**
+ * Find the time at which elevation crosses `threshold` between two bracketing times
+ */
+function findCrossing(elevation: (t: number) => number, threshold: number, t0: number, t1: number): number {
+  let below = t0;
+  let above = t1;
+  if (elevation(t0) >= threshold) {
+    below = t1;
+    above = t0;
+  }
+
+  while (Math.abs(above - below) > ROOT_TOLERANCE_MS) {
+    const mid = (below + above) / 2;
+    if (elevation(mid) >= threshold) {
+      above = mid;
+    } else {
+      below = mid;
+    }
+  }
+
+  return above;
+}
+
+/**
+ * Golden-section search for the time of maximum elevation in [t0, t1]
+ */
+function findMaximum(elevation: (t: number) => number, t0: number, t1: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = t0;
+  let b = t1;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  let fc = elevation(c);
+  let fd = elevation(d);
+
+  while (b - a > ROOT_TOLERANCE_MS) {
+    if (fc > fd) {
+      b = d;
+      d = c;
+      fd = fc;
+      c = b - ratio * (b - a);
+      fc = elevation(c);
+    } else {
+      a = c;
+      c = d;
+      fc = fd;
+      d = a + ratio * (b - a);
+      fd = elevation(d);
+    }
+  }
+
+  return (a + b) / 2;
+}
+
+/**
+ * Predict passes of a satellite over an observer by propagating its TLE.
+ * Passes already in progress at `start` or still in progress at `end` are
+ * truncated to the search window.
+ */
+export function findPasses(
+  satellite: LocalSatellite,
+  observer: Observer,
+  options: PassSearchOptions
+): SatellitePass[] {
+  const minElevation = options.minElevation ?? 0;
+  const stepMs = (options.stepSeconds ?? defaultStepSeconds(satellite)) * 1000;
+  const startMs = options.start.getTime();
+  const endMs = options.end.getTime();
+
+  const elevation = (t: number) => computeLookAngles(satellite, observer, new Date(t)).elevation;
+  const passes: SatellitePass[] = [];
+
+  let prevT = startMs;
+  let prevEl = elevation(prevT);
+  let beforePrevEl = prevEl;
+  let beforePrevT = prevT;
+  let aos: number | null = prevEl >= minElevation ? startMs : null;
+  let peakT = prevT;
+  let peakEl = prevEl;
+
+  while (prevT < endMs) {
+    const t = Math.min(prevT + stepMs, endMs);
+    const el = elevation(t);
+
+    if (aos === null) {
+      if (el >= minElevation) {
+        aos = findCrossing(elevation, minElevation, prevT, t);
+        peakT = t;
+        peakEl = el;
+      } else if (
+        prevEl > beforePrevEl &&
+        prevEl >= el &&
+        prevEl >= minElevation - GRAZING_MARGIN_DEG
+      ) {
+        // A short pass may peak above the threshold between two samples
+        const tca = findMaximum(elevation, beforePrevT, t);
+        if (elevation(tca) >= minElevation) {
+          const grazingAos = findCrossing(elevation, minElevation, beforePrevT, tca);
+          const grazingLos = findCrossing(elevation, minElevation, tca, t);
+          passes.push(buildPass(satellite, observer, grazingAos, tca, grazingLos));
+        }
+      }
+    } else if (el >= minElevation) {
+      if (el > peakEl) {
+        peakT = t;
+        peakEl = el;
+      }
+    } else {
+      const los = findCrossing(elevation, minElevation, prevT, t);
+      const tca = findMaximum(elevation, Math.max(aos, peakT - stepMs), Math.min(los, peakT + stepMs));
+      passes.push(buildPass(satellite, observer, aos, tca, los));
+      aos = null;
+    }
+
+    beforePrevT = prevT;
+    beforePrevEl = prevEl;
+    prevT = t;
+    prevEl = el;
+  }
+
+  // Pass still in progress at the end of the window
+  if (aos !== null) {
+    const tca = findMaximum(elevation, Math.max(aos, peakT - stepMs), Math.min(endMs, peakT + stepMs));
+    passes.push(buildPass(satellite, observer, aos, tca, endMs));
+  }
+
+  return passes;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function buildPass(
+  satellite: LocalSatellite,
+  observer: Observer,
+  aosMs: number,
+  tcaMs: number,
+  losMs: number
+): SatellitePass {
+  const start = computeLookAngles(satellite, observer, new Date(aosMs));
+  const max = computeLookAngles(satellite, observer, new Date(tcaMs));
+  const end = computeLookAngles(satellite, observer, new Date(losMs));
+
+  return {
+    satid: satellite.noradId,
+    satname: satellite.name,
+    startAz: round2(start.azimuth),
+    startAzCompass: azimuthToCompass(start.azimuth),
+    startEl: round2(start.elevation),
+    startUTC: Math.round(aosMs / 1000),
+    maxAz: round2(max.azimuth),
+    maxAzCompass: azimuthToCompass(max.azimuth),
+    maxEl: round2(max.elevation),
+    maxUTC: Math.round(tcaMs / 1000),
+    endAz: round2(end.azimuth),
+    endAzCompass: azimuthToCompass(end.azimuth),
+    endEl: round2(end.elevation),
+    endUTC: Math.round(losMs / 1000),
+    // Brightness is not modelled here, so `mag` is left unset
+    duration: Math.round((losMs - aosMs) / 1000),
+  };
+}
@@ -0,0 +1,107 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SatellitePosition, SatelliteTLE } from '../api-client.js';
+import { LookAngles, Observer, ecfToGeodetic, eciToEcf, lookAngles, topocentricRaDec } from './coordinates.js';
+import { SGP4_ERRORS, SatRec, StateVector, dateToJulian, gstime, propagate, twoline2satrec } from './sgp4.js';
+import { isEclipsed, sunPosition } from './sun.js';
+import { TLEElements, decodeTLE } from './tle.js';
+
+// Interface for a satellite ready for local propagation
+export interface LocalSatellite {
+  noradId: number;
+  name: string;
+  elements: TLEElements;
+  satrec: SatRec;
+}
+
+/**
+ * Build a locally propagatable satellite from N2YO TLE data
+ */
+export function loadSatellite(tleData: SatelliteTLE): LocalSatellite {
+  if (!tleData || !tleData.tle) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `No TLE data found for satellite with NORAD ID: ${tleData?.satid}`
+    );
+  }
+
+  const elements = decodeTLE(tleData.tle);
+
+  return {
+    noradId: tleData.satid,
+    name: tleData.satname,
+    elements,
+    satrec: twoline2satrec(elements),
+  };
+}
+
+/**
+ * Propagate a satellite to a date, returning its TEME state
+ */
+export function propagateState(satellite: LocalSatellite, date: Date): StateVector {
+  const state = propagate(satellite.satrec, date);
+
+  if (!state) {
+    const reason = SGP4_ERRORS[satellite.satrec.error] || `error ${satellite.satrec.error}`;
+    throw new McpError(
+      ErrorCode.InternalError,
+      `SGP4 propagation failed for satellite ${satellite.noradId} at ${date.toISOString()}: ${reason}`
+    );
+  }
+
+  return state;
+}
+
+/**
+ * Azimuth, elevation and range of a satellite from an observer at a date
+ */
+export function computeLookAngles(satellite: LocalSatellite, observer: Observer, date: Date): LookAngles {
+  const { position } = propagateState(satellite, date);
+  return lookAngles(observer, eciToEcf(position, gstime(dateToJulian(date))));
+}
+
+/**
+ * Compute a satellite position in the same shape as the N2YO /positions/ endpoint
+ */
+export function computePosition(satellite: LocalSatellite, observer: Observer, date: Date): SatellitePosition {
+  const { position } = propagateState(satellite, date);
+  const jd = dateToJulian(date);
+  const gmst = gstime(jd);
+
+  const ecf = eciToEcf(position, gmst);
+  const geodetic = ecfToGeodetic(ecf);
+  const look = lookAngles(observer, ecf);
+  const { ra, dec } = topocentricRaDec(observer, position, gmst);
+
+  return {
+    satid: satellite.noradId,
+    satname: satellite.name,
+    satlatitude: geodetic.latitude,
+    satlongitude: geodetic.longitude,
+    sataltitude: geodetic.altitude,
+    azimuth: look.azimuth,
+    elevation: look.elevation,
+    ra,
+    dec,
+    timestamp: Math.floor(date.getTime() / 1000),
+    eclipsed: isEclipsed(position, sunPosition(jd)),
+  };
+}
+
+/**
+ * Compute positions at a fixed step over a time span
+ */
+export function computePositions(
+  satellite: LocalSatellite,
+  observer: Observer,
+  start: Date,
+  seconds: number,
+  stepSeconds: number = 1
+): SatellitePosition[] {
+  const positions: SatellitePosition[] = [];
+
+  for (let offset = 0; offset < seconds; offset += stepSeconds) {
+    positions.push(computePosition(satellite, observer, new Date(start.getTime() + offset * 1000)));
+  }
+
+  return positions;
+}
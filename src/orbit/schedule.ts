@@ -0,0 +1,359 @@
+import { SatellitePass } from '../api-client.js';
+
+// How competing passes are ranked when only one can be tracked
+export type SchedulePolicy = 'max_elevation' | 'priority' | 'longest_duration';
+
+export const SCHEDULE_POLICIES: SchedulePolicy[] = ['max_elevation', 'priority', 'longest_duration'];
+
+// Interface for a pass in a schedule timeline
+export interface TimelinePass {
+  id: string; // "<norad_id>-<aos unix seconds>"
+  pass: SatellitePass;
+  conflictsWith: string[]; // ids of overlapping passes
+}
+
+// Interface for a pass left out of the schedule
+export interface RejectedPass {
+  entry: TimelinePass;
+  reason: string;
+  blockedBy: string[]; // ids of the scheduled passes it would overlap
+}
+
+// Interface for a proposed schedule
+export interface PassSchedule {
+  timeline: TimelinePass[]; // every pass in chronological order
+  scheduled: TimelinePass[];
+  rejected: RejectedPass[];
+}
+
+// Interface for scheduling options
+export interface ScheduleOptions {
+  policy: SchedulePolicy;
+  priorities?: number[]; // NORAD IDs, highest priority first
+  gapSeconds?: number; // minimum idle time between two tracked passes (rotator turnaround)
+}
+
+/**
+ * Whether two passes overlap once the turnaround gap is added after each
+ */
+function overlaps(a: SatellitePass, b: SatellitePass, gapSeconds: number): boolean {
+  return a.startUTC < b.endUTC + gapSeconds && b.startUTC < a.endUTC + gapSeconds;
+}
+
+function formatTime(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString().replace('.000Z', 'Z');
+}
+
+/**
+ * Merge the passes of several satellites into one chronological timeline,
+ * linking each pass to the passes it overlaps
+ */
+export function buildTimeline(passes: SatellitePass[], gapSeconds: number = 0): TimelinePass[] {
+  const timeline = [...passes]
+    .sort((a, b) => a.startUTC - b.startUTC || a.satid - b.satid)
+    .map(pass => ({ id: `${pass.satid}-${pass.startUTC}`, pass, conflictsWith: [] as string[] }));
+
+  for (let i = 0; i < timeline.length; i++) {
+    for (let j = i + 1; j < timeline.length; j++) {
+      // Sorted by start, so no later pass can overlap once one starts after this one ends
+      if (timeline[j].pass.startUTC >= timeline[i].pass.endUTC + gapSeconds) {
+        break;
+      }
+      if (overlaps(timeline[i].pass, timeline[j].pass, gapSeconds)) {
+        timeline[i].conflictsWith.push(timeline[j].id);
+        timeline[j].conflictsWith.push(timeline[i].id);
+      }
+    }
+  }
+
+  return timeline;
+}
+
+/**
+ * Propose a conflict-free schedule for a single antenna. Passes are taken
+ * greedily in policy order (ties go to the earlier pass) and a pass is kept
+ * only if it does not overlap one that is already scheduled.
+ */
+export function planSchedule(passes: SatellitePass[], options: ScheduleOptions): PassSchedule {
+  const gapSeconds = options.gapSeconds ?? 0;
+  const priorities = options.priorities ?? [];
+  const timeline = buildTimeline(passes, gapSeconds);
+
+  const rank = (pass: SatellitePass) => {
+    const priority = priorities.indexOf(pass.satid);
+    return priority === -1 ? priorities.length : priority;
+  };
+
+  const compare: Record<SchedulePolicy, (a: SatellitePass, b: SatellitePass) => number> = {
+    max_elevation: (a, b) => b.maxEl - a.maxEl,
+    priority: (a, b) => rank(a) - rank(b) || b.maxEl - a.maxEl,
+    longest_duration: (a, b) => b.duration - a.duration,
+  };
+
+  const candidates = [...timeline].sort((a, b) =>
+    compare[options.policy](a.pass, b.pass) || a.pass.startUTC - b.pass.startUTC
+  );
+
+  const scheduled: TimelinePass[] = [];
+  const rejected: RejectedPass[] = [];
+
+  for (const candidate of candidates) {
+    const blockers = scheduled
+      .filter(entry => overlaps(entry.pass, candidate.pass, gapSeconds))
+      .sort((a, b) => a.pass.startUTC - b.pass.startUTC);
+    if (blockers.length === 0) {
+      scheduled.push(candidate);
+      continue;
+    }
+
+    rejected.push({
+      entry: candidate,
+      reason: blockers.map(blocker => describeConflict(candidate.pass, blocker.pass, options.policy, rank)).join('; '),
+      blockedBy: blockers.map(blocker => blocker.id),
+    });
+  }
+
+  const chronological = (a: TimelinePass, b: TimelinePass) => a.pass.startUTC - b.pass.startUTC || a.pass.satid - b.pass.satid;
+  return {
+    timeline,
+    scheduled: scheduled.sort(chronological),
+    rejected: rejected.sort((a, b) => chronological(a.entry, b.entry)),
+  };
+}
+
+/**
+ * Explain why a pass lost to an overlapping scheduled pass
+ */
+function describeConflict(
+  pass: SatellitePass,
+  winner: SatellitePass,
+  policy: SchedulePolicy,
+  rank: (pass: SatellitePass) => number
+): string {
+  const window = `${winner.satname} (${winner.satid}) ${formatTime(winner.startUTC)}-${formatTime(winner.endUTC)}`;
+
+  if (policy === 'priority' && rank(winner) !== rank(pass)) {
+    return `overlaps ${window}, which has a higher priority`;
+  }
+  if (policy === 'longest_duration' && winner.duration !== pass.duration) {
+    return `overlaps ${window}, which is longer (${winner.duration} s vs ${pass.duration} s)`;
+  }
+  if (policy !== 'longest_duration' && winner.maxEl !== pass.maxEl) {
+    return `overlaps ${window}, which reaches a higher elevation (${winner.maxEl}° vs ${pass.maxEl}°)`;
+  }
+  return `overlaps ${window}, which starts earlier`;
+}
+
+// What a network schedule optimises
+export type NetworkObjective = 'contact_time' | 'coverage';
+
+export const NETWORK_OBJECTIVES: NetworkObjective[] = ['contact_time', 'coverage'];
+
+// Interface for a pass of a satellite over one station of a network
+export interface StationPass {
+  id: string; // "<station>:<norad_id>-<aos unix seconds>"
+  station: string;
+  pass: SatellitePass;
+}
+
+// Interface for a station pass left out of a network schedule
+export interface UnassignedPass {
+  contact: StationPass;
+  reason: string;
+}
+
+// Interface for a proposed network schedule
+export interface NetworkSchedule {
+  contacts: StationPass[]; // chronological
+  unassigned: UnassignedPass[];
+}
+
+// Interface for a gap between two contacts of a satellite (Unix seconds)
+export interface ContactGap {
+  start: number;
+  end: number;
+  seconds: number;
+}
+
+/**
+ * Assign contacts across a network of stations: no station tracks two
+ * satellites at once (including the turnaround gap) and no satellite is
+ * tracked by two stations at once.
+ *
+ * "contact_time" takes the longest passes first, maximising total contact
+ * time. "coverage" repeatedly gives the satellite with the least contact
+ * time so far its longest remaining pass, spreading time across satellites.
+ */
+export function planNetworkSchedule(
+  candidates: StationPass[],
+  options: { objective: NetworkObjective; gapSeconds?: number }
+): NetworkSchedule {
+  const gapSeconds = options.gapSeconds ?? 0;
+  const contacts: StationPass[] = [];
+  const unassigned: UnassignedPass[] = [];
+
+  // Assigned contacts by station and by satellite, so a check only looks at the contacts it can clash with
+  const stationContacts = new Map<string, StationPass[]>();
+  const satelliteContacts = new Map<number, StationPass[]>();
+  const assign = (contact: StationPass) => {
+    contacts.push(contact);
+    addTo(stationContacts, contact.station, contact);
+    addTo(satelliteContacts, contact.pass.satid, contact);
+  };
+
+  // Why `candidate` cannot be assigned next to `assigned`, or null when it can
+  const blockingReason = (candidate: StationPass, assigned: StationPass[]): string | null => {
+    const stationBusy = assigned.find(contact =>
+      contact.station === candidate.station && overlaps(contact.pass, candidate.pass, gapSeconds)
+    );
+    if (stationBusy) {
+      const { pass } = stationBusy;
+      return `station ${candidate.station} is tracking ${pass.satname} (${pass.satid}) ${formatTime(pass.startUTC)}-${formatTime(pass.endUTC)}`;
+    }
+
+    const satelliteBusy = assigned.find(contact =>
+      contact.pass.satid === candidate.pass.satid && overlaps(contact.pass, candidate.pass, 0)
+    );
+    if (satelliteBusy) {
+      const { pass } = satelliteBusy;
+      return `satellite already in contact with station ${satelliteBusy.station} ${formatTime(pass.startUTC)}-${formatTime(pass.endUTC)}`;
+    }
+    return null;
+  };
+
+  const longestFirst = (a: StationPass, b: StationPass) =>
+    b.pass.duration - a.pass.duration || b.pass.maxEl - a.pass.maxEl || a.pass.startUTC - b.pass.startUTC;
+
+  if (options.objective === 'contact_time') {
+    for (const candidate of [...candidates].sort(longestFirst)) {
+      const reason = blockingReason(candidate, [
+        ...(stationContacts.get(candidate.station) || []),
+        ...(satelliteContacts.get(candidate.pass.satid) || []),
+      ]);
+      if (reason) {
+        unassigned.push({ contact: candidate, reason });
+      } else {
+        assign(candidate);
+      }
+    }
+  } else {
+    // Remaining passes, longest first, per satellite and per station
+    const sorted = [...candidates].sort(longestFirst);
+    const order = new Map(sorted.map((candidate, index) => [candidate, index]));
+    const remaining = new Set(sorted);
+    const satellitePasses = new Map<number, StationPass[]>();
+    const stationPasses = new Map<string, StationPass[]>();
+    for (const candidate of sorted) {
+      addTo(satellitePasses, candidate.pass.satid, candidate);
+      addTo(stationPasses, candidate.station, candidate);
+    }
+    // The same passes in start order, to find the ones overlapping a new contact
+    const byStart = (a: StationPass, b: StationPass) => a.pass.startUTC - b.pass.startUTC;
+    const satelliteTimeline = new Map([...satellitePasses].map(([satid, passes]) => [satid, [...passes].sort(byStart)]));
+    const stationTimeline = new Map([...stationPasses].map(([station, passes]) => [station, [...passes].sort(byStart)]));
+    const longest = candidates.reduce((max, candidate) => Math.max(max, candidate.pass.endUTC - candidate.pass.startUTC), 0);
+    const overlapping = (timeline: StationPass[], pass: SatellitePass) => {
+      let low = 0;
+      let high = timeline.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (timeline[middle].pass.startUTC < pass.startUTC - longest - gapSeconds) {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+      const found: StationPass[] = [];
+      for (let i = low; i < timeline.length && timeline[i].pass.startUTC < pass.endUTC + gapSeconds; i++) {
+        found.push(timeline[i]);
+      }
+      return found;
+    };
+
+    const heads = new Map<number, number>(); // index of each satellite's first remaining pass
+    const contactSeconds = new Map<number, number>();
+    candidates.forEach(candidate => contactSeconds.set(candidate.pass.satid, 0));
+
+    for (;;) {
+      // Longest remaining pass of the least covered satellite (ties go to the longer pass)
+      let next: StationPass | null = null;
+      for (const [satid, passes] of satellitePasses) {
+        let head = heads.get(satid) ?? 0;
+        while (head < passes.length && !remaining.has(passes[head])) {
+          head++;
+        }
+        heads.set(satid, head);
+        if (head === passes.length) {
+          continue;
+        }
+
+        const candidate = passes[head];
+        const seconds = contactSeconds.get(satid)!;
+        const bestSeconds = next ? contactSeconds.get(next.pass.satid)! : Infinity;
+        if (seconds < bestSeconds || (seconds === bestSeconds && order.get(candidate)! < order.get(next!)!)) {
+          next = candidate;
+        }
+      }
+      if (!next) {
+        break;
+      }
+
+      assign(next);
+      remaining.delete(next);
+      contactSeconds.set(next.pass.satid, contactSeconds.get(next.pass.satid)! + next.pass.duration);
+
+      // Only the new contact can block passes that were still assignable
+      for (const candidate of [
+        ...overlapping(stationTimeline.get(next.station)!, next.pass),
+        ...overlapping(satelliteTimeline.get(next.pass.satid)!, next.pass),
+      ]) {
+        if (!remaining.has(candidate)) {
+          continue;
+        }
+        const reason = blockingReason(candidate, [next]);
+        if (reason) {
+          unassigned.push({ contact: candidate, reason });
+          remaining.delete(candidate);
+        }
+      }
+    }
+  }
+
+  const chronological = (a: StationPass, b: StationPass) =>
+    a.pass.startUTC - b.pass.startUTC || a.station.localeCompare(b.station) || a.pass.satid - b.pass.satid;
+  return {
+    contacts: contacts.sort(chronological),
+    unassigned: unassigned.sort((a, b) => chronological(a.contact, b.contact)),
+  };
+}
+
+function addTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const values = map.get(key);
+  if (values) {
+    values.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Gaps between consecutive contacts of one satellite, including the gaps
+ * from the start of the window to the first contact and from the last
+ * contact to the end of the window
+ */
+export function contactGaps(passes: SatellitePass[], windowStart: number, windowEnd: number): ContactGap[] {
+  const gaps: ContactGap[] = [];
+  let covered = windowStart;
+
+  for (const pass of [...passes].sort((a, b) => a.startUTC - b.startUTC)) {
+    if (pass.startUTC > covered) {
+      gaps.push({ start: covered, end: pass.startUTC, seconds: pass.startUTC - covered });
+    }
+    covered = Math.max(covered, pass.endUTC);
+  }
+  if (windowEnd > covered) {
+    gaps.push({ start: covered, end: windowEnd, seconds: windowEnd - covered });
+  }
+
+  return gaps;
+}
@@ -0,0 +1,1280 @@
+import { TLEElements } from './tle.js';
+
+/*
+ * SGP4/SDP4 propagator.
+ *
+ * This is a straight port of the reference implementation published with
+ * Vallado, Crawford, Hujsak & Kelso, "Revisiting Spacetrack Report #3"
+ * (AIAA 2006-6753), using WGS-72 constants and the "improved" operation mode.
+ * Near-earth objects (period < 225 min) use SGP4, deep-space objects use the
+ * SDP4 lunar/solar and resonance terms (dscom, dpper, dsinit, dspace).
+ */
+
+// WGS-72 gravity model constants
+export const EARTH_RADIUS_KM = 6378.135;
+export const MU = 398600.8; // km^3/s^2
+const XKE = 60.0 / Math.sqrt((EARTH_RADIUS_KM * EARTH_RADIUS_KM * EARTH_RADIUS_KM) / MU);
+const VKMPERSEC = (EARTH_RADIUS_KM * XKE) / 60.0;
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+
+export const TWO_PI = 2.0 * Math.PI;
+export const DEG2RAD = Math.PI / 180.0;
+export const RAD2DEG = 180.0 / Math.PI;
+export const MINUTES_PER_DAY = 1440.0;
+const X2O3 = 2.0 / 3.0;
+
+// Interface for a cartesian vector (km or km/s)
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Interface for a TEME position/velocity state
+export interface StateVector {
+  position: Vector3;
+  velocity: Vector3;
+}
+
+// SGP4 error codes as defined by the reference implementation
+export const SGP4_ERRORS: Record<number, string> = {
+  1: 'mean eccentricity out of range',
+  2: 'mean motion is negative',
+  3: 'perturbed eccentricity out of range',
+  4: 'semi-latus rectum is negative',
+  6: 'satellite has decayed',
+};
+
+// Interface for the propagator state of a single element set
+export interface SatRec {
+  satnum: number;
+  jdsatepoch: number;
+  error: number;
+  method: 'n' | 'd';
+  isimp: number;
+  init: 'y' | 'n';
+  t: number;
+
+  // Mean elements (radians, rad/min)
+  bstar: number;
+  ecco: number;
+  argpo: number;
+  inclo: number;
+  mo: number;
+  no: number;
+  nodeo: number;
+  ndot: number;
+  nddot: number;
+
+  // Near-earth coefficients
+  aycof: number;
+  con41: number;
+  cc1: number;
+  cc4: number;
+  cc5: number;
+  d2: number;
+  d3: number;
+  d4: number;
+  delmo: number;
+  eta: number;
+  argpdot: number;
+  omgcof: number;
+  sinmao: number;
+  t2cof: number;
+  t3cof: number;
+  t4cof: number;
+  t5cof: number;
+  x1mth2: number;
+  x7thm1: number;
+  mdot: number;
+  nodedot: number;
+  xlcof: number;
+  xmcof: number;
+  nodecf: number;
+  gsto: number;
+
+  // Deep-space coefficients
+  irez: number;
+  d2201: number;
+  d2211: number;
+  d3210: number;
+  d3222: number;
+  d4410: number;
+  d4422: number;
+  d5220: number;
+  d5232: number;
+  d5421: number;
+  d5433: number;
+  dedt: number;
+  del1: number;
+  del2: number;
+  del3: number;
+  didt: number;
+  dmdt: number;
+  dnodt: number;
+  domdt: number;
+  e3: number;
+  ee2: number;
+  peo: number;
+  pgho: number;
+  pho: number;
+  pinco: number;
+  plo: number;
+  se2: number;
+  se3: number;
+  sgh2: number;
+  sgh3: number;
+  sgh4: number;
+  sh2: number;
+  sh3: number;
+  si2: number;
+  si3: number;
+  sl2: number;
+  sl3: number;
+  sl4: number;
+  xfact: number;
+  xgh2: number;
+  xgh3: number;
+  xgh4: number;
+  xh2: number;
+  xh3: number;
+  xi2: number;
+  xi3: number;
+  xl2: number;
+  xl3: number;
+  xl4: number;
+  xlamo: number;
+  zmol: number;
+  zmos: number;
+  atime: number;
+  xli: number;
+  xni: number;
+}
+
+/**
+ * Julian date of a calendar date/time (UTC)
+ */
+export function jday(year: number, mon: number, day: number, hr: number, minute: number, sec: number): number {
+  return (
+    367.0 * year -
+    Math.floor(7 * (year + Math.floor((mon + 9) / 12.0)) * 0.25) +
+    Math.floor((275 * mon) / 9.0) +
+    day +
+    1721013.5 +
+    ((sec / 60.0 + minute) / 60.0 + hr) / 24.0
+  );
+}
+
+/**
+ * Julian date of a JavaScript Date
+ */
+export function dateToJulian(date: Date): number {
+  return date.getTime() / 86400000.0 + 2440587.5;
+}
+
+/**
+ * Greenwich mean sidereal time (radians) for a UT1 Julian date
+ */
+export function gstime(jdut1: number): number {
+  const tut1 = (jdut1 - 2451545.0) / 36525.0;
+  let temp =
+    -6.2e-6 * tut1 * tut1 * tut1 +
+    0.093104 * tut1 * tut1 +
+    (876600.0 * 3600 + 8640184.812866) * tut1 +
+    67310.54841;
+  temp = ((temp * DEG2RAD) / 240.0) % TWO_PI;
+  if (temp < 0.0) {
+    temp += TWO_PI;
+  }
+  return temp;
+}
+
+function emptySatRec(): SatRec {
+  return {
+    satnum: 0, jdsatepoch: 0, error: 0, method: 'n', isimp: 0, init: 'y', t: 0,
+    bstar: 0, ecco: 0, argpo: 0, inclo: 0, mo: 0, no: 0, nodeo: 0, ndot: 0, nddot: 0,
+    aycof: 0, con41: 0, cc1: 0, cc4: 0, cc5: 0, d2: 0, d3: 0, d4: 0, delmo: 0, eta: 0,
+    argpdot: 0, omgcof: 0, sinmao: 0, t2cof: 0, t3cof: 0, t4cof: 0, t5cof: 0, x1mth2: 0,
+    x7thm1: 0, mdot: 0, nodedot: 0, xlcof: 0, xmcof: 0, nodecf: 0, gsto: 0,
+    irez: 0, d2201: 0, d2211: 0, d3210: 0, d3222: 0, d4410: 0, d4422: 0, d5220: 0,
+    d5232: 0, d5421: 0, d5433: 0, dedt: 0, del1: 0, del2: 0, del3: 0, didt: 0, dmdt: 0,
+    dnodt: 0, domdt: 0, e3: 0, ee2: 0, peo: 0, pgho: 0, pho: 0, pinco: 0, plo: 0,
+    se2: 0, se3: 0, sgh2: 0, sgh3: 0, sgh4: 0, sh2: 0, sh3: 0, si2: 0, si3: 0, sl2: 0,
+    sl3: 0, sl4: 0, xfact: 0, xgh2: 0, xgh3: 0, xgh4: 0, xh2: 0, xh3: 0, xi2: 0, xi3: 0,
+    xl2: 0, xl3: 0, xl4: 0, xlamo: 0, zmol: 0, zmos: 0, atime: 0, xli: 0, xni: 0,
+  };
+}
+
+/**
+ * Initialise the propagator from decoded TLE elements
+ */
+export function twoline2satrec(elements: TLEElements): SatRec {
+  const xpdotp = MINUTES_PER_DAY / TWO_PI; // rev/day -> rad/min
+  const satrec = emptySatRec();
+
+  satrec.satnum = elements.noradId;
+  satrec.no = elements.meanMotion / xpdotp;
+  satrec.ndot = elements.meanMotionDot / (xpdotp * MINUTES_PER_DAY);
+  satrec.nddot = elements.meanMotionDdot / (xpdotp * MINUTES_PER_DAY * MINUTES_PER_DAY);
+  satrec.bstar = elements.bstar;
+  satrec.inclo = elements.inclination * DEG2RAD;
+  satrec.nodeo = elements.raan * DEG2RAD;
+  satrec.argpo = elements.argOfPerigee * DEG2RAD;
+  satrec.mo = elements.meanAnomaly * DEG2RAD;
+  satrec.ecco = elements.eccentricity;
+  satrec.jdsatepoch = jday(elements.epochYear, 1, 0, 0, 0, 0) + elements.epochDays;
+
+  sgp4init(satrec, satrec.jdsatepoch - 2433281.5);
+  return satrec;
+}
+
+interface InitlResult {
+  ainv: number;
+  ao: number;
+  con41: number;
+  con42: number;
+  cosio: number;
+  cosio2: number;
+  eccsq: number;
+  omeosq: number;
+  posq: number;
+  rp: number;
+  rteosq: number;
+  sinio: number;
+  gsto: number;
+  no: number;
+}
+
+function initl(ecco: number, epoch: number, inclo: number, noKozai: number): InitlResult {
+  const eccsq = ecco * ecco;
+  const omeosq = 1.0 - eccsq;
+  const rteosq = Math.sqrt(omeosq);
+  const cosio = Math.cos(inclo);
+  const cosio2 = cosio * cosio;
+
+  // Un-Kozai the mean motion
+  const ak = Math.pow(XKE / noKozai, X2O3);
+  const d1 = (0.75 * J2 * (3.0 * cosio2 - 1.0)) / (rteosq * omeosq);
+  let delPrime = d1 / (ak * ak);
+  const adel = ak * (1.0 - delPrime * delPrime - delPrime * (1.0 / 3.0 + (134.0 * delPrime * delPrime) / 81.0));
+  delPrime = d1 / (adel * adel);
+  const no = noKozai / (1.0 + delPrime);
+
+  const ao = Math.pow(XKE / no, X2O3);
+  const sinio = Math.sin(inclo);
+  const po = ao * omeosq;
+  const con42 = 1.0 - 5.0 * cosio2;
+  const con41 = -con42 - cosio2 - cosio2;
+
+  return {
+    ainv: 1.0 / ao,
+    ao,
+    con41,
+    con42,
+    cosio,
+    cosio2,
+    eccsq,
+    omeosq,
+    posq: po * po,
+    rp: ao * (1.0 - ecco),
+    rteosq,
+    sinio,
+    gsto: gstime(epoch + 2433281.5),
+    no,
+  };
+}
+
+interface DscomResult {
+  snodm: number; cnodm: number; sinim: number; cosim: number; sinomm: number; cosomm: number;
+  day: number; e3: number; ee2: number; em: number; emsq: number; gam: number;
+  peo: number; pgho: number; pho: number; pinco: number; plo: number; rtemsq: number;
+  se2: number; se3: number; sgh2: number; sgh3: number; sgh4: number; sh2: number; sh3: number;
+  si2: number; si3: number; sl2: number; sl3: number; sl4: number;
+  s1: number; s2: number; s3: number; s4: number; s5: number; s6: number; s7: number;
+  ss1: number; ss2: number; ss3: number; ss4: number; ss5: number; ss6: number; ss7: number;
+  sz1: number; sz2: number; sz3: number; sz11: number; sz12: number; sz13: number;
+  sz21: number; sz22: number; sz23: number; sz31: number; sz32: number; sz33: number;
+  xgh2: number; xgh3: number; xgh4: number; xh2: number; xh3: number; xi2: number; xi3: number;
+  xl2: number; xl3: number; xl4: number; nm: number;
+  z1: number; z2: number; z3: number; z11: number; z12: number; z13: number;
+  z21: number; z22: number; z23: number; z31: number; z32: number; z33: number;
+  zmol: number; zmos: number;
+}
+
+/**
+ * Deep-space common terms (lunar and solar perturbation coefficients)
+ */
+function dscom(epoch: number, ep: number, argpp: number, tc: number, inclp: number, nodep: number, np: number): DscomResult {
+  const zes = 0.01675;
+  const zel = 0.0549;
+  const c1ss = 2.9864797e-6;
+  const c1l = 4.7968065e-7;
+  const zsinis = 0.39785416;
+  const zcosis = 0.91744867;
+  const zcosgs = 0.1945905;
+  const zsings = -0.98088458;
+
+  const nm = np;
+  const em = ep;
+  const snodm = Math.sin(nodep);
+  const cnodm = Math.cos(nodep);
+  const sinomm = Math.sin(argpp);
+  const cosomm = Math.cos(argpp);
+  const sinim = Math.sin(inclp);
+  const cosim = Math.cos(inclp);
+  const emsq = em * em;
+  const betasq = 1.0 - emsq;
+  const rtemsq = Math.sqrt(betasq);
+
+  // Initialize lunar solar terms
+  const day = epoch + 18261.5 + tc / 1440.0;
+  const xnodce = (4.523602 - 9.2422029e-4 * day) % TWO_PI;
+  const stem = Math.sin(xnodce);
+  const ctem = Math.cos(xnodce);
+  const zcosil = 0.91375164 - 0.03568096 * ctem;
+  const zsinil = Math.sqrt(1.0 - zcosil * zcosil);
+  const zsinhl = (0.089683511 * stem) / zsinil;
+  const zcoshl = Math.sqrt(1.0 - zsinhl * zsinhl);
+  const gam = 5.8351514 + 0.001944368 * day;
+  let zx = (0.39785416 * stem) / zsinil;
+  const zy = zcoshl * ctem + 0.91744867 * zsinhl * stem;
+  zx = Math.atan2(zx, zy);
+  zx = gam + zx - xnodce;
+  const zcosgl = Math.cos(zx);
+  const zsingl = Math.sin(zx);
+
+  // Do solar terms, then lunar terms
+  let zcosg = zcosgs;
+  let zsing = zsings;
+  let zcosi = zcosis;
+  let zsini = zsinis;
+  let zcosh = cnodm;
+  let zsinh = snodm;
+  let cc = c1ss;
+  const xnoi = 1.0 / nm;
+
+  let s1 = 0, s2 = 0, s3 = 0, s4 = 0, s5 = 0, s6 = 0, s7 = 0;
+  let ss1 = 0, ss2 = 0, ss3 = 0, ss4 = 0, ss5 = 0, ss6 = 0, ss7 = 0;
+  let z1 = 0, z2 = 0, z3 = 0, z11 = 0, z12 = 0, z13 = 0, z21 = 0, z22 = 0, z23 = 0, z31 = 0, z32 = 0, z33 = 0;
+  let sz1 = 0, sz2 = 0, sz3 = 0, sz11 = 0, sz12 = 0, sz13 = 0, sz21 = 0, sz22 = 0, sz23 = 0, sz31 = 0, sz32 = 0, sz33 = 0;
+
+  for (let lsflg = 1; lsflg <= 2; lsflg++) {
+    const a1 = zcosg * zcosh + zsing * zcosi * zsinh;
+    const a3 = -zsing * zcosh + zcosg * zcosi * zsinh;
+    const a7 = -zcosg * zsinh + zsing * zcosi * zcosh;
+    const a8 = zsing * zsini;
+    const a9 = zsing * zsinh + zcosg * zcosi * zcosh;
+    const a10 = zcosg * zsini;
+    const a2 = cosim * a7 + sinim * a8;
+    const a4 = cosim * a9 + sinim * a10;
+    const a5 = -sinim * a7 + cosim * a8;
+    const a6 = -sinim * a9 + cosim * a10;
+
+    const x1 = a1 * cosomm + a2 * sinomm;
+    const x2 = a3 * cosomm + a4 * sinomm;
+    const x3 = -a1 * sinomm + a2 * cosomm;
+    const x4 = -a3 * sinomm + a4 * cosomm;
+    const x5 = a5 * sinomm;
+    const x6 = a6 * sinomm;
+    const x7 = a5 * cosomm;
+    const x8 = a6 * cosomm;
+
+    z31 = 12.0 * x1 * x1 - 3.0 * x3 * x3;
+    z32 = 24.0 * x1 * x2 - 6.0 * x3 * x4;
+    z33 = 12.0 * x2 * x2 - 3.0 * x4 * x4;
+    z1 = 3.0 * (a1 * a1 + a2 * a2) + z31 * emsq;
+    z2 = 6.0 * (a1 * a3 + a2 * a4) + z32 * emsq;
+    z3 = 3.0 * (a3 * a3 + a4 * a4) + z33 * emsq;
+    z11 = -6.0 * a1 * a5 + emsq * (-24.0 * x1 * x7 - 6.0 * x3 * x5);
+    z12 = -6.0 * (a1 * a6 + a3 * a5) + emsq * (-24.0 * (x2 * x7 + x1 * x8) - 6.0 * (x3 * x6 + x4 * x5));
+    z13 = -6.0 * a3 * a6 + emsq * (-24.0 * x2 * x8 - 6.0 * x4 * x6);
+    z21 = 6.0 * a2 * a5 + emsq * (24.0 * x1 * x5 - 6.0 * x3 * x7);
+    z22 = 6.0 * (a4 * a5 + a2 * a6) + emsq * (24.0 * (x2 * x5 + x1 * x6) - 6.0 * (x4 * x7 + x3 * x8));
+    z23 = 6.0 * a4 * a6 + emsq * (24.0 * x2 * x6 - 6.0 * x4 * x8);
+    z1 = z1 + z1 + betasq * z31;
+    z2 = z2 + z2 + betasq * z32;
+    z3 = z3 + z3 + betasq * z33;
+    s3 = cc * xnoi;
+    s2 = (-0.5 * s3) / rtemsq;
+    s4 = s3 * rtemsq;
+    s1 = -15.0 * em * s4;
+    s5 = x1 * x3 + x2 * x4;
+    s6 = x2 * x3 + x1 * x4;
+    s7 = x2 * x4 - x1 * x3;
+
+    if (lsflg === 1) {
+      ss1 = s1; ss2 = s2; ss3 = s3; ss4 = s4; ss5 = s5; ss6 = s6; ss7 = s7;
+      sz1 = z1; sz2 = z2; sz3 = z3;
+      sz11 = z11; sz12 = z12; sz13 = z13;
+      sz21 = z21; sz22 = z22; sz23 = z23;
+      sz31 = z31; sz32 = z32; sz33 = z33;
+      zcosg = zcosgl;
+      zsing = zsingl;
+      zcosi = zcosil;
+      zsini = zsinil;
+      zcosh = zcoshl * cnodm + zsinhl * snodm;
+      zsinh = snodm * zcoshl - cnodm * zsinhl;
+      cc = c1l;
+    }
+  }
+
+  const zmol = (4.7199672 + (0.2299715 * day - gam)) % TWO_PI;
+  const zmos = (6.2565837 + 0.017201977 * day) % TWO_PI;
+
+  return {
+    snodm, cnodm, sinim, cosim, sinomm, cosomm, day,
+    e3: 2.0 * s1 * s7,
+    ee2: 2.0 * s1 * s6,
+    em, emsq, gam,
+    peo: 0.0, pgho: 0.0, pho: 0.0, pinco: 0.0, plo: 0.0,
+    rtemsq,
+    se2: 2.0 * ss1 * ss6,
+    se3: 2.0 * ss1 * ss7,
+    sgh2: 2.0 * ss4 * sz32,
+    sgh3: 2.0 * ss4 * (sz33 - sz31),
+    sgh4: -18.0 * ss4 * zes,
+    sh2: -2.0 * ss2 * sz22,
+    sh3: -2.0 * ss2 * (sz23 - sz21),
+    si2: 2.0 * ss2 * sz12,
+    si3: 2.0 * ss2 * (sz13 - sz11),
+    sl2: -2.0 * ss3 * sz2,
+    sl3: -2.0 * ss3 * (sz3 - sz1),
+    sl4: -2.0 * ss3 * (-21.0 - 9.0 * emsq) * zes,
+    s1, s2, s3, s4, s5, s6, s7,
+    ss1, ss2, ss3, ss4, ss5, ss6, ss7,
+    sz1, sz2, sz3, sz11, sz12, sz13, sz21, sz22, sz23, sz31, sz32, sz33,
+    xgh2: 2.0 * s4 * z32,
+    xgh3: 2.0 * s4 * (z33 - z31),
+    xgh4: -18.0 * s4 * zel,
+    xh2: -2.0 * s2 * z22,
+    xh3: -2.0 * s2 * (z23 - z21),
+    xi2: 2.0 * s2 * z12,
+    xi3: 2.0 * s2 * (z13 - z11),
+    xl2: -2.0 * s3 * z2,
+    xl3: -2.0 * s3 * (z3 - z1),
+    xl4: -2.0 * s3 * (-21.0 - 9.0 * emsq) * zel,
+    nm,
+    z1, z2, z3, z11, z12, z13, z21, z22, z23, z31, z32, z33,
+    zmol, zmos,
+  };
+}
+
+interface PeriodicElements {
+  ep: number;
+  inclp: number;
+  nodep: number;
+  argpp: number;
+  mp: number;
+}
+
+/**
+ * Deep-space long-period periodic contributions to the mean elements
+ */
+function dpper(satrec: SatRec, elements: PeriodicElements): PeriodicElements {
+  let { ep, inclp, nodep, argpp, mp } = elements;
+
+  const zns = 1.19459e-5;
+  const zes = 0.01675;
+  const znl = 1.5835218e-4;
+  const zel = 0.0549;
+
+  // Solar terms
+  let zm = satrec.zmos + zns * satrec.t;
+  let zf = zm + 2.0 * zes * Math.sin(zm);
+  let sinzf = Math.sin(zf);
+  let f2 = 0.5 * sinzf * sinzf - 0.25;
+  let f3 = -0.5 * sinzf * Math.cos(zf);
+  const ses = satrec.se2 * f2 + satrec.se3 * f3;
+  const sis = satrec.si2 * f2 + satrec.si3 * f3;
+  const sls = satrec.sl2 * f2 + satrec.sl3 * f3 + satrec.sl4 * sinzf;
+  const sghs = satrec.sgh2 * f2 + satrec.sgh3 * f3 + satrec.sgh4 * sinzf;
+  const shs = satrec.sh2 * f2 + satrec.sh3 * f3;
+
+  // Lunar terms
+  zm = satrec.zmol + znl * satrec.t;
+  zf = zm + 2.0 * zel * Math.sin(zm);
+  sinzf = Math.sin(zf);
+  f2 = 0.5 * sinzf * sinzf - 0.25;
+  f3 = -0.5 * sinzf * Math.cos(zf);
+  const sel = satrec.ee2 * f2 + satrec.e3 * f3;
+  const sil = satrec.xi2 * f2 + satrec.xi3 * f3;
+  const sll = satrec.xl2 * f2 + satrec.xl3 * f3 + satrec.xl4 * sinzf;
+  const sghl = satrec.xgh2 * f2 + satrec.xgh3 * f3 + satrec.xgh4 * sinzf;
+  const shll = satrec.xh2 * f2 + satrec.xh3 * f3;
+
+  const pe = ses + sel - satrec.peo;
+  const pinc = sis + sil - satrec.pinco;
+  const pl = sls + sll - satrec.plo;
+  let pgh = sghs + sghl - satrec.pgho;
+  let ph = shs + shll - satrec.pho;
+
+  inclp += pinc;
+  ep += pe;
+  const sinip = Math.sin(inclp);
+  const cosip = Math.cos(inclp);
+
+  if (inclp >= 0.2) {
+    // Apply periodics directly
+    ph /= sinip;
+    pgh -= cosip * ph;
+    argpp += pgh;
+    nodep += ph;
+    mp += pl;
+  } else {
+    // Apply periodics with Lyddane modification
+    const sinop = Math.sin(nodep);
+    const cosop = Math.cos(nodep);
+    let alfdp = sinip * sinop;
+    let betdp = sinip * cosop;
+    const dalf = ph * cosop + pinc * cosip * sinop;
+    const dbet = -ph * sinop + pinc * cosip * cosop;
+    alfdp += dalf;
+    betdp += dbet;
+    nodep %= TWO_PI;
+
+    let xls = mp + argpp + cosip * nodep;
+    const dls = pl + pgh - pinc * nodep * sinip;
+    xls += dls;
+    const xnoh = nodep;
+    nodep = Math.atan2(alfdp, betdp);
+    if (Math.abs(xnoh - nodep) > Math.PI) {
+      if (nodep < xnoh) {
+        nodep += TWO_PI;
+      } else {
+        nodep -= TWO_PI;
+      }
+    }
+    mp += pl;
+    argpp = xls - mp - cosip * nodep;
+  }
+
+  return { ep, inclp, nodep, argpp, mp };
+}
+
+interface DsinitInput {
+  cosim: number; sinim: number; emsq: number;
+  s1: number; s2: number; s3: number; s4: number; s5: number;
+  ss1: number; ss2: number; ss3: number; ss4: number; ss5: number;
+  sz1: number; sz3: number; sz11: number; sz13: number; sz21: number; sz23: number; sz31: number; sz33: number;
+  z1: number; z3: number; z11: number; z13: number; z21: number; z23: number; z31: number; z33: number;
+  tc: number; xpidot: number; eccsq: number;
+  em: number; argpm: number; inclm: number; mm: number; nm: number; nodem: number;
+}
+
+/**
+ * Deep-space secular rates and resonance coefficients
+ */
+function dsinit(satrec: SatRec, input: DsinitInput) {
+  const {
+    cosim, sinim, s1, s2, s3, s4, s5, ss1, ss2, ss3, ss4, ss5,
+    sz1, sz3, sz11, sz13, sz21, sz23, sz31, sz33,
+    z1, z3, z11, z13, z21, z23, z31, z33, tc, xpidot, eccsq,
+  } = input;
+  let { emsq, em, argpm, inclm, mm, nm, nodem } = input;
+
+  const q22 = 1.7891679e-6;
+  const q31 = 2.1460748e-6;
+  const q33 = 2.2123015e-7;
+  const root22 = 1.7891679e-6;
+  const root44 = 7.3636953e-9;
+  const root54 = 2.1765803e-9;
+  const rptim = 4.37526908801129966e-3;
+  const root32 = 3.7393792e-7;
+  const root52 = 1.1428639e-7;
+  const znl = 1.5835218e-4;
+  const zns = 1.19459e-5;
+
+  // Deep space initialization
+  satrec.irez = 0;
+  if (nm < 0.0052359877 && nm > 0.0034906585) {
+    satrec.irez = 1;
+  }
+  if (nm >= 8.26e-3 && nm <= 9.24e-3 && em >= 0.5) {
+    satrec.irez = 2;
+  }
+
+  // Solar terms
+  const ses = ss1 * zns * ss5;
+  const sis = ss2 * zns * (sz11 + sz13);
+  const sls = -zns * ss3 * (sz1 + sz3 - 14.0 - 6.0 * emsq);
+  const sghs = ss4 * zns * (sz31 + sz33 - 6.0);
+  let shs = -zns * ss2 * (sz21 + sz23);
+  if (inclm < 5.2359877e-2 || inclm > Math.PI - 5.2359877e-2) {
+    shs = 0.0;
+  }
+  if (sinim !== 0.0) {
+    shs /= sinim;
+  }
+  const sgs = sghs - cosim * shs;
+
+  // Lunar terms
+  satrec.dedt = ses + s1 * znl * s5;
+  satrec.didt = sis + s2 * znl * (z11 + z13);
+  satrec.dmdt = sls - znl * s3 * (z1 + z3 - 14.0 - 6.0 * emsq);
+  const sghl = s4 * znl * (z31 + z33 - 6.0);
+  let shll = -znl * s2 * (z21 + z23);
+  if (inclm < 5.2359877e-2 || inclm > Math.PI - 5.2359877e-2) {
+    shll = 0.0;
+  }
+  satrec.domdt = sgs + sghl;
+  satrec.dnodt = shs;
+  if (sinim !== 0.0) {
+    satrec.domdt -= (cosim / sinim) * shll;
+    satrec.dnodt += shll / sinim;
+  }
+
+  // Calculate deep space resonance effects
+  const dndt = 0.0;
+  const theta = (satrec.gsto + tc * rptim) % TWO_PI;
+  em += satrec.dedt * satrec.t;
+  inclm += satrec.didt * satrec.t;
+  argpm += satrec.domdt * satrec.t;
+  nodem += satrec.dnodt * satrec.t;
+  mm += satrec.dmdt * satrec.t;
+
+  if (satrec.irez !== 0) {
+    const aonv = Math.pow(nm / XKE, X2O3);
+
+    // Geopotential resonance for 12 hour orbits
+    if (satrec.irez === 2) {
+      const cosisq = cosim * cosim;
+      const emo = em;
+      em = satrec.ecco;
+      const emsqo = emsq;
+      emsq = eccsq;
+      const eoc = em * emsq;
+      const g201 = -0.306 - (em - 0.64) * 0.44;
+
+      let g211: number, g310: number, g322: number, g410: number, g422: number, g520: number;
+      let g521: number, g532: number, g533: number;
+      if (em <= 0.65) {
+        g211 = 3.616 - 13.247 * em + 16.29 * emsq;
+        g310 = -19.302 + 117.39 * em - 228.419 * emsq + 156.591 * eoc;
+        g322 = -18.9068 + 109.7927 * em - 214.6334 * emsq + 146.5816 * eoc;
+        g410 = -41.122 + 242.694 * em - 471.094 * emsq + 313.953 * eoc;
+        g422 = -146.407 + 841.88 * em - 1629.014 * emsq + 1083.435 * eoc;
+        g520 = -532.114 + 3017.977 * em - 5740.032 * emsq + 3708.276 * eoc;
+      } else {
+        g211 = -72.099 + 331.819 * em - 508.738 * emsq + 266.724 * eoc;
+        g310 = -346.844 + 1582.851 * em - 2415.925 * emsq + 1246.113 * eoc;
+        g322 = -342.585 + 1554.908 * em - 2366.899 * emsq + 1215.972 * eoc;
+        g410 = -1052.797 + 4758.686 * em - 7193.992 * emsq + 3651.957 * eoc;
+        g422 = -3581.69 + 16178.11 * em - 24462.77 * emsq + 12422.52 * eoc;
+        if (em > 0.715) {
+          g520 = -5149.66 + 29936.92 * em - 54087.36 * emsq + 31324.56 * eoc;
+        } else {
+          g520 = 1464.74 - 4664.75 * em + 3763.64 * emsq;
+        }
+      }
+      if (em < 0.7) {
+        g533 = -919.2277 + 4988.61 * em - 9064.77 * emsq + 5542.21 * eoc;
+        g521 = -822.71072 + 4568.6173 * em - 8491.4146 * emsq + 5337.524 * eoc;
+        g532 = -853.666 + 4690.25 * em - 8624.77 * emsq + 5341.4 * eoc;
+      } else {
+        g533 = -37995.78 + 161616.52 * em - 229838.2 * emsq + 109377.94 * eoc;
+        g521 = -51752.104 + 218913.95 * em - 309468.16 * emsq + 146349.42 * eoc;
+        g532 = -40023.88 + 170470.89 * em - 242699.48 * emsq + 115605.82 * eoc;
+      }
+
+      const sini2 = sinim * sinim;
+      const f220 = 0.75 * (1.0 + 2.0 * cosim + cosisq);
+      const f221 = 1.5 * sini2;
+      const f321 = 1.875 * sinim * (1.0 - 2.0 * cosim - 3.0 * cosisq);
+      const f322 = -1.875 * sinim * (1.0 + 2.0 * cosim - 3.0 * cosisq);
+      const f441 = 35.0 * sini2 * f220;
+      const f442 = 39.375 * sini2 * sini2;
+      const f522 =
+        9.84375 * sinim * (sini2 * (1.0 - 2.0 * cosim - 5.0 * cosisq) + 0.33333333 * (-2.0 + 4.0 * cosim + 6.0 * cosisq));
+      const f523 =
+        sinim * (4.92187512 * sini2 * (-2.0 - 4.0 * cosim + 10.0 * cosisq) + 6.56250012 * (1.0 + 2.0 * cosim - 3.0 * cosisq));
+      const f542 = 29.53125 * sinim * (2.0 - 8.0 * cosim + cosisq * (-12.0 + 8.0 * cosim + 10.0 * cosisq));
+      const f543 = 29.53125 * sinim * (-2.0 - 8.0 * cosim + cosisq * (12.0 + 8.0 * cosim - 10.0 * cosisq));
+
+      const xno2 = nm * nm;
+      const ainv2 = aonv * aonv;
+      let temp1 = 3.0 * xno2 * ainv2;
+      let temp = temp1 * root22;
+      satrec.d2201 = temp * f220 * g201;
+      satrec.d2211 = temp * f221 * g211;
+      temp1 *= aonv;
+      temp = temp1 * root32;
+      satrec.d3210 = temp * f321 * g310;
+      satrec.d3222 = temp * f322 * g322;
+      temp1 *= aonv;
+      temp = 2.0 * temp1 * root44;
+      satrec.d4410 = temp * f441 * g410;
+      satrec.d4422 = temp * f442 * g422;
+      temp1 *= aonv;
+      temp = temp1 * root52;
+      satrec.d5220 = temp * f522 * g520;
+      satrec.d5232 = temp * f523 * g532;
+      temp = 2.0 * temp1 * root54;
+      satrec.d5421 = temp * f542 * g521;
+      satrec.d5433 = temp * f543 * g533;
+      satrec.xlamo = (satrec.mo + satrec.nodeo + satrec.nodeo - (theta + theta)) % TWO_PI;
+      satrec.xfact = satrec.mdot + satrec.dmdt + 2.0 * (satrec.nodedot + satrec.dnodt - rptim) - satrec.no;
+      em = emo;
+      emsq = emsqo;
+    }
+
+    // Synchronous resonance terms
+    if (satrec.irez === 1) {
+      const g200 = 1.0 + emsq * (-2.5 + 0.8125 * emsq);
+      const g310 = 1.0 + 2.0 * emsq;
+      const g300 = 1.0 + emsq * (-6.0 + 6.60937 * emsq);
+      const f220 = 0.75 * (1.0 + cosim) * (1.0 + cosim);
+      const f311 = 0.9375 * sinim * sinim * (1.0 + 3.0 * cosim) - 0.75 * (1.0 + cosim);
+      let f330 = 1.0 + cosim;
+      f330 = 1.875 * f330 * f330 * f330;
+      satrec.del1 = 3.0 * nm * nm * aonv * aonv;
+      satrec.del2 = 2.0 * satrec.del1 * f220 * g200 * q22;
+      satrec.del3 = 3.0 * satrec.del1 * f330 * g300 * q33 * aonv;
+      satrec.del1 = satrec.del1 * f311 * g310 * q31 * aonv;
+      satrec.xlamo = (satrec.mo + satrec.nodeo + satrec.argpo - theta) % TWO_PI;
+      satrec.xfact = satrec.mdot + xpidot - rptim + satrec.dmdt + satrec.domdt + satrec.dnodt - satrec.no;
+    }
+
+    // Initialize the integrator
+    satrec.xli = satrec.xlamo;
+    satrec.xni = satrec.no;
+    satrec.atime = 0.0;
+    nm = satrec.no + dndt;
+  }
+
+  return { em, argpm, inclm, mm, nm, nodem };
+}
+
+interface DspaceResult {
+  em: number;
+  argpm: number;
+  inclm: number;
+  mm: number;
+  nodem: number;
+  nm: number;
+}
+
+/**
+ * Deep-space secular effects and resonance integration
+ */
+function dspace(satrec: SatRec, tc: number, state: DspaceResult): DspaceResult {
+  const fasx2 = 0.13130908;
+  const fasx4 = 2.8843198;
+  const fasx6 = 0.37448087;
+  const g22 = 5.7686396;
+  const g32 = 0.95240898;
+  const g44 = 1.8014998;
+  const g52 = 1.050833;
+  const g54 = 4.4108898;
+  const rptim = 4.37526908801129966e-3;
+  const stepp = 720.0;
+  const stepn = -720.0;
+  const step2 = 259200.0;
+
+  const t = satrec.t;
+  let { em, argpm, inclm, mm, nodem, nm } = state;
+
+  // Calculate deep space resonance effects
+  let dndt = 0.0;
+  const theta = (satrec.gsto + tc * rptim) % TWO_PI;
+  em += satrec.dedt * t;
+  inclm += satrec.didt * t;
+  argpm += satrec.domdt * t;
+  nodem += satrec.dnodt * t;
+  mm += satrec.dmdt * t;
+
+  if (satrec.irez !== 0) {
+    // Restart the integrator from epoch when stepping backwards or changing direction
+    if (satrec.atime === 0.0 || t * satrec.atime <= 0.0 || Math.abs(t) < Math.abs(satrec.atime)) {
+      satrec.atime = 0.0;
+      satrec.xni = satrec.no;
+      satrec.xli = satrec.xlamo;
+    }
+
+    const delt = t > 0.0 ? stepp : stepn;
+    let ft = 0.0;
+    let xndt = 0.0;
+    let xldot = 0.0;
+    let xnddt = 0.0;
+    let iterate = true;
+
+    while (iterate) {
+      // Dot terms calculated
+      if (satrec.irez !== 2) {
+        // Near-synchronous resonance terms
+        xndt =
+          satrec.del1 * Math.sin(satrec.xli - fasx2) +
+          satrec.del2 * Math.sin(2.0 * (satrec.xli - fasx4)) +
+          satrec.del3 * Math.sin(3.0 * (satrec.xli - fasx6));
+        xldot = satrec.xni + satrec.xfact;
+        xnddt =
+          satrec.del1 * Math.cos(satrec.xli - fasx2) +
+          2.0 * satrec.del2 * Math.cos(2.0 * (satrec.xli - fasx4)) +
+          3.0 * satrec.del3 * Math.cos(3.0 * (satrec.xli - fasx6));
+        xnddt *= xldot;
+      } else {
+        // Near-half-day resonance terms
+        const xomi = satrec.argpo + satrec.argpdot * satrec.atime;
+        const x2omi = xomi + xomi;
+        const x2li = satrec.xli + satrec.xli;
+        xndt =
+          satrec.d2201 * Math.sin(x2omi + satrec.xli - g22) +
+          satrec.d2211 * Math.sin(satrec.xli - g22) +
+          satrec.d3210 * Math.sin(xomi + satrec.xli - g32) +
+          satrec.d3222 * Math.sin(-xomi + satrec.xli - g32) +
+          satrec.d4410 * Math.sin(x2omi + x2li - g44) +
+          satrec.d4422 * Math.sin(x2li - g44) +
+          satrec.d5220 * Math.sin(xomi + satrec.xli - g52) +
+          satrec.d5232 * Math.sin(-xomi + satrec.xli - g52) +
+          satrec.d5421 * Math.sin(xomi + x2li - g54) +
+          satrec.d5433 * Math.sin(-xomi + x2li - g54);
+        xldot = satrec.xni + satrec.xfact;
+        xnddt =
+          satrec.d2201 * Math.cos(x2omi + satrec.xli - g22) +
+          satrec.d2211 * Math.cos(satrec.xli - g22) +
+          satrec.d3210 * Math.cos(xomi + satrec.xli - g32) +
+          satrec.d3222 * Math.cos(-xomi + satrec.xli - g32) +
+          satrec.d5220 * Math.cos(xomi + satrec.xli - g52) +
+          satrec.d5232 * Math.cos(-xomi + satrec.xli - g52) +
+          2.0 *
+            (satrec.d4410 * Math.cos(x2omi + x2li - g44) +
+              satrec.d4422 * Math.cos(x2li - g44) +
+              satrec.d5421 * Math.cos(xomi + x2li - g54) +
+              satrec.d5433 * Math.cos(-xomi + x2li - g54));
+        xnddt *= xldot;
+      }
+
+      // Integrator
+      if (Math.abs(t - satrec.atime) >= stepp) {
+        satrec.xli += xldot * delt + xndt * step2;
+        satrec.xni += xndt * delt + xnddt * step2;
+        satrec.atime += delt;
+      } else {
+        ft = t - satrec.atime;
+        iterate = false;
+      }
+    }
+
+    nm = satrec.xni + xndt * ft + xnddt * ft * ft * 0.5;
+    const xl = satrec.xli + xldot * ft + xndt * ft * ft * 0.5;
+    if (satrec.irez !== 1) {
+      mm = xl - 2.0 * nodem + 2.0 * theta;
+    } else {
+      mm = xl - nodem - argpm + theta;
+    }
+    dndt = nm - satrec.no;
+    nm = satrec.no + dndt;
+  }
+
+  return { em, argpm, inclm, mm, nodem, nm };
+}
+
+/**
+ * Initialise the SGP4 coefficients for an element set
+ */
+function sgp4init(satrec: SatRec, epoch: number): void {
+  const temp4 = 1.5e-12;
+
+  satrec.isimp = 0;
+  satrec.method = 'n';
+  satrec.init = 'y';
+  satrec.t = 0.0;
+  satrec.error = 0;
+
+  const ss = 78.0 / EARTH_RADIUS_KM + 1.0;
+  const qzms2ttemp = (120.0 - 78.0) / EARTH_RADIUS_KM;
+  const qzms2t = qzms2ttemp * qzms2ttemp * qzms2ttemp * qzms2ttemp;
+
+  const {
+    ao, con41, con42, cosio, cosio2, eccsq, omeosq, posq, rp, rteosq, sinio, gsto, no,
+  } = initl(satrec.ecco, epoch, satrec.inclo, satrec.no);
+
+  satrec.no = no;
+  satrec.con41 = con41;
+  satrec.gsto = gsto;
+
+  if (omeosq >= 0.0 || satrec.no >= 0.0) {
+    if (rp < 220.0 / EARTH_RADIUS_KM + 1.0) {
+      satrec.isimp = 1;
+    }
+
+    let sfour = ss;
+    let qzms24 = qzms2t;
+    const perige = (rp - 1.0) * EARTH_RADIUS_KM;
+
+    // For perigees below 156 km, s and qoms2t are altered
+    if (perige < 156.0) {
+      sfour = perige - 78.0;
+      if (perige < 98.0) {
+        sfour = 20.0;
+      }
+      const qzms24temp = (120.0 - sfour) / EARTH_RADIUS_KM;
+      qzms24 = qzms24temp * qzms24temp * qzms24temp * qzms24temp;
+      sfour = sfour / EARTH_RADIUS_KM + 1.0;
+    }
+
+    const pinvsq = 1.0 / posq;
+    const tsi = 1.0 / (ao - sfour);
+    satrec.eta = ao * satrec.ecco * tsi;
+    const etasq = satrec.eta * satrec.eta;
+    const eeta = satrec.ecco * satrec.eta;
+    const psisq = Math.abs(1.0 - etasq);
+    const coef = qzms24 * Math.pow(tsi, 4.0);
+    const coef1 = coef / Math.pow(psisq, 3.5);
+    const cc2 =
+      coef1 *
+      satrec.no *
+      (ao * (1.0 + 1.5 * etasq + eeta * (4.0 + etasq)) +
+        ((0.375 * J2 * tsi) / psisq) * satrec.con41 * (8.0 + 3.0 * etasq * (8.0 + etasq)));
+    satrec.cc1 = satrec.bstar * cc2;
+    let cc3 = 0.0;
+    if (satrec.ecco > 1.0e-4) {
+      cc3 = (-2.0 * coef * tsi * J3OJ2 * satrec.no * sinio) / satrec.ecco;
+    }
+    satrec.x1mth2 = 1.0 - cosio2;
+    satrec.cc4 =
+      2.0 *
+      satrec.no *
+      coef1 *
+      ao *
+      omeosq *
+      (satrec.eta * (2.0 + 0.5 * etasq) +
+        satrec.ecco * (0.5 + 2.0 * etasq) -
+        ((J2 * tsi) / (ao * psisq)) *
+          (-3.0 * satrec.con41 * (1.0 - 2.0 * eeta + etasq * (1.5 - 0.5 * eeta)) +
+            0.75 * satrec.x1mth2 * (2.0 * etasq - eeta * (1.0 + etasq)) * Math.cos(2.0 * satrec.argpo)));
+    satrec.cc5 = 2.0 * coef1 * ao * omeosq * (1.0 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+    const cosio4 = cosio2 * cosio2;
+    const temp1 = 1.5 * J2 * pinvsq * satrec.no;
+    const temp2 = 0.5 * temp1 * J2 * pinvsq;
+    const temp3 = -0.46875 * J4 * pinvsq * pinvsq * satrec.no;
+    satrec.mdot =
+      satrec.no +
+      0.5 * temp1 * rteosq * satrec.con41 +
+      0.0625 * temp2 * rteosq * (13.0 - 78.0 * cosio2 + 137.0 * cosio4);
+    satrec.argpdot =
+      -0.5 * temp1 * con42 +
+      0.0625 * temp2 * (7.0 - 114.0 * cosio2 + 395.0 * cosio4) +
+      temp3 * (3.0 - 36.0 * cosio2 + 49.0 * cosio4);
+    const xhdot1 = -temp1 * cosio;
+    satrec.nodedot = xhdot1 + (0.5 * temp2 * (4.0 - 19.0 * cosio2) + 2.0 * temp3 * (3.0 - 7.0 * cosio2)) * cosio;
+    const xpidot = satrec.argpdot + satrec.nodedot;
+    satrec.omgcof = satrec.bstar * cc3 * Math.cos(satrec.argpo);
+    satrec.xmcof = 0.0;
+    if (satrec.ecco > 1.0e-4) {
+      satrec.xmcof = (-X2O3 * coef * satrec.bstar) / eeta;
+    }
+    satrec.nodecf = 3.5 * omeosq * xhdot1 * satrec.cc1;
+    satrec.t2cof = 1.5 * satrec.cc1;
+
+    // Avoid division by zero for inclination = 180 deg
+    if (Math.abs(cosio + 1.0) > 1.5e-12) {
+      satrec.xlcof = (-0.25 * J3OJ2 * sinio * (3.0 + 5.0 * cosio)) / (1.0 + cosio);
+    } else {
+      satrec.xlcof = (-0.25 * J3OJ2 * sinio * (3.0 + 5.0 * cosio)) / temp4;
+    }
+    satrec.aycof = -0.5 * J3OJ2 * sinio;
+    const delmotemp = 1.0 + satrec.eta * Math.cos(satrec.mo);
+    satrec.delmo = delmotemp * delmotemp * delmotemp;
+    satrec.sinmao = Math.sin(satrec.mo);
+    satrec.x7thm1 = 7.0 * cosio2 - 1.0;
+
+    // Deep space initialization
+    if (TWO_PI / satrec.no >= 225.0) {
+      satrec.method = 'd';
+      satrec.isimp = 1;
+      const tc = 0.0;
+      const inclm = satrec.inclo;
+
+      const ds = dscom(epoch, satrec.ecco, satrec.argpo, tc, satrec.inclo, satrec.nodeo, satrec.no);
+      satrec.e3 = ds.e3;
+      satrec.ee2 = ds.ee2;
+      satrec.peo = ds.peo;
+      satrec.pgho = ds.pgho;
+      satrec.pho = ds.pho;
+      satrec.pinco = ds.pinco;
+      satrec.plo = ds.plo;
+      satrec.se2 = ds.se2;
+      satrec.se3 = ds.se3;
+      satrec.sgh2 = ds.sgh2;
+      satrec.sgh3 = ds.sgh3;
+      satrec.sgh4 = ds.sgh4;
+      satrec.sh2 = ds.sh2;
+      satrec.sh3 = ds.sh3;
+      satrec.si2 = ds.si2;
+      satrec.si3 = ds.si3;
+      satrec.sl2 = ds.sl2;
+      satrec.sl3 = ds.sl3;
+      satrec.sl4 = ds.sl4;
+      satrec.xgh2 = ds.xgh2;
+      satrec.xgh3 = ds.xgh3;
+      satrec.xgh4 = ds.xgh4;
+      satrec.xh2 = ds.xh2;
+      satrec.xh3 = ds.xh3;
+      satrec.xi2 = ds.xi2;
+      satrec.xi3 = ds.xi3;
+      satrec.xl2 = ds.xl2;
+      satrec.xl3 = ds.xl3;
+      satrec.xl4 = ds.xl4;
+      satrec.zmol = ds.zmol;
+      satrec.zmos = ds.zmos;
+
+      // dpper is a no-op during initialisation, so the mean elements are unchanged here
+
+      dsinit(satrec, {
+        cosim: ds.cosim, sinim: ds.sinim, emsq: ds.emsq,
+        s1: ds.s1, s2: ds.s2, s3: ds.s3, s4: ds.s4, s5: ds.s5,
+        ss1: ds.ss1, ss2: ds.ss2, ss3: ds.ss3, ss4: ds.ss4, ss5: ds.ss5,
+        sz1: ds.sz1, sz3: ds.sz3, sz11: ds.sz11, sz13: ds.sz13,
+        sz21: ds.sz21, sz23: ds.sz23, sz31: ds.sz31, sz33: ds.sz33,
+        z1: ds.z1, z3: ds.z3, z11: ds.z11, z13: ds.z13,
+        z21: ds.z21, z23: ds.z23, z31: ds.z31, z33: ds.z33,
+        tc, xpidot, eccsq,
+        em: ds.em, argpm: 0.0, inclm, mm: 0.0, nm: ds.nm, nodem: 0.0,
+      });
+    }
+
+    // Set variables if not deep space
+    if (satrec.isimp !== 1) {
+      const cc1sq = satrec.cc1 * satrec.cc1;
+      satrec.d2 = 4.0 * ao * tsi * cc1sq;
+      const temp = (satrec.d2 * tsi * satrec.cc1) / 3.0;
+      satrec.d3 = (17.0 * ao + sfour) * temp;
+      satrec.d4 = 0.5 * temp * ao * tsi * (221.0 * ao + 31.0 * sfour) * satrec.cc1;
+      satrec.t3cof = satrec.d2 + 2.0 * cc1sq;
+      satrec.t4cof = 0.25 * (3.0 * satrec.d3 + satrec.cc1 * (12.0 * satrec.d2 + 10.0 * cc1sq));
+      satrec.t5cof =
+        0.2 *
+        (3.0 * satrec.d4 +
+          12.0 * satrec.cc1 * satrec.d3 +
+          6.0 * satrec.d2 * satrec.d2 +
+          15.0 * cc1sq * (2.0 * satrec.d2 + cc1sq));
+    }
+  }
+
+  sgp4(satrec, 0.0);
+  satrec.init = 'n';
+}
+
+/**
+ * Propagate an element set to `tsince` minutes from its epoch.
+ * Returns null and sets `satrec.error` when the propagation fails.
+ */
+export function sgp4(satrec: SatRec, tsince: number): StateVector | null {
+  const temp4 = 1.5e-12;
+
+  satrec.t = tsince;
+  satrec.error = 0;
+
+  // Update for secular gravity and atmospheric drag
+  const xmdf = satrec.mo + satrec.mdot * satrec.t;
+  const argpdf = satrec.argpo + satrec.argpdot * satrec.t;
+  const nodedf = satrec.nodeo + satrec.nodedot * satrec.t;
+  let argpm = argpdf;
+  let mm = xmdf;
+  const t2 = satrec.t * satrec.t;
+  let nodem = nodedf + satrec.nodecf * t2;
+  let tempa = 1.0 - satrec.cc1 * satrec.t;
+  let tempe = satrec.bstar * satrec.cc4 * satrec.t;
+  let templ = satrec.t2cof * t2;
+
+  if (satrec.isimp !== 1) {
+    const delomg = satrec.omgcof * satrec.t;
+    const delmtemp = 1.0 + satrec.eta * Math.cos(xmdf);
+    const delm = satrec.xmcof * (delmtemp * delmtemp * delmtemp - satrec.delmo);
+    const temp = delomg + delm;
+    mm = xmdf + temp;
+    argpm = argpdf - temp;
+    const t3 = t2 * satrec.t;
+    const t4 = t3 * satrec.t;
+    tempa = tempa - satrec.d2 * t2 - satrec.d3 * t3 - satrec.d4 * t4;
+    tempe += satrec.bstar * satrec.cc5 * (Math.sin(mm) - satrec.sinmao);
+    templ = templ + satrec.t3cof * t3 + t4 * (satrec.t4cof + satrec.t * satrec.t5cof);
+  }
+
+  let nm = satrec.no;
+  let em = satrec.ecco;
+  let inclm = satrec.inclo;
+
+  if (satrec.method === 'd') {
+    const deep = dspace(satrec, satrec.t, { em, argpm, inclm, mm, nodem, nm });
+    ({ em, argpm, inclm, mm, nodem, nm } = deep);
+  }
+
+  if (nm <= 0.0) {
+    satrec.error = 2;
+    return null;
+  }
+
+  const am = Math.pow(XKE / nm, X2O3) * tempa * tempa;
+  nm = XKE / Math.pow(am, 1.5);
+  em -= tempe;
+
+  if (em >= 1.0 || em < -0.001) {
+    satrec.error = 1;
+    return null;
+  }
+
+  // Avoid a divide by zero
+  if (em < 1.0e-6) {
+    em = 1.0e-6;
+  }
+
+  mm += satrec.no * templ;
+  let xlm = mm + argpm + nodem;
+  nodem %= TWO_PI;
+  argpm %= TWO_PI;
+  xlm %= TWO_PI;
+  mm = (xlm - argpm - nodem) % TWO_PI;
+
+  // Compute extra mid-course variables
+  const sinim = Math.sin(inclm);
+  const cosim = Math.cos(inclm);
+
+  // Add lunar-solar periodics
+  let ep = em;
+  let xincp = inclm;
+  let argpp = argpm;
+  let nodep = nodem;
+  let mp = mm;
+  let sinip = sinim;
+  let cosip = cosim;
+
+  if (satrec.method === 'd') {
+    const periodics = dpper(satrec, { ep, inclp: xincp, nodep, argpp, mp });
+    ({ ep, nodep, argpp, mp } = periodics);
+    xincp = periodics.inclp;
+
+    if (xincp < 0.0) {
+      xincp = -xincp;
+      nodep += Math.PI;
+      argpp -= Math.PI;
+    }
+
+    if (ep < 0.0 || ep > 1.0) {
+      satrec.error = 3;
+      return null;
+    }
+
+    // Long period periodics
+    sinip = Math.sin(xincp);
+    cosip = Math.cos(xincp);
+    satrec.aycof = -0.5 * J3OJ2 * sinip;
+    if (Math.abs(cosip + 1.0) > 1.5e-12) {
+      satrec.xlcof = (-0.25 * J3OJ2 * sinip * (3.0 + 5.0 * cosip)) / (1.0 + cosip);
+    } else {
+      satrec.xlcof = (-0.25 * J3OJ2 * sinip * (3.0 + 5.0 * cosip)) / temp4;
+    }
+  }
+
+  const axnl = ep * Math.cos(argpp);
+  let temp = 1.0 / (am * (1.0 - ep * ep));
+  const aynl = ep * Math.sin(argpp) + temp * satrec.aycof;
+  const xl = mp + argpp + nodep + temp * satrec.xlcof * axnl;
+
+  // Solve Kepler's equation
+  const u = (xl - nodep) % TWO_PI;
+  let eo1 = u;
+  let tem5 = 9999.9;
+  let ktr = 1;
+  let sineo1 = 0.0;
+  let coseo1 = 0.0;
+
+  while (Math.abs(tem5) >= 1.0e-12 && ktr <= 10) {
+    sineo1 = Math.sin(eo1);
+    coseo1 = Math.cos(eo1);
+    tem5 = 1.0 - coseo1 * axnl - sineo1 * aynl;
+    tem5 = (u - aynl * coseo1 + axnl * sineo1 - eo1) / tem5;
+    if (Math.abs(tem5) >= 0.95) {
+      tem5 = tem5 > 0.0 ? 0.95 : -0.95;
+    }
+    eo1 += tem5;
+    ktr += 1;
+  }
+
+  // Short period preliminary quantities
+  const ecose = axnl * coseo1 + aynl * sineo1;
+  const esine = axnl * sineo1 - aynl * coseo1;
+  const el2 = axnl * axnl + aynl * aynl;
+  const pl = am * (1.0 - el2);
+
+  if (pl < 0.0) {
+    satrec.error = 4;
+    return null;
+  }
+
+  const rl = am * (1.0 - ecose);
+  const rdotl = (Math.sqrt(am) * esine) / rl;
+  const rvdotl = Math.sqrt(pl) / rl;
+  const betal = Math.sqrt(1.0 - el2);
+  temp = esine / (1.0 + betal);
+  const sinu = (am / rl) * (sineo1 - aynl - axnl * temp);
+  const cosu = (am / rl) * (coseo1 - axnl + aynl * temp);
+  let su = Math.atan2(sinu, cosu);
+  const sin2u = (cosu + cosu) * sinu;
+  const cos2u = 1.0 - 2.0 * sinu * sinu;
+  temp = 1.0 / pl;
+  const temp1 = 0.5 * J2 * temp;
+  const temp2 = temp1 * temp;
+
+  // Update for short period periodics
+  if (satrec.method === 'd') {
+    const cosisq = cosip * cosip;
+    satrec.con41 = 3.0 * cosisq - 1.0;
+    satrec.x1mth2 = 1.0 - cosisq;
+    satrec.x7thm1 = 7.0 * cosisq - 1.0;
+  }
+
+  const mrt = rl * (1.0 - 1.5 * temp2 * betal * satrec.con41) + 0.5 * temp1 * satrec.x1mth2 * cos2u;
+  su -= 0.25 * temp2 * satrec.x7thm1 * sin2u;
+  const xnode = nodep + 1.5 * temp2 * cosip * sin2u;
+  const xinc = xincp + 1.5 * temp2 * cosip * sinip * cos2u;
+  const mvt = rdotl - (nm * temp1 * satrec.x1mth2 * sin2u) / XKE;
+  const rvdot = rvdotl + (nm * temp1 * (satrec.x1mth2 * cos2u + 1.5 * satrec.con41)) / XKE;
+
+  // Orientation vectors
+  const sinsu = Math.sin(su);
+  const cossu = Math.cos(su);
+  const snod = Math.sin(xnode);
+  const cnod = Math.cos(xnode);
+  const sini = Math.sin(xinc);
+  const cosi = Math.cos(xinc);
+  const xmx = -snod * cosi;
+  const xmy = cnod * cosi;
+  const ux = xmx * sinsu + cnod * cossu;
+  const uy = xmy * sinsu + snod * cossu;
+  const uz = sini * sinsu;
+  const vx = xmx * cossu - cnod * sinsu;
+  const vy = xmy * cossu - snod * sinsu;
+  const vz = sini * cossu;
+
+  // Sgp4fix for decaying satellites
+  if (mrt < 1.0) {
+    satrec.error = 6;
+    return null;
+  }
+
+  return {
+    position: {
+      x: mrt * ux * EARTH_RADIUS_KM,
+      y: mrt * uy * EARTH_RADIUS_KM,
+      z: mrt * uz * EARTH_RADIUS_KM,
+    },
+    velocity: {
+      x: (mvt * ux + rvdot * vx) * VKMPERSEC,
+      y: (mvt * uy + rvdot * vy) * VKMPERSEC,
+      z: (mvt * uz + rvdot * vz) * VKMPERSEC,
+    },
+  };
+}
+
+/**
+ * Propagate an element set to a given date
+ */
+export function propagate(satrec: SatRec, date: Date): StateVector | null {
+  const tsince = (dateToJulian(date) - satrec.jdsatepoch) * MINUTES_PER_DAY;
+  return sgp4(satrec, tsince);
+}
@@ -0,0 +1,106 @@
+import { DEG2RAD, EARTH_RADIUS_KM, Vector3, gstime } from './sgp4.js';
+import { Observer, dot, eciToEcf, lookAngles, magnitude, subtract } from './coordinates.js';
+
+export const AU_KM = 149597870.7;
+const SUN_RADIUS_KM = 695700;
+
+// Satellite illumination states in the Earth's conical shadow
+export type ShadowState = 'sunlit' | 'penumbra' | 'umbra';
+
+// Observer sky brightness classes, by solar elevation
+export type TwilightClass = 'daylight' | 'civil' | 'nautical' | 'astronomical' | 'night';
+
+// Interface for the apparent Sun/Earth geometry seen from a satellite (radians)
+export interface ShadowGeometry {
+  separation: number; // angle between the Sun and Earth centres
+  earthAngularRadius: number;
+  sunAngularRadius: number;
+}
+
+/**
+ * Geocentric inertial position of the Sun (km) for a Julian date.
+ * Low-precision Astronomical Almanac series, good to ~0.01 deg.
+ */
+export function sunPosition(jd: number): Vector3 {
+  const tut1 = (jd - 2451545.0) / 36525.0;
+
+  const meanLongitude = (280.46 + 36000.77 * tut1) % 360;
+  const meanAnomaly = (((357.5277233 + 35999.05034 * tut1) % 360) + 360) % 360 * DEG2RAD;
+  const eclipticLongitude =
+    (meanLongitude + 1.914666471 * Math.sin(meanAnomaly) + 0.019994643 * Math.sin(2 * meanAnomaly)) * DEG2RAD;
+  const obliquity = (23.439291 - 0.0130042 * tut1) * DEG2RAD;
+  const distance =
+    (1.000140612 - 0.016708617 * Math.cos(meanAnomaly) - 0.000139589 * Math.cos(2 * meanAnomaly)) * AU_KM;
+
+  return {
+    x: distance * Math.cos(eclipticLongitude),
+    y: distance * Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    z: distance * Math.sin(obliquity) * Math.sin(eclipticLongitude),
+  };
+}
+
+/**
+ * Apparent size and separation of the Sun and Earth discs seen from a satellite
+ */
+export function shadowGeometry(satellite: Vector3, sun: Vector3): ShadowGeometry {
+  const toSun = subtract(sun, satellite);
+  const toEarth = { x: -satellite.x, y: -satellite.y, z: -satellite.z };
+  const sunDistance = magnitude(toSun);
+  const earthDistance = magnitude(toEarth);
+
+  return {
+    separation: Math.acos(Math.max(-1, Math.min(1, dot(toSun, toEarth) / (sunDistance * earthDistance)))),
+    earthAngularRadius: Math.asin(Math.min(1, EARTH_RADIUS_KM / earthDistance)),
+    sunAngularRadius: Math.asin(Math.min(1, SUN_RADIUS_KM / sunDistance)),
+  };
+}
+
+/**
+ * Whether a satellite is in the Earth's umbra, penumbra or full sunlight
+ */
+export function shadowState(satellite: Vector3, sun: Vector3): ShadowState {
+  const { separation, earthAngularRadius, sunAngularRadius } = shadowGeometry(satellite, sun);
+
+  if (separation >= earthAngularRadius + sunAngularRadius) {
+    return 'sunlit';
+  }
+  if (separation <= earthAngularRadius - sunAngularRadius) {
+    return 'umbra';
+  }
+  return 'penumbra';
+}
+
+/**
+ * Whether a satellite (inertial position, km) is in the Earth's shadow,
+ * i.e. the centre of the Sun is hidden behind the Earth's limb.
+ */
+export function isEclipsed(satellite: Vector3, sun: Vector3): boolean {
+  const { separation, earthAngularRadius } = shadowGeometry(satellite, sun);
+  return separation < earthAngularRadius;
+}
+
+/**
+ * Elevation of the Sun's centre (degrees) seen by an observer, without refraction
+ */
+export function sunElevation(observer: Observer, jd: number): number {
+  return lookAngles(observer, eciToEcf(sunPosition(jd), gstime(jd))).elevation;
+}
+
+/**
+ * Twilight class for a solar elevation in degrees
+ */
+export function twilightClass(elevation: number): TwilightClass {
+  if (elevation > -0.833) {
+    return 'daylight';
+  }
+  if (elevation > -6) {
+    return 'civil';
+  }
+  if (elevation > -12) {
+    return 'nautical';
+  }
+  if (elevation > -18) {
+    return 'astronomical';
+  }
+  return 'night';
+}
@@ -0,0 +1,394 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { EARTH_RADIUS_KM, MU } from './sgp4.js';
+
+// Interface for the raw lines of an element set
+export interface TLELines {
+  name?: string;
+  line1: string;
+  line2: string;
+}
+
+// Interface for the mean elements decoded from a TLE
+export interface TLEElements {
+  noradId: number;
+  classification: string;
+  intDesignator: string;
+  epochYear: number;
+  epochDays: number;
+  meanMotionDot: number; // rev/day^2 (first derivative / 2 as published)
+  meanMotionDdot: number; // rev/day^3 (second derivative / 6 as published)
+  bstar: number; // 1/earth radii
+  elementSetNumber: number;
+  inclination: number; // degrees
+  raan: number; // degrees
+  eccentricity: number;
+  argOfPerigee: number; // degrees
+  meanAnomaly: number; // degrees
+  meanMotion: number; // rev/day
+  revolutionNumber: number;
+  epoch: Date;
+}
+
+/**
+ * Split a TLE string (2 or 3 lines, any line ending) into its lines
+ */
+export function splitTLE(tle: string): TLELines {
+  const lines = tle
+    .split(/\r?\n/)
+    .map(line => line.trimEnd())
+    .filter(line => line.trim().length > 0);
+
+  const line1Index = lines.findIndex(line => line.startsWith('1 '));
+  if (line1Index === -1 || !lines[line1Index + 1]?.startsWith('2 ')) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Invalid TLE. Expected a line starting with "1 " followed by a line starting with "2 ".'
+    );
+  }
+
+  const name = line1Index > 0 ? lines[line1Index - 1].replace(/^0 /, '').trim() : undefined;
+
+  return {
+    name,
+    line1: lines[line1Index],
+    line2: lines[line1Index + 1],
+  };
+}
+
+/**
+ * Parse a TLE field written in assumed-decimal exponential notation (e.g. " 12345-3")
+ */
+function parseExponential(field: string): number {
+  const trimmed = field.trim();
+  if (!trimmed) {
+    return 0;
+  }
+
+  const match = trimmed.match(/^([+-]?)(\d+)([+-]\d)$/);
+  if (!match) {
+    return NaN;
+  }
+
+  return parseFloat(`${match[1]}0.${match[2]}e${match[3]}`);
+}
+
+/**
+ * Decode the mean elements of a TLE
+ */
+export function decodeTLE(tle: string | TLELines): TLEElements {
+  const { line1, line2 } = typeof tle === 'string' ? splitTLE(tle) : tle;
+
+  const epochYear2 = parseInt(line1.substring(18, 20), 10);
+  const epochYear = epochYear2 < 57 ? 2000 + epochYear2 : 1900 + epochYear2;
+  const epochDays = parseFloat(line1.substring(20, 32));
+
+  const elements: TLEElements = {
+    noradId: parseInt(line1.substring(2, 7), 10),
+    classification: line1.charAt(7).trim() || 'U',
+    intDesignator: line1.substring(9, 17).trim(),
+    epochYear,
+    epochDays,
+    meanMotionDot: parseFloat(line1.substring(33, 43)),
+    meanMotionDdot: parseExponential(line1.substring(44, 52)),
+    bstar: parseExponential(line1.substring(53, 61)),
+    elementSetNumber: parseInt(line1.substring(64, 68), 10) || 0,
+    inclination: parseFloat(line2.substring(8, 16)),
+    raan: parseFloat(line2.substring(17, 25)),
+    eccentricity: parseFloat(`0.${line2.substring(26, 33).trim()}`),
+    argOfPerigee: parseFloat(line2.substring(34, 42)),
+    meanAnomaly: parseFloat(line2.substring(43, 51)),
+    meanMotion: parseFloat(line2.substring(52, 63)),
+    revolutionNumber: parseInt(line2.substring(63, 68), 10) || 0,
+    epoch: new Date(Date.UTC(epochYear, 0, 1) + (epochDays - 1) * 86400000),
+  };
+
+  const numericFields: (keyof TLEElements)[] = [
+    'noradId', 'epochDays', 'meanMotionDot', 'meanMotionDdot', 'bstar',
+    'inclination', 'raan', 'eccentricity', 'argOfPerigee', 'meanAnomaly', 'meanMotion',
+  ];
+  const invalid = numericFields.filter(field => Number.isNaN(elements[field]));
+  if (invalid.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid TLE. Could not parse: ${invalid.join(', ')}`
+    );
+  }
+
+  return elements;
+}
+
+/**
+ * Modulo-10 checksum of a TLE line (digits count their value, '-' counts 1)
+ */
+export function tleChecksum(line: string): number {
+  let sum = 0;
+  for (const char of line.substring(0, 68)) {
+    if (char >= '0' && char <= '9') {
+      sum += parseInt(char, 10);
+    } else if (char === '-') {
+      sum += 1;
+    }
+  }
+  return sum % 10;
+}
+
+/**
+ * Format a value in TLE assumed-decimal exponential notation (8 columns)
+ */
+function formatExponential(value: number): string {
+  if (value === 0) {
+    return ' 00000-0';
+  }
+
+  let exponent = Math.floor(Math.log10(Math.abs(value))) + 1;
+  let mantissa = Math.round((Math.abs(value) / Math.pow(10, exponent)) * 100000);
+  if (mantissa >= 100000) {
+    mantissa = 10000;
+    exponent += 1;
+  }
+  exponent = Math.max(-9, Math.min(9, exponent));
+
+  return `${value < 0 ? '-' : ' '}${String(mantissa).padStart(5, '0')}${exponent < 0 ? '-' : '+'}${Math.abs(exponent)}`;
+}
+
+function formatAngle(value: number): string {
+  const normalized = ((value % 360) + 360) % 360;
+  return normalized.toFixed(4).padStart(8, ' ');
+}
+
+/**
+ * Format mean elements as the two lines of a TLE, with checksums
+ */
+export function formatTLE(elements: Omit<TLEElements, 'epochYear' | 'epochDays'>): TLELines {
+  if (!Number.isInteger(elements.noradId) || elements.noradId < 1 || elements.noradId > 99999) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `NORAD ID ${elements.noradId} cannot be represented in TLE format (1-99999).`
+    );
+  }
+
+  const epoch = elements.epoch;
+  const yearStart = Date.UTC(epoch.getUTCFullYear(), 0, 1);
+  const dayOfYear = (epoch.getTime() - yearStart) / 86400000 + 1;
+  const satnum = String(elements.noradId).padStart(5, '0');
+  const ndot = `${elements.meanMotionDot < 0 ? '-' : ' '}${Math.abs(elements.meanMotionDot).toFixed(8).replace(/^0/, '')}`;
+
+  const line1 = [
+    '1',
+    ` ${satnum}${elements.classification || 'U'}`,
+    ` ${elements.intDesignator.padEnd(8, ' ').substring(0, 8)}`,
+    ` ${String(epoch.getUTCFullYear() % 100).padStart(2, '0')}${dayOfYear.toFixed(8).padStart(12, '0')}`,
+    ` ${ndot}`,
+    ` ${formatExponential(elements.meanMotionDdot)}`,
+    ` ${formatExponential(elements.bstar)}`,
+    ' 0',
+    ` ${String(elements.elementSetNumber % 10000).padStart(4, ' ')}`,
+  ].join('');
+
+  const line2 = [
+    '2',
+    ` ${satnum}`,
+    ` ${formatAngle(elements.inclination)}`,
+    ` ${formatAngle(elements.raan)}`,
+    ` ${elements.eccentricity.toFixed(7).substring(2)}`,
+    ` ${formatAngle(elements.argOfPerigee)}`,
+    ` ${formatAngle(elements.meanAnomaly)}`,
+    ` ${elements.meanMotion.toFixed(8).padStart(11, ' ')}`,
+    String(elements.revolutionNumber % 100000).padStart(5, ' '),
+  ].join('');
+
+  return {
+    line1: `${line1}${tleChecksum(line1)}`,
+    line2: `${line2}${tleChecksum(line2)}`,
+  };
+}
+
+// Interface for an element set read from a TLE file
+export interface TLEFileRecord {
+  lines: TLELines;
+  line: number; // 1-based line number of the first line of the record
+}
+
+// Interface for a record that could not be read from a file
+export interface ElementParseError {
+  line: number | null;
+  message: string;
+}
+
+/**
+ * Read all 2-line and 3-line (named) element sets from the contents of a TLE file
+ */
+export function parseTLEFile(content: string): { records: TLEFileRecord[]; errors: ElementParseError[] } {
+  const lines = content.split(/\r?\n/);
+  const records: TLEFileRecord[] = [];
+  const errors: ElementParseError[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (!line.trim()) {
+      continue;
+    }
+
+    if (line.startsWith('1 ')) {
+      const next = (lines[i + 1] || '').trimEnd();
+      if (!next.startsWith('2 ')) {
+        errors.push({ line: i + 1, message: 'Line 1 is not followed by line 2.' });
+        continue;
+      }
+
+      const previous = i > 0 ? lines[i - 1].trimEnd() : '';
+      const hasName = previous.trim() !== '' && !previous.startsWith('1 ') && !previous.startsWith('2 ');
+      records.push({
+        lines: {
+          name: hasName ? previous.replace(/^0 /, '').trim() : undefined,
+          line1: line,
+          line2: next,
+        },
+        line: hasName ? i : i + 1,
+      });
+      i += 1;
+    } else if (line.startsWith('2 ')) {
+      errors.push({ line: i + 1, message: 'Line 2 is not preceded by line 1.' });
+    } else {
+      const next = (lines[i + 1] || '').trimEnd();
+      if (!next.startsWith('1 ')) {
+        errors.push({ line: i + 1, message: `Unrecognised line: "${line.substring(0, 40)}"` });
+      }
+    }
+  }
+
+  return { records, errors };
+}
+
+// Interface for a fixed-column field of a TLE line (1-based, inclusive columns)
+interface TLEField {
+  name: string;
+  start: number;
+  end: number;
+  pattern: RegExp;
+}
+
+const ANGLE_PATTERN = /^[ \d]{3}\.\d{4}$/;
+const EXPONENTIAL_PATTERN = /^[ +-][ \d]{5}[+-]\d$/;
+
+// Column layout of line 1 and line 2; every column not covered by a field must be blank
+const TLE_LINE_FIELDS: TLEField[][] = [
+  [
+    { name: 'line number', start: 1, end: 1, pattern: /^1$/ },
+    { name: 'catalog number', start: 3, end: 7, pattern: /^[ \d]{4}\d$/ },
+    { name: 'classification', start: 8, end: 8, pattern: /^[UCS ]$/ },
+    { name: 'international designator', start: 10, end: 17, pattern: /^[ \dA-Z]{8}$/ },
+    { name: 'epoch', start: 19, end: 32, pattern: /^[ \d]\d[ \d]{2}\d\.\d{8}$/ },
+    { name: 'first derivative of mean motion', start: 34, end: 43, pattern: /^[ +-]\.\d{8}$/ },
+    { name: 'second derivative of mean motion', start: 45, end: 52, pattern: EXPONENTIAL_PATTERN },
+    { name: 'B* drag term', start: 54, end: 61, pattern: EXPONENTIAL_PATTERN },
+    { name: 'ephemeris type', start: 63, end: 63, pattern: /^[ \d]$/ },
+    { name: 'element set number', start: 65, end: 68, pattern: /^[ \d]{3}\d$/ },
+  ],
+  [
+    { name: 'line number', start: 1, end: 1, pattern: /^2$/ },
+    { name: 'catalog number', start: 3, end: 7, pattern: /^[ \d]{4}\d$/ },
+    { name: 'inclination', start: 9, end: 16, pattern: ANGLE_PATTERN },
+    { name: 'right ascension of the ascending node', start: 18, end: 25, pattern: ANGLE_PATTERN },
+    { name: 'eccentricity', start: 27, end: 33, pattern: /^\d{7}$/ },
+    { name: 'argument of perigee', start: 35, end: 42, pattern: ANGLE_PATTERN },
+    { name: 'mean anomaly', start: 44, end: 51, pattern: ANGLE_PATTERN },
+    { name: 'mean motion', start: 53, end: 63, pattern: /^[ \d]\d\.\d{8}$/ },
+    { name: 'revolution number', start: 64, end: 68, pattern: /^[ \d]{4}\d$/ },
+  ],
+];
+
+/**
+ * List the column format problems of a 69-character TLE line
+ */
+function lineFormatProblems(line: string, lineNumber: number): string[] {
+  const fields = TLE_LINE_FIELDS[lineNumber - 1];
+  const problems = fields
+    .filter(field => !field.pattern.test(line.substring(field.start - 1, field.end)))
+    .map(field => `Line ${lineNumber} columns ${field.start}-${field.end} (${field.name}) are malformed: "${line.substring(field.start - 1, field.end)}".`);
+
+  for (let column = 1; column <= 68; column++) {
+    const inField = fields.some(field => column >= field.start && column <= field.end);
+    if (!inField && line.charAt(column - 1) !== ' ') {
+      problems.push(`Line ${lineNumber} column ${column} must be blank (found "${line.charAt(column - 1)}").`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * List the problems that make a TLE unusable (line length, column format,
+ * checksums, matching catalog numbers and element ranges)
+ */
+export function validateTLE(lines: TLELines): string[] {
+  const problems: string[] = [];
+
+  [lines.line1, lines.line2].forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.length !== 69) {
+      problems.push(`Line ${lineNumber} must be 69 characters long (found ${line.length}).`);
+      return;
+    }
+    problems.push(...lineFormatProblems(line, lineNumber));
+    const expected = tleChecksum(line);
+    const actual = parseInt(line.charAt(68), 10);
+    if (actual !== expected) {
+      problems.push(`Line ${lineNumber} checksum mismatch (expected ${expected}, found ${line.charAt(68)}).`);
+    }
+  });
+
+  if (lines.line1.substring(2, 7) !== lines.line2.substring(2, 7)) {
+    problems.push('Catalog numbers on line 1 and line 2 differ.');
+  }
+
+  // Element ranges can only be checked once the columns parse
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  const elements = decodeTLE(lines);
+  if (elements.epochDays < 1 || elements.epochDays >= 367) {
+    problems.push(`Epoch day of year ${elements.epochDays} is out of range (1-366).`);
+  }
+  if (elements.inclination > 180) {
+    problems.push(`Inclination ${elements.inclination}° is out of range (0-180).`);
+  }
+  const angles: [string, number][] = [
+    ['Right ascension of the ascending node', elements.raan],
+    ['Argument of perigee', elements.argOfPerigee],
+    ['Mean anomaly', elements.meanAnomaly],
+  ];
+  angles
+    .filter(([, value]) => value >= 360)
+    .forEach(([name, value]) => problems.push(`${name} ${value}° is out of range (0-360).`));
+  if (elements.meanMotion <= 0) {
+    problems.push('Mean motion must be greater than 0.');
+  }
+
+  return problems;
+}
+
+// Interface for orbit parameters derived from mean elements
+export interface OrbitGeometry {
+  periodMinutes: number;
+  semiMajorAxis: number; // km
+  apogee: number; // km altitude
+  perigee: number; // km altitude
+}
+
+/**
+ * Period, semi-major axis and apogee/perigee altitudes of the orbit
+ * described by mean elements (two-body, WGS-72)
+ */
+export function orbitGeometry(elements: TLEElements): OrbitGeometry {
+  const n = elements.meanMotion * 2 * Math.PI / 86400; // rad/s
+  const semiMajorAxis = Math.cbrt(MU / (n * n));
+
+  return {
+    periodMinutes: 1440 / elements.meanMotion,
+    semiMajorAxis,
+    apogee: semiMajorAxis * (1 + elements.eccentricity) - EARTH_RADIUS_KM,
+    perigee: semiMajorAxis * (1 - elements.eccentricity) - EARTH_RADIUS_KM,
+  };
+}
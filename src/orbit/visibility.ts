@@ -0,0 +1,217 @@
+import { SatellitePass } from '../api-client.js';
+import { Observer, dot, ecfToEci, eciToEcf, lookAngles, magnitude, observerToEcf, subtract } from './coordinates.js';
+import { buildPass } from './passes.js';
+import { LocalSatellite, propagateState } from './propagator.js';
+import { dateToJulian, gstime } from './sgp4.js';
+import { ShadowState, TwilightClass, shadowGeometry, sunElevation, sunPosition, twilightClass } from './sun.js';
+
+// Sampling interval used to scan a pass for illumination changes
+const SAMPLE_MS = 5000;
+
+// Time tolerance for shadow boundary crossings
+const CROSSING_TOLERANCE_MS = 100;
+
+// Observer sun elevation below which a sunlit satellite is considered visible
+export const VISIBLE_SUN_ELEVATION = -6;
+
+// Observer sun elevation below which the sky is fully dark
+export const DARK_SKY_SUN_ELEVATION = -18;
+
+// Standard magnitude (1000 km range, 90 deg phase) used when none is known for the satellite
+export const DEFAULT_STANDARD_MAGNITUDE = 4.0;
+
+// Standard magnitudes of well-known bright satellites
+const STANDARD_MAGNITUDES: Record<number, number> = {
+  25544: -1.8, // ISS
+};
+
+// Interface for a shadow boundary crossing during a pass
+export interface ShadowEvent {
+  event: 'enter_penumbra' | 'enter_umbra' | 'exit_umbra' | 'exit_penumbra';
+  time: number; // Unix seconds
+}
+
+// Interface for the illumination analysis of a pass
+export interface PassIllumination {
+  sunElevation: number; // observer sun elevation at culmination, degrees
+  twilight: TwilightClass;
+  shadowAtMax: ShadowState;
+  shadowEvents: ShadowEvent[];
+  visibleStart: number | null; // Unix seconds
+  visibleEnd: number | null; // Unix seconds
+  visibleSeconds: number;
+  magnitude: number | null; // brightest estimated magnitude while visible
+  darkSky: boolean; // sun below -18 deg for the whole visible part of the pass
+  standardMagnitude: number;
+}
+
+// Interface for the illumination state of a satellite at one instant
+interface IlluminationSample {
+  time: number; // ms
+  elevation: number;
+  sunElevation: number;
+  shadow: ShadowState;
+  magnitude: number | null;
+  penumbraMargin: number; // > 0 outside the penumbra cone
+  umbraMargin: number; // > 0 outside the umbra cone
+}
+
+/**
+ * Standard magnitude for a satellite, falling back to a generic value
+ */
+export function standardMagnitudeFor(noradId: number): number {
+  return STANDARD_MAGNITUDES[noradId] ?? DEFAULT_STANDARD_MAGNITUDE;
+}
+
+/**
+ * Apparent magnitude of a diffusely reflecting sphere from its range (km)
+ * and phase angle (radians, Sun-satellite-observer)
+ */
+export function estimateMagnitude(standardMagnitude: number, range: number, phaseAngle: number): number {
+  const phaseFactor = Math.sin(phaseAngle) + (Math.PI - phaseAngle) * Math.cos(phaseAngle);
+  return standardMagnitude + 5 * Math.log10(range / 1000) - 2.5 * Math.log10(Math.max(phaseFactor, 1e-6));
+}
+
+function sampleIllumination(
+  satellite: LocalSatellite,
+  observer: Observer,
+  timeMs: number,
+  standardMagnitude: number
+): IlluminationSample {
+  const date = new Date(timeMs);
+  const jd = dateToJulian(date);
+  const gmst = gstime(jd);
+  const { position } = propagateState(satellite, date);
+  const sun = sunPosition(jd);
+
+  const look = lookAngles(observer, eciToEcf(position, gmst));
+  const { separation, earthAngularRadius, sunAngularRadius } = shadowGeometry(position, sun);
+  const penumbraMargin = separation - (earthAngularRadius + sunAngularRadius);
+  const umbraMargin = separation - (earthAngularRadius - sunAngularRadius);
+  const shadow: ShadowState = penumbraMargin >= 0 ? 'sunlit' : umbraMargin <= 0 ? 'umbra' : 'penumbra';
+
+  // Phase angle between the directions satellite->Sun and satellite->observer
+  const toSun = subtract(sun, position);
+  const toObserver = subtract(ecfToEci(observerToEcf(observer), gmst), position);
+  const phaseAngle = Math.acos(
+    Math.max(-1, Math.min(1, dot(toSun, toObserver) / (magnitude(toSun) * magnitude(toObserver))))
+  );
+
+  return {
+    time: timeMs,
+    elevation: look.elevation,
+    sunElevation: sunElevation(observer, jd),
+    shadow,
+    magnitude: shadow === 'umbra' ? null : estimateMagnitude(standardMagnitude, look.range, phaseAngle),
+    penumbraMargin,
+    umbraMargin,
+  };
+}
+
+function isVisible(sample: IlluminationSample): boolean {
+  return sample.shadow !== 'umbra' && sample.sunElevation < VISIBLE_SUN_ELEVATION && sample.elevation >= 0;
+}
+
+/**
+ * Bisect the time at which `margin` changes sign between two samples
+ */
+function refineCrossing(margin: (timeMs: number) => number, t0: number, t1: number): number {
+  const startSign = margin(t0) > 0;
+  let a = t0;
+  let b = t1;
+
+  while (b - a > CROSSING_TOLERANCE_MS) {
+    const mid = (a + b) / 2;
+    if (margin(mid) > 0 === startSign) {
+      a = mid;
+    } else {
+      b = mid;
+    }
+  }
+
+  return (a + b) / 2;
+}
+
+/**
+ * Explain the illumination of a pass: observer twilight, shadow boundary
+ * crossings, the visible part of the pass and its estimated brightness.
+ */
+export function analyzePassIllumination(
+  satellite: LocalSatellite,
+  observer: Observer,
+  pass: SatellitePass,
+  standardMagnitude: number = standardMagnitudeFor(satellite.noradId)
+): PassIllumination {
+  const startMs = pass.startUTC * 1000;
+  const endMs = pass.endUTC * 1000;
+  const sample = (timeMs: number) => sampleIllumination(satellite, observer, timeMs, standardMagnitude);
+
+  const samples: IlluminationSample[] = [];
+  for (let t = startMs; t < endMs; t += SAMPLE_MS) {
+    samples.push(sample(t));
+  }
+  samples.push(sample(endMs));
+
+  // Locate shadow boundary crossings
+  const shadowEvents: ShadowEvent[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1];
+    const next = samples[i];
+
+    if (prev.penumbraMargin > 0 !== next.penumbraMargin > 0) {
+      const time = refineCrossing(t => sample(t).penumbraMargin, prev.time, next.time);
+      shadowEvents.push({ event: prev.penumbraMargin > 0 ? 'enter_penumbra' : 'exit_penumbra', time: Math.round(time / 1000) });
+    }
+    if (prev.umbraMargin > 0 !== next.umbraMargin > 0) {
+      const time = refineCrossing(t => sample(t).umbraMargin, prev.time, next.time);
+      shadowEvents.push({ event: prev.umbraMargin > 0 ? 'enter_umbra' : 'exit_umbra', time: Math.round(time / 1000) });
+    }
+  }
+  shadowEvents.sort((a, b) => a.time - b.time);
+
+  const visible = samples.filter(isVisible);
+  let visibleMs = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (isVisible(samples[i - 1]) && isVisible(samples[i])) {
+      visibleMs += samples[i].time - samples[i - 1].time;
+    }
+  }
+  const magnitudes = visible.map(s => s.magnitude).filter((m): m is number => m !== null);
+  const atMax = sample(pass.maxUTC * 1000);
+
+  return {
+    sunElevation: Math.round(atMax.sunElevation * 100) / 100,
+    twilight: twilightClass(atMax.sunElevation),
+    shadowAtMax: atMax.shadow,
+    shadowEvents,
+    visibleStart: visible.length > 0 ? Math.round(visible[0].time / 1000) : null,
+    visibleEnd: visible.length > 0 ? Math.round(visible[visible.length - 1].time / 1000) : null,
+    visibleSeconds: Math.round(visibleMs / 1000),
+    magnitude: magnitudes.length > 0 ? Math.round(Math.min(...magnitudes) * 10) / 10 : null,
+    darkSky: visible.length > 0 && visible.every(s => s.sunElevation < DARK_SKY_SUN_ELEVATION),
+    standardMagnitude,
+  };
+}
+
+/**
+ * Trim a geometric pass to its visible part, as the N2YO visual passes endpoint does
+ */
+export function toVisualPass(
+  satellite: LocalSatellite,
+  observer: Observer,
+  pass: SatellitePass,
+  illumination: PassIllumination
+): SatellitePass | null {
+  if (illumination.visibleStart === null || illumination.visibleEnd === null) {
+    return null;
+  }
+
+  const startMs = illumination.visibleStart * 1000;
+  const endMs = illumination.visibleEnd * 1000;
+  const maxMs = Math.min(Math.max(pass.maxUTC * 1000, startMs), endMs);
+
+  return {
+    ...buildPass(satellite, observer, startMs, maxMs, endMs),
+    ...(illumination.magnitude !== null && { mag: illumination.magnitude }),
+  };
+}
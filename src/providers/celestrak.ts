@@ -0,0 +1,90 @@
+import axios, { AxiosInstance } from 'axios';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SatelliteTLE } from '../api-client.js';
+import { decodeTLE, parseTLEFile, splitTLE } from '../orbit/tle.js';
+import { SatelliteDataProvider } from './provider.js';
+
+// Interface for CelesTrak provider options
+export interface CelesTrakProviderOptions {
+  baseUrl?: string; // e.g. a mirror or a local stand-in serving the same gp.php interface
+}
+
+/**
+ * Element sets from CelesTrak's GP data service (no API key required).
+ * CelesTrak only publishes elements, so positions and passes are left to
+ * other providers or to local propagation.
+ */
+export class CelesTrakProvider implements SatelliteDataProvider {
+  readonly name = 'celestrak';
+  private axiosInstance: AxiosInstance;
+  private baseUrl: string = 'https://celestrak.org';
+
+  constructor(options: CelesTrakProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || this.baseUrl;
+    this.axiosInstance = axios.create({
+      baseURL: this.baseUrl,
+      timeout: 10000,
+      responseType: 'text',
+    });
+  }
+
+  private async query(params: Record<string, string | number>): Promise<string> {
+    try {
+      const response = await this.axiosInstance.get<string>('/NORAD/elements/gp.php', {
+        params: { ...params, FORMAT: 'TLE' },
+      });
+      return String(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `CelesTrak API error: ${error.response.status} - ${error.response.data}`
+        );
+      }
+      throw new McpError(ErrorCode.InternalError, 'Network error while connecting to CelesTrak');
+    }
+  }
+
+  /**
+   * Get the latest element set for a satellite
+   */
+  async getTLE(noradId: number): Promise<SatelliteTLE> {
+    const body = await this.query({ CATNR: noradId });
+
+    // CelesTrak answers unknown objects with a plain-text message instead of an element set
+    if (!/^1 /m.test(body)) {
+      return { satid: noradId, satname: `Satellite ${noradId}`, transactionscount: 0, tle: '' };
+    }
+
+    const lines = splitTLE(body);
+    return {
+      satid: noradId,
+      satname: lines.name || `Satellite ${noradId}`,
+      transactionscount: 0,
+      tle: `${lines.line1}\r\n${lines.line2}`,
+    };
+  }
+
+  /**
+   * Get the element sets of every member of a CelesTrak group (e.g. "starlink",
+   * "oneweb", "gps-ops"). Unknown groups give an empty list.
+   */
+  async getGroup(group: string): Promise<SatelliteTLE[]> {
+    const body = await this.query({ GROUP: group });
+
+    return parseTLEFile(body).records.flatMap(({ lines }) => {
+      let noradId: number;
+      try {
+        noradId = decodeTLE(lines).noradId;
+      } catch (error) {
+        return [];
+      }
+      return [{
+        satid: noradId,
+        satname: lines.name || `Satellite ${noradId}`,
+        transactionscount: 0,
+        tle: `${lines.line1}\r\n${lines.line2}`,
+      }];
+    });
+  }
+}
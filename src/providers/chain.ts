@@ -0,0 +1,348 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  AboveParams,
+  PositionParams,
+  RadioPassesParams,
+  SatelliteAbove,
+  SatellitePass,
+  SatellitePosition,
+  SatelliteTLE,
+  TLECacheInfo,
+  TLEOptions,
+  VisualPassesParams,
+} from '../api-client.js';
+import { decodeTLE } from '../orbit/tle.js';
+import { CatalogObservation, SatelliteCatalog, toCatalogDesignator } from '../store/catalog.js';
+import { ElementStore, ImportedElementSet } from '../store/element-store.js';
+import { CachedTLE, TLECache } from '../store/tle-cache.js';
+import { TLEHistory } from '../store/tle-history.js';
+import { ProviderResponse, SatelliteDataProvider } from './provider.js';
+
+// Provider name reported for element sets imported from local files
+export const IMPORTED_PROVIDER = 'import';
+
+/**
+ * Epoch of an element set in Unix milliseconds, or -Infinity when there is none or it does not parse
+ */
+function epochTime(tle: string): number {
+  try {
+    return tle ? decodeTLE(tle).epoch.getTime() : -Infinity;
+  } catch (error) {
+    return -Infinity;
+  }
+}
+
+// Interface for provider chain options
+export interface ProviderChainOptions {
+  tleCache?: TLECache | null;
+  elementStore?: ElementStore | null;
+  history?: TLEHistory | null; // every element set fetched from a provider is added to it
+  catalog?: SatelliteCatalog | null; // index that every satellite seen in a response is added to
+}
+
+/**
+ * Ordered list of data providers (primary first, then fallbacks).
+ *
+ * Each query goes to the first provider that implements it; when that
+ * provider fails, or has no element set for the satellite, the next one is
+ * tried. Imported element sets and the TLE cache sit in front of all of them.
+ */
+export class ProviderChain {
+  private providers: SatelliteDataProvider[];
+  private tleCache: TLECache | null;
+  private elementStore: ElementStore | null;
+  private history: TLEHistory | null;
+  private catalog: SatelliteCatalog | null;
+  // When the providers were last asked for something newer than an outdated imported element set
+  private importChecks = new Map<number, Date>();
+
+  constructor(providers: SatelliteDataProvider[], options: ProviderChainOptions = {}) {
+    if (providers.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'At least one satellite data provider is required');
+    }
+
+    this.providers = providers;
+    this.tleCache = options.tleCache || null;
+    this.elementStore = options.elementStore || null;
+    this.history = options.history || null;
+    this.catalog = options.catalog || null;
+  }
+
+  /**
+   * Names of the configured providers, in the order they are tried
+   */
+  get providerNames(): string[] {
+    return this.providers.map(provider => provider.name);
+  }
+
+  /**
+   * Add satellites seen in a response to the catalog index (best effort, not awaited)
+   */
+  private remember(observations: CatalogObservation[], provider: string): void {
+    if (!this.catalog || observations.length === 0) {
+      return;
+    }
+    this.catalog.observe(observations, provider).catch(error => {
+      console.error('Error updating satellite catalog:', error);
+    });
+  }
+
+  /**
+   * Ask each provider in turn until one answers with acceptable data
+   */
+  private async first<T>(
+    operation: string,
+    call: (provider: SatelliteDataProvider) => Promise<T> | undefined,
+    accept: (data: T) => boolean = () => true
+  ): Promise<ProviderResponse<T>> {
+    const errors: unknown[] = [];
+    let unaccepted: ProviderResponse<T> | null = null;
+    let supported = false;
+
+    for (const provider of this.providers) {
+      const pending = call(provider);
+      if (!pending) {
+        continue;
+      }
+
+      supported = true;
+      try {
+        const data = await pending;
+        if (accept(data)) {
+          return { provider: provider.name, data };
+        }
+        unaccepted = unaccepted || { provider: provider.name, data };
+      } catch (error) {
+        console.error(`[Provider ${provider.name}] ${operation} failed:`, error);
+        errors.push(error);
+      }
+    }
+
+    if (unaccepted) {
+      return unaccepted;
+    }
+
+    if (!supported) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `No configured provider supports ${operation} (providers: ${this.providerNames.join(', ')})`
+      );
+    }
+
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `All providers failed for ${operation}: ${errors.map(error => (error as Error).message).join('; ')}`
+    );
+  }
+
+  /**
+   * Get TLE data for a satellite. An imported element set is served while
+   * its epoch is fresh; once it is outdated, or with `refresh`, the TLE
+   * cache and providers are asked too and the newer epoch wins. Without an
+   * imported set, the TLE cache is served while it is fresh, then the
+   * providers are tried in order.
+   */
+  async getTLE(noradId: number, options: TLEOptions = {}): Promise<ProviderResponse<SatelliteTLE>> {
+    // A store that cannot be read is skipped rather than failing every TLE lookup
+    const imported = this.elementStore
+      ? await this.elementStore.get(noradId).catch(error => {
+        console.error(`Error reading imported element sets for ${noradId}:`, error);
+        return undefined;
+      })
+      : undefined;
+
+    const cached = this.tleCache
+      ? await this.tleCache.get(noradId).catch(error => {
+        console.error(`Error reading TLE cache for ${noradId}:`, error);
+        return undefined;
+      })
+      : undefined;
+
+    if (imported && !options.refresh && !this.importCheckDue(imported, cached)) {
+      return { provider: IMPORTED_PROVIDER, data: this.fromImport(imported) };
+    }
+
+    let response: ProviderResponse<SatelliteTLE>;
+    try {
+      response = await this.fetchTLE(noradId, cached, options);
+    } catch (error) {
+      if (imported) {
+        console.error(`Serving imported TLE for ${noradId}:`, error);
+        return { provider: IMPORTED_PROVIDER, data: this.fromImport(imported) };
+      }
+      throw error;
+    }
+
+    // The newer of the imported and the fetched element set wins
+    if (imported && epochTime(response.data.tle) <= Date.parse(imported.epoch)) {
+      return { provider: IMPORTED_PROVIDER, data: this.fromImport(imported) };
+    }
+    return response;
+  }
+
+  /**
+   * Whether to look for an element set newer than an imported one: when a
+   * newer one is already cached, or the imported epoch is outdated and the
+   * providers were not asked within the cache's refetch interval
+   */
+  private importCheckDue(imported: ImportedElementSet, cached: CachedTLE | undefined): boolean {
+    if (!this.tleCache) {
+      return false;
+    }
+    if (cached && Date.parse(cached.epoch) > Date.parse(imported.epoch)) {
+      return true;
+    }
+    if (this.tleCache.isFreshEpoch(imported.epoch)) {
+      return false;
+    }
+
+    const lastCheck = this.importChecks.get(imported.satid);
+    if (lastCheck && !this.tleCache.isRefetchDue(lastCheck)) {
+      return false;
+    }
+    this.importChecks.set(imported.satid, new Date());
+    return true;
+  }
+
+  /**
+   * TLE from the cache while it is fresh, then from the providers in order
+   */
+  private async fetchTLE(noradId: number, cached: CachedTLE | undefined, options: TLEOptions): Promise<ProviderResponse<SatelliteTLE>> {
+    if (cached && !options.refresh && this.tleCache?.isFresh(cached)) {
+      return { provider: cached.provider, data: this.fromCache(cached, { cached: true, stale: false }) };
+    }
+
+    let response: ProviderResponse<SatelliteTLE>;
+    try {
+      response = await this.first('getTLE', provider => provider.getTLE(noradId), data => !!data.tle);
+    } catch (error) {
+      // Fall back to an outdated element set rather than failing outright
+      if (cached && !options.refresh) {
+        console.error(`Serving stale cached TLE for ${noradId}:`, error);
+        return { provider: cached.provider, data: this.fromCache(cached, { cached: true, stale: true }) };
+      }
+      throw error;
+    }
+
+    if (this.tleCache && response.data.tle) {
+      try {
+        const entry = await this.tleCache.set(response.data, response.provider);
+        response.data.cache = this.cacheInfo(entry, { cached: false, stale: false });
+      } catch (error) {
+        console.error(`Error caching TLE for ${noradId}:`, error);
+      }
+    }
+
+    if (this.history && response.data.tle) {
+      try {
+        await this.history.record([response.data], response.provider);
+      } catch (error) {
+        console.error(`Error recording TLE history for ${noradId}:`, error);
+      }
+    }
+
+    if (response.data.tle) {
+      let intDesignator: string | null = null;
+      try {
+        intDesignator = toCatalogDesignator(decodeTLE(response.data.tle).intDesignator);
+      } catch (error) {
+        // A malformed element set still tells us the satellite's name
+      }
+      this.remember([{ noradId, name: response.data.satname, intDesignator }], response.provider);
+    }
+
+    return response;
+  }
+
+  private fromImport(entry: ImportedElementSet): SatelliteTLE {
+    const epochAgeHours = Math.round((Date.now() - Date.parse(entry.epoch)) / 36000) / 100;
+    return {
+      satid: entry.satid,
+      satname: entry.satname,
+      transactionscount: 0,
+      tle: entry.tle,
+      provenance: entry.provenance,
+      imported: {
+        epoch: entry.epoch,
+        epochAgeHours,
+        stale: !!this.tleCache && !this.tleCache.isFreshEpoch(entry.epoch),
+      },
+    };
+  }
+
+  private fromCache(entry: CachedTLE, flags: { cached: boolean, stale: boolean }): SatelliteTLE {
+    return {
+      satid: entry.satid,
+      satname: entry.satname,
+      transactionscount: 0,
+      tle: entry.tle,
+      cache: this.cacheInfo(entry, flags),
+    };
+  }
+
+  private cacheInfo(entry: CachedTLE, flags: { cached: boolean, stale: boolean }): TLECacheInfo {
+    return {
+      ...flags,
+      epoch: entry.epoch,
+      epochAgeHours: Math.round((Date.now() - Date.parse(entry.epoch)) / 36000) / 100,
+      fetchedAt: entry.fetchedAt,
+    };
+  }
+
+  /**
+   * Get positions of a satellite for a given time period
+   */
+  async getPositions(params: PositionParams): Promise<ProviderResponse<SatellitePosition[]>> {
+    const response = await this.first('getPositions', provider => provider.getPositions?.(params));
+    this.remember(response.data.slice(0, 1).map(position => ({ noradId: position.satid, name: position.satname })), response.provider);
+    return response;
+  }
+
+  /**
+   * Get visual passes for a satellite
+   */
+  async getVisualPasses(params: VisualPassesParams): Promise<ProviderResponse<SatellitePass[]>> {
+    const response = await this.first('getVisualPasses', provider => provider.getVisualPasses?.(params));
+    this.remember(response.data.slice(0, 1).map(pass => ({ noradId: pass.satid, name: pass.satname })), response.provider);
+    return response;
+  }
+
+  /**
+   * Get radio passes for a satellite
+   */
+  async getRadioPasses(params: RadioPassesParams): Promise<ProviderResponse<SatellitePass[]>> {
+    const response = await this.first('getRadioPasses', provider => provider.getRadioPasses?.(params));
+    this.remember(response.data.slice(0, 1).map(pass => ({ noradId: pass.satid, name: pass.satname })), response.provider);
+    return response;
+  }
+
+  /**
+   * Get satellites above a location
+   */
+  async getAbove(params: AboveParams): Promise<ProviderResponse<SatelliteAbove[]>> {
+    const response = await this.first('getAbove', provider => provider.getAbove?.(params));
+    this.remember(response.data.map(sat => ({
+      noradId: sat.satid,
+      name: sat.satname,
+      intDesignator: toCatalogDesignator(sat.intDesignator),
+    })), response.provider);
+    return response;
+  }
+
+  /**
+   * List satellites in a category (using the above query over the whole sky from the equator).
+   * Only the members above the horizon at 0°N 0°E right now are returned, not the whole category.
+   */
+  async getCategory(category_id: number): Promise<ProviderResponse<SatelliteAbove[]>> {
+    return this.getAbove({
+      observer_lat: 0,
+      observer_lng: 0,
+      search_radius: 90,
+      category_id,
+    });
+  }
+}
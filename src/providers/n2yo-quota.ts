@@ -0,0 +1,223 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ENDPOINTS } from '../api-client.js';
+
+export type EndpointName = keyof typeof ENDPOINTS;
+
+// Hourly transaction limits published by N2YO for each endpoint
+export const DEFAULT_HOURLY_LIMITS: Record<EndpointName, number> = {
+  TLE: 1000,
+  POSITIONS: 1000,
+  VISUAL_PASSES: 100,
+  RADIO_PASSES: 100,
+  ABOVE: 100,
+};
+
+// Default longest time a request may wait for its turn before being rejected
+const DEFAULT_MAX_WAIT_SECONDS = 30;
+
+const HOUR_MS = 3600000;
+
+// Interface for quota manager options
+export interface QuotaManagerOptions {
+  hourlyLimits?: Partial<Record<EndpointName, number>>;
+  maxWaitSeconds?: number;
+  now?: () => number;
+}
+
+// Interface for the usage of one endpoint
+export interface EndpointUsage {
+  endpoint: EndpointName;
+  hourlyLimit: number;
+  remaining: number; // requests that can be sent right now
+  queued: number; // requests waiting for their turn
+  reportedTransactions: number | null; // info.transactionscount from the last N2YO response
+  reportedAt: string | null;
+  sent: number;
+  rejected: number;
+  nextRequestAt: string; // when the next request can be sent without waiting
+  fullBudgetAt: string; // when the whole hourly budget is available again
+}
+
+// Interface for the requests sent to one endpoint in the last hour
+interface RequestLog {
+  limit: number;
+  sendTimes: number[]; // ascending; times after now belong to queued requests
+  waiting: number;
+  reportedTransactions: number | null;
+  reportedAt: number | null;
+  sent: number;
+  rejected: number;
+}
+
+/**
+ * Client-side sliding windows for N2YO's per-endpoint hourly limits.
+ *
+ * Every request's send time is logged, and a request is only sent while
+ * fewer than the endpoint's hourly limit were sent in the hour before, so
+ * no 60-minute window ever carries more than the limit. When the budget
+ * is used up, requests wait their turn (FIFO) for up to `maxWaitSeconds`
+ * and are rejected beyond that, so the shared key never hits the server
+ * limit. The transaction counts N2YO reports keep the windows in step with
+ * usage from other clients of the same key.
+ */
+export class QuotaManager {
+  private logs: Map<EndpointName, RequestLog>;
+  private maxWaitMs: number;
+  private now: () => number;
+
+  constructor(options: QuotaManagerOptions = {}) {
+    this.now = options.now || Date.now;
+    this.maxWaitMs = (options.maxWaitSeconds ?? DEFAULT_MAX_WAIT_SECONDS) * 1000;
+
+    this.logs = new Map((Object.keys(DEFAULT_HOURLY_LIMITS) as EndpointName[]).map(endpoint => {
+      const limit = options.hourlyLimits?.[endpoint] ?? DEFAULT_HOURLY_LIMITS[endpoint];
+      return [endpoint, {
+        limit,
+        sendTimes: [],
+        waiting: 0,
+        reportedTransactions: null,
+        reportedAt: null,
+        sent: 0,
+        rejected: 0,
+      }];
+    }));
+  }
+
+  /**
+   * Create a quota manager configured from N2YO_QUOTA_* environment variables
+   */
+  static fromEnvironment(): QuotaManager {
+    const maxWaitSeconds = parseFloat(process.env.N2YO_QUOTA_MAX_WAIT_SECONDS || '');
+
+    // e.g. N2YO_QUOTA_LIMITS="TLE=500,ABOVE=50"
+    const hourlyLimits: Partial<Record<EndpointName, number>> = {};
+    for (const entry of (process.env.N2YO_QUOTA_LIMITS || '').split(',')) {
+      const [name, value] = entry.split('=').map(part => part.trim());
+      const limit = parseInt(value, 10);
+      if (name && name.toUpperCase() in DEFAULT_HOURLY_LIMITS && Number.isInteger(limit) && limit > 0) {
+        hourlyLimits[name.toUpperCase() as EndpointName] = limit;
+      }
+    }
+
+    return new QuotaManager({
+      hourlyLimits,
+      maxWaitSeconds: Number.isFinite(maxWaitSeconds) ? maxWaitSeconds : undefined,
+    });
+  }
+
+  /**
+   * An endpoint's log without the requests that left the window
+   */
+  private log(endpoint: EndpointName): RequestLog {
+    const log = this.logs.get(endpoint)!;
+    const windowStart = this.now() - HOUR_MS;
+    const expired = log.sendTimes.findIndex(time => time > windowStart);
+    log.sendTimes.splice(0, expired === -1 ? log.sendTimes.length : expired);
+    return log;
+  }
+
+  /**
+   * Earliest time the next request may be sent: once it would be at most
+   * the `limit`-th request of the hour, and not before the requests queued ahead of it
+   */
+  private nextSendTime(log: RequestLog): number {
+    const times = log.sendTimes;
+    const now = this.now();
+    if (times.length < log.limit) {
+      return Math.max(now, times[times.length - 1] ?? now);
+    }
+    return Math.max(now, times[times.length - 1], times[times.length - log.limit] + HOUR_MS);
+  }
+
+  /**
+   * Take a slot in the hourly budget for a request, waiting for one when the budget is used up
+   */
+  async acquire(endpoint: EndpointName): Promise<void> {
+    const log = this.log(endpoint);
+    const sendAt = this.nextSendTime(log);
+    const waitMs = sendAt - this.now();
+
+    if (waitMs > this.maxWaitMs) {
+      log.rejected += 1;
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `N2YO hourly limit reached for the ${endpoint} endpoint (${log.limit} requests/hour). ` +
+        `Next request allowed at ${new Date(sendAt).toISOString()}.`
+      );
+    }
+
+    // Reserve the slot now so that later callers queue behind this one
+    log.sendTimes.push(sendAt);
+    log.sent += 1;
+    if (waitMs > 0) {
+      log.waiting += 1;
+      try {
+        await new Promise(resolve => setTimeout(resolve, waitMs));
+      } finally {
+        log.waiting -= 1;
+      }
+    }
+  }
+
+  /**
+   * Align a log with the transaction count N2YO reported for the last hour.
+   * Requests from other clients of the key are logged as sent now, which
+   * keeps them in the window at least as long as they really are.
+   */
+  recordTransactions(endpoint: EndpointName, transactionsCount: number): void {
+    if (!Number.isFinite(transactionsCount)) {
+      return;
+    }
+
+    const log = this.log(endpoint);
+    const now = this.now();
+    const counted = log.sendTimes.filter(time => time <= now).length;
+    this.logUnseen(log, Math.min(log.limit, transactionsCount) - counted);
+    log.reportedTransactions = transactionsCount;
+    log.reportedAt = now;
+  }
+
+  /**
+   * Use up an endpoint's budget after N2YO rejected a request with 429 Too Many Requests
+   */
+  recordRateLimited(endpoint: EndpointName): void {
+    const log = this.log(endpoint);
+    this.logUnseen(log, log.limit - log.sendTimes.length);
+  }
+
+  /**
+   * Log `count` requests this client did not send as sent now, ahead of any queued requests
+   */
+  private logUnseen(log: RequestLog, count: number): void {
+    if (count <= 0) {
+      return;
+    }
+    const now = this.now();
+    const queuedFrom = log.sendTimes.findIndex(time => time > now);
+    log.sendTimes.splice(queuedFrom === -1 ? log.sendTimes.length : queuedFrom, 0, ...new Array<number>(count).fill(now));
+  }
+
+  /**
+   * Current budget of every endpoint
+   */
+  usage(): EndpointUsage[] {
+    return [...this.logs.keys()].map(endpoint => {
+      const log = this.log(endpoint);
+      const now = this.now();
+      const last = log.sendTimes[log.sendTimes.length - 1];
+
+      return {
+        endpoint,
+        hourlyLimit: log.limit,
+        remaining: Math.max(0, log.limit - log.sendTimes.length),
+        queued: log.waiting,
+        reportedTransactions: log.reportedTransactions,
+        reportedAt: log.reportedAt !== null ? new Date(log.reportedAt).toISOString() : null,
+        sent: log.sent,
+        rejected: log.rejected,
+        nextRequestAt: new Date(this.nextSendTime(log)).toISOString(),
+        fullBudgetAt: new Date(last !== undefined ? last + HOUR_MS : now).toISOString(),
+      };
+    });
+  }
+}
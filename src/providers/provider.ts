@@ -0,0 +1,31 @@
+import {
+  AboveParams,
+  PositionParams,
+  RadioPassesParams,
+  SatelliteAbove,
+  SatellitePass,
+  SatellitePosition,
+  SatelliteTLE,
+  VisualPassesParams,
+} from '../api-client.js';
+
+/**
+ * A source of satellite data (N2YO, CelesTrak GP data, a mirror, fixtures, ...).
+ *
+ * Only `getTLE` is required; a provider omits the queries it cannot answer
+ * and the provider chain moves on to the next one.
+ */
+export interface SatelliteDataProvider {
+  readonly name: string;
+  getTLE(noradId: number): Promise<SatelliteTLE>;
+  getPositions?(params: PositionParams): Promise<SatellitePosition[]>;
+  getVisualPasses?(params: VisualPassesParams): Promise<SatellitePass[]>;
+  getRadioPasses?(params: RadioPassesParams): Promise<SatellitePass[]>;
+  getAbove?(params: AboveParams): Promise<SatelliteAbove[]>;
+}
+
+// Interface for data together with the provider that answered
+export interface ProviderResponse<T> {
+  provider: string;
+  data: T;
+}
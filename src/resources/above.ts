@@ -1,5 +1,6 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { AboveParams, N2YOApiClient, SatelliteAbove } from '../api-client.js';
+import { AboveParams, SatelliteAbove } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
 
 export const satellitesAboveResourceTemplate = {
   uriTemplate: 'satellites://above/{lat}/{lon}/{radius}',
@@ -9,7 +10,7 @@ export const satellitesAboveResourceTemplate = {
 };
 
 export async function getSatellitesAboveResource(
-  apiClient: N2YOApiClient,
+  providers: ProviderChain,
   uri: string
 ): Promise<string> {
   try {
@@ -56,7 +57,7 @@ export async function getSatellitesAboveResource(
       category_id: 0, // All categories
     };
 
-    const satellites = await apiClient.getAbove(params);
+    const { provider, data: satellites } = await providers.getAbove(params);
 
     if (!satellites || satellites.length === 0) {
       return JSON.stringify({
@@ -65,6 +66,7 @@ export async function getSatellitesAboveResource(
           longitude,
         },
         radius: radius,
+        provider,
         satellites: [],
         count: 0,
         message: 'No satellites found above the specified location.',
@@ -81,6 +83,7 @@ export async function getSatellitesAboveResource(
         longitude,
       },
       radius: radius,
+      provider,
       satellites: formattedSatellites,
       count: formattedSatellites.length,
       timestamp: new Date().toISOString(),
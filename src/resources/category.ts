@@ -1,5 +1,6 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { N2YOApiClient, SatelliteAbove } from '../api-client.js';
+import { SatelliteAbove } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
 
 export const satellitesCategoryResourceTemplate = {
   uriTemplate: 'satellites://category/{category_id}',
@@ -44,7 +45,7 @@ const CATEGORY_MAPPING: Record<number, string> = {
 };
 
 export async function getSatellitesCategoryResource(
-  apiClient: N2YOApiClient,
+  providers: ProviderChain,
   uri: string
 ): Promise<string> {
   try {
@@ -75,12 +76,13 @@ export async function getSatellitesCategoryResource(
       category_id: categoryId,
     };
 
-    const satellites = await apiClient.getAbove(params);
+    const { provider, data: satellites } = await providers.getAbove(params);
 
     if (!satellites || satellites.length === 0) {
       return JSON.stringify({
         category_id: categoryId,
         category_name: CATEGORY_MAPPING[categoryId] || `Unknown (${categoryId})`,
+        provider,
         satellites: [],
         count: 0,
         message: `No satellites found in category: ${CATEGORY_MAPPING[categoryId] || categoryId}`,
@@ -94,6 +96,7 @@ export async function getSatellitesCategoryResource(
     return JSON.stringify({
       category_id: categoryId,
       category_name: CATEGORY_MAPPING[categoryId] || `Unknown (${categoryId})`,
+      provider,
       satellites: formattedSatellites,
       count: formattedSatellites.length,
       timestamp: new Date().toISOString(),
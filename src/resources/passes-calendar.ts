@@ -0,0 +1,78 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ProviderChain } from '../providers/chain.js';
+import { PassCalendarOptions, passesToICS } from '../export/ics.js';
+import { findPasses } from '../orbit/passes.js';
+import { loadSatellite } from '../orbit/propagator.js';
+import { CalendarUidStore } from '../store/calendar-uids.js';
+
+// Window covered by the calendar resource
+const CALENDAR_DAYS = 7;
+
+export const passesCalendarResourceTemplate = {
+  uriTemplate: 'passes://{norad_id}/{lat}/{lng}.ics',
+  name: 'Pass Calendar',
+  description: `iCalendar feed of the passes of a satellite over a location in the next ${CALENDAR_DAYS} days, predicted locally from its TLE, with stable event UIDs so re-imports update existing events`,
+  mimeType: 'text/calendar',
+};
+
+export async function getPassesCalendarResource(
+  providers: ProviderChain,
+  calendarUids: CalendarUidStore,
+  uri: string
+): Promise<string> {
+  try {
+    // Extract the parameters from the URI
+    const match = uri.match(/^passes:\/\/(\d+)\/([^/]+)\/([^/]+)\.ics$/);
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Invalid pass calendar resource URI: ${uri}`
+      );
+    }
+
+    const noradId = parseInt(match[1], 10);
+    const latitude = parseFloat(decodeURIComponent(match[2]));
+    const longitude = parseFloat(decodeURIComponent(match[3]));
+
+    // Validate coordinates
+    if (isNaN(latitude) || latitude < -90 || latitude > 90) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid latitude. Must be a number between -90 and 90.'
+      );
+    }
+
+    if (isNaN(longitude) || longitude < -180 || longitude > 180) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid longitude. Must be a number between -180 and 180.'
+      );
+    }
+
+    const tle = await providers.getTLE(noradId);
+    const satellite = loadSatellite(tle.data);
+    const observer = { latitude, longitude, altitude: 0 };
+    const start = new Date();
+    const passes = findPasses(satellite, observer, {
+      start,
+      end: new Date(start.getTime() + CALENDAR_DAYS * 86400000),
+    });
+
+    const calendar: PassCalendarOptions = {
+      kind: 'radio',
+      observer,
+      calendarName: `Passes of ${satellite.name} over ${latitude}, ${longitude}`,
+      now: start,
+    };
+    return passesToICS(passes, { ...calendar, uids: await calendarUids.assign(passes, calendar, start) });
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error building pass calendar: ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SatelliteCatalog } from '../store/catalog.js';
+
+export const satelliteCatalogResourceTemplate = {
+  uriTemplate: 'satellite://{norad_id}/catalog',
+  name: 'Satellite Catalog Metadata',
+  description: 'SATCAT metadata for a satellite by NORAD ID: owner, object type (payload, rocket body, debris), operational status, launch date and site, decay date, period, apogee, perigee and radar cross-section',
+  mimeType: 'application/json',
+};
+
+export async function getSatelliteCatalogResource(
+  catalog: SatelliteCatalog,
+  uri: string
+): Promise<string> {
+  try {
+    // Extract the NORAD ID from the URI
+    const match = uri.match(/^satellite:\/\/(\d+)\/catalog$/);
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Invalid satellite catalog resource URI: ${uri}`
+      );
+    }
+
+    const noradId = parseInt(match[1], 10);
+
+    // Validate NORAD ID
+    if (!Number.isInteger(noradId) || noradId <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    const entry = await catalog.get(noradId);
+    if (!entry) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `No catalog entry found for NORAD ID: ${noradId}. Import a SATCAT file with import_catalog.`
+      );
+    }
+
+    const satcat = entry.satcat;
+    return JSON.stringify({
+      norad_id: entry.noradId,
+      name: entry.name,
+      aliases: entry.aliases,
+      international_designator: entry.intDesignator,
+      object_type: satcat?.objectType ?? null,
+      operational_status: satcat?.operationalStatus ?? null,
+      owner: satcat?.owner ?? null,
+      launch: {
+        date: satcat?.launchDate ?? null,
+        site: satcat?.launchSite ?? null,
+      },
+      decay: {
+        decayed: satcat ? satcat.decayDate !== null : null,
+        date: satcat?.decayDate ?? null,
+      },
+      orbit: {
+        period_minutes: satcat?.periodMinutes ?? null,
+        inclination: satcat?.inclination ?? null,
+        apogee_km: satcat?.apogeeKm ?? null,
+        perigee_km: satcat?.perigeeKm ?? null,
+      },
+      rcs: {
+        square_meters: satcat?.rcsSquareMeters ?? null,
+        size: satcat?.rcsSize ?? null,
+      },
+      sources: entry.sources,
+      ...(!satcat && { message: 'No SATCAT metadata has been imported for this satellite.' }),
+      updated: entry.updatedAt,
+    }, null, 2);
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error retrieving satellite catalog resource: ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ProviderChain } from '../providers/chain.js';
+import { CZML_MIME_TYPE, trackToCZML } from '../export/czml.js';
+import { KML_MIME_TYPE, trackToKML } from '../export/kml.js';
+import {
+  computeGroundTrack,
+  defaultTrackStepSeconds,
+  groundTrackToGeoJSON,
+  orbitalPeriodSeconds,
+  splitAtAntimeridian,
+} from '../orbit/ground-track.js';
+import { loadSatellite } from '../orbit/propagator.js';
+
+// Track formats and their MIME types
+const TRACK_MIME_TYPES = {
+  json: 'application/json',
+  czml: CZML_MIME_TYPE,
+  kml: KML_MIME_TYPE,
+};
+
+type TrackFormat = keyof typeof TRACK_MIME_TYPES;
+
+export const satelliteTrackResourceTemplates = (Object.keys(TRACK_MIME_TYPES) as TrackFormat[]).map(format => ({
+  uriTemplate: `satellite://{norad_id}/track.${format}`,
+  name: `Satellite Track (${format.toUpperCase()})`,
+  description: {
+    json: 'Ground track of a satellite for the next orbit as a GeoJSON Feature split at the antimeridian, with vertex times',
+    czml: 'Track of a satellite for the next orbit as a CZML document for Cesium, with time-tagged position samples',
+    kml: 'Ground track and orbit of a satellite for the next orbit as a KML document for Google Earth',
+  }[format],
+  mimeType: TRACK_MIME_TYPES[format],
+}));
+
+/**
+ * MIME type of a satellite track resource URI
+ */
+export function satelliteTrackMimeType(uri: string): string {
+  const format = uri.slice(uri.lastIndexOf('.') + 1) as TrackFormat;
+  return TRACK_MIME_TYPES[format] ?? 'application/json';
+}
+
+export async function getSatelliteTrackResource(
+  providers: ProviderChain,
+  uri: string
+): Promise<string> {
+  try {
+    // Extract the NORAD ID and format from the URI
+    const match = uri.match(/^satellite:\/\/(\d+)\/track\.(json|czml|kml)$/);
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Invalid satellite track resource URI: ${uri}`
+      );
+    }
+
+    const noradId = parseInt(match[1], 10);
+    const format = match[2] as TrackFormat;
+
+    // Validate NORAD ID
+    if (!Number.isInteger(noradId) || noradId <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    const tle = await providers.getTLE(noradId);
+    const satellite = loadSatellite(tle.data);
+    const start = new Date();
+    const end = new Date(start.getTime() + orbitalPeriodSeconds(satellite) * 1000);
+    const points = computeGroundTrack(satellite, start, end, defaultTrackStepSeconds(satellite));
+    const track = { noradId, name: satellite.name, points };
+
+    if (format === 'czml') {
+      return JSON.stringify(trackToCZML(track), null, 2);
+    }
+    if (format === 'kml') {
+      return trackToKML(track);
+    }
+
+    return JSON.stringify(groundTrackToGeoJSON(splitAtAntimeridian(points), {
+      norad_id: noradId,
+      name: satellite.name,
+      provider: tle.provider,
+      start: start.toISOString(),
+      end: end.toISOString(),
+    }), null, 2);
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error computing satellite track: ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { TransmitterRegistry, isActiveTransmitter } from '../store/transmitters.js';
+import { formatTransmitter } from '../tools/tool-utils.js';
+
+export const satelliteTransmittersResourceTemplate = {
+  uriTemplate: 'satellite://{norad_id}/transmitters',
+  name: 'Satellite Transmitters',
+  description: 'Transmitters, transceivers and transponders of a satellite by NORAD ID from the local transmitter registry: downlink and uplink frequencies, bands, modes, baud rates and status',
+  mimeType: 'application/json',
+};
+
+export async function getSatelliteTransmittersResource(
+  transmitters: TransmitterRegistry,
+  uri: string
+): Promise<string> {
+  try {
+    // Extract the NORAD ID from the URI
+    const match = uri.match(/^satellite:\/\/(\d+)\/transmitters$/);
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Invalid satellite transmitters resource URI: ${uri}`
+      );
+    }
+
+    const noradId = parseInt(match[1], 10);
+
+    // Validate NORAD ID
+    if (!Number.isInteger(noradId) || noradId <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    const entries = await transmitters.get(noradId);
+
+    return JSON.stringify({
+      norad_id: noradId,
+      transmitters: entries.map(transmitter => formatTransmitter(transmitter)),
+      count: entries.length,
+      active_count: entries.filter(isActiveTransmitter).length,
+      ...(entries.length === 0 && {
+        message: (await transmitters.size()) === 0
+          ? 'The transmitter registry is empty. Import a SatNOGS DB transmitter dump with import_transmitters.'
+          : `No transmitters known for NORAD ID: ${noradId}.`,
+      }),
+    }, null, 2);
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error retrieving satellite transmitters resource: ${(error as Error).message}`
+    );
+  }
+}
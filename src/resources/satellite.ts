@@ -1,15 +1,19 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { N2YOApiClient } from '../api-client.js';
+import { SatellitePosition } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
+import { ProviderResponse } from '../providers/provider.js';
+import { computePosition, loadSatellite } from '../orbit/propagator.js';
+import { formatElementSet, parseProviderTLE } from '../tools/tool-utils.js';
 
 export const satelliteResourceTemplate = {
   uriTemplate: 'satellite://{norad_id}',
   name: 'Satellite Information',
-  description: 'Information about a satellite by NORAD ID',
+  description: 'Information about a satellite by NORAD ID: its validated TLE decoded into orbital elements and derived orbit, and its current position',
   mimeType: 'application/json',
 };
 
 export async function getSatelliteResource(
-  apiClient: N2YOApiClient,
+  providers: ProviderChain,
   uri: string
 ): Promise<string> {
   try {
@@ -34,12 +38,19 @@ export async function getSatelliteResource(
 
     // Get both TLE and position data
     // Use a default observer location (equator) for position data
-    const [tleData, positions] = await Promise.all([
-      apiClient.getTLE(noradId).catch(error => {
-        console.error('Error fetching satellite TLE:', error);
-        return null;
-      }),
-      apiClient.getPositions({
+    const tle = await providers.getTLE(noradId).catch(error => {
+      console.error('Error fetching satellite TLE:', error);
+      return null;
+    });
+    const tleData = tle?.data || null;
+
+    // Imported element sets are unknown to the providers, so their position is propagated locally
+    const position: ProviderResponse<SatellitePosition[]> | null = tle && tleData?.provenance
+      ? {
+        provider: tle.provider,
+        data: [computePosition(loadSatellite(tleData), { latitude: 0, longitude: 0, altitude: 0 }, new Date())],
+      }
+      : await providers.getPositions({
         noradId,
         observer_lat: 0,
         observer_lng: 0,
@@ -47,8 +58,8 @@ export async function getSatelliteResource(
       }).catch(error => {
         console.error('Error fetching satellite position:', error);
         return null;
-      }),
-    ]);
+      });
+    const positions = position?.data || null;
 
     if (!tleData && !positions) {
       throw new McpError(
@@ -57,25 +68,44 @@ export async function getSatelliteResource(
       );
     }
 
-    // Parse TLE data if available
-    let tleLines: string[] = [];
-    if (tleData && tleData.tle) {
-      tleLines = tleData.tle.split('\r\n');
-    }
+    // Validate and decode the element set if available
+    const elementSet = tle && tleData?.tle ? parseProviderTLE(noradId, tle.provider, tleData.tle) : null;
 
     // Combine the data
     const satelliteData: any = {
       norad_id: noradId,
       name: (tleData?.satname || positions?.[0]?.satname || `Satellite ${noradId}`),
+      providers: {
+        tle: tle?.provider || null,
+        position: position?.provider || null,
+      },
     };
 
     // Add TLE data if available
-    if (tleData && tleLines.length > 0) {
-      satelliteData.tle = {
-        line1: tleLines[0] || '',
-        line2: tleLines[1] || '',
-        line3: tleLines[2] || '',
-      };
+    if (tleData && elementSet) {
+      Object.assign(satelliteData, formatElementSet(elementSet.lines, elementSet.elements));
+
+      if (tleData.cache) {
+        satelliteData.tle_cache = {
+          cached: tleData.cache.cached,
+          epoch: tleData.cache.epoch,
+          epoch_age_hours: tleData.cache.epochAgeHours,
+          fetched_at: tleData.cache.fetchedAt,
+        };
+      }
+
+      if (tleData.provenance) {
+        satelliteData.provenance = {
+          file: tleData.provenance.file,
+          line: tleData.provenance.line,
+          format: tleData.provenance.format,
+          imported_at: tleData.provenance.importedAt,
+          ...(tleData.imported && {
+            epoch_age_hours: tleData.imported.epochAgeHours,
+            stale: tleData.imported.stale,
+          }),
+        };
+      }
     }
 
     // Add position data if available
@@ -0,0 +1,213 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { EndpointName, QuotaManager } from '../providers/n2yo-quota.js';
+
+// Default time between two refreshes of a subscribed resource
+const DEFAULT_REFRESH_SECONDS = 30;
+
+// Default share of each N2YO hourly limit that refreshes leave for other requests
+const DEFAULT_QUOTA_RESERVE = 0.25;
+
+// Interface for resource subscription options
+export interface ResourceSubscriptionOptions {
+  read: (uri: string) => Promise<string>;
+  notify: (uri: string) => Promise<void>;
+  quota?: QuotaManager | null;
+  refreshSeconds?: number;
+  quotaReserve?: number; // 0-1
+  now?: () => number;
+}
+
+// Interface for the subscriptions to one object
+interface Subscription {
+  key: string; // canonical URI, read on each refresh
+  endpoint: EndpointName; // N2YO endpoint a refresh may use
+  uris: Set<string>; // URIs clients subscribed with
+  content: string | null;
+  refreshedAt: number | null;
+}
+
+/**
+ * Canonical URI and N2YO endpoint of a subscribable resource, or null when
+ * the URI cannot be subscribed to. URIs naming the same object (e.g.
+ * "satellites://above/40.0/-74/70" and "satellites://above/40/-74/70")
+ * share one canonical URI.
+ */
+export function canonicalResourceUri(uri: string): { key: string; endpoint: EndpointName } | null {
+  const satellite = uri.match(/^satellite:\/\/(\d+)$/);
+  if (satellite) {
+    return { key: `satellite://${parseInt(satellite[1], 10)}`, endpoint: 'POSITIONS' };
+  }
+
+  const above = uri.match(/^satellites:\/\/above\/([^/]+)\/([^/]+)\/([^/]+)$/);
+  if (above) {
+    const values = above.slice(1).map(value => Number(decodeURIComponent(value)));
+    if (values.every(Number.isFinite)) {
+      return { key: `satellites://above/${values.join('/')}`, endpoint: 'ABOVE' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Subscriptions to live resources (satellite positions and satellites above
+ * a location).
+ *
+ * While anything is subscribed, every subscribed object is re-read once per
+ * `refreshSeconds`, however many URIs point at it, and the subscribed URIs
+ * are notified when its content changed. Reads in between are served from
+ * the refreshed content. A refresh is skipped while the N2YO endpoint it
+ * needs has less than `quotaReserve` of its hourly budget left.
+ */
+export class ResourceSubscriptions {
+  private options: ResourceSubscriptionOptions;
+  private refreshMs: number;
+  private quotaReserve: number;
+  private now: () => number;
+  private subscriptions = new Map<string, Subscription>();
+  private timer: NodeJS.Timeout | null = null;
+  private refreshing: Promise<void> | null = null;
+
+  constructor(options: ResourceSubscriptionOptions) {
+    this.options = options;
+    this.refreshMs = (options.refreshSeconds ?? DEFAULT_REFRESH_SECONDS) * 1000;
+    this.quotaReserve = options.quotaReserve ?? DEFAULT_QUOTA_RESERVE;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Options from RESOURCE_REFRESH_* environment variables
+   */
+  static environmentOptions(): Pick<ResourceSubscriptionOptions, 'refreshSeconds' | 'quotaReserve'> {
+    const refreshSeconds = parseFloat(process.env.RESOURCE_REFRESH_SECONDS || '');
+    const quotaReserve = parseFloat(process.env.RESOURCE_REFRESH_QUOTA_RESERVE || '');
+
+    return {
+      refreshSeconds: Number.isFinite(refreshSeconds) && refreshSeconds > 0 ? refreshSeconds : undefined,
+      quotaReserve: Number.isFinite(quotaReserve) && quotaReserve >= 0 && quotaReserve < 1 ? quotaReserve : undefined,
+    };
+  }
+
+  /**
+   * URIs currently subscribed to
+   */
+  get uris(): string[] {
+    return [...this.subscriptions.values()].flatMap(subscription => [...subscription.uris]);
+  }
+
+  /**
+   * Subscribe to a resource, starting the refresh loop with the first subscription
+   */
+  subscribe(uri: string): void {
+    const canonical = canonicalResourceUri(uri);
+    if (!canonical) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Resource cannot be subscribed to: ${uri}. Subscriptions are supported for satellite://{norad_id} and satellites://above/{lat}/{lon}/{radius}.`
+      );
+    }
+
+    const subscription = this.subscriptions.get(canonical.key) || {
+      ...canonical,
+      uris: new Set<string>(),
+      content: null,
+      refreshedAt: null,
+    };
+    subscription.uris.add(uri);
+    this.subscriptions.set(canonical.key, subscription);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.refresh().catch(error => console.error('Error refreshing subscribed resources:', error));
+      }, this.refreshMs);
+    }
+  }
+
+  /**
+   * Unsubscribe from a resource, stopping the refresh loop with the last subscription
+   */
+  unsubscribe(uri: string): void {
+    const canonical = canonicalResourceUri(uri);
+    const subscription = canonical && this.subscriptions.get(canonical.key);
+    if (!subscription) {
+      return;
+    }
+
+    subscription.uris.delete(uri);
+    if (subscription.uris.size === 0) {
+      this.subscriptions.delete(subscription.key);
+    }
+    if (this.subscriptions.size === 0) {
+      this.clear();
+    }
+  }
+
+  /**
+   * Drop all subscriptions, e.g. when the client disconnects
+   */
+  clear(): void {
+    this.subscriptions.clear();
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Content of a subscribed resource refreshed within the refresh interval
+   */
+  cached(uri: string): string | null {
+    const canonical = canonicalResourceUri(uri);
+    const subscription = canonical && this.subscriptions.get(canonical.key);
+    if (!subscription || subscription.content === null || subscription.refreshedAt === null) {
+      return null;
+    }
+    return this.now() - subscription.refreshedAt < this.refreshMs ? subscription.content : null;
+  }
+
+  /**
+   * Re-read every subscribed object and notify its URIs when it changed.
+   * Overlapping calls wait for the refresh in progress.
+   */
+  refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshAll().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async refreshAll(): Promise<void> {
+    for (const subscription of [...this.subscriptions.values()]) {
+      if (!this.hasBudget(subscription.endpoint)) {
+        console.error(`Skipping refresh of ${subscription.key}: N2YO ${subscription.endpoint} budget is below the reserve`);
+        continue;
+      }
+
+      let content: string;
+      try {
+        content = await this.options.read(subscription.key);
+      } catch (error) {
+        console.error(`Error refreshing ${subscription.key}:`, error);
+        continue;
+      }
+
+      const changed = content !== subscription.content;
+      subscription.content = content;
+      subscription.refreshedAt = this.now();
+
+      // The subscription may have been dropped while it was being read
+      if (changed && this.subscriptions.get(subscription.key) === subscription) {
+        for (const uri of subscription.uris) {
+          await this.options.notify(uri).catch(error => console.error(`Error notifying ${uri}:`, error));
+        }
+      }
+    }
+  }
+
+  private hasBudget(endpoint: EndpointName): boolean {
+    const usage = this.options.quota?.usage().find(entry => entry.endpoint === endpoint);
+    return !usage || usage.remaining >= Math.max(1, usage.hourlyLimit * this.quotaReserve);
+  }
+}
@@ -0,0 +1,91 @@
+import { SatellitePass } from '../api-client.js';
+import { PassCalendarOptions, passUid, passUidScope } from '../export/ics.js';
+import { BATCHED_WRITE_DELAY_MS, JsonFileWriter, dataFilePath, readRecoverableJsonFile } from './json-file.js';
+
+// UIDs are remembered this long after their pass, so late re-exports still match
+const ISSUED_RETENTION_MS = 7 * 86400000;
+
+// Interface for an event UID handed out for a pass
+export interface IssuedUid {
+  uid: string;
+  satid: number;
+  scope: string; // pass kind and observer location
+  startUTC: number; // AOS of the latest prediction (Unix seconds)
+  endUTC: number; // LOS of the latest prediction (Unix seconds)
+}
+
+// Interface for the UID file contents
+interface CalendarUidFile {
+  version: 1;
+  uids: IssuedUid[];
+}
+
+/**
+ * Event UIDs handed out in calendar exports. A pass gets the UID of an
+ * earlier export when its AOS-LOS window overlaps the one exported then
+ * (two different passes of a satellite over an observer never overlap), so
+ * a re-predicted pass updates its calendar event even when its culmination
+ * moves.
+ */
+export class CalendarUidStore {
+  private filePath: string;
+  private issued: Map<string, IssuedUid> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string = dataFilePath('calendar-uids.json')) {
+    this.filePath = filePath;
+    this.writer = new JsonFileWriter(this.filePath, () => ({
+      version: 1,
+      uids: [...(this.issued || new Map()).values()],
+    } satisfies CalendarUidFile), BATCHED_WRITE_DELAY_MS);
+  }
+
+  private async load(): Promise<Map<string, IssuedUid>> {
+    if (!this.issued) {
+      const file = await readRecoverableJsonFile<CalendarUidFile>(this.filePath, { version: 1, uids: [] });
+      this.issued = new Map((file.uids || []).map(entry => [entry.uid, entry]));
+    }
+    return this.issued;
+  }
+
+  /**
+   * Write pending changes to disk now, e.g. before the server exits
+   */
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  /**
+   * UIDs for the events of `passes` in a calendar built with `options`, in the same order
+   */
+  async assign(passes: SatellitePass[], options: PassCalendarOptions, now: Date = new Date()): Promise<string[]> {
+    const issued = await this.load();
+    const scope = passUidScope(options);
+    const claimed = new Set<string>();
+
+    const uids = passes.map(pass => {
+      const earlier = [...issued.values()].find(entry =>
+        entry.satid === pass.satid &&
+        entry.scope === scope &&
+        !claimed.has(entry.uid) &&
+        entry.startUTC < pass.endUTC && pass.startUTC < entry.endUTC
+      );
+
+      const uid = earlier?.uid ?? passUid(pass, options);
+      claimed.add(uid);
+      issued.set(uid, { uid, satid: pass.satid, scope, startUTC: pass.startUTC, endUTC: pass.endUTC });
+      return uid;
+    });
+
+    for (const [uid, entry] of issued) {
+      if (entry.endUTC * 1000 < now.getTime() - ISSUED_RETENTION_MS) {
+        issued.delete(uid);
+      }
+    }
+
+    if (passes.length > 0) {
+      this.writer.write().catch(error => console.error('Error writing calendar UIDs:', error));
+    }
+    return uids;
+  }
+}
@@ -0,0 +1,504 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ElementParseError } from '../orbit/tle.js';
+import { BATCHED_WRITE_DELAY_MS, JsonFileWriter, dataFilePath, readRecoverableJsonFile } from './json-file.js';
+import { SatcatRecord, parseSatcatRecord } from './satcat.js';
+
+// Default and largest number of search results
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Interface for one satellite in the catalog index
+export interface CatalogEntry {
+  noradId: number;
+  name: string;
+  aliases: string[];
+  intDesignator: string | null; // e.g. "1998-067A"
+  sources: string[]; // where the entry was learned from ("catalog", "import", "n2yo", ...)
+  satcat?: SatcatRecord; // metadata from an imported SATCAT file
+  updatedAt: string;
+}
+
+// Interface for a satellite observed in provider data or imports
+export interface CatalogObservation {
+  noradId: number;
+  name?: string;
+  aliases?: string[];
+  intDesignator?: string | null;
+  satcat?: SatcatRecord | null;
+}
+
+// Interface for a ranked search result
+export interface CatalogMatch {
+  entry: CatalogEntry;
+  score: number;
+  matchedOn: 'norad_id' | 'international_designator' | 'name' | 'alias';
+  matchedText: string;
+}
+
+// Interface for the outcome of a catalog import
+export interface CatalogImportReport {
+  files: string[];
+  added: number;
+  updated: number;
+  errors: (ElementParseError & { file: string })[];
+}
+
+// Interface for the catalog file contents
+interface CatalogFile {
+  version: 1;
+  entries: Record<string, CatalogEntry>;
+}
+
+// Column names accepted for each field in CSV and JSON catalog files (SATCAT and N2YO spellings)
+const COLUMN_ALIASES = {
+  noradId: ['NORAD_CAT_ID', 'NORAD_ID', 'SATID', 'CATNR'],
+  name: ['OBJECT_NAME', 'SATNAME', 'NAME'],
+  intDesignator: ['OBJECT_ID', 'INTLDES', 'INTDESIGNATOR', 'INTERNATIONAL_DESIGNATOR'],
+  aliases: ['ALIASES', 'ALIAS', 'ALT_NAMES'],
+};
+
+/**
+ * Normalize a name for matching: upper case, punctuation folded to single spaces
+ */
+function normalize(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+}
+
+/**
+ * International designator in catalog form ("98067A" or "1998-067 A" -> "1998-067A")
+ */
+export function toCatalogDesignator(value: string | null | undefined): string | null {
+  const text = (value || '').trim().toUpperCase().replace(/\s+/g, '');
+  const full = text.match(/^(\d{4})-?(\d{3})([A-Z]{0,3})$/);
+  if (full) {
+    return `${full[1]}-${full[2]}${full[3]}`;
+  }
+  const short = text.match(/^(\d{2})(\d{3})([A-Z]{0,3})$/);
+  if (short) {
+    const year = parseInt(short[1], 10);
+    return `${year < 57 ? 2000 + year : 1900 + year}-${short[2]}${short[3]}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a name is only a generated placeholder such as "Satellite 25544"
+ */
+function isPlaceholderName(name: string, noradId: number): boolean {
+  return name.trim() === '' || name.trim() === `Satellite ${noradId}`;
+}
+
+/**
+ * Edit distance counting adjacent transpositions as one edit (optimal string
+ * alignment), giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Score how well a normalized query matches a normalized name (0 = no match)
+ */
+function scoreName(query: string, name: string): number {
+  if (!name) {
+    return 0;
+  }
+  if (name === query) {
+    return 90;
+  }
+  if (name.startsWith(query)) {
+    return 80;
+  }
+
+  // Ignore spacing and punctuation ("NOAA20" finds "NOAA 20")
+  const compactQuery = query.replace(/ /g, '');
+  const compactName = name.replace(/ /g, '');
+  if (compactName === compactQuery) {
+    return 85;
+  }
+  if (compactName.startsWith(compactQuery)) {
+    return 75;
+  }
+
+  const words = name.split(' ');
+  if (words.some(word => word.startsWith(query))) {
+    return 70;
+  }
+  if (name.includes(query)) {
+    return 60;
+  }
+
+  // Tolerate typos: compare against the whole name and each word
+  const maxDistance = Math.max(1, Math.floor(query.length / 4));
+  const distance = Math.min(
+    editDistance(query, name, maxDistance),
+    ...words.map(word => editDistance(query, word, maxDistance))
+  );
+  return distance <= maxDistance ? 50 - distance * 10 : 0;
+}
+
+/**
+ * Split a CSV line into fields (RFC 4180 quoting)
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+/**
+ * Pick a field from a record using any of its accepted column names
+ */
+function pick(record: Record<string, unknown>, names: string[]): unknown {
+  for (const name of names) {
+    if (record[name] !== undefined && record[name] !== null && record[name] !== '') {
+      return record[name];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert a catalog file record to an observation
+ */
+function toObservation(record: Record<string, unknown>): CatalogObservation | string {
+  const upper = Object.fromEntries(Object.entries(record).map(([key, value]) => [key.toUpperCase(), value]));
+  const noradId = Number(pick(upper, COLUMN_ALIASES.noradId));
+  if (!Number.isInteger(noradId) || noradId <= 0) {
+    return `Missing or invalid NORAD ID (${COLUMN_ALIASES.noradId.join('/')}).`;
+  }
+
+  const rawAliases = pick(upper, COLUMN_ALIASES.aliases);
+  const aliases = Array.isArray(rawAliases)
+    ? rawAliases.map(String)
+    : typeof rawAliases === 'string' ? rawAliases.split(/[;|]/) : [];
+
+  return {
+    noradId,
+    name: pick(upper, COLUMN_ALIASES.name) !== undefined ? String(pick(upper, COLUMN_ALIASES.name)) : undefined,
+    aliases: aliases.map(alias => alias.trim()).filter(alias => alias.length > 0),
+    intDesignator: toCatalogDesignator(String(pick(upper, COLUMN_ALIASES.intDesignator) ?? '')),
+    satcat: parseSatcatRecord(upper),
+  };
+}
+
+/**
+ * Read catalog records from CSV (with a header row) or JSON (an array of objects)
+ */
+function readCatalogRecords(content: string): { records: { observation: CatalogObservation; line: number | null }[]; errors: ElementParseError[] } {
+  const records: { observation: CatalogObservation; line: number | null }[] = [];
+  const errors: ElementParseError[] = [];
+
+  const add = (record: Record<string, unknown>, line: number | null) => {
+    const observation = toObservation(record);
+    if (typeof observation === 'string') {
+      errors.push({ line, message: observation });
+    } else {
+      records.push({ observation, line });
+    }
+  };
+
+  const start = content.trimStart();
+  if (start.startsWith('[') || start.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      return { records, errors: [{ line: null, message: `Invalid JSON: ${(error as Error).message}` }] };
+    }
+    (Array.isArray(parsed) ? parsed : [parsed]).forEach((item, index) => {
+      if (item && typeof item === 'object') {
+        add(item as Record<string, unknown>, null);
+      } else {
+        errors.push({ line: null, message: `Record ${index + 1} is not an object.` });
+      }
+    });
+    return { records, errors };
+  }
+
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const header = parseCsvLine(lines[0] || '');
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    const values = parseCsvLine(line);
+    add(Object.fromEntries(header.map((column, i) => [column, values[i] ?? ''])), index + 2);
+  });
+  return { records, errors };
+}
+
+/**
+ * Persistent index of known satellites (NORAD ID, names, aliases,
+ * international designator) used for name search.
+ */
+export class SatelliteCatalog {
+  private filePath: string;
+  private entries: Map<number, CatalogEntry> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string = dataFilePath('catalog.json')) {
+    this.filePath = filePath;
+    this.writer = new JsonFileWriter(this.filePath, () => ({
+      version: 1,
+      entries: Object.fromEntries([...(this.entries || new Map())].map(([id, entry]) => [String(id), entry])),
+    } satisfies CatalogFile), BATCHED_WRITE_DELAY_MS);
+  }
+
+  private async load(): Promise<Map<number, CatalogEntry>> {
+    if (!this.entries) {
+      const file = await readRecoverableJsonFile<CatalogFile>(this.filePath, { version: 1, entries: {} });
+      this.entries = new Map(Object.values(file.entries || {}).map(entry => [entry.noradId, entry]));
+    }
+    return this.entries;
+  }
+
+  /**
+   * Write pending changes to disk now, e.g. before the server exits
+   */
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  /**
+   * Merge one observation into the index. Authoritative sources (catalog
+   * files) replace the primary name; others only add names as aliases.
+   * Returns whether the entry was added or changed.
+   */
+  private merge(
+    entries: Map<number, CatalogEntry>,
+    observation: CatalogObservation,
+    source: string,
+    authoritative: boolean
+  ): 'added' | 'updated' | null {
+    const names = [observation.name, ...(observation.aliases || [])]
+      .map(name => (name || '').trim())
+      .filter(name => !isPlaceholderName(name, observation.noradId));
+
+    const existing = entries.get(observation.noradId);
+    if (!existing) {
+      if (names.length === 0 && !observation.intDesignator && !observation.satcat) {
+        return null;
+      }
+      entries.set(observation.noradId, {
+        noradId: observation.noradId,
+        name: names[0] || `Satellite ${observation.noradId}`,
+        aliases: [...new Set(names.slice(1))],
+        intDesignator: observation.intDesignator || null,
+        sources: [source],
+        ...(observation.satcat && { satcat: observation.satcat }),
+        updatedAt: new Date().toISOString(),
+      });
+      return 'added';
+    }
+
+    const before = JSON.stringify(existing);
+    const known = new Set([existing.name, ...existing.aliases].map(normalize));
+
+    if (names.length > 0 && (authoritative || isPlaceholderName(existing.name, existing.noradId))) {
+      if (normalize(existing.name) !== normalize(names[0]) && !isPlaceholderName(existing.name, existing.noradId)) {
+        existing.aliases.push(existing.name);
+      }
+      existing.name = names[0];
+      known.add(normalize(names[0]));
+    }
+    for (const name of names) {
+      if (!known.has(normalize(name))) {
+        existing.aliases.push(name);
+        known.add(normalize(name));
+      }
+    }
+    existing.aliases = existing.aliases.filter(alias => normalize(alias) !== normalize(existing.name));
+
+    if (observation.intDesignator && (authoritative || !existing.intDesignator)) {
+      existing.intDesignator = observation.intDesignator;
+    }
+    if (observation.satcat && (authoritative || !existing.satcat)) {
+      existing.satcat = observation.satcat;
+    }
+    if (!existing.sources.includes(source)) {
+      existing.sources.push(source);
+    }
+
+    if (JSON.stringify(existing) === before) {
+      return null;
+    }
+    existing.updatedAt = new Date().toISOString();
+    return 'updated';
+  }
+
+  /**
+   * Record satellites seen in provider responses or imported element sets.
+   * The catalog file is rewritten in batches, without waiting for it.
+   */
+  async observe(observations: CatalogObservation[], source: string): Promise<void> {
+    const entries = await this.load();
+    const changed = observations
+      .filter(observation => Number.isInteger(observation.noradId) && observation.noradId > 0)
+      .map(observation => this.merge(entries, observation, source, false))
+      .some(result => result !== null);
+
+    if (changed) {
+      this.writer.write().catch(error => console.error('Error writing satellite catalog:', error));
+    }
+  }
+
+  /**
+   * Import a catalog file, or every file in a directory (non-recursive)
+   */
+  async importPath(targetPath: string): Promise<CatalogImportReport> {
+    const resolved = path.resolve(targetPath);
+    const stat = await fs.stat(resolved);
+    const files = stat.isDirectory()
+      ? (await fs.readdir(resolved, { withFileTypes: true }))
+        .filter(entry => entry.isFile() && /\.(csv|json)$/i.test(entry.name))
+        .map(entry => path.join(resolved, entry.name))
+        .sort()
+      : [resolved];
+
+    const report: CatalogImportReport = { files, added: 0, updated: 0, errors: [] };
+    const entries = await this.load();
+
+    for (const file of files) {
+      const { records, errors } = readCatalogRecords(await fs.readFile(file, 'utf8'));
+      report.errors.push(...errors.map(error => ({ ...error, file })));
+
+      for (const { observation } of records) {
+        const result = this.merge(entries, observation, 'catalog', true);
+        if (result === 'added') {
+          report.added += 1;
+        } else if (result === 'updated') {
+          report.updated += 1;
+        }
+      }
+    }
+
+    if (report.added > 0 || report.updated > 0) {
+      await this.writer.write();
+    }
+    return report;
+  }
+
+  /**
+   * Get the catalog entry of a satellite
+   */
+  async get(noradId: number): Promise<CatalogEntry | undefined> {
+    return (await this.load()).get(noradId);
+  }
+
+  /**
+   * Get the catalog entries of several satellites, keyed by NORAD ID
+   */
+  async getMany(noradIds: number[]): Promise<Map<number, CatalogEntry>> {
+    const entries = await this.load();
+    return new Map(noradIds
+      .filter(noradId => entries.has(noradId))
+      .map(noradId => [noradId, entries.get(noradId)!]));
+  }
+
+  /**
+   * Number of satellites in the index
+   */
+  async size(): Promise<number> {
+    return (await this.load()).size;
+  }
+
+  /**
+   * Search by NORAD ID, international designator, name or alias, with
+   * prefix, substring and typo-tolerant matching, best matches first
+   */
+  async search(query: string, limit: number = DEFAULT_SEARCH_LIMIT): Promise<CatalogMatch[]> {
+    const entries = await this.load();
+    const normalizedQuery = normalize(query);
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    const queryId = /^\d+$/.test(query.trim()) ? parseInt(query.trim(), 10) : null;
+    const queryDesignator = toCatalogDesignator(query);
+    const matches: CatalogMatch[] = [];
+
+    for (const entry of entries.values()) {
+      const candidates: CatalogMatch[] = [];
+
+      if (queryId !== null && entry.noradId === queryId) {
+        candidates.push({ entry, score: 100, matchedOn: 'norad_id', matchedText: String(entry.noradId) });
+      }
+      if (entry.intDesignator) {
+        if (queryDesignator && entry.intDesignator === queryDesignator) {
+          candidates.push({ entry, score: 95, matchedOn: 'international_designator', matchedText: entry.intDesignator });
+        } else if (
+          (queryDesignator && entry.intDesignator.startsWith(queryDesignator)) ||
+          (query.trim().length >= 4 && entry.intDesignator.startsWith(query.trim().toUpperCase()))
+        ) {
+          candidates.push({ entry, score: 75, matchedOn: 'international_designator', matchedText: entry.intDesignator });
+        }
+      }
+      candidates.push({ entry, score: scoreName(normalizedQuery, normalize(entry.name)), matchedOn: 'name', matchedText: entry.name });
+      for (const alias of entry.aliases) {
+        // Aliases rank just below an equally good match on the primary name
+        candidates.push({ entry, score: scoreName(normalizedQuery, normalize(alias)) - 1, matchedOn: 'alias', matchedText: alias });
+      }
+
+      const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+      if (best.score > 0) {
+        matches.push(best);
+      }
+    }
+
+    return matches
+      .sort((a, b) =>
+        b.score - a.score ||
+        a.entry.name.length - b.entry.name.length ||
+        a.entry.noradId - b.entry.noradId
+      )
+      .slice(0, Math.max(1, Math.min(limit, MAX_SEARCH_LIMIT)));
+  }
+}
@@ -0,0 +1,254 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OMMRecord, ommToTLE, parseOMMJson, parseOMMKvn, parseOMMXml } from '../orbit/omm.js';
+import { ElementParseError, TLELines, decodeTLE, parseTLEFile, validateTLE } from '../orbit/tle.js';
+import { SatelliteCatalog, toCatalogDesignator } from './catalog.js';
+import { dataFilePath, readRecoverableJsonFile, writeJsonFile } from './json-file.js';
+import { TLEHistory } from './tle-history.js';
+
+// Supported element set file formats
+export type ElementFormat = 'tle' | 'omm-xml' | 'omm-json' | 'omm-kvn';
+
+// Interface for where an imported element set came from
+export interface ElementProvenance {
+  file: string;
+  line: number | null;
+  format: ElementFormat;
+  importedAt: string;
+}
+
+// Interface for an imported element set
+export interface ImportedElementSet {
+  satid: number;
+  satname: string;
+  tle: string; // line 1 and line 2 separated by \r\n, as returned by N2YO
+  epoch: string;
+  provenance: ElementProvenance;
+}
+
+// Interface for a rejected record
+export interface ImportError extends ElementParseError {
+  file: string;
+}
+
+// Interface for the outcome of an import
+export interface ImportReport {
+  files: string[];
+  imported: { satid: number; satname: string; epoch: string; file: string; line: number | null }[];
+  skipped: { satid: number; reason: string; file: string; line: number | null }[];
+  errors: ImportError[];
+}
+
+// Interface for element store options
+export interface ElementStoreOptions {
+  filePath?: string;
+  catalog?: SatelliteCatalog | null; // index that imported satellites are added to
+  history?: TLEHistory | null; // every valid element set read, even superseded ones, is added to it
+}
+
+// Interface for the store file contents
+interface ElementStoreFile {
+  version: 1;
+  elements: Record<string, ImportedElementSet>;
+}
+
+const FORMAT_BY_EXTENSION: Record<string, ElementFormat> = {
+  '.tle': 'tle',
+  '.txt': 'tle',
+  '.3le': 'tle',
+  '.2le': 'tle',
+  '.xml': 'omm-xml',
+  '.json': 'omm-json',
+  '.kvn': 'omm-kvn',
+  '.omm': 'omm-kvn',
+};
+
+/**
+ * Work out the format of an element file from its extension, falling back to its contents
+ */
+export function detectFormat(filePath: string, content: string): ElementFormat | null {
+  const byExtension = FORMAT_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+  if (byExtension) {
+    return byExtension;
+  }
+
+  const start = content.trimStart();
+  if (start.startsWith('<')) {
+    return 'omm-xml';
+  }
+  if (start.startsWith('{') || start.startsWith('[')) {
+    return 'omm-json';
+  }
+  if (/^CCSDS_OMM_VERS\s*=/m.test(content)) {
+    return 'omm-kvn';
+  }
+  if (/^1 [ 0-9]{5}/m.test(content)) {
+    return 'tle';
+  }
+  return null;
+}
+
+/**
+ * Persistent store of element sets imported from local TLE and OMM files
+ */
+export class ElementStore {
+  private filePath: string;
+  private catalog: SatelliteCatalog | null;
+  private history: TLEHistory | null;
+  private elements: Map<number, ImportedElementSet> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(options: ElementStoreOptions = {}) {
+    this.filePath = options.filePath || dataFilePath('imported-elements.json');
+    this.catalog = options.catalog || null;
+    this.history = options.history || null;
+  }
+
+  private async load(): Promise<Map<number, ImportedElementSet>> {
+    if (!this.elements) {
+      const file = await readRecoverableJsonFile<ElementStoreFile>(this.filePath, { version: 1, elements: {} });
+      this.elements = new Map(Object.values(file.elements || {}).map(entry => [entry.satid, entry]));
+    }
+    return this.elements;
+  }
+
+  private persist(): Promise<void> {
+    const elements = this.elements || new Map();
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.filePath, {
+        version: 1,
+        elements: Object.fromEntries([...elements].map(([id, entry]) => [String(id), entry])),
+      } satisfies ElementStoreFile));
+    return this.writeQueue;
+  }
+
+  /**
+   * Get the imported element set for a satellite
+   */
+  async get(noradId: number): Promise<ImportedElementSet | undefined> {
+    return (await this.load()).get(noradId);
+  }
+
+  /**
+   * List all imported element sets
+   */
+  async list(): Promise<ImportedElementSet[]> {
+    return [...(await this.load()).values()].sort((a, b) => a.satid - b.satid);
+  }
+
+  /**
+   * Import a file, or every file in a directory (non-recursive)
+   */
+  async importPath(targetPath: string): Promise<ImportReport> {
+    const resolved = path.resolve(targetPath);
+    const stat = await fs.stat(resolved);
+    const files = stat.isDirectory()
+      ? (await fs.readdir(resolved, { withFileTypes: true }))
+        .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+        .map(entry => path.join(resolved, entry.name))
+        .sort()
+      : [resolved];
+
+    const report: ImportReport = { files, imported: [], skipped: [], errors: [] };
+    const elements = await this.load();
+    const importedAt = new Date().toISOString();
+    const valid: ImportedElementSet[] = [];
+
+    for (const file of files) {
+      const content = await fs.readFile(file, 'utf8');
+      const format = detectFormat(file, content);
+      if (!format) {
+        report.errors.push({ file, line: null, message: 'Unrecognised element set format.' });
+        continue;
+      }
+
+      const { records, errors } = readRecords(format, content);
+      report.errors.push(...errors.map(error => ({ ...error, file })));
+
+      for (const record of records) {
+        let entry: ImportedElementSet;
+        try {
+          entry = toElementSet(record.tle, { file, line: record.line, format, importedAt });
+        } catch (error) {
+          report.errors.push({ file, line: record.line, message: (error as Error).message });
+          continue;
+        }
+        valid.push(entry);
+
+        // Keep the most recent epoch when the same object is imported more than once
+        const existing = elements.get(entry.satid);
+        if (existing && Date.parse(existing.epoch) > Date.parse(entry.epoch)) {
+          report.skipped.push({
+            satid: entry.satid,
+            reason: `A newer element set (epoch ${existing.epoch}) is already imported from ${existing.provenance.file}.`,
+            file,
+            line: record.line,
+          });
+          continue;
+        }
+
+        elements.set(entry.satid, entry);
+        report.imported.push({ satid: entry.satid, satname: entry.satname, epoch: entry.epoch, file, line: record.line });
+      }
+    }
+
+    if (report.imported.length > 0) {
+      await this.persist();
+
+      if (this.catalog) {
+        await this.catalog.observe(report.imported.map(entry => ({
+          noradId: entry.satid,
+          name: entry.satname,
+          intDesignator: toCatalogDesignator(decodeTLE(elements.get(entry.satid)!.tle).intDesignator),
+        })), 'import');
+      }
+    }
+
+    if (this.history && valid.length > 0) {
+      await this.history.record(valid, 'import', new Date(importedAt));
+    }
+    return report;
+  }
+}
+
+/**
+ * Parse a file's contents into TLEs, converting OMMs as they are read
+ */
+function readRecords(
+  format: ElementFormat,
+  content: string
+): { records: { tle: TLELines | (() => TLELines); line: number | null }[]; errors: ElementParseError[] } {
+  if (format === 'tle') {
+    const { records, errors } = parseTLEFile(content);
+    return { records: records.map(record => ({ tle: record.lines, line: record.line })), errors };
+  }
+
+  const parsers: Record<Exclude<ElementFormat, 'tle'>, (text: string) => { records: OMMRecord[]; errors: ElementParseError[] }> = {
+    'omm-xml': parseOMMXml,
+    'omm-json': parseOMMJson,
+    'omm-kvn': parseOMMKvn,
+  };
+  const { records, errors } = parsers[format](content);
+
+  // Conversion is deferred so that validation errors are reported against the record
+  return { records: records.map(record => ({ tle: () => ommToTLE(record), line: record.line })), errors };
+}
+
+function toElementSet(source: TLELines | (() => TLELines), provenance: ElementProvenance): ImportedElementSet {
+  const lines = typeof source === 'function' ? source() : source;
+
+  const problems = validateTLE(lines);
+  if (problems.length > 0) {
+    throw new Error(problems.join(' '));
+  }
+
+  const elements = decodeTLE(lines);
+  return {
+    satid: elements.noradId,
+    satname: lines.name || `Satellite ${elements.noradId}`,
+    tle: `${lines.line1}\r\n${lines.line2}`,
+    epoch: elements.epoch.toISOString(),
+    provenance,
+  };
+}
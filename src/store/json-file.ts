@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Directory holding the server's persisted state (caches, profiles, ...).
+ * Defaults to ~/.satellite-tracking, overridable with SATELLITE_TRACKING_DATA_DIR.
+ */
+export function getDataDirectory(): string {
+  return process.env.SATELLITE_TRACKING_DATA_DIR || path.join(os.homedir(), '.satellite-tracking');
+}
+
+/**
+ * Path of a file inside the data directory
+ */
+export function dataFilePath(fileName: string): string {
+  return path.join(getDataDirectory(), fileName);
+}
+
+/**
+ * Read and parse a JSON file, returning `fallback` when it does not exist
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read a JSON file holding data that can be rebuilt (caches, imports,
+ * indexes). A file that cannot be parsed, e.g. after a hand edit or a
+ * truncated copy, is moved aside to "<file>.corrupt-<timestamp>" and
+ * `fallback` returned, so it does not break every request that reads it.
+ */
+export async function readRecoverableJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return await readJsonFile(filePath, fallback);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) {
+      throw error;
+    }
+
+    const asidePath = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    console.error(`Unreadable data file ${filePath} (${error.message}), moving it to ${asidePath} and starting empty`);
+    await fs.rename(filePath, asidePath).catch(renameError => {
+      console.error(`Error moving ${filePath} aside:`, renameError);
+    });
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file atomically (write to a temporary file, then rename)
+ */
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+// How long stores updated on every provider response batch changes before rewriting their file
+export const BATCHED_WRITE_DELAY_MS = 1000;
+
+/**
+ * Batched writer for one JSON file. A write waits `delayMs` for further
+ * changes, then saves the data as it is at that moment; every write()
+ * called in the meantime shares it. Writes never overlap, so a file that
+ * changes on every provider response is rewritten at most once per delay.
+ */
+export class JsonFileWriter {
+  private filePath: string;
+  private data: () => unknown;
+  private delayMs: number;
+  private pending: Promise<void> | null = null;
+  private last: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private release: (() => void) | null = null;
+
+  constructor(filePath: string, data: () => unknown, delayMs: number = 0) {
+    this.filePath = filePath;
+    this.data = data;
+    this.delayMs = delayMs;
+  }
+
+  /**
+   * Schedule a write, resolving once the file holds the current data
+   */
+  write(): Promise<void> {
+    if (!this.pending) {
+      const previous = this.last;
+      this.pending = new Promise<void>(resolve => {
+        this.release = resolve;
+        this.timer = setTimeout(resolve, this.delayMs);
+      })
+        .then(() => previous.catch(() => undefined))
+        .then(() => {
+          this.pending = null;
+          this.timer = null;
+          this.release = null;
+          return writeJsonFile(this.filePath, this.data());
+        });
+      this.last = this.pending;
+    }
+    return this.pending;
+  }
+
+  /**
+   * Start a scheduled write now and wait for every write to finish
+   */
+  flush(): Promise<void> {
+    if (this.timer && this.release) {
+      clearTimeout(this.timer);
+      this.release();
+    }
+    return this.last;
+  }
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import { HorizonPoint, parseHorizonMask } from '../orbit/horizon.js';
+import { dataFilePath, readJsonFile, writeJsonFile } from './json-file.js';
+
+// Interface for a named observer location
+export interface ObserverProfile {
+  name: string;
+  latitude: number; // degrees
+  longitude: number; // degrees
+  altitude: number; // meters
+  minElevation: number; // default minimum elevation in degrees for pass predictions
+  timezone: string | null; // IANA time zone, e.g. "Europe/Berlin"
+  horizonMask: HorizonPoint[] | null; // minimum elevation by azimuth, sorted by azimuth
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Interface for the profile file contents
+interface ObserverProfileFile {
+  version: 1;
+  profiles: Record<string, ObserverProfile>;
+}
+
+/**
+ * Profile names are matched case-insensitively
+ */
+function profileKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Persistent named observer profiles ("home", "rooftop-station", ...)
+ */
+export class ObserverProfileStore {
+  private filePath: string;
+  private profiles: Map<string, ObserverProfile> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = dataFilePath('observers.json')) {
+    this.filePath = filePath;
+  }
+
+  private async load(): Promise<Map<string, ObserverProfile>> {
+    if (!this.profiles) {
+      const file = await readJsonFile<ObserverProfileFile>(this.filePath, { version: 1, profiles: {} });
+      this.profiles = new Map(Object.values(file.profiles || {}).map(profile => [
+        profileKey(profile.name),
+        { ...profile, horizonMask: profile.horizonMask ?? null },
+      ]));
+    }
+    return this.profiles;
+  }
+
+  private persist(): Promise<void> {
+    const profiles = this.profiles || new Map();
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.filePath, {
+        version: 1,
+        profiles: Object.fromEntries([...profiles.values()].map(profile => [profile.name, profile])),
+      } satisfies ObserverProfileFile));
+    return this.writeQueue;
+  }
+
+  /**
+   * All profiles, sorted by name
+   */
+  async list(): Promise<ObserverProfile[]> {
+    return [...(await this.load()).values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get a profile by name
+   */
+  async get(name: string): Promise<ObserverProfile | undefined> {
+    return (await this.load()).get(profileKey(name));
+  }
+
+  /**
+   * Create or replace a profile, keeping its creation time when it already exists
+   */
+  async save(profile: Omit<ObserverProfile, 'createdAt' | 'updatedAt'>): Promise<ObserverProfile> {
+    const profiles = await this.load();
+    const existing = profiles.get(profileKey(profile.name));
+    const now = new Date().toISOString();
+    const saved: ObserverProfile = {
+      ...profile,
+      name: profile.name.trim(),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    profiles.set(profileKey(saved.name), saved);
+    await this.persist();
+    return saved;
+  }
+
+  /**
+   * Delete a profile, returning whether it existed
+   */
+  async delete(name: string): Promise<boolean> {
+    const profiles = await this.load();
+    if (!profiles.delete(profileKey(name))) {
+      return false;
+    }
+    await this.persist();
+    return true;
+  }
+}
+
+/**
+ * Read a horizon mask from a CSV or Stellarium horizon file
+ */
+export async function readHorizonFile(filePath: string): Promise<HorizonPoint[]> {
+  return parseHorizonMask(await fs.readFile(filePath, 'utf8'));
+}
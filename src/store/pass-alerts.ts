@@ -0,0 +1,176 @@
+import { randomUUID } from 'crypto';
+import { HorizonPoint } from '../orbit/horizon.js';
+import { dataFilePath, readJsonFile, writeJsonFile } from './json-file.js';
+
+export type PassAlertEvent = 'lead' | 'aos' | 'los';
+
+export const PASS_ALERT_EVENTS: PassAlertEvent[] = ['lead', 'aos', 'los'];
+
+// Delivered notifications are remembered this long after their pass, so a restart does not resend them
+const DELIVERED_RETENTION_MS = 2 * 86400000;
+
+// Interface for the observer an alert watches from, resolved when the alert is created
+export interface PassAlertObserver {
+  latitude: number; // degrees
+  longitude: number; // degrees
+  altitude: number; // meters
+  profile: string | null;
+  timezone: string | null;
+  horizonMask: HorizonPoint[] | null;
+}
+
+// Interface for a registered pass alert
+export interface PassAlert {
+  id: string;
+  noradId: number;
+  satelliteName: string;
+  label: string | null;
+  observer: PassAlertObserver;
+  minElevation: number; // degrees, AOS/LOS threshold
+  minMaxElevation: number; // degrees, passes culminating lower are ignored
+  leadMinutes: number;
+  events: PassAlertEvent[];
+  createdAt: string;
+  // Notifications already sent, by notification key and the pass's LOS (ISO timestamp)
+  delivered: Record<string, string>;
+}
+
+// Interface for the AOS and LOS of a pass (Unix seconds)
+export interface PassWindow {
+  startUTC: number;
+  endUTC: number;
+}
+
+// Keys written before passes were matched by their window: event and culmination rounded to ten minutes
+const LEGACY_KEY_TOLERANCE_SECONDS = 600;
+
+/**
+ * Key of a notification: its event and the predicted AOS and LOS of its pass
+ */
+export function notificationKey(event: PassAlertEvent, pass: PassWindow): string {
+  return `${event}:${pass.startUTC}-${pass.endUTC}`;
+}
+
+/**
+ * Whether `event` was already sent for `pass`. Predictions move as element
+ * sets are updated, so a delivered notification counts when the window of
+ * its pass overlaps this one: two different passes of a satellite over an
+ * observer never overlap.
+ */
+export function wasDelivered(alert: PassAlert, event: PassAlertEvent, pass: PassWindow): boolean {
+  return Object.keys(alert.delivered).some(key => {
+    const match = key.match(/^(\w+):(\d+)(?:-(\d+))?$/);
+    if (!match || match[1] !== event) {
+      return false;
+    }
+    if (match[3] === undefined) {
+      const culmination = Number(match[2]);
+      return culmination >= pass.startUTC - LEGACY_KEY_TOLERANCE_SECONDS && culmination <= pass.endUTC + LEGACY_KEY_TOLERANCE_SECONDS;
+    }
+    return Number(match[2]) < pass.endUTC && pass.startUTC < Number(match[3]);
+  });
+}
+
+// Settings of a new alert
+export type PassAlertInput = Omit<PassAlert, 'id' | 'createdAt' | 'delivered'>;
+
+// Interface for the alert file contents
+interface PassAlertFile {
+  version: 1;
+  alerts: PassAlert[];
+}
+
+/**
+ * Persistent pass alerts, including which notifications were already sent
+ */
+export class PassAlertStore {
+  private filePath: string;
+  private alerts: Map<string, PassAlert> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = dataFilePath('alerts.json')) {
+    this.filePath = filePath;
+  }
+
+  private async load(): Promise<Map<string, PassAlert>> {
+    if (!this.alerts) {
+      const file = await readJsonFile<PassAlertFile>(this.filePath, { version: 1, alerts: [] });
+      this.alerts = new Map((file.alerts || []).map(alert => [alert.id, { ...alert, delivered: alert.delivered || {} }]));
+    }
+    return this.alerts;
+  }
+
+  private persist(): Promise<void> {
+    const alerts = this.alerts || new Map();
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.filePath, {
+        version: 1,
+        alerts: [...alerts.values()],
+      } satisfies PassAlertFile));
+    return this.writeQueue;
+  }
+
+  /**
+   * All alerts, oldest first
+   */
+  async list(): Promise<PassAlert[]> {
+    return [...(await this.load()).values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Get an alert by ID
+   */
+  async get(id: string): Promise<PassAlert | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  /**
+   * Register a new alert
+   */
+  async create(input: PassAlertInput, createdAt: Date = new Date()): Promise<PassAlert> {
+    const alerts = await this.load();
+
+    let id = randomUUID().slice(0, 8);
+    while (alerts.has(id)) {
+      id = randomUUID().slice(0, 8);
+    }
+
+    const alert: PassAlert = { ...input, id, createdAt: createdAt.toISOString(), delivered: {} };
+    alerts.set(id, alert);
+    await this.persist();
+    return alert;
+  }
+
+  /**
+   * Cancel an alert. Returns false when it does not exist.
+   */
+  async cancel(id: string): Promise<boolean> {
+    const alerts = await this.load();
+    if (!alerts.delete(id)) {
+      return false;
+    }
+
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Remember that a notification was sent, forgetting the ones of passes
+   * that ended more than two days before `now`
+   */
+  async markDelivered(id: string, key: string, passEnd: Date, now: Date = new Date()): Promise<void> {
+    const alert = (await this.load()).get(id);
+    if (!alert) {
+      return;
+    }
+
+    alert.delivered[key] = passEnd.toISOString();
+    for (const [deliveredKey, end] of Object.entries(alert.delivered)) {
+      if (Date.parse(end) < now.getTime() - DELIVERED_RETENTION_MS) {
+        delete alert.delivered[deliveredKey];
+      }
+    }
+    await this.persist();
+  }
+}
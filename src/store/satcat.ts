@@ -0,0 +1,126 @@
+// Normalized SATCAT object types
+export type ObjectType = 'payload' | 'rocket_body' | 'debris' | 'unknown';
+
+// Radar cross-section size classes (small < 0.1 m², medium 0.1-1 m², large > 1 m²)
+export type RcsSize = 'SMALL' | 'MEDIUM' | 'LARGE';
+
+// Interface for the SATCAT metadata of one object
+export interface SatcatRecord {
+  objectType: ObjectType;
+  operationalStatus: string | null;
+  owner: string | null; // owner/country code, e.g. "US", "PRC", "ESA"
+  launchDate: string | null; // YYYY-MM-DD
+  launchSite: string | null; // launch site code, e.g. "AFETR", "TYMSC"
+  decayDate: string | null; // YYYY-MM-DD, null while in orbit
+  periodMinutes: number | null;
+  inclination: number | null; // degrees
+  apogeeKm: number | null;
+  perigeeKm: number | null;
+  rcsSquareMeters: number | null;
+  rcsSize: RcsSize | null;
+}
+
+// Column names accepted for each field (CelesTrak SATCAT and Space-Track spellings)
+const SATCAT_COLUMNS = {
+  objectType: ['OBJECT_TYPE'],
+  operationalStatus: ['OPS_STATUS_CODE', 'OPS_STATUS'],
+  owner: ['OWNER', 'COUNTRY'],
+  launchDate: ['LAUNCH_DATE', 'LAUNCH'],
+  launchSite: ['LAUNCH_SITE', 'SITE'],
+  decayDate: ['DECAY_DATE', 'DECAY'],
+  period: ['PERIOD'],
+  inclination: ['INCLINATION'],
+  apogee: ['APOGEE'],
+  perigee: ['PERIGEE'],
+  rcs: ['RCS', 'RCSVALUE'],
+  rcsSize: ['RCS_SIZE'],
+};
+
+const OBJECT_TYPES: Record<string, ObjectType> = {
+  'PAY': 'payload',
+  'PAYLOAD': 'payload',
+  'R/B': 'rocket_body',
+  'ROCKET BODY': 'rocket_body',
+  'DEB': 'debris',
+  'DEBRIS': 'debris',
+};
+
+// CelesTrak operational status codes
+const OPERATIONAL_STATUS: Record<string, string> = {
+  '+': 'operational',
+  '-': 'nonoperational',
+  'P': 'partially operational',
+  'B': 'backup',
+  'S': 'spare',
+  'X': 'extended mission',
+  'D': 'decayed',
+  '?': 'unknown',
+};
+
+function text(record: Record<string, unknown>, names: string[]): string | null {
+  for (const name of names) {
+    const value = record[name];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+  return null;
+}
+
+function number(record: Record<string, unknown>, names: string[]): number | null {
+  const value = text(record, names);
+  if (value === null) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function date(record: Record<string, unknown>, names: string[]): string | null {
+  const value = text(record, names);
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Size class of a radar cross-section
+ */
+export function rcsSizeOf(squareMeters: number): RcsSize {
+  if (squareMeters < 0.1) {
+    return 'SMALL';
+  }
+  return squareMeters <= 1 ? 'MEDIUM' : 'LARGE';
+}
+
+/**
+ * Read SATCAT metadata from a catalog record with upper-case keys,
+ * or null when the record carries none (e.g. a plain name list)
+ */
+export function parseSatcatRecord(record: Record<string, unknown>): SatcatRecord | null {
+  const columns = Object.values(SATCAT_COLUMNS).flat();
+  if (!columns.some(column => text(record, [column]) !== null)) {
+    return null;
+  }
+
+  const rawType = (text(record, SATCAT_COLUMNS.objectType) || '').toUpperCase();
+  const rawStatus = text(record, SATCAT_COLUMNS.operationalStatus);
+  const rcsSquareMeters = number(record, SATCAT_COLUMNS.rcs);
+  const rawSize = (text(record, SATCAT_COLUMNS.rcsSize) || '').toUpperCase();
+
+  return {
+    objectType: OBJECT_TYPES[rawType] || 'unknown',
+    operationalStatus: rawStatus !== null ? OPERATIONAL_STATUS[rawStatus] || rawStatus : null,
+    owner: text(record, SATCAT_COLUMNS.owner),
+    launchDate: date(record, SATCAT_COLUMNS.launchDate),
+    launchSite: text(record, SATCAT_COLUMNS.launchSite),
+    decayDate: date(record, SATCAT_COLUMNS.decayDate),
+    periodMinutes: number(record, SATCAT_COLUMNS.period),
+    inclination: number(record, SATCAT_COLUMNS.inclination),
+    apogeeKm: number(record, SATCAT_COLUMNS.apogee),
+    perigeeKm: number(record, SATCAT_COLUMNS.perigee),
+    rcsSquareMeters,
+    rcsSize: rawSize === 'SMALL' || rawSize === 'MEDIUM' || rawSize === 'LARGE'
+      ? rawSize
+      : rcsSquareMeters !== null ? rcsSizeOf(rcsSquareMeters) : null,
+  };
+}
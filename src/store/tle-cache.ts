@@ -0,0 +1,138 @@
+import { SatelliteTLE } from '../api-client.js';
+import { decodeTLE } from '../orbit/tle.js';
+import { BATCHED_WRITE_DELAY_MS, JsonFileWriter, dataFilePath, readRecoverableJsonFile } from './json-file.js';
+
+// Default maximum age of a cached element set's epoch before it is re-fetched
+const DEFAULT_MAX_EPOCH_AGE_HOURS = 24;
+
+// Default minimum time between two fetches of the same satellite, even when its epoch is old
+const DEFAULT_MIN_REFETCH_MINUTES = 60;
+
+// Interface for a cached element set
+export interface CachedTLE {
+  satid: number;
+  satname: string;
+  tle: string;
+  epoch: string; // ISO timestamp of the TLE epoch
+  fetchedAt: string; // ISO timestamp of the provider request
+  provider: string; // name of the provider the element set came from
+}
+
+// Interface for the cache file contents
+interface TLECacheFile {
+  version: 1;
+  entries: Record<string, CachedTLE>;
+}
+
+// Interface for cache options
+export interface TLECacheOptions {
+  filePath?: string;
+  maxEpochAgeHours?: number;
+  minRefetchMinutes?: number;
+}
+
+/**
+ * Disk-backed TLE store keyed by NORAD ID.
+ *
+ * An entry is served while its epoch is younger than `maxEpochAgeHours`.
+ * Satellites whose latest published epoch is already old (e.g. debris) are
+ * still only re-fetched once every `minRefetchMinutes`.
+ */
+export class TLECache {
+  private filePath: string;
+  private maxEpochAgeMs: number;
+  private minRefetchMs: number;
+  private entries: Map<number, CachedTLE> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(options: TLECacheOptions = {}) {
+    this.filePath = options.filePath || dataFilePath('tle-cache.json');
+    this.maxEpochAgeMs = (options.maxEpochAgeHours ?? DEFAULT_MAX_EPOCH_AGE_HOURS) * 3600000;
+    this.minRefetchMs = (options.minRefetchMinutes ?? DEFAULT_MIN_REFETCH_MINUTES) * 60000;
+    this.writer = new JsonFileWriter(this.filePath, () => ({
+      version: 1,
+      entries: Object.fromEntries([...(this.entries || new Map())].map(([id, entry]) => [String(id), entry])),
+    } satisfies TLECacheFile), BATCHED_WRITE_DELAY_MS);
+  }
+
+  /**
+   * Create a cache configured from TLE_CACHE_* environment variables
+   */
+  static fromEnvironment(): TLECache {
+    const maxEpochAgeHours = parseFloat(process.env.TLE_CACHE_MAX_EPOCH_AGE_HOURS || '');
+    const minRefetchMinutes = parseFloat(process.env.TLE_CACHE_MIN_REFETCH_MINUTES || '');
+
+    return new TLECache({
+      filePath: process.env.TLE_CACHE_FILE || undefined,
+      maxEpochAgeHours: Number.isFinite(maxEpochAgeHours) ? maxEpochAgeHours : undefined,
+      minRefetchMinutes: Number.isFinite(minRefetchMinutes) ? minRefetchMinutes : undefined,
+    });
+  }
+
+  private async load(): Promise<Map<number, CachedTLE>> {
+    if (!this.entries) {
+      const file = await readRecoverableJsonFile<TLECacheFile>(this.filePath, { version: 1, entries: {} });
+      // Entries written before providers were pluggable all came from N2YO
+      this.entries = new Map(Object.values(file.entries || {}).map(entry => [entry.satid, { ...entry, provider: entry.provider || 'n2yo' }]));
+    }
+    return this.entries;
+  }
+
+  /**
+   * Write pending changes to disk now, e.g. before the server exits
+   */
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  /**
+   * Get the cached element set for a satellite, fresh or not
+   */
+  async get(noradId: number): Promise<CachedTLE | undefined> {
+    return (await this.load()).get(noradId);
+  }
+
+  /**
+   * Whether a cached element set can be served without contacting a provider
+   */
+  isFresh(entry: CachedTLE, now: Date = new Date()): boolean {
+    const epochAge = now.getTime() - Date.parse(entry.epoch);
+    const fetchAge = now.getTime() - Date.parse(entry.fetchedAt);
+    return epochAge <= this.maxEpochAgeMs || fetchAge <= this.minRefetchMs;
+  }
+
+  /**
+   * Whether an element set with this epoch is recent enough to serve without
+   * asking the providers for a newer one
+   */
+  isFreshEpoch(epoch: string, now: Date = new Date()): boolean {
+    return now.getTime() - Date.parse(epoch) <= this.maxEpochAgeMs;
+  }
+
+  /**
+   * Whether a satellite last looked up at `lastFetch` may be fetched again
+   */
+  isRefetchDue(lastFetch: Date, now: Date = new Date()): boolean {
+    return now.getTime() - lastFetch.getTime() > this.minRefetchMs;
+  }
+
+  /**
+   * Store an element set returned by a provider. The cache file is
+   * rewritten in batches, without waiting for it.
+   */
+  async set(tleData: SatelliteTLE, provider: string, fetchedAt: Date = new Date()): Promise<CachedTLE> {
+    const entries = await this.load();
+    const entry: CachedTLE = {
+      satid: tleData.satid,
+      satname: tleData.satname,
+      tle: tleData.tle,
+      epoch: decodeTLE(tleData.tle).epoch.toISOString(),
+      fetchedAt: fetchedAt.toISOString(),
+      provider,
+    };
+
+    entries.set(entry.satid, entry);
+    this.writer.write().catch(error => console.error('Error writing TLE cache:', error));
+    return entry;
+  }
+}
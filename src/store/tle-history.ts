@@ -0,0 +1,153 @@
+import { decodeTLE, splitTLE } from '../orbit/tle.js';
+import { BATCHED_WRITE_DELAY_MS, JsonFileWriter, dataFilePath, readRecoverableJsonFile } from './json-file.js';
+
+// Interface for an element set kept in the history
+export interface HistoricalTLE {
+  satid: number;
+  satname: string;
+  tle: string; // line 1 and line 2 separated by \r\n, as returned by N2YO
+  epoch: string; // ISO timestamp of the TLE epoch
+  source: string; // provider the element set was fetched from, or "import"
+  firstSeenAt: string;
+}
+
+// Interface for an element set to add to the history
+export interface TLEObservation {
+  satid: number;
+  satname: string;
+  tle: string;
+}
+
+// Interface for history retention options; without them every element set is kept
+export interface TLEHistoryOptions {
+  retentionDays?: number; // span of epochs kept per satellite, counted back from its newest epoch
+  maxEntriesPerSatellite?: number; // newest first
+}
+
+// Interface for the history file contents
+interface TLEHistoryFile {
+  version: 1;
+  satellites: Record<string, HistoricalTLE[]>;
+}
+
+/**
+ * Persistent history of every distinct element set seen per NORAD ID,
+ * whether fetched from a provider or imported from a file. Nothing is
+ * dropped unless retention is configured: then element sets more than
+ * `retentionDays` older than a satellite's newest epoch, or beyond
+ * `maxEntriesPerSatellite`, are.
+ */
+export class TLEHistory {
+  private filePath: string;
+  private retentionMs: number;
+  private maxEntriesPerSatellite: number;
+  private satellites: Map<number, HistoricalTLE[]> | null = null;
+  private writer: JsonFileWriter;
+
+  constructor(filePath: string = dataFilePath('tle-history.json'), options: TLEHistoryOptions = {}) {
+    this.filePath = filePath;
+    this.retentionMs = (options.retentionDays ?? Infinity) * 86400000;
+    this.maxEntriesPerSatellite = options.maxEntriesPerSatellite ?? Infinity;
+    this.writer = new JsonFileWriter(this.filePath, () => ({
+      version: 1,
+      satellites: Object.fromEntries([...(this.satellites || new Map())].map(([id, entries]) => [String(id), entries])),
+    } satisfies TLEHistoryFile), BATCHED_WRITE_DELAY_MS);
+  }
+
+  /**
+   * Options from TLE_HISTORY_* environment variables
+   */
+  static environmentOptions(): TLEHistoryOptions {
+    const retentionDays = parseFloat(process.env.TLE_HISTORY_RETENTION_DAYS || '');
+    const maxEntries = parseInt(process.env.TLE_HISTORY_MAX_ENTRIES || '', 10);
+
+    return {
+      retentionDays: Number.isFinite(retentionDays) && retentionDays > 0 ? retentionDays : undefined,
+      maxEntriesPerSatellite: Number.isInteger(maxEntries) && maxEntries > 0 ? maxEntries : undefined,
+    };
+  }
+
+  private async load(): Promise<Map<number, HistoricalTLE[]>> {
+    if (!this.satellites) {
+      const file = await readRecoverableJsonFile<TLEHistoryFile>(this.filePath, { version: 1, satellites: {} });
+      this.satellites = new Map(Object.entries(file.satellites || {}).map(([id, entries]) => [parseInt(id, 10), entries]));
+    }
+    return this.satellites;
+  }
+
+  /**
+   * Write pending changes to disk now, e.g. before the server exits
+   */
+  flush(): Promise<void> {
+    return this.writer.flush();
+  }
+
+  /**
+   * Element sets of a satellite in epoch order
+   */
+  async get(noradId: number): Promise<HistoricalTLE[]> {
+    return [...((await this.load()).get(noradId) || [])];
+  }
+
+  /**
+   * Add element sets that are not in the history yet. Element sets that do
+   * not parse are ignored. Returns the number of element sets added; the
+   * history file is rewritten in batches, without waiting for it.
+   */
+  async record(observations: TLEObservation[], source: string, seenAt: Date = new Date()): Promise<number> {
+    const satellites = await this.load();
+    const changed = new Set<number>();
+    let added = 0;
+
+    for (const observation of observations) {
+      let entry: HistoricalTLE;
+      try {
+        const lines = splitTLE(observation.tle);
+        entry = {
+          satid: observation.satid,
+          satname: observation.satname,
+          tle: `${lines.line1}\r\n${lines.line2}`,
+          epoch: decodeTLE(lines).epoch.toISOString(),
+          source,
+          firstSeenAt: seenAt.toISOString(),
+        };
+      } catch (error) {
+        continue;
+      }
+
+      const entries = satellites.get(entry.satid) || [];
+      if (entries.some(existing => existing.tle === entry.tle)) {
+        continue;
+      }
+
+      entries.push(entry);
+      satellites.set(entry.satid, entries);
+      changed.add(entry.satid);
+      added++;
+    }
+
+    for (const satid of changed) {
+      satellites.set(satid, this.retained(satellites.get(satid) || []));
+    }
+
+    if (added > 0) {
+      this.writer.write().catch(error => console.error('Error writing TLE history:', error));
+    }
+    return added;
+  }
+
+  /**
+   * A satellite's element sets in epoch order, trimmed to the retention limits
+   */
+  private retained(entries: HistoricalTLE[]): HistoricalTLE[] {
+    const sorted = [...entries].sort((a, b) => Date.parse(a.epoch) - Date.parse(b.epoch));
+    if (sorted.length === 0) {
+      return sorted;
+    }
+
+    const oldest = Date.parse(sorted[sorted.length - 1].epoch) - this.retentionMs;
+    return sorted
+      .filter(entry => Date.parse(entry.epoch) >= oldest)
+      .slice(-this.maxEntriesPerSatellite);
+  }
+}
@@ -0,0 +1,260 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ElementParseError } from '../orbit/tle.js';
+import { dataFilePath, readRecoverableJsonFile, writeJsonFile } from './json-file.js';
+
+// Interface for a frequency range in Hz (low == high for a single channel)
+export interface FrequencyRange {
+  low: number;
+  high: number;
+}
+
+// Interface for one transmitter, transceiver or transponder of a satellite
+export interface Transmitter {
+  uuid: string;
+  noradId: number;
+  description: string;
+  type: string; // "Transmitter", "Transceiver" or "Transponder"
+  status: string; // "active", "inactive" or "invalid"
+  alive: boolean;
+  downlink: FrequencyRange | null;
+  uplink: FrequencyRange | null;
+  mode: string | null; // downlink mode, e.g. "FM", "BPSK", "CW"
+  uplinkMode: string | null;
+  invert: boolean; // inverting transponder
+  baud: number | null;
+  service: string | null; // e.g. "Amateur", "Meteorological"
+  updated: string | null;
+}
+
+// Interface for the outcome of a transmitter import
+export interface TransmitterImportReport {
+  files: string[];
+  added: number;
+  updated: number;
+  errors: (ElementParseError & { file: string })[];
+}
+
+// Interface for the registry file contents
+interface TransmitterFile {
+  version: 1;
+  transmitters: Record<string, Transmitter>;
+}
+
+// Amateur satellite service allocations (MHz)
+const AMATEUR_BANDS: { name: string; low: number; high: number }[] = [
+  { name: '15m', low: 21, high: 21.45 },
+  { name: '10m', low: 28, high: 29.7 },
+  { name: '6m', low: 50, high: 54 },
+  { name: '2m', low: 144, high: 148 },
+  { name: '1.25m', low: 222, high: 225 },
+  { name: '70cm', low: 420, high: 450 },
+  { name: '33cm', low: 902, high: 928 },
+  { name: '23cm', low: 1240, high: 1300 },
+  { name: '13cm', low: 2300, high: 2450 },
+  { name: '9cm', low: 3300, high: 3500 },
+  { name: '5cm', low: 5650, high: 5925 },
+  { name: '3cm', low: 10000, high: 10500 },
+  { name: '1.2cm', low: 24000, high: 24250 },
+];
+
+// Radio bands (upper edge in MHz): ITU names below 1 GHz, IEEE letters above
+const RADIO_BANDS: { name: string; high: number }[] = [
+  { name: 'HF', high: 30 },
+  { name: 'VHF', high: 300 },
+  { name: 'UHF', high: 1000 },
+  { name: 'L', high: 2000 },
+  { name: 'S', high: 4000 },
+  { name: 'C', high: 8000 },
+  { name: 'X', high: 12000 },
+  { name: 'Ku', high: 18000 },
+  { name: 'K', high: 27000 },
+  { name: 'Ka', high: 40000 },
+];
+
+/**
+ * Amateur band of a frequency in Hz (e.g. "2m", "70cm"), or null outside the amateur allocations
+ */
+export function amateurBand(frequency: number): string | null {
+  const mhz = frequency / 1e6;
+  return AMATEUR_BANDS.find(band => mhz >= band.low && mhz <= band.high)?.name ?? null;
+}
+
+/**
+ * Radio band of a frequency in Hz ("VHF", "UHF", "L", "S", "X", ...)
+ */
+export function radioBand(frequency: number): string {
+  const mhz = frequency / 1e6;
+  return RADIO_BANDS.find(band => mhz < band.high)?.name ?? 'EHF';
+}
+
+/**
+ * Whether a transmitter is reported as active and alive
+ */
+export function isActiveTransmitter(transmitter: Transmitter): boolean {
+  return transmitter.status === 'active' && transmitter.alive;
+}
+
+function optionalNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function optionalText(value: unknown): string | null {
+  return value === undefined || value === null || String(value).trim() === '' ? null : String(value).trim();
+}
+
+function frequencyRange(low: unknown, high: unknown): FrequencyRange | null {
+  const lowHz = optionalNumber(low);
+  const highHz = optionalNumber(high);
+  if (lowHz === null && highHz === null) {
+    return null;
+  }
+  const values = [lowHz ?? highHz!, highHz ?? lowHz!];
+  return { low: Math.min(...values), high: Math.max(...values) };
+}
+
+/**
+ * Convert a SatNOGS DB transmitter record to a transmitter
+ */
+function toTransmitter(record: Record<string, unknown>): Transmitter | string {
+  const noradId = Number(record.norad_cat_id ?? record.norad_id);
+  if (!Number.isInteger(noradId) || noradId <= 0) {
+    return 'Missing or invalid NORAD ID (norad_cat_id).';
+  }
+
+  const downlink = frequencyRange(record.downlink_low, record.downlink_high);
+  const uplink = frequencyRange(record.uplink_low, record.uplink_high);
+  if (!downlink && !uplink) {
+    return `Transmitter of satellite ${noradId} has no uplink or downlink frequency.`;
+  }
+
+  const description = optionalText(record.description) || 'Transmitter';
+  const status = (optionalText(record.status) || 'active').toLowerCase();
+
+  return {
+    uuid: optionalText(record.uuid) || `${noradId}:${description}:${downlink?.low ?? uplink?.low}`,
+    noradId,
+    description,
+    type: optionalText(record.type) || 'Transmitter',
+    status,
+    alive: record.alive === undefined ? true : record.alive === true || record.alive === 'true',
+    downlink,
+    uplink,
+    mode: optionalText(record.mode),
+    uplinkMode: optionalText(record.uplink_mode),
+    invert: record.invert === true || record.invert === 'true',
+    baud: optionalNumber(record.baud),
+    service: optionalText(record.service),
+    updated: optionalText(record.updated),
+  };
+}
+
+/**
+ * Persistent registry of satellite transmitters, imported from SatNOGS DB
+ * style JSON dumps (an array of transmitter objects with frequencies in Hz).
+ */
+export class TransmitterRegistry {
+  private filePath: string;
+  private transmitters: Map<string, Transmitter> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = dataFilePath('transmitters.json')) {
+    this.filePath = filePath;
+  }
+
+  private async load(): Promise<Map<string, Transmitter>> {
+    if (!this.transmitters) {
+      const file = await readRecoverableJsonFile<TransmitterFile>(this.filePath, { version: 1, transmitters: {} });
+      this.transmitters = new Map(Object.entries(file.transmitters || {}));
+    }
+    return this.transmitters;
+  }
+
+  private persist(): Promise<void> {
+    const transmitters = this.transmitters || new Map();
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => writeJsonFile(this.filePath, {
+        version: 1,
+        transmitters: Object.fromEntries(transmitters),
+      } satisfies TransmitterFile));
+    return this.writeQueue;
+  }
+
+  /**
+   * Import a transmitter dump, or every .json file in a directory (non-recursive).
+   * Transmitters are matched by UUID, so re-importing a newer dump updates them.
+   */
+  async importPath(targetPath: string): Promise<TransmitterImportReport> {
+    const resolved = path.resolve(targetPath);
+    const stat = await fs.stat(resolved);
+    const files = stat.isDirectory()
+      ? (await fs.readdir(resolved, { withFileTypes: true }))
+        .filter(entry => entry.isFile() && /\.json$/i.test(entry.name))
+        .map(entry => path.join(resolved, entry.name))
+        .sort()
+      : [resolved];
+
+    const report: TransmitterImportReport = { files, added: 0, updated: 0, errors: [] };
+    const transmitters = await this.load();
+
+    for (const file of files) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (error) {
+        report.errors.push({ file, line: null, message: `Invalid JSON: ${(error as Error).message}` });
+        continue;
+      }
+
+      (Array.isArray(parsed) ? parsed : [parsed]).forEach((item, index) => {
+        const transmitter = item && typeof item === 'object'
+          ? toTransmitter(item as Record<string, unknown>)
+          : 'Not an object.';
+        if (typeof transmitter === 'string') {
+          report.errors.push({ file, line: null, message: `Record ${index + 1}: ${transmitter}` });
+          return;
+        }
+
+        const existing = transmitters.get(transmitter.uuid);
+        if (!existing) {
+          report.added += 1;
+        } else if (JSON.stringify(existing) !== JSON.stringify(transmitter)) {
+          report.updated += 1;
+        } else {
+          return;
+        }
+        transmitters.set(transmitter.uuid, transmitter);
+      });
+    }
+
+    if (report.added > 0 || report.updated > 0) {
+      await this.persist();
+    }
+    return report;
+  }
+
+  /**
+   * Get the transmitters of a satellite, downlinks in ascending frequency order
+   */
+  async get(noradId: number): Promise<Transmitter[]> {
+    const transmitters = await this.load();
+    return [...transmitters.values()]
+      .filter(transmitter => transmitter.noradId === noradId)
+      .sort((a, b) =>
+        (a.downlink?.low ?? a.uplink?.low ?? 0) - (b.downlink?.low ?? b.uplink?.low ?? 0) ||
+        a.description.localeCompare(b.description)
+      );
+  }
+
+  /**
+   * Number of transmitters in the registry
+   */
+  async size(): Promise<number> {
+    return (await this.load()).size;
+  }
+}
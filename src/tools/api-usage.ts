@@ -0,0 +1,54 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ENDPOINTS } from '../api-client.js';
+import { QuotaManager } from '../providers/n2yo-quota.js';
+
+export const getApiUsageToolSchema = {
+  name: 'get_api_usage',
+  description: 'Get the remaining N2YO API budget per endpoint, the transaction counts last reported by N2YO and when each hourly budget resets',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+export async function getApiUsageTool(
+  quota: QuotaManager,
+  args: Record<string, never> = {}
+) {
+  try {
+    const endpoints = quota.usage().map(usage => ({
+      endpoint: ENDPOINTS[usage.endpoint],
+      hourly_limit: usage.hourlyLimit,
+      remaining: usage.remaining,
+      queued: usage.queued,
+      transactions_last_hour: usage.reportedTransactions,
+      reported_at: usage.reportedAt,
+      requests_sent: usage.sent,
+      requests_rejected: usage.rejected,
+      next_request_at: usage.nextRequestAt,
+      resets_at: usage.fullBudgetAt,
+    }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            endpoints,
+            timestamp: new Date().toISOString(),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error retrieving API usage: ${(error as Error).message}`
+    );
+  }
+}
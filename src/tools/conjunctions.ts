@@ -0,0 +1,277 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SatelliteTLE } from '../api-client.js';
+import { CelesTrakProvider } from '../providers/celestrak.js';
+import { ProviderChain } from '../providers/chain.js';
+import { Conjunction, altitudeShell, findConjunctions, sampleStates, shellsOverlap } from '../orbit/conjunction.js';
+import { LocalSatellite, loadSatellite } from '../orbit/propagator.js';
+
+// Limits on the size of a screening request
+export const MAX_CONJUNCTION_DAYS = 7;
+export const MAX_CONJUNCTION_SECONDARIES = 250;
+export const MAX_CONJUNCTION_THRESHOLD_KM = 1000;
+export const MAX_CONJUNCTION_STEP_SECONDS = 300;
+export const MAX_CONJUNCTION_STATES = 3000000; // primary samples × secondaries
+
+export const screenConjunctionsToolSchema = {
+  name: 'screen_conjunctions',
+  description: `Screen a primary satellite for close approaches with a list of secondary satellites, or with every member of a CelesTrak group (e.g. "starlink"), over a time window by propagating their TLEs locally. The window divided by step_seconds, times the number of secondaries (for a group: the members whose altitudes can come near the primary), may not exceed ${MAX_CONJUNCTION_STATES}. Reports the time of closest approach, miss distance, relative velocity and radial/in-track/cross-track miss components of every approach under the threshold. TLE-derived states are only accurate to about a kilometre, so this is a first-pass screen, not a collision probability assessment.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      primary_id: {
+        type: 'number',
+        description: 'NORAD ID of the primary satellite',
+      },
+      secondary_ids: {
+        type: 'array',
+        items: { type: 'number' },
+        description: `NORAD IDs of the secondary satellites (at most ${MAX_CONJUNCTION_SECONDARIES}); cannot be combined with group`,
+        minItems: 1,
+        maxItems: MAX_CONJUNCTION_SECONDARIES,
+      },
+      group: {
+        type: 'string',
+        description: 'Screen against every member of a CelesTrak GP group instead of secondary_ids (e.g. "starlink", "oneweb", "gps-ops", "stations"); all element sets come from one CelesTrak request',
+      },
+      threshold_km: {
+        type: 'number',
+        description: `Report approaches closer than this miss distance in km (default: 10, at most ${MAX_CONJUNCTION_THRESHOLD_KM})`,
+        exclusiveMinimum: 0,
+        maximum: MAX_CONJUNCTION_THRESHOLD_KM,
+      },
+      start_time: {
+        type: 'number',
+        description: 'Start of the screening window as a Unix timestamp in seconds (defaults to now)',
+      },
+      end_time: {
+        type: 'number',
+        description: `End of the screening window as a Unix timestamp in seconds (defaults to 1 day after start_time, at most ${MAX_CONJUNCTION_DAYS} days later)`,
+      },
+      step_seconds: {
+        type: 'number',
+        description: `Coarse sampling step in seconds before refining each approach (default: 60, at most ${MAX_CONJUNCTION_STEP_SECONDS})`,
+        minimum: 1,
+        maximum: MAX_CONJUNCTION_STEP_SECONDS,
+      },
+    },
+    required: ['primary_id'],
+  },
+};
+
+export async function screenConjunctionsTool(
+  providers: ProviderChain,
+  celestrak: CelesTrakProvider,
+  args: {
+    primary_id: number;
+    secondary_ids?: number[];
+    group?: string;
+    threshold_km?: number;
+    start_time?: number;
+    end_time?: number;
+    step_seconds?: number;
+  }
+) {
+  try {
+    const { primary_id, secondary_ids, group, threshold_km, start_time, end_time, step_seconds } = args;
+
+    // Validate primary NORAD ID
+    if (!Number.isInteger(primary_id) || primary_id <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid primary_id. Must be a positive integer.'
+      );
+    }
+
+    // Validate secondaries
+    if ((secondary_ids === undefined) === (group === undefined)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Provide either secondary_ids or group.'
+      );
+    }
+
+    if (secondary_ids !== undefined && (
+      !Array.isArray(secondary_ids) ||
+      secondary_ids.length === 0 ||
+      secondary_ids.length > MAX_CONJUNCTION_SECONDARIES
+    )) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid secondary_ids. Must be a list of 1 to ${MAX_CONJUNCTION_SECONDARIES} NORAD IDs.`
+      );
+    }
+
+    if (secondary_ids?.some(id => !Number.isInteger(id) || id <= 0)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    if (group !== undefined && (typeof group !== 'string' || !/^[a-z0-9-]+$/i.test(group))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid group. Must be a CelesTrak group name such as "starlink".'
+      );
+    }
+
+    // Validate threshold_km
+    if (threshold_km !== undefined && (!Number.isFinite(threshold_km) || threshold_km <= 0 || threshold_km > MAX_CONJUNCTION_THRESHOLD_KM)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid threshold_km. Must be greater than 0 and at most ${MAX_CONJUNCTION_THRESHOLD_KM}.`
+      );
+    }
+
+    // Validate start_time and end_time
+    if (start_time !== undefined && !Number.isFinite(start_time)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid start_time. Must be a Unix timestamp in seconds.'
+      );
+    }
+
+    const start = start_time !== undefined ? new Date(start_time * 1000) : new Date();
+    if (end_time !== undefined && (
+      !Number.isFinite(end_time) ||
+      end_time * 1000 <= start.getTime() ||
+      end_time * 1000 - start.getTime() > MAX_CONJUNCTION_DAYS * 86400000
+    )) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid end_time. Must be after start_time and at most ${MAX_CONJUNCTION_DAYS} days later.`
+      );
+    }
+
+    // Validate step_seconds
+    if (step_seconds !== undefined && (!Number.isFinite(step_seconds) || step_seconds < 1 || step_seconds > MAX_CONJUNCTION_STEP_SECONDS)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid step_seconds. Must be between 1 and ${MAX_CONJUNCTION_STEP_SECONDS}.`
+      );
+    }
+
+    const end = end_time !== undefined ? new Date(end_time * 1000) : new Date(start.getTime() + 86400000);
+    const thresholdKm = threshold_km ?? 10;
+    const stepSeconds = step_seconds ?? 60;
+
+    // Limit the total work: every secondary is compared with every primary sample
+    const sampleCount = Math.ceil((end.getTime() - start.getTime()) / (stepSeconds * 1000)) + 1;
+    const checkBudget = (secondaryCount: number) => {
+      if (sampleCount * secondaryCount > MAX_CONJUNCTION_STATES) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Too much work requested. ((end_time - start_time) / step_seconds + 1) × number of secondaries must not exceed ${MAX_CONJUNCTION_STATES} (requested ${sampleCount} × ${secondaryCount}); shorten the window, increase step_seconds or screen fewer secondaries.`
+        );
+      }
+    };
+
+    // Where each secondary's TLE comes from, leaving out the primary itself
+    let sources: { noradId: number; tle: () => Promise<SatelliteTLE> }[];
+    let groupInfo: { name: string; member_count: number } | null = null;
+    if (group !== undefined) {
+      const members = (await celestrak.getGroup(group)).filter(member => member.satid !== primary_id);
+      if (members.length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown or empty CelesTrak group: ${group}.`
+        );
+      }
+      groupInfo = { name: group, member_count: members.length };
+      sources = members.map(member => ({ noradId: member.satid, tle: async () => member }));
+    } else {
+      const ids = [...new Set(secondary_ids)].filter(id => id !== primary_id);
+      checkBudget(ids.length);
+      sources = ids.map(noradId => ({ noradId, tle: async () => (await providers.getTLE(noradId)).data }));
+    }
+
+    const primaryTle = await providers.getTLE(primary_id);
+    const primary = loadSatellite(primaryTle.data);
+    const primaryShell = altitudeShell(primary);
+
+    // Load every secondary; one missing TLE or decayed orbit should not sink the whole screen
+    const secondaries: { noradId: number; satellite: LocalSatellite }[] = [];
+    const errors: { norad_id: number; error: string }[] = [];
+    let filteredCount = 0;
+    for (const { noradId, tle } of sources) {
+      try {
+        const secondary = loadSatellite(await tle());
+        if (shellsOverlap(primaryShell, altitudeShell(secondary), thresholdKm)) {
+          secondaries.push({ noradId, satellite: secondary });
+        } else {
+          filteredCount++;
+        }
+      } catch (error) {
+        console.error(`Error loading ${noradId} to screen against ${primary_id}:`, error);
+        errors.push({ norad_id: noradId, error: (error as Error).message });
+      }
+    }
+    checkBudget(secondaries.length);
+
+    const primarySamples = sampleStates(primary, start, end, stepSeconds);
+    const conjunctions: (Conjunction & { noradId: number; name: string })[] = [];
+    for (const { noradId, satellite } of secondaries) {
+      try {
+        for (const conjunction of findConjunctions(primary, primarySamples, satellite, thresholdKm)) {
+          conjunctions.push({ ...conjunction, noradId, name: satellite.name });
+        }
+      } catch (error) {
+        console.error(`Error screening ${noradId} against ${primary_id}:`, error);
+        errors.push({ norad_id: noradId, error: (error as Error).message });
+      }
+    }
+
+    conjunctions.sort((a, b) => a.missDistance - b.missDistance);
+    const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            primary: {
+              norad_id: primary_id,
+              name: primary.name,
+              provider: primaryTle.provider,
+              perigee_km: round(primaryShell.perigee, 1),
+              apogee_km: round(primaryShell.apogee, 1),
+            },
+            window: {
+              start: start.toISOString(),
+              end: end.toISOString(),
+            },
+            threshold_km: thresholdKm,
+            step_seconds: stepSeconds,
+            ...(groupInfo && { group: groupInfo }),
+            secondaries: {
+              screened_count: sources.length - filteredCount - errors.length,
+              filtered_by_altitude_count: filteredCount,
+              failed_count: errors.length,
+            },
+            conjunction_count: conjunctions.length,
+            conjunctions: conjunctions.map(conjunction => ({
+              norad_id: conjunction.noradId,
+              satellite_name: conjunction.name,
+              tca: new Date(Math.round(conjunction.tca)).toISOString(),
+              miss_distance_km: round(conjunction.missDistance, 3),
+              relative_velocity_km_s: round(conjunction.relativeSpeed, 4),
+              radial_km: round(conjunction.radial, 3),
+              in_track_km: round(conjunction.inTrack, 3),
+              cross_track_km: round(conjunction.crossTrack, 3),
+            })),
+            ...(errors.length > 0 && { errors }),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error screening conjunctions: ${(error as Error).message}`
+    );
+  }
+}
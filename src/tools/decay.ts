@@ -0,0 +1,226 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ProviderChain } from '../providers/chain.js';
+import {
+  MAX_LIFETIME_DAYS,
+  REENTRY_ALTITUDE_KM,
+  REFERENCE_SOLAR_FLUX,
+  ballisticCoefficientFromBstar,
+  ballisticCoefficientFromDecayRate,
+  decayRate,
+  meanMotionDecayRate,
+  observedDecayRate,
+  orbitalLifetimeDays,
+} from '../orbit/decay.js';
+import { detectManeuvers } from '../orbit/maneuvers.js';
+import { decodeTLE, orbitGeometry } from '../orbit/tle.js';
+import { TLEHistory } from '../store/tle-history.js';
+
+// Element sets older than this before the latest epoch are not used for the observed decay rate
+export const DECAY_HISTORY_DAYS = 30;
+// Lifetime predictions are customarily quoted with at least this relative uncertainty
+const MIN_UNCERTAINTY = 0.2;
+
+type DecayMethod = 'history' | 'mean_motion_derivative' | 'bstar';
+
+export const estimateDecayToolSchema = {
+  name: 'estimate_decay',
+  description: 'Estimate the remaining orbital lifetime and a reentry window of a low satellite or debris object from element sets the server already has (cached or imported TLEs and the TLE history), without contacting a provider when a cached element set exists. Three estimates are made, from the decay observed over successive historical element sets, the mean motion derivative and B*, and integrated through an exponential atmosphere scaled by solar flux. The assumptions used are listed in the response; this is a rough estimate, not an official reentry prediction.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      norad_id: {
+        type: 'number',
+        description: 'NORAD ID of the satellite',
+      },
+      solar_flux: {
+        type: 'number',
+        description: `Mean F10.7 solar flux (solar flux units) over the remaining lifetime (default: ${REFERENCE_SOLAR_FLUX}, moderate activity; about 70 at solar minimum, 200-250 at maximum)`,
+        minimum: 50,
+        maximum: 350,
+      },
+    },
+    required: ['norad_id'],
+  },
+};
+
+export async function estimateDecayTool(
+  providers: ProviderChain,
+  history: TLEHistory,
+  args: { norad_id: number; solar_flux?: number }
+) {
+  try {
+    const { norad_id, solar_flux } = args;
+
+    // Validate NORAD ID
+    if (!Number.isInteger(norad_id) || norad_id <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    // Validate solar_flux
+    if (solar_flux !== undefined && (!Number.isFinite(solar_flux) || solar_flux < 50 || solar_flux > 350)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid solar_flux. Must be between 50 and 350 solar flux units.'
+      );
+    }
+
+    const solarFlux = solar_flux ?? REFERENCE_SOLAR_FLUX;
+    const recorded = await history.get(norad_id);
+
+    // Use the newest element set known, falling back to the history when no provider can be reached
+    const tle = await providers.getTLE(norad_id).catch(error => {
+      console.error(`Error fetching TLE of ${norad_id} for decay estimation:`, error);
+      return null;
+    });
+    const candidates = [
+      ...(tle?.data.tle ? [{ source: tle.provider, name: tle.data.satname, elements: decodeTLE(tle.data.tle) }] : []),
+      ...recorded.slice(-1).map(entry => ({ source: `history (${entry.source})`, name: entry.satname, elements: decodeTLE(entry.tle) })),
+    ];
+    if (candidates.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `No element set available for satellite with NORAD ID: ${norad_id}`
+      );
+    }
+    const latest = candidates.reduce((newest, candidate) =>
+      candidate.elements.epoch.getTime() > newest.elements.epoch.getTime() ? candidate : newest
+    );
+    const { elements } = latest;
+    const orbit = orbitGeometry(elements);
+    const epochMs = elements.epoch.getTime();
+
+    // Element sets of the last DECAY_HISTORY_DAYS, after the latest orbit raise
+    let recent = recorded
+      .map(entry => decodeTLE(entry.tle))
+      .filter(set => set.epoch.getTime() <= epochMs && set.epoch.getTime() >= epochMs - DECAY_HISTORY_DAYS * 86400000);
+    const raises = detectManeuvers(recent).filter(maneuver => maneuver.types.includes('orbit_raise'));
+    if (raises.length > 0) {
+      recent = recent.slice(raises[raises.length - 1].index);
+    }
+    const historySpanDays = recent.length > 1
+      ? (recent[recent.length - 1].epoch.getTime() - recent[0].epoch.getTime()) / 86400000
+      : 0;
+
+    // Ballistic coefficient from each source of decay information
+    const observedRate = historySpanDays >= 1 ? observedDecayRate(recent) : null;
+    const derivativeRate = meanMotionDecayRate(elements);
+    const methods: { method: DecayMethod; rate: number | null; ballistic: number | null; reason?: string }[] = [
+      observedRate === null
+        ? { method: 'history', rate: null, ballistic: null, reason: `Needs at least 2 recorded element sets spanning a day or more within ${DECAY_HISTORY_DAYS} days of the latest epoch (found ${recent.length}).` }
+        : observedRate >= 0
+          ? { method: 'history', rate: observedRate, ballistic: null, reason: 'The recorded element sets show no decay.' }
+          : { method: 'history', rate: observedRate, ballistic: ballisticCoefficientFromDecayRate(orbit.semiMajorAxis, observedRate, solarFlux) },
+      derivativeRate >= 0
+        ? { method: 'mean_motion_derivative', rate: derivativeRate, ballistic: null, reason: 'The first derivative of mean motion shows no decay.' }
+        : { method: 'mean_motion_derivative', rate: derivativeRate, ballistic: ballisticCoefficientFromDecayRate(orbit.semiMajorAxis, derivativeRate, solarFlux) },
+      elements.bstar <= 0
+        ? { method: 'bstar', rate: null, ballistic: null, reason: 'B* is zero or negative.' }
+        : {
+          method: 'bstar',
+          rate: decayRate(orbit.semiMajorAxis, ballisticCoefficientFromBstar(elements.bstar), solarFlux),
+          ballistic: ballisticCoefficientFromBstar(elements.bstar),
+        },
+    ];
+
+    const estimates = methods.map(method => {
+      if (method.ballistic === null) {
+        return { ...method, lifetimeDays: null };
+      }
+      return { ...method, lifetimeDays: orbit.perigee <= REENTRY_ALTITUDE_KM ? 0 : orbitalLifetimeDays(orbit.semiMajorAxis, method.ballistic, solarFlux) };
+    });
+
+    // Prefer the observed decay, then the mean motion derivative, then B*
+    const usable = estimates.filter(estimate => estimate.ballistic !== null);
+    const nominal = usable[0] || null;
+    const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+    const reentryDate = (days: number) => new Date(epochMs + days * 86400000).toISOString();
+
+    let lifetime: object;
+    if (!nominal) {
+      lifetime = { message: 'No decay information: the element set has no positive B* or decaying mean motion and no decay shows in the recorded history.' };
+    } else if (nominal.lifetimeDays === null) {
+      lifetime = { message: `No reentry expected within ${Math.round(MAX_LIFETIME_DAYS / 365.25)} years.`, nominal_method: nominal.method };
+    } else {
+      // Window over the finite estimates, widened to the customary minimum uncertainty
+      const finite = usable.map(estimate => estimate.lifetimeDays).filter((days): days is number => days !== null);
+      const earliest = Math.min(...finite, nominal.lifetimeDays * (1 - MIN_UNCERTAINTY));
+      const latestDays = usable.some(estimate => estimate.lifetimeDays === null)
+        ? null
+        : Math.max(...finite, nominal.lifetimeDays * (1 + MIN_UNCERTAINTY));
+
+      lifetime = {
+        nominal_method: nominal.method,
+        lifetime_days: round(nominal.lifetimeDays, 1),
+        lifetime_days_from_now: round(nominal.lifetimeDays - (Date.now() - epochMs) / 86400000, 1),
+        reentry: reentryDate(nominal.lifetimeDays),
+        window: {
+          earliest: reentryDate(earliest),
+          latest: latestDays === null ? null : reentryDate(latestDays),
+        },
+        uncertainty_days: {
+          minus: round(nominal.lifetimeDays - earliest, 1),
+          plus: latestDays === null ? null : round(latestDays - nominal.lifetimeDays, 1),
+        },
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            satellite_id: norad_id,
+            satellite_name: latest.name,
+            element_set: {
+              source: latest.source,
+              epoch: elements.epoch.toISOString(),
+              epoch_age_days: round((Date.now() - epochMs) / 86400000, 2),
+              bstar: elements.bstar,
+              mean_motion_dot: elements.meanMotionDot,
+            },
+            orbit: {
+              semi_major_axis_km: round(orbit.semiMajorAxis, 1),
+              apogee_km: round(orbit.apogee, 1),
+              perigee_km: round(orbit.perigee, 1),
+              eccentricity: elements.eccentricity,
+            },
+            history: {
+              element_sets_used: recent.length,
+              span_days: round(historySpanDays, 2),
+              ...(raises.length > 0 && { after_orbit_raise: raises[raises.length - 1].epoch.toISOString() }),
+            },
+            lifetime,
+            estimates: estimates.map(estimate => ({
+              method: estimate.method,
+              decay_rate_km_per_day: estimate.rate === null ? null : round(estimate.rate, 4),
+              ballistic_coefficient_m2_per_kg: estimate.ballistic === null ? null : round(estimate.ballistic, 6),
+              lifetime_days: estimate.lifetimeDays === null ? null : round(estimate.lifetimeDays, 1),
+              reentry: estimate.lifetimeDays === null ? null : reentryDate(estimate.lifetimeDays),
+              ...(estimate.reason && { reason: estimate.reason }),
+            })),
+            assumptions: {
+              atmosphere: 'Piecewise exponential density model (CIRA-72 / US Standard Atmosphere 1976 as tabulated by Vallado), static in time',
+              solar_flux: `F10.7 = ${solarFlux} sfu${solar_flux === undefined ? ' (default, moderate solar activity)' : ''} held constant; density above 120 km scaled by exp((F10.7 - ${REFERENCE_SOLAR_FLUX}) / 80)`,
+              orbit: `Circular orbit decaying at its mean altitude${elements.eccentricity > 0.01 ? '; this orbit is eccentric, so drag concentrated at perigee makes the estimate less reliable' : ''}`,
+              ballistic_coefficient: 'Constant; for the history and mean motion derivative estimates it is calibrated so the model reproduces the observed decay rate, for the B* estimate Cd·A/m = 12.741621 × B*',
+              reentry_altitude_km: REENTRY_ALTITUDE_KM,
+              uncertainty: `Window spans all estimates and at least ±${MIN_UNCERTAINTY * 100}% of the nominal lifetime`,
+            },
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error estimating orbital decay: ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,315 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ProviderChain } from '../providers/chain.js';
+import { azimuthToCompass } from '../orbit/coordinates.js';
+import { DopplerSample, TransponderMode, computeDopplerTable } from '../orbit/doppler.js';
+import { findPasses } from '../orbit/passes.js';
+import { loadSatellite } from '../orbit/propagator.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { formatLocalTime, formatObserver, resolveObserver } from './tool-utils.js';
+
+// Limits on the size of a Doppler table
+export const DEFAULT_DOPPLER_STEP_SECONDS = 10;
+export const MAX_DOPPLER_SAMPLES = 2000;
+
+// How far ahead to look for the next pass when no window is given
+const NEXT_PASS_SEARCH_DAYS = 7;
+
+export const computeDopplerToolSchema = {
+  name: 'compute_doppler',
+  description: 'Compute a Doppler tuning table for a satellite pass: range, range rate and the Doppler-corrected uplink (transmit) and downlink (receive) frequencies at a fixed step. Uses the next pass over the observer unless a start/end window is given. For linear transponders, also shows where your own signal returns when the uplink is left uncorrected (inverting or non-inverting).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      norad_id: {
+        type: 'number',
+        description: 'NORAD ID of the satellite',
+      },
+      observer: {
+        type: 'string',
+        description: 'Name of a saved observer profile; replaces observer_lat/observer_lng/observer_alt, which override the profile when also given',
+      },
+      observer_lat: {
+        type: 'number',
+        description: 'Observer latitude (-90 to 90)',
+        minimum: -90,
+        maximum: 90,
+      },
+      observer_lng: {
+        type: 'number',
+        description: 'Observer longitude (-180 to 180)',
+        minimum: -180,
+        maximum: 180,
+      },
+      observer_alt: {
+        type: 'number',
+        description: 'Observer altitude in meters (optional)',
+        minimum: 0,
+      },
+      downlink_mhz: {
+        type: 'number',
+        description: 'Nominal downlink frequency at the satellite in MHz (e.g. 145.8)',
+        exclusiveMinimum: 0,
+      },
+      uplink_mhz: {
+        type: 'number',
+        description: 'Nominal uplink frequency at the satellite in MHz (e.g. 437.8)',
+        exclusiveMinimum: 0,
+      },
+      transponder: {
+        type: 'string',
+        enum: ['none', 'inverting', 'non_inverting'],
+        description: 'Transponder type linking the uplink and downlink: "none" (default) for independent channels, "inverting" or "non_inverting" for linear transponders (needs both frequencies)',
+      },
+      start_time: {
+        type: 'number',
+        description: 'Start of the window as a Unix timestamp in seconds. Without end_time, the table covers the next pass after this time (defaults to now)',
+      },
+      end_time: {
+        type: 'number',
+        description: 'End of the window as a Unix timestamp in seconds (requires start_time)',
+      },
+      min_elevation: {
+        type: 'number',
+        description: 'Minimum elevation in degrees used to find the next pass (0-90, defaults to the observer profile\'s, or 0)',
+        minimum: 0,
+        maximum: 90,
+      },
+      step_seconds: {
+        type: 'number',
+        description: `Time between table rows in seconds (default: ${DEFAULT_DOPPLER_STEP_SECONDS}, at most ${MAX_DOPPLER_SAMPLES} rows)`,
+        exclusiveMinimum: 0,
+      },
+    },
+    required: ['norad_id'],
+  },
+};
+
+export async function computeDopplerTool(
+  providers: ProviderChain,
+  profiles: ObserverProfileStore,
+  args: {
+    norad_id: number;
+    observer?: string;
+    observer_lat?: number;
+    observer_lng?: number;
+    observer_alt?: number;
+    downlink_mhz?: number;
+    uplink_mhz?: number;
+    transponder?: TransponderMode;
+    start_time?: number;
+    end_time?: number;
+    min_elevation?: number;
+    step_seconds?: number;
+  }
+) {
+  try {
+    const { norad_id, downlink_mhz, uplink_mhz, start_time, end_time, min_elevation } = args;
+    const transponder = args.transponder || 'none';
+    const stepSeconds = args.step_seconds ?? DEFAULT_DOPPLER_STEP_SECONDS;
+
+    // Validate NORAD ID
+    if (!Number.isInteger(norad_id) || norad_id <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    // Resolve the observer from a profile and/or coordinates
+    const observer = await resolveObserver(profiles, args);
+
+    // Validate frequencies
+    if (downlink_mhz === undefined && uplink_mhz === undefined) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Provide downlink_mhz, uplink_mhz or both.'
+      );
+    }
+
+    for (const [name, value] of [['downlink_mhz', downlink_mhz], ['uplink_mhz', uplink_mhz]] as const) {
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid ${name}. Must be a positive frequency in MHz.`
+        );
+      }
+    }
+
+    // Validate transponder
+    if (transponder !== 'none' && transponder !== 'inverting' && transponder !== 'non_inverting') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid transponder. Must be "none", "inverting" or "non_inverting".'
+      );
+    }
+
+    if (transponder !== 'none' && (downlink_mhz === undefined || uplink_mhz === undefined)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'A linear transponder needs both uplink_mhz and downlink_mhz.'
+      );
+    }
+
+    // Validate the window
+    for (const [name, value] of [['start_time', start_time], ['end_time', end_time]] as const) {
+      if (value !== undefined && !Number.isFinite(value)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid ${name}. Must be a Unix timestamp in seconds.`
+        );
+      }
+    }
+
+    if (end_time !== undefined && start_time === undefined) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'end_time requires start_time.'
+      );
+    }
+
+    if (start_time !== undefined && end_time !== undefined && end_time <= start_time) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid window. end_time must be after start_time.'
+      );
+    }
+
+    // Validate min_elevation
+    if (min_elevation !== undefined && (min_elevation < 0 || min_elevation > 90)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_elevation. Must be between 0 and 90 degrees.'
+      );
+    }
+
+    // Validate step
+    if (!Number.isFinite(stepSeconds) || stepSeconds <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid step_seconds. Must be a positive number of seconds.'
+      );
+    }
+
+    const tle = await providers.getTLE(norad_id);
+    const satellite = loadSatellite(tle.data);
+
+    // Use the requested window, or the next pass after start_time (or now)
+    let start: Date;
+    let end: Date;
+    let windowSource: 'requested' | 'next_pass';
+    if (start_time !== undefined && end_time !== undefined) {
+      start = new Date(start_time * 1000);
+      end = new Date(end_time * 1000);
+      windowSource = 'requested';
+    } else {
+      const searchStart = start_time !== undefined ? new Date(start_time * 1000) : new Date();
+      const [pass] = findPasses(satellite, observer, {
+        start: searchStart,
+        end: new Date(searchStart.getTime() + NEXT_PASS_SEARCH_DAYS * 86400000),
+        minElevation: min_elevation ?? observer.minElevation ?? 0,
+      });
+
+      if (!pass) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                satellite_id: norad_id,
+                satellite_name: satellite.name,
+                observer: formatObserver(observer),
+                provider: tle.provider,
+                samples: [],
+                message: `No pass of satellite ${norad_id} found within ${NEXT_PASS_SEARCH_DAYS} days of ${searchStart.toISOString()}. Pass start_time and end_time to compute a table for a specific window.`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      start = new Date(pass.startUTC * 1000);
+      end = new Date(pass.endUTC * 1000);
+      windowSource = 'next_pass';
+    }
+
+    const sampleCount = Math.ceil((end.getTime() - start.getTime()) / (stepSeconds * 1000)) + 1;
+    if (sampleCount > MAX_DOPPLER_SAMPLES) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Window too long for a step of ${stepSeconds} seconds (${sampleCount} rows, at most ${MAX_DOPPLER_SAMPLES}). Increase step_seconds or shorten the window.`
+      );
+    }
+
+    const samples = computeDopplerTable(satellite, observer, start, end, stepSeconds, {
+      downlink: downlink_mhz !== undefined ? downlink_mhz * 1e6 : undefined,
+      uplink: uplink_mhz !== undefined ? uplink_mhz * 1e6 : undefined,
+      transponder,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            satellite_id: norad_id,
+            satellite_name: satellite.name,
+            observer: formatObserver(observer),
+            window: {
+              source: windowSource,
+              start: start.toISOString(),
+              end: end.toISOString(),
+              step_seconds: stepSeconds,
+            },
+            frequencies: {
+              downlink_mhz: downlink_mhz ?? null,
+              uplink_mhz: uplink_mhz ?? null,
+              transponder,
+            },
+            provider: tle.provider,
+            samples: samples.map(sample => formatSample(sample, { downlink_mhz, uplink_mhz }, observer.timezone)),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error computing Doppler table: ${(error as Error).message}`
+    );
+  }
+}
+
+function toMHz(hz: number): number {
+  return Math.round(hz) / 1e6;
+}
+
+function formatSample(
+  sample: DopplerSample & { timestamp: number },
+  nominal: { downlink_mhz?: number; uplink_mhz?: number },
+  timezone: string | null
+) {
+  return {
+    time: new Date(sample.timestamp).toISOString(),
+    ...(timezone && { local_time: formatLocalTime(new Date(sample.timestamp), timezone) }),
+    azimuth: Math.round(sample.azimuth * 100) / 100,
+    azimuth_compass: azimuthToCompass(sample.azimuth),
+    elevation: Math.round(sample.elevation * 100) / 100,
+    range_km: Math.round(sample.range * 1000) / 1000,
+    range_rate_km_s: Math.round(sample.rangeRate * 10000) / 10000,
+    downlink: sample.downlink !== null && nominal.downlink_mhz !== undefined ? {
+      receive_mhz: toMHz(sample.downlink),
+      shift_hz: Math.round(sample.downlink - nominal.downlink_mhz * 1e6),
+    } : null,
+    uplink: sample.uplink !== null && nominal.uplink_mhz !== undefined ? {
+      transmit_mhz: toMHz(sample.uplink),
+      shift_hz: Math.round(sample.uplink - nominal.uplink_mhz * 1e6),
+    } : null,
+    ...(sample.fixedUplinkDownlink !== null && {
+      fixed_uplink_receive_mhz: toMHz(sample.fixedUplinkDownlink),
+    }),
+  };
+}
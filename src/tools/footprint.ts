@@ -0,0 +1,249 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ProviderChain } from '../providers/chain.js';
+import { computeFootprint, footprintToGeoJSON, swathToGeoJSON } from '../orbit/footprint.js';
+import { computeGroundTrack, subSatellitePoint } from '../orbit/ground-track.js';
+import { loadSatellite } from '../orbit/propagator.js';
+
+// Limits on the size of a swath
+export const MAX_SWATH_HOURS = 3;
+export const MAX_SWATH_POINTS = 1000;
+const DEFAULT_SWATH_STEP_SECONDS = 30;
+
+export const getFootprintToolSchema = {
+  name: 'get_footprint',
+  description: 'Compute the visibility footprint of a satellite: the area on Earth from which it is seen at or above a minimum elevation. Returns the coverage circle as a GeoJSON polygon (split at the antimeridian and closed over a pole when needed) with its radius in km. With start_time and end_time (e.g. the AOS and LOS of a pass), returns the swath covered by the footprint over that window instead.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      norad_id: {
+        type: 'number',
+        description: 'NORAD ID of the satellite',
+      },
+      min_elevation: {
+        type: 'number',
+        description: 'Minimum elevation in degrees at the edge of the footprint (0-90, default: 0)',
+        minimum: 0,
+        maximum: 90,
+      },
+      timestamp: {
+        type: 'number',
+        description: 'Time of the footprint as a Unix timestamp in seconds (local source only, defaults to now)',
+      },
+      source: {
+        type: 'string',
+        enum: ['n2yo', 'local'],
+        description: 'Where the satellite position comes from: "n2yo" (default) queries the N2YO positions endpoint, "local" propagates the TLE. Swaths are always propagated locally',
+      },
+      start_time: {
+        type: 'number',
+        description: 'Start of a swath window as a Unix timestamp in seconds (requires end_time)',
+      },
+      end_time: {
+        type: 'number',
+        description: `End of a swath window as a Unix timestamp in seconds (at most ${MAX_SWATH_HOURS} hours after start_time)`,
+      },
+      step_seconds: {
+        type: 'number',
+        description: `Time between swath samples in seconds (default: ${DEFAULT_SWATH_STEP_SECONDS}, at most ${MAX_SWATH_POINTS} samples)`,
+        minimum: 1,
+      },
+    },
+    required: ['norad_id'],
+  },
+};
+
+export async function getFootprintTool(
+  providers: ProviderChain,
+  args: {
+    norad_id: number;
+    min_elevation?: number;
+    timestamp?: number;
+    source?: 'n2yo' | 'local';
+    start_time?: number;
+    end_time?: number;
+    step_seconds?: number;
+  }
+) {
+  try {
+    const { norad_id, timestamp, start_time, end_time, step_seconds } = args;
+    const minElevation = args.min_elevation ?? 0;
+    const swath = start_time !== undefined || end_time !== undefined;
+    const source = swath ? 'local' : args.source || 'n2yo';
+
+    // Validate NORAD ID
+    if (!Number.isInteger(norad_id) || norad_id <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    // Validate min_elevation
+    if (!Number.isFinite(minElevation) || minElevation < 0 || minElevation > 90) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_elevation. Must be between 0 and 90 degrees.'
+      );
+    }
+
+    // Validate source
+    if (args.source !== undefined && args.source !== 'n2yo' && args.source !== 'local') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid source. Must be "n2yo" or "local".'
+      );
+    }
+
+    if (swath) {
+      // Validate the swath window
+      if (start_time === undefined || end_time === undefined || !Number.isFinite(start_time) || !Number.isFinite(end_time) ||
+        end_time <= start_time || end_time - start_time > MAX_SWATH_HOURS * 3600) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid swath window. Provide start_time and end_time as Unix timestamps in seconds, with end_time after start_time and at most ${MAX_SWATH_HOURS} hours later.`
+        );
+      }
+
+      if (timestamp !== undefined || args.source === 'n2yo') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          'timestamp and source "n2yo" cannot be combined with a swath window.'
+        );
+      }
+
+      // Validate step_seconds
+      if (step_seconds !== undefined && (!Number.isFinite(step_seconds) || step_seconds < 1)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          'Invalid step_seconds. Must be at least 1.'
+        );
+      }
+
+      const stepSeconds = step_seconds ?? DEFAULT_SWATH_STEP_SECONDS;
+      if (Math.ceil((end_time - start_time) / stepSeconds) + 1 > MAX_SWATH_POINTS) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Too many samples requested. (end_time - start_time) / step_seconds must not exceed ${MAX_SWATH_POINTS}.`
+        );
+      }
+
+      const tle = await providers.getTLE(norad_id);
+      const satellite = loadSatellite(tle.data);
+      const start = new Date(start_time * 1000);
+      const end = new Date(end_time * 1000);
+      const track = computeGroundTrack(satellite, start, end, stepSeconds);
+      const radii = track.map(point => computeFootprint(point.latitude, point.longitude, point.altitude, minElevation).radiusKm);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              satellite_id: norad_id,
+              satellite_name: satellite.name,
+              source,
+              provider: tle.provider,
+              start: start.toISOString(),
+              end: end.toISOString(),
+              step_seconds: stepSeconds,
+              min_elevation: minElevation,
+              min_radius_km: Math.round(Math.min(...radii) * 10) / 10,
+              max_radius_km: Math.round(Math.max(...radii) * 10) / 10,
+              geojson: {
+                type: 'Feature',
+                geometry: swathToGeoJSON(track, minElevation),
+                properties: {
+                  norad_id,
+                  name: satellite.name,
+                  kind: 'swath',
+                  start: start.toISOString(),
+                  end: end.toISOString(),
+                  min_elevation: minElevation,
+                },
+              },
+            }, null, 2),
+          },
+        ],
+      };
+    }
+
+    // Validate timestamp
+    if (timestamp !== undefined && (source !== 'local' || !Number.isFinite(timestamp))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid timestamp. Must be a Unix timestamp in seconds and is only supported with source "local".'
+      );
+    }
+
+    // Sub-satellite point from the TLE or the N2YO positions endpoint
+    let provider: string;
+    let name: string;
+    let point: { time: number; latitude: number; longitude: number; altitude: number };
+    if (source === 'local') {
+      const tle = await providers.getTLE(norad_id);
+      const satellite = loadSatellite(tle.data);
+      point = subSatellitePoint(satellite, timestamp !== undefined ? timestamp * 1000 : Date.now());
+      provider = tle.provider;
+      name = satellite.name;
+    } else {
+      const response = await providers.getPositions({ noradId: norad_id, observer_lat: 0, observer_lng: 0, observer_alt: 0, seconds: 1 });
+      const position = response.data?.[0];
+      if (!position) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `No position data found for satellite with NORAD ID: ${norad_id}`
+        );
+      }
+      point = { time: position.timestamp * 1000, latitude: position.satlatitude, longitude: position.satlongitude, altitude: position.sataltitude };
+      provider = response.provider;
+      name = position.satname;
+    }
+
+    const footprint = computeFootprint(point.latitude, point.longitude, point.altitude, minElevation);
+    const time = new Date(point.time).toISOString();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            satellite_id: norad_id,
+            satellite_name: name,
+            source,
+            provider,
+            time,
+            sub_satellite_point: {
+              latitude: footprint.latitude,
+              longitude: footprint.longitude,
+              altitude: footprint.altitude,
+            },
+            min_elevation: minElevation,
+            radius_km: Math.round(footprint.radiusKm * 10) / 10,
+            half_angle_degrees: Math.round(footprint.halfAngle * 1000) / 1000,
+            geojson: {
+              type: 'Feature',
+              geometry: footprintToGeoJSON(footprint),
+              properties: {
+                norad_id,
+                name,
+                kind: 'footprint',
+                time,
+                min_elevation: minElevation,
+                radius_km: Math.round(footprint.radiusKm * 10) / 10,
+              },
+            },
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error computing footprint: ${(error as Error).message}`
+    );
+  }
+}
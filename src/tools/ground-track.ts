@@ -0,0 +1,205 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ProviderChain } from '../providers/chain.js';
+import { trackToCZML } from '../export/czml.js';
+import { trackToKML } from '../export/kml.js';
+import {
+  computeGroundTrack,
+  defaultTrackStepSeconds,
+  groundTrackToGeoJSON,
+  orbitalPeriodSeconds,
+  splitAtAntimeridian,
+} from '../orbit/ground-track.js';
+import { loadSatellite } from '../orbit/propagator.js';
+
+// Limits on the size of a ground track
+export const MAX_GROUND_TRACK_ORBITS = 50;
+export const MAX_GROUND_TRACK_DAYS = 7;
+export const MAX_GROUND_TRACK_POINTS = 5000;
+
+export const getGroundTrackToolSchema = {
+  name: 'get_ground_track',
+  description: 'Compute the ground track (sub-satellite path) of a satellite for a number of orbits or a time range by propagating its TLE locally. Returns a GeoJSON Feature: a LineString, or a MultiLineString split at the antimeridian, with the time of every vertex in the coordTimes property, or a CZML (Cesium) or KML (Google Earth) document.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      norad_id: {
+        type: 'number',
+        description: 'NORAD ID of the satellite',
+      },
+      orbits: {
+        type: 'number',
+        description: `Number of orbits to cover from start_time (default: 1, at most ${MAX_GROUND_TRACK_ORBITS}); cannot be combined with end_time`,
+        exclusiveMinimum: 0,
+        maximum: MAX_GROUND_TRACK_ORBITS,
+      },
+      start_time: {
+        type: 'number',
+        description: 'Start of the track as a Unix timestamp in seconds (defaults to now)',
+      },
+      end_time: {
+        type: 'number',
+        description: `End of the track as a Unix timestamp in seconds (at most ${MAX_GROUND_TRACK_DAYS} days after start_time)`,
+      },
+      step_seconds: {
+        type: 'number',
+        description: `Time between vertices in seconds (defaults to about 180 vertices per orbit, at most ${MAX_GROUND_TRACK_POINTS} vertices)`,
+        minimum: 1,
+      },
+      format: {
+        type: 'string',
+        enum: ['json', 'czml', 'kml'],
+        description: 'Response format: "json" (default) with a GeoJSON Feature, "czml" for a Cesium CZML document with time-tagged position samples, or "kml" for Google Earth',
+      },
+    },
+    required: ['norad_id'],
+  },
+};
+
+export async function getGroundTrackTool(
+  providers: ProviderChain,
+  args: {
+    norad_id: number;
+    orbits?: number;
+    start_time?: number;
+    end_time?: number;
+    step_seconds?: number;
+    format?: 'json' | 'czml' | 'kml';
+  }
+) {
+  try {
+    const { norad_id, orbits, start_time, end_time, step_seconds } = args;
+    const format = args.format || 'json';
+
+    // Validate NORAD ID
+    if (!Number.isInteger(norad_id) || norad_id <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    // Validate orbits
+    if (orbits !== undefined && (!Number.isFinite(orbits) || orbits <= 0 || orbits > MAX_GROUND_TRACK_ORBITS)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid orbits. Must be greater than 0 and at most ${MAX_GROUND_TRACK_ORBITS}.`
+      );
+    }
+
+    if (orbits !== undefined && end_time !== undefined) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Provide either orbits or end_time, not both.'
+      );
+    }
+
+    // Validate format
+    if (!['json', 'czml', 'kml'].includes(format)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid format. Must be "json", "czml" or "kml".'
+      );
+    }
+
+    // Validate start_time and end_time
+    if (start_time !== undefined && !Number.isFinite(start_time)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid start_time. Must be a Unix timestamp in seconds.'
+      );
+    }
+
+    const start = start_time !== undefined ? new Date(start_time * 1000) : new Date();
+    if (end_time !== undefined && (
+      !Number.isFinite(end_time) ||
+      end_time * 1000 <= start.getTime() ||
+      end_time * 1000 - start.getTime() > MAX_GROUND_TRACK_DAYS * 86400000
+    )) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid end_time. Must be after start_time and at most ${MAX_GROUND_TRACK_DAYS} days later.`
+      );
+    }
+
+    // Validate step_seconds
+    if (step_seconds !== undefined && (!Number.isFinite(step_seconds) || step_seconds < 1)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid step_seconds. Must be at least 1.'
+      );
+    }
+
+    const tle = await providers.getTLE(norad_id);
+    const satellite = loadSatellite(tle.data);
+    const periodSeconds = orbitalPeriodSeconds(satellite);
+    const end = end_time !== undefined
+      ? new Date(end_time * 1000)
+      : new Date(start.getTime() + (orbits ?? 1) * periodSeconds * 1000);
+
+    if (end.getTime() - start.getTime() > MAX_GROUND_TRACK_DAYS * 86400000) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Too many orbits requested. The track of satellite ${norad_id} may cover at most ${MAX_GROUND_TRACK_DAYS} days (${Math.floor(MAX_GROUND_TRACK_DAYS * 86400 / periodSeconds)} orbits).`
+      );
+    }
+
+    const stepSeconds = step_seconds ?? defaultTrackStepSeconds(satellite);
+    if (Math.ceil((end.getTime() - start.getTime()) / 1000 / stepSeconds) + 1 > MAX_GROUND_TRACK_POINTS) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Too many vertices requested. Increase step_seconds or shorten the track to at most ${MAX_GROUND_TRACK_POINTS} vertices.`
+      );
+    }
+
+    const points = computeGroundTrack(satellite, start, end, stepSeconds);
+    if (format !== 'json') {
+      const track = { noradId: norad_id, name: satellite.name, points };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: format === 'czml' ? JSON.stringify(trackToCZML(track), null, 2) : trackToKML(track),
+          },
+        ],
+      };
+    }
+
+    const segments = splitAtAntimeridian(points);
+    const geojson = groundTrackToGeoJSON(segments, {
+      norad_id,
+      name: satellite.name,
+      start: start.toISOString(),
+      end: end.toISOString(),
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            satellite_id: norad_id,
+            satellite_name: satellite.name,
+            provider: tle.provider,
+            start: start.toISOString(),
+            end: end.toISOString(),
+            orbital_period_minutes: Math.round(periodSeconds / 6) / 10,
+            orbits: Math.round((end.getTime() - start.getTime()) / 1000 / periodSeconds * 100) / 100,
+            step_seconds: stepSeconds,
+            point_count: points.length,
+            antimeridian_crossings: segments.length - 1,
+            geojson,
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error computing ground track: ${(error as Error).message}`
+    );
+  }
+}
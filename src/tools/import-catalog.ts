@@ -0,0 +1,73 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SatelliteCatalog } from '../store/catalog.js';
+
+export const importCatalogToolSchema = {
+  name: 'import_catalog',
+  description: 'Import satellite names, aliases and international designators into the local catalog used by search_satellites_by_name. Accepts CSV with a header row (e.g. a CelesTrak SATCAT export with NORAD_CAT_ID, OBJECT_NAME, OBJECT_ID and an optional ALIASES column separated by ";") or a JSON array of such records, or a directory of .csv/.json files.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File or directory to import (defaults to CATALOG_IMPORT_DIR)',
+      },
+    },
+    required: [],
+  },
+};
+
+export async function importCatalogTool(
+  catalog: SatelliteCatalog,
+  args: { path?: string }
+) {
+  try {
+    const targetPath = args.path ?? process.env.CATALOG_IMPORT_DIR;
+
+    // Validate path
+    if (typeof targetPath !== 'string' || targetPath.trim() === '') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid path. Provide a file or directory, or set CATALOG_IMPORT_DIR.'
+      );
+    }
+
+    let report;
+    try {
+      report = await catalog.importPath(targetPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Path not found: ${targetPath}`
+        );
+      }
+      throw error;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            path: targetPath,
+            files: report.files,
+            added_count: report.added,
+            updated_count: report.updated,
+            error_count: report.errors.length,
+            errors: report.errors,
+            catalog_size: await catalog.size(),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error importing satellite catalog: ${(error as Error).message}`
+    );
+  }
+}
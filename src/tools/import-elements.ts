@@ -0,0 +1,88 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ElementStore } from '../store/element-store.js';
+
+export const importElementsToolSchema = {
+  name: 'import_elements',
+  description: 'Import element sets from a local 2-line/3-line TLE file or CCSDS OMM file (XML, JSON or KVN), or from every such file in a directory. Imported satellites are then served by get_satellite_tle and satellite://{norad_id}.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File or directory to import (defaults to ELEMENTS_IMPORT_DIR)',
+      },
+    },
+    required: [],
+  },
+};
+
+export async function importElementsTool(
+  elementStore: ElementStore,
+  args: { path?: string }
+) {
+  try {
+    const targetPath = args.path ?? process.env.ELEMENTS_IMPORT_DIR;
+
+    // Validate path
+    if (typeof targetPath !== 'string' || targetPath.trim() === '') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid path. Provide a file or directory, or set ELEMENTS_IMPORT_DIR.'
+      );
+    }
+
+    let report;
+    try {
+      report = await elementStore.importPath(targetPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Path not found: ${targetPath}`
+        );
+      }
+      throw error;
+    }
+
+    // Format the response
+    const formattedResponse = {
+      path: targetPath,
+      files: report.files,
+      imported_count: report.imported.length,
+      skipped_count: report.skipped.length,
+      error_count: report.errors.length,
+      imported: report.imported.map(entry => ({
+        satellite_id: entry.satid,
+        satellite_name: entry.satname,
+        epoch: entry.epoch,
+        file: entry.file,
+        line: entry.line,
+      })),
+      skipped: report.skipped.map(entry => ({
+        satellite_id: entry.satid,
+        reason: entry.reason,
+        file: entry.file,
+        line: entry.line,
+      })),
+      errors: report.errors,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(formattedResponse, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error importing element sets: ${(error as Error).message}`
+    );
+  }
+}
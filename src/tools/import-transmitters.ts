@@ -0,0 +1,73 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { TransmitterRegistry } from '../store/transmitters.js';
+
+export const importTransmittersToolSchema = {
+  name: 'import_transmitters',
+  description: 'Import satellite transmitters into the local transmitter registry from a SatNOGS DB style JSON dump (an array of transmitter objects with norad_cat_id, description, downlink_low/high and uplink_low/high in Hz, mode, uplink_mode, invert, baud, status), or a directory of .json dumps. Transmitters are matched by uuid, so importing a newer dump updates them.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'File or directory to import (defaults to TRANSMITTERS_IMPORT_DIR)',
+      },
+    },
+    required: [],
+  },
+};
+
+export async function importTransmittersTool(
+  transmitters: TransmitterRegistry,
+  args: { path?: string }
+) {
+  try {
+    const targetPath = args.path ?? process.env.TRANSMITTERS_IMPORT_DIR;
+
+    // Validate path
+    if (typeof targetPath !== 'string' || targetPath.trim() === '') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid path. Provide a file or directory, or set TRANSMITTERS_IMPORT_DIR.'
+      );
+    }
+
+    let report;
+    try {
+      report = await transmitters.importPath(targetPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Path not found: ${targetPath}`
+        );
+      }
+      throw error;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            path: targetPath,
+            files: report.files,
+            added_count: report.added,
+            updated_count: report.updated,
+            error_count: report.errors.length,
+            errors: report.errors,
+            registry_size: await transmitters.size(),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error importing satellite transmitters: ${(error as Error).message}`
+    );
+  }
+}
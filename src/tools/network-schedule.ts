@@ -0,0 +1,427 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ProviderChain } from '../providers/chain.js';
+import { Observer } from '../orbit/coordinates.js';
+import { findPasses } from '../orbit/passes.js';
+import { loadSatellite } from '../orbit/propagator.js';
+import {
+  NETWORK_OBJECTIVES,
+  NetworkObjective,
+  StationPass,
+  contactGaps,
+  planNetworkSchedule,
+} from '../orbit/schedule.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { MAX_SCHEDULE_DAYS, MAX_SCHEDULE_SATELLITES } from './pass-schedule.js';
+import { resolveObserver } from './tool-utils.js';
+
+// Largest number of stations in one network request
+export const MAX_NETWORK_STATIONS = 10;
+
+// Interface for a ground station as passed to the tool
+interface StationArgs {
+  name?: string;
+  observer?: string; // observer profile supplying the location and minimum elevation
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  min_elevation?: number;
+  availability?: { start: number; end: number }[];
+}
+
+// Interface for a validated ground station
+interface GroundStation {
+  name: string;
+  observer: Observer;
+  minElevation: number;
+  availability: { start: number; end: number }[]; // Unix seconds, clipped to the planning window
+}
+
+export const planNetworkScheduleToolSchema = {
+  name: 'plan_network_schedule',
+  description: 'Assign satellite contacts across a network of ground stations. Each station has a location, minimum elevation and optional availability windows; passes are predicted locally and assigned so that no station tracks two satellites at once, maximising total contact time or spreading coverage across satellites. Returns a schedule per station and, per satellite, its contacts and the gaps between them.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      norad_ids: {
+        type: 'array',
+        items: { type: 'number' },
+        description: `NORAD IDs of the satellites to schedule (1-${MAX_SCHEDULE_SATELLITES})`,
+        minItems: 1,
+        maxItems: MAX_SCHEDULE_SATELLITES,
+      },
+      stations: {
+        type: 'array',
+        description: `Ground stations of the network (1-${MAX_NETWORK_STATIONS})`,
+        minItems: 1,
+        maxItems: MAX_NETWORK_STATIONS,
+        items: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Unique station name (defaults to the observer profile name, or "station-1", "station-2", ...)',
+            },
+            observer: {
+              type: 'string',
+              description: 'Name of a saved observer profile for the station location and minimum elevation; latitude/longitude/altitude/min_elevation override it',
+            },
+            latitude: {
+              type: 'number',
+              description: 'Station latitude (-90 to 90)',
+              minimum: -90,
+              maximum: 90,
+            },
+            longitude: {
+              type: 'number',
+              description: 'Station longitude (-180 to 180)',
+              minimum: -180,
+              maximum: 180,
+            },
+            altitude: {
+              type: 'number',
+              description: 'Station altitude in meters (optional)',
+              minimum: 0,
+            },
+            min_elevation: {
+              type: 'number',
+              description: 'Minimum elevation in degrees for this station (0-90, defaults to the observer profile\'s, or 0)',
+              minimum: 0,
+              maximum: 90,
+            },
+            availability: {
+              type: 'array',
+              description: 'Windows in which the station can track, as Unix timestamps in seconds (defaults to the whole planning window)',
+              items: {
+                type: 'object',
+                properties: {
+                  start: { type: 'number' },
+                  end: { type: 'number' },
+                },
+                required: ['start', 'end'],
+              },
+            },
+          },
+          required: [],
+        },
+      },
+      days: {
+        type: 'number',
+        description: `Number of days to plan (1-${MAX_SCHEDULE_DAYS}, default: 1)`,
+        minimum: 1,
+        maximum: MAX_SCHEDULE_DAYS,
+      },
+      timestamp: {
+        type: 'number',
+        description: 'Start of the planning window as a Unix timestamp in seconds (defaults to now)',
+      },
+      objective: {
+        type: 'string',
+        enum: NETWORK_OBJECTIVES,
+        description: '"contact_time" (default) maximises the total contact time; "coverage" balances contact time across satellites',
+      },
+      min_gap_seconds: {
+        type: 'number',
+        description: 'Minimum time between two contacts at the same station (default: 0)',
+        minimum: 0,
+      },
+    },
+    required: ['norad_ids', 'stations'],
+  },
+};
+
+export async function planNetworkScheduleTool(
+  providers: ProviderChain,
+  profiles: ObserverProfileStore,
+  args: {
+    norad_ids: number[];
+    stations: StationArgs[];
+    days?: number;
+    timestamp?: number;
+    objective?: NetworkObjective;
+    min_gap_seconds?: number;
+  }
+) {
+  try {
+    const { norad_ids, days, timestamp, min_gap_seconds } = args;
+    const objective = args.objective || 'contact_time';
+
+    // Validate NORAD IDs
+    if (!Array.isArray(norad_ids) || norad_ids.length === 0 || norad_ids.length > MAX_SCHEDULE_SATELLITES) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid norad_ids. Must be a list of 1 to ${MAX_SCHEDULE_SATELLITES} NORAD IDs.`
+      );
+    }
+
+    if (norad_ids.some(id => !Number.isInteger(id) || id <= 0)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    // Validate days
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_SCHEDULE_DAYS)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid days. Must be an integer between 1 and ${MAX_SCHEDULE_DAYS}.`
+      );
+    }
+
+    // Validate timestamp
+    if (timestamp !== undefined && !Number.isFinite(timestamp)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid timestamp. Must be a Unix timestamp in seconds.'
+      );
+    }
+
+    // Validate objective
+    if (!NETWORK_OBJECTIVES.includes(objective)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid objective. Must be one of: ${NETWORK_OBJECTIVES.join(', ')}.`
+      );
+    }
+
+    // Validate min_gap_seconds
+    if (min_gap_seconds !== undefined && (!Number.isFinite(min_gap_seconds) || min_gap_seconds < 0)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_gap_seconds. Must be zero or a positive number of seconds.'
+      );
+    }
+
+    const start = timestamp !== undefined ? new Date(timestamp * 1000) : new Date();
+    const end = new Date(start.getTime() + (days || 1) * 86400000);
+    const windowStart = Math.round(start.getTime() / 1000);
+    const windowEnd = Math.round(end.getTime() / 1000);
+    const stations = await validateStations(profiles, args.stations, windowStart, windowEnd);
+    const satelliteIds = [...new Set(norad_ids)];
+
+    // Predict every satellite's passes over every station inside its availability windows
+    const satellites = new Map<number, { name: string | null; provider: string | null; error?: string }>();
+    const candidates: StationPass[] = [];
+    for (const noradId of satelliteIds) {
+      try {
+        const tle = await providers.getTLE(noradId);
+        const satellite = loadSatellite(tle.data);
+        satellites.set(noradId, { name: satellite.name, provider: tle.provider });
+
+        for (const station of stations) {
+          for (const window of station.availability) {
+            const passes = findPasses(satellite, station.observer, {
+              start: new Date(window.start * 1000),
+              end: new Date(window.end * 1000),
+              minElevation: station.minElevation,
+            });
+            candidates.push(...passes
+              .filter(pass => pass.duration > 0)
+              .map(pass => ({ id: `${station.name}:${pass.satid}-${pass.startUTC}`, station: station.name, pass })));
+          }
+        }
+      } catch (error) {
+        console.error(`Error predicting passes of ${noradId} for the network schedule:`, error);
+        satellites.set(noradId, { name: null, provider: null, error: (error as Error).message });
+      }
+    }
+
+    const schedule = planNetworkSchedule(candidates, { objective, gapSeconds: min_gap_seconds || 0 });
+
+    const stationSchedules = stations.map(station => {
+      const contacts = schedule.contacts.filter(contact => contact.station === station.name);
+      const contactSeconds = contacts.reduce((total, contact) => total + contact.pass.duration, 0);
+      const availableSeconds = station.availability.reduce((total, window) => total + window.end - window.start, 0);
+      return {
+        name: station.name,
+        observer: station.observer,
+        min_elevation: station.minElevation,
+        availability: station.availability.map(window => ({
+          start: new Date(window.start * 1000).toISOString(),
+          end: new Date(window.end * 1000).toISOString(),
+        })),
+        contacts: contacts.map(contact => formatContact(contact)),
+        contact_count: contacts.length,
+        contact_seconds: contactSeconds,
+        utilization_percent: availableSeconds > 0 ? Math.round(contactSeconds / availableSeconds * 10000) / 100 : 0,
+      };
+    });
+
+    const satelliteSummaries = satelliteIds.map(noradId => {
+      const info = satellites.get(noradId)!;
+      const contacts = schedule.contacts.filter(contact => contact.pass.satid === noradId);
+      const contactSeconds = contacts.reduce((total, contact) => total + contact.pass.duration, 0);
+      const gaps = contactGaps(contacts.map(contact => contact.pass), windowStart, windowEnd);
+      return {
+        norad_id: noradId,
+        name: info.name,
+        provider: info.provider,
+        contact_count: contacts.length,
+        contact_seconds: contactSeconds,
+        coverage_percent: Math.round(contactSeconds / (windowEnd - windowStart) * 10000) / 100,
+        contacts: contacts.map(contact => ({
+          station: contact.station,
+          start: new Date(contact.pass.startUTC * 1000).toISOString(),
+          end: new Date(contact.pass.endUTC * 1000).toISOString(),
+          duration_seconds: contact.pass.duration,
+        })),
+        gaps: gaps.map(gap => ({
+          start: new Date(gap.start * 1000).toISOString(),
+          end: new Date(gap.end * 1000).toISOString(),
+          seconds: gap.seconds,
+        })),
+        longest_gap_seconds: gaps.reduce((longest, gap) => Math.max(longest, gap.seconds), 0),
+        ...(info.error && { error: info.error }),
+      };
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            window: {
+              start: start.toISOString(),
+              end: end.toISOString(),
+            },
+            objective,
+            min_gap_seconds: min_gap_seconds || 0,
+            stations: stationSchedules,
+            satellites: satelliteSummaries,
+            unassigned: schedule.unassigned.map(entry => ({
+              ...formatContact(entry.contact),
+              reason: entry.reason,
+            })),
+            summary: {
+              candidate_pass_count: candidates.length,
+              contact_count: schedule.contacts.length,
+              unassigned_count: schedule.unassigned.length,
+              contact_seconds: schedule.contacts.reduce((total, contact) => total + contact.pass.duration, 0),
+            },
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error planning network schedule: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Validate the stations and clip their availability windows to the planning window
+ */
+async function validateStations(
+  profiles: ObserverProfileStore,
+  stations: StationArgs[],
+  windowStart: number,
+  windowEnd: number
+): Promise<GroundStation[]> {
+  if (!Array.isArray(stations) || stations.length === 0 || stations.length > MAX_NETWORK_STATIONS) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid stations. Must be a list of 1 to ${MAX_NETWORK_STATIONS} ground stations.`
+    );
+  }
+
+  const names = new Set<string>();
+  const validated: GroundStation[] = [];
+  for (const [index, station] of stations.entries()) {
+    const name = (station.name || station.observer || `station-${index + 1}`).trim();
+    if (names.has(name)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Duplicate station name: ${name}.`
+      );
+    }
+    names.add(name);
+
+    let observer;
+    try {
+      observer = await resolveObserver(profiles, {
+        observer: station.observer,
+        observer_lat: station.latitude,
+        observer_lng: station.longitude,
+        observer_alt: station.altitude,
+      });
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw new McpError(ErrorCode.InvalidParams, `Station ${name}: ${error.message.replace(/^MCP error -?\d+: /, '')}`);
+      }
+      throw error;
+    }
+
+    if (station.min_elevation !== undefined && (station.min_elevation < 0 || station.min_elevation > 90)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid min_elevation for station ${name}. Must be between 0 and 90 degrees.`
+      );
+    }
+
+    const windows = station.availability ?? [{ start: windowStart, end: windowEnd }];
+    if (!Array.isArray(windows) || windows.some(window =>
+      !window || !Number.isFinite(window.start) || !Number.isFinite(window.end) || window.end <= window.start
+    )) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid availability for station ${name}. Each window needs a start and a later end as Unix timestamps in seconds.`
+      );
+    }
+
+    // Clip to the planning window and merge overlapping windows so no pass is predicted twice
+    const clipped = windows
+      .map(window => ({ start: Math.max(window.start, windowStart), end: Math.min(window.end, windowEnd) }))
+      .filter(window => window.end > window.start)
+      .sort((a, b) => a.start - b.start);
+    const availability: { start: number; end: number }[] = [];
+    for (const window of clipped) {
+      const last = availability[availability.length - 1];
+      if (last && window.start <= last.end) {
+        last.end = Math.max(last.end, window.end);
+      } else {
+        availability.push({ ...window });
+      }
+    }
+
+    validated.push({
+      name,
+      observer: { latitude: observer.latitude, longitude: observer.longitude, altitude: observer.altitude },
+      minElevation: station.min_elevation ?? observer.minElevation ?? 0,
+      availability,
+    });
+  }
+
+  return validated;
+}
+
+function formatContact(contact: StationPass) {
+  const { pass } = contact;
+  return {
+    id: contact.id,
+    station: contact.station,
+    norad_id: pass.satid,
+    satellite_name: pass.satname,
+    start: {
+      time: new Date(pass.startUTC * 1000).toISOString(),
+      azimuth: pass.startAz,
+      elevation: pass.startEl,
+    },
+    max: {
+      time: new Date(pass.maxUTC * 1000).toISOString(),
+      azimuth: pass.maxAz,
+      elevation: pass.maxEl,
+    },
+    end: {
+      time: new Date(pass.endUTC * 1000).toISOString(),
+      azimuth: pass.endAz,
+      elevation: pass.endEl,
+    },
+    duration_seconds: pass.duration,
+  };
+}
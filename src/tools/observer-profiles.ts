@@ -0,0 +1,419 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { HorizonPoint, parseHorizonMask } from '../orbit/horizon.js';
+import { ObserverProfile, ObserverProfileStore, readHorizonFile } from '../store/observer-profiles.js';
+import { isValidTimeZone } from './tool-utils.js';
+
+// Profile names: letters, digits, spaces, dots, underscores and dashes
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._-]{0,63}$/;
+
+export const createObserverProfileToolSchema = {
+  name: 'create_observer_profile',
+  description: 'Save a named observer location (e.g. "home", "rooftop-station") with a default minimum elevation and time zone. Tools that take observer_lat/observer_lng also accept the profile name as `observer`.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Profile name (letters, digits, spaces, ".", "_" and "-", up to 64 characters)',
+      },
+      latitude: {
+        type: 'number',
+        description: 'Observer latitude (-90 to 90)',
+        minimum: -90,
+        maximum: 90,
+      },
+      longitude: {
+        type: 'number',
+        description: 'Observer longitude (-180 to 180)',
+        minimum: -180,
+        maximum: 180,
+      },
+      altitude: {
+        type: 'number',
+        description: 'Observer altitude in meters (optional)',
+        minimum: 0,
+      },
+      min_elevation: {
+        type: 'number',
+        description: 'Default minimum elevation in degrees for pass predictions from this location (0-90, default: 0)',
+        minimum: 0,
+        maximum: 90,
+      },
+      timezone: {
+        type: 'string',
+        description: 'IANA time zone used for local times in responses (e.g. "Europe/Berlin", "America/New_York")',
+      },
+      horizon_file: {
+        type: 'string',
+        description: 'CSV ("azimuth,elevation" rows) or Stellarium polygonal horizon file with the minimum elevation by azimuth at this location',
+      },
+      overwrite: {
+        type: 'boolean',
+        description: 'Replace an existing profile with the same name, keeping its horizon mask unless horizon_file is given (default: false)',
+      },
+    },
+    required: ['name', 'latitude', 'longitude'],
+  },
+};
+
+export const listObserverProfilesToolSchema = {
+  name: 'list_observer_profiles',
+  description: 'List the saved observer profiles',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+};
+
+export const setHorizonMaskToolSchema = {
+  name: 'set_horizon_mask',
+  description: 'Set or clear the horizon mask of an observer profile: the minimum elevation by azimuth (buildings, hills, trees), interpolated linearly between points. Radio and visual pass predictions for the profile report masked AOS/LOS and time above the mask, and drop passes that never clear it.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      observer: {
+        type: 'string',
+        description: 'Name of the observer profile',
+      },
+      path: {
+        type: 'string',
+        description: 'CSV ("azimuth,elevation" rows, optional header) or Stellarium polygonal horizon file ("azimuth altitude" per line)',
+      },
+      points: {
+        type: 'array',
+        description: 'Mask points instead of a file',
+        items: {
+          type: 'object',
+          properties: {
+            azimuth: { type: 'number', minimum: 0, maximum: 360 },
+            elevation: { type: 'number', minimum: -90, maximum: 90 },
+          },
+          required: ['azimuth', 'elevation'],
+        },
+      },
+      clear: {
+        type: 'boolean',
+        description: 'Remove the profile\'s horizon mask',
+      },
+    },
+    required: ['observer'],
+  },
+};
+
+export const deleteObserverProfileToolSchema = {
+  name: 'delete_observer_profile',
+  description: 'Delete a saved observer profile',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description: 'Name of the profile to delete',
+      },
+    },
+    required: ['name'],
+  },
+};
+
+export async function createObserverProfileTool(
+  profiles: ObserverProfileStore,
+  args: {
+    name: string;
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+    min_elevation?: number;
+    timezone?: string;
+    horizon_file?: string;
+    overwrite?: boolean;
+  }
+) {
+  try {
+    const { name, latitude, longitude, altitude, min_elevation, timezone, horizon_file, overwrite } = args;
+
+    // Validate name
+    if (typeof name !== 'string' || !PROFILE_NAME_PATTERN.test(name.trim())) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid name. Use up to 64 letters, digits, spaces, ".", "_" or "-", starting with a letter or digit.'
+      );
+    }
+
+    // Validate coordinates
+    if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid latitude. Must be between -90 and 90.'
+      );
+    }
+
+    if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid longitude. Must be between -180 and 180.'
+      );
+    }
+
+    if (altitude !== undefined && (!Number.isFinite(altitude) || altitude < 0)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid altitude. Must be zero or a positive number of meters.'
+      );
+    }
+
+    // Validate min_elevation
+    if (min_elevation !== undefined && (min_elevation < 0 || min_elevation > 90)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_elevation. Must be between 0 and 90 degrees.'
+      );
+    }
+
+    // Validate timezone
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid timezone: ${timezone}. Must be an IANA time zone such as "Europe/Berlin".`
+      );
+    }
+
+    // Validate horizon_file
+    if (horizon_file !== undefined && (typeof horizon_file !== 'string' || horizon_file.trim() === '')) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid horizon_file. Must be the path of a CSV or Stellarium horizon file.'
+      );
+    }
+
+    const existing = await profiles.get(name);
+    if (existing && !overwrite) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Observer profile already exists: ${existing.name}. Pass overwrite: true to replace it.`
+      );
+    }
+
+    const horizonMask = horizon_file !== undefined
+      ? await loadHorizonMask(horizon_file)
+      : existing?.horizonMask ?? null;
+
+    const profile = await profiles.save({
+      name,
+      latitude,
+      longitude,
+      altitude: altitude || 0,
+      minElevation: min_elevation || 0,
+      timezone: timezone || null,
+      horizonMask,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            profile: formatProfile(profile),
+            replaced: !!existing,
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error saving observer profile: ${(error as Error).message}`
+    );
+  }
+}
+
+export async function listObserverProfilesTool(profiles: ObserverProfileStore) {
+  try {
+    const all = await profiles.list();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            profiles: all.map(profile => formatProfile(profile)),
+            count: all.length,
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error listing observer profiles: ${(error as Error).message}`
+    );
+  }
+}
+
+export async function setHorizonMaskTool(
+  profiles: ObserverProfileStore,
+  args: {
+    observer: string;
+    path?: string;
+    points?: HorizonPoint[];
+    clear?: boolean;
+  }
+) {
+  try {
+    const { observer, path, points, clear } = args;
+
+    // Validate observer
+    if (typeof observer !== 'string' || observer.trim() === '') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid observer. Must be the name of a saved observer profile.'
+      );
+    }
+
+    // Exactly one of path, points and clear
+    if ([path !== undefined, points !== undefined, clear === true].filter(Boolean).length !== 1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Provide exactly one of path, points or clear: true.'
+      );
+    }
+
+    const profile = await profiles.get(observer);
+    if (!profile) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown observer profile: ${observer}. Create it with create_observer_profile or list profiles with list_observer_profiles.`
+      );
+    }
+
+    let horizonMask: HorizonPoint[] | null = null;
+    if (path !== undefined) {
+      if (typeof path !== 'string' || path.trim() === '') {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          'Invalid path. Must be the path of a CSV or Stellarium horizon file.'
+        );
+      }
+      horizonMask = await loadHorizonMask(path);
+    } else if (points !== undefined) {
+      if (!Array.isArray(points) || points.some(point => !point || typeof point !== 'object')) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          'Invalid points. Must be a list of { azimuth, elevation } objects.'
+        );
+      }
+      try {
+        horizonMask = parseHorizonMask(points.map(point => `${point.azimuth},${point.elevation}`).join('\n'));
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid points: ${(error as Error).message.replace(/^Line (\d+)/, 'point $1')}`
+        );
+      }
+    }
+
+    const { createdAt, updatedAt, ...fields } = profile;
+    const saved = await profiles.save({ ...fields, horizonMask });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            profile: formatProfile(saved),
+            horizon_mask: horizonMask,
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error setting horizon mask: ${(error as Error).message}`
+    );
+  }
+}
+
+export async function deleteObserverProfileTool(
+  profiles: ObserverProfileStore,
+  args: { name: string }
+) {
+  try {
+    const { name } = args;
+
+    // Validate name
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid name. Must be a non-empty string.'
+      );
+    }
+
+    if (!(await profiles.delete(name))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown observer profile: ${name}`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            deleted: name.trim(),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error deleting observer profile: ${(error as Error).message}`
+    );
+  }
+}
+
+function formatProfile(profile: ObserverProfile) {
+  return {
+    name: profile.name,
+    latitude: profile.latitude,
+    longitude: profile.longitude,
+    altitude: profile.altitude,
+    min_elevation: profile.minElevation,
+    timezone: profile.timezone,
+    horizon_mask: profile.horizonMask && {
+      points: profile.horizonMask.length,
+      min_elevation: Math.min(...profile.horizonMask.map(point => point.elevation)),
+      max_elevation: Math.max(...profile.horizonMask.map(point => point.elevation)),
+    },
+    created: profile.createdAt,
+    updated: profile.updatedAt,
+  };
+}
+
+/**
+ * Read a horizon file, reporting missing and malformed files as invalid parameters
+ */
+async function loadHorizonMask(filePath: string): Promise<HorizonPoint[]> {
+  try {
+    return await readHorizonFile(filePath);
+  } catch (error) {
+    const message = (error as NodeJS.ErrnoException).code === 'ENOENT'
+      ? `Horizon file not found: ${filePath}`
+      : `Invalid horizon file ${filePath}: ${(error as Error).message}`;
+    throw new McpError(ErrorCode.InvalidParams, message);
+  }
+}
@@ -0,0 +1,371 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PassAlertNotification, PassAlertScheduler } from '../alerts/scheduler.js';
+import { ProviderChain } from '../providers/chain.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { PASS_ALERT_EVENTS, PassAlert, PassAlertEvent, PassAlertStore } from '../store/pass-alerts.js';
+import { ObserverArgs, formatLocalTime, resolveObserver } from './tool-utils.js';
+
+// Default notice before AOS
+const DEFAULT_LEAD_MINUTES = 10;
+
+// Longest notice before AOS
+const MAX_LEAD_MINUTES = 720;
+
+export const createPassAlertToolSchema = {
+  name: 'create_pass_alert',
+  description: 'Register an alert for passes of a satellite over an observer, e.g. "notify me 10 minutes before any ISS pass above 40° at home". While the server runs, passes are predicted locally from the TLE and MCP logging notifications (logger "pass-alerts") are sent at the lead time before AOS, at AOS and at LOS of every pass that culminates at or above min_max_elevation. Alerts are saved and survive a server restart.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      norad_id: {
+        type: 'number',
+        description: 'NORAD ID of the satellite',
+      },
+      observer: {
+        type: 'string',
+        description: 'Name of a saved observer profile; replaces observer_lat/observer_lng/observer_alt, which override the profile when also given',
+      },
+      observer_lat: {
+        type: 'number',
+        description: 'Observer latitude (-90 to 90)',
+        minimum: -90,
+        maximum: 90,
+      },
+      observer_lng: {
+        type: 'number',
+        description: 'Observer longitude (-180 to 180)',
+        minimum: -180,
+        maximum: 180,
+      },
+      observer_alt: {
+        type: 'number',
+        description: 'Observer altitude in meters (optional)',
+        minimum: 0,
+      },
+      min_elevation: {
+        type: 'number',
+        description: 'Elevation in degrees at which AOS and LOS are counted (0-90, default: the observer profile\'s minimum elevation or 0)',
+        minimum: 0,
+        maximum: 90,
+      },
+      min_max_elevation: {
+        type: 'number',
+        description: 'Only alert for passes culminating at or above this elevation in degrees (0-90, default: 0)',
+        minimum: 0,
+        maximum: 90,
+      },
+      lead_minutes: {
+        type: 'number',
+        description: `Minutes before AOS to send the advance notification (0-${MAX_LEAD_MINUTES}, default: ${DEFAULT_LEAD_MINUTES})`,
+        minimum: 0,
+        maximum: MAX_LEAD_MINUTES,
+      },
+      events: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: PASS_ALERT_EVENTS,
+        },
+        description: 'Notifications to send: "lead" (lead_minutes before AOS), "aos" and "los" (default: all three)',
+      },
+      horizon_mask: {
+        type: 'boolean',
+        description: 'Count AOS and LOS against the observer profile\'s horizon mask when it has one (default: true)',
+      },
+      label: {
+        type: 'string',
+        description: 'Free text included in every notification of this alert (up to 200 characters)',
+      },
+    },
+    required: ['norad_id'],
+  },
+};
+
+export const listPassAlertsToolSchema = {
+  name: 'list_pass_alerts',
+  description: 'List the registered pass alerts with the notifications scheduled for their upcoming passes',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+export const cancelPassAlertToolSchema = {
+  name: 'cancel_pass_alert',
+  description: 'Cancel a pass alert by its ID',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      id: {
+        type: 'string',
+        description: 'ID of the alert, as returned by create_pass_alert or list_pass_alerts',
+      },
+    },
+    required: ['id'],
+  },
+};
+
+export async function createPassAlertTool(
+  providers: ProviderChain,
+  profiles: ObserverProfileStore,
+  alerts: PassAlertStore,
+  scheduler: PassAlertScheduler,
+  args: ObserverArgs & {
+    norad_id: number;
+    min_elevation?: number;
+    min_max_elevation?: number;
+    lead_minutes?: number;
+    events?: PassAlertEvent[];
+    horizon_mask?: boolean;
+    label?: string;
+  }
+) {
+  try {
+    const { norad_id, min_elevation, min_max_elevation, lead_minutes, events, label } = args;
+
+    // Validate NORAD ID
+    if (!Number.isInteger(norad_id) || norad_id <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    const observer = await resolveObserver(profiles, args);
+
+    // Validate min_elevation and min_max_elevation
+    if (min_elevation !== undefined && (typeof min_elevation !== 'number' || min_elevation < 0 || min_elevation > 90)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_elevation. Must be between 0 and 90 degrees.'
+      );
+    }
+
+    if (min_max_elevation !== undefined && (typeof min_max_elevation !== 'number' || min_max_elevation < 0 || min_max_elevation > 90)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_max_elevation. Must be between 0 and 90 degrees.'
+      );
+    }
+
+    // Validate lead_minutes
+    if (lead_minutes !== undefined && (typeof lead_minutes !== 'number' || lead_minutes < 0 || lead_minutes > MAX_LEAD_MINUTES)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid lead_minutes. Must be between 0 and ${MAX_LEAD_MINUTES}.`
+      );
+    }
+
+    // Validate events
+    if (events !== undefined && (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      events.some(event => !PASS_ALERT_EVENTS.includes(event))
+    )) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid events. Must be a non-empty list of ${PASS_ALERT_EVENTS.map(event => `"${event}"`).join(', ')}.`
+      );
+    }
+
+    // Validate label
+    if (label !== undefined && (typeof label !== 'string' || label.length > 200)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid label. Must be a string of up to 200 characters.'
+      );
+    }
+
+    const minElevation = min_elevation ?? observer.minElevation ?? 0;
+    const minMaxElevation = min_max_elevation ?? 0;
+    if (minMaxElevation < minElevation) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid min_max_elevation. Must not be below min_elevation (${minElevation}°).`
+      );
+    }
+
+    // Make sure the satellite has an element set before saving the alert
+    const tle = await providers.getTLE(norad_id);
+
+    const alert = await alerts.create({
+      noradId: norad_id,
+      satelliteName: tle.data.satname,
+      label: label?.trim() || null,
+      observer: {
+        latitude: observer.latitude,
+        longitude: observer.longitude,
+        altitude: observer.altitude,
+        profile: observer.profile,
+        timezone: observer.timezone,
+        horizonMask: args.horizon_mask !== false ? observer.horizonMask : null,
+      },
+      minElevation,
+      minMaxElevation,
+      leadMinutes: lead_minutes ?? DEFAULT_LEAD_MINUTES,
+      events: PASS_ALERT_EVENTS.filter(event => !events || events.includes(event)),
+    });
+    await scheduler.recompute();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            alert: formatPassAlert(alert),
+            upcoming: scheduler.upcoming(alert.id).map(notification => formatPassAlertNotification(notification)),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error creating pass alert: ${(error as Error).message}`
+    );
+  }
+}
+
+export async function listPassAlertsTool(alerts: PassAlertStore, scheduler: PassAlertScheduler) {
+  try {
+    const all = await alerts.list();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            alerts: all.map(alert => ({
+              ...formatPassAlert(alert),
+              upcoming: scheduler.upcoming(alert.id).map(notification => formatPassAlertNotification(notification)),
+            })),
+            count: all.length,
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error listing pass alerts: ${(error as Error).message}`
+    );
+  }
+}
+
+export async function cancelPassAlertTool(
+  alerts: PassAlertStore,
+  scheduler: PassAlertScheduler,
+  args: { id: string }
+) {
+  try {
+    const { id } = args;
+
+    // Validate ID
+    if (typeof id !== 'string' || id.trim() === '') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid id. Must be a non-empty string.'
+      );
+    }
+
+    if (!(await alerts.cancel(id.trim()))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown pass alert: ${id}. List alerts with list_pass_alerts.`
+      );
+    }
+    await scheduler.recompute();
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            cancelled: id.trim(),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error cancelling pass alert: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Notification payload, as sent to the client and listed by the tools
+ */
+export function formatPassAlertNotification(notification: PassAlertNotification) {
+  const { alert, event, pass } = notification;
+  const timezone = alert.observer.timezone;
+  const time = (unixSeconds: number) => ({
+    utc: new Date(unixSeconds * 1000).toISOString(),
+    ...(timezone && { local_time: formatLocalTime(new Date(unixSeconds * 1000), timezone) }),
+  });
+
+  return {
+    alert_id: alert.id,
+    ...(alert.label && { label: alert.label }),
+    event,
+    time: new Date(notification.at).toISOString(),
+    satellite_id: alert.noradId,
+    satellite_name: alert.satelliteName,
+    message: passAlertMessage(notification),
+    pass: {
+      aos: { ...time(pass.startUTC), azimuth: pass.startAz, azimuth_compass: pass.startAzCompass },
+      culmination: { ...time(pass.maxUTC), azimuth: pass.maxAz, azimuth_compass: pass.maxAzCompass, elevation: pass.maxEl },
+      los: { ...time(pass.endUTC), azimuth: pass.endAz, azimuth_compass: pass.endAzCompass },
+      duration: pass.duration,
+    },
+  };
+}
+
+function passAlertMessage(notification: PassAlertNotification): string {
+  const { alert, event, pass } = notification;
+  const satellite = `${alert.satelliteName} (${alert.noradId})`;
+  const place = alert.observer.profile ?? `${alert.observer.latitude}, ${alert.observer.longitude}`;
+  const clock = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString().slice(11, 19) + ' UTC';
+  const summary = `max elevation ${Math.round(pass.maxEl)}° at ${clock(pass.maxUTC)} in the ${pass.maxAzCompass}, LOS ${clock(pass.endUTC)} in the ${pass.endAzCompass}`;
+  const prefix = alert.label ? `${alert.label}: ` : '';
+
+  switch (event) {
+    case 'lead':
+      return `${prefix}${satellite} rises over ${place} in ${alert.leadMinutes} minutes: AOS ${clock(pass.startUTC)} in the ${pass.startAzCompass}, ${summary}`;
+    case 'aos':
+      return `${prefix}${satellite} is rising over ${place} in the ${pass.startAzCompass}: ${summary}`;
+    case 'los':
+      return `${prefix}${satellite} has set over ${place} in the ${pass.endAzCompass} (pass of ${Math.round(pass.duration / 60)} minutes, max elevation ${Math.round(pass.maxEl)}°)`;
+  }
+}
+
+function formatPassAlert(alert: PassAlert) {
+  return {
+    id: alert.id,
+    satellite_id: alert.noradId,
+    satellite_name: alert.satelliteName,
+    label: alert.label,
+    observer: {
+      latitude: alert.observer.latitude,
+      longitude: alert.observer.longitude,
+      altitude: alert.observer.altitude,
+      ...(alert.observer.profile && { profile: alert.observer.profile }),
+      ...(alert.observer.timezone && { timezone: alert.observer.timezone }),
+    },
+    min_elevation: alert.minElevation,
+    min_max_elevation: alert.minMaxElevation,
+    lead_minutes: alert.leadMinutes,
+    events: alert.events,
+    horizon_mask_applied: alert.observer.horizonMask !== null,
+    created_at: alert.createdAt,
+  };
+}
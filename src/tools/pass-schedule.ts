@@ -0,0 +1,275 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SatellitePass } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
+import { findPasses } from '../orbit/passes.js';
+import { loadSatellite } from '../orbit/propagator.js';
+import { SCHEDULE_POLICIES, SchedulePolicy, TimelinePass, planSchedule } from '../orbit/schedule.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { formatLocalTime, formatObserver, resolveObserver } from './tool-utils.js';
+
+// Limits on the size of a schedule request
+export const MAX_SCHEDULE_SATELLITES = 25;
+export const MAX_SCHEDULE_DAYS = 10;
+
+export const planPassScheduleToolSchema = {
+  name: 'plan_pass_schedule',
+  description: 'Plan passes of several satellites for a ground station with a single antenna/rotator. Predicts the passes of every satellite locally, merges them into one chronological timeline, flags overlapping passes and proposes a conflict-free schedule using the chosen policy. Rejected passes are listed with the reason for each.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      norad_ids: {
+        type: 'array',
+        items: { type: 'number' },
+        description: `NORAD IDs of the satellites to schedule (1-${MAX_SCHEDULE_SATELLITES})`,
+        minItems: 1,
+        maxItems: MAX_SCHEDULE_SATELLITES,
+      },
+      observer: {
+        type: 'string',
+        description: 'Name of a saved observer profile; replaces observer_lat/observer_lng/observer_alt, which override the profile when also given',
+      },
+      observer_lat: {
+        type: 'number',
+        description: 'Observer latitude (-90 to 90)',
+        minimum: -90,
+        maximum: 90,
+      },
+      observer_lng: {
+        type: 'number',
+        description: 'Observer longitude (-180 to 180)',
+        minimum: -180,
+        maximum: 180,
+      },
+      observer_alt: {
+        type: 'number',
+        description: 'Observer altitude in meters (optional)',
+        minimum: 0,
+      },
+      days: {
+        type: 'number',
+        description: `Number of days to plan (1-${MAX_SCHEDULE_DAYS}, default: 1)`,
+        minimum: 1,
+        maximum: MAX_SCHEDULE_DAYS,
+      },
+      min_elevation: {
+        type: 'number',
+        description: 'Minimum elevation in degrees (0-90, defaults to the observer profile\'s, or 0)',
+        minimum: 0,
+        maximum: 90,
+      },
+      timestamp: {
+        type: 'number',
+        description: 'Start of the planning window as a Unix timestamp in seconds (defaults to now)',
+      },
+      policy: {
+        type: 'string',
+        enum: SCHEDULE_POLICIES,
+        description: 'How overlapping passes are resolved: "max_elevation" (default) keeps the highest pass, "priority" follows the priorities list, "longest_duration" keeps the longest pass',
+      },
+      priorities: {
+        type: 'array',
+        items: { type: 'number' },
+        description: 'NORAD IDs in priority order, highest first, for the "priority" policy (defaults to the order of norad_ids)',
+      },
+      min_gap_seconds: {
+        type: 'number',
+        description: 'Minimum time between two tracked passes, e.g. for the rotator to slew to the next AOS (default: 0)',
+        minimum: 0,
+      },
+    },
+    required: ['norad_ids'],
+  },
+};
+
+export async function planPassScheduleTool(
+  providers: ProviderChain,
+  profiles: ObserverProfileStore,
+  args: {
+    norad_ids: number[];
+    observer?: string;
+    observer_lat?: number;
+    observer_lng?: number;
+    observer_alt?: number;
+    days?: number;
+    min_elevation?: number;
+    timestamp?: number;
+    policy?: SchedulePolicy;
+    priorities?: number[];
+    min_gap_seconds?: number;
+  }
+) {
+  try {
+    const { norad_ids, days, min_elevation, timestamp, priorities, min_gap_seconds } = args;
+    const policy = args.policy || 'max_elevation';
+
+    // Validate NORAD IDs
+    if (!Array.isArray(norad_ids) || norad_ids.length === 0 || norad_ids.length > MAX_SCHEDULE_SATELLITES) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid norad_ids. Must be a list of 1 to ${MAX_SCHEDULE_SATELLITES} NORAD IDs.`
+      );
+    }
+
+    if (norad_ids.some(id => !Number.isInteger(id) || id <= 0)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    // Resolve the observer from a profile and/or coordinates
+    const observer = await resolveObserver(profiles, args);
+
+    // Validate days
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_SCHEDULE_DAYS)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid days. Must be an integer between 1 and ${MAX_SCHEDULE_DAYS}.`
+      );
+    }
+
+    // Validate min_elevation
+    if (min_elevation !== undefined && (min_elevation < 0 || min_elevation > 90)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_elevation. Must be between 0 and 90 degrees.'
+      );
+    }
+
+    // Validate timestamp
+    if (timestamp !== undefined && !Number.isFinite(timestamp)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid timestamp. Must be a Unix timestamp in seconds.'
+      );
+    }
+
+    // Validate policy
+    if (!SCHEDULE_POLICIES.includes(policy)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid policy. Must be one of: ${SCHEDULE_POLICIES.join(', ')}.`
+      );
+    }
+
+    if (priorities !== undefined && (!Array.isArray(priorities) || priorities.some(id => !Number.isInteger(id) || id <= 0))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid priorities. Must be a list of NORAD IDs.'
+      );
+    }
+
+    // Validate min_gap_seconds
+    if (min_gap_seconds !== undefined && (!Number.isFinite(min_gap_seconds) || min_gap_seconds < 0)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_gap_seconds. Must be zero or a positive number of seconds.'
+      );
+    }
+
+    const minElevation = min_elevation ?? observer.minElevation ?? 0;
+    const start = timestamp !== undefined ? new Date(timestamp * 1000) : new Date();
+    const end = new Date(start.getTime() + (days || 1) * 86400000);
+    const satelliteIds = [...new Set(norad_ids)];
+
+    // Predict passes per satellite; one unknown satellite should not sink the whole plan
+    const satellites: { norad_id: number; name: string | null; provider: string | null; pass_count: number; error?: string }[] = [];
+    const passes: SatellitePass[] = [];
+    for (const noradId of satelliteIds) {
+      try {
+        const tle = await providers.getTLE(noradId);
+        const satellite = loadSatellite(tle.data);
+        const satellitePasses = findPasses(satellite, observer, { start, end, minElevation });
+        passes.push(...satellitePasses);
+        satellites.push({ norad_id: noradId, name: satellite.name, provider: tle.provider, pass_count: satellitePasses.length });
+      } catch (error) {
+        console.error(`Error predicting passes of ${noradId} for the schedule:`, error);
+        satellites.push({ norad_id: noradId, name: null, provider: null, pass_count: 0, error: (error as Error).message });
+      }
+    }
+
+    const schedule = planSchedule(passes, {
+      policy,
+      priorities: priorities ?? satelliteIds,
+      gapSeconds: min_gap_seconds || 0,
+    });
+    const scheduledIds = new Set(schedule.scheduled.map(entry => entry.id));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            observer: formatObserver(observer),
+            window: {
+              start: start.toISOString(),
+              end: end.toISOString(),
+            },
+            policy,
+            ...(policy === 'priority' && { priorities: priorities ?? satelliteIds }),
+            min_elevation: minElevation,
+            min_gap_seconds: min_gap_seconds || 0,
+            satellites,
+            timeline: schedule.timeline.map(entry => ({
+              ...formatTimelinePass(entry, observer.timezone),
+              scheduled: scheduledIds.has(entry.id),
+            })),
+            schedule: schedule.scheduled.map(entry => formatTimelinePass(entry, observer.timezone)),
+            rejected: schedule.rejected.map(rejection => ({
+              ...formatTimelinePass(rejection.entry, observer.timezone),
+              reason: rejection.reason,
+              blocked_by: rejection.blockedBy,
+            })),
+            summary: {
+              pass_count: schedule.timeline.length,
+              conflicting_pass_count: schedule.timeline.filter(entry => entry.conflictsWith.length > 0).length,
+              scheduled_count: schedule.scheduled.length,
+              rejected_count: schedule.rejected.length,
+              tracked_seconds: schedule.scheduled.reduce((total, entry) => total + entry.pass.duration, 0),
+            },
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error planning pass schedule: ${(error as Error).message}`
+    );
+  }
+}
+
+function formatTimelinePass(entry: TimelinePass, timezone: string | null) {
+  const { pass } = entry;
+  const localTime = (unixSeconds: number) => timezone ? { local_time: formatLocalTime(new Date(unixSeconds * 1000), timezone) } : {};
+
+  return {
+    id: entry.id,
+    norad_id: pass.satid,
+    satellite_name: pass.satname,
+    start: {
+      time: new Date(pass.startUTC * 1000).toISOString(),
+      ...localTime(pass.startUTC),
+      azimuth: pass.startAz,
+      azimuth_compass: pass.startAzCompass,
+    },
+    max: {
+      time: new Date(pass.maxUTC * 1000).toISOString(),
+      ...localTime(pass.maxUTC),
+      azimuth: pass.maxAz,
+      elevation: pass.maxEl,
+    },
+    end: {
+      time: new Date(pass.endUTC * 1000).toISOString(),
+      ...localTime(pass.endUTC),
+      azimuth: pass.endAz,
+      azimuth_compass: pass.endAzCompass,
+    },
+    duration_seconds: pass.duration,
+    conflicts_with: entry.conflictsWith,
+  };
+}
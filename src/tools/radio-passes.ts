@@ -1,5 +1,24 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { N2YOApiClient, RadioPassesParams, SatellitePass } from '../api-client.js';
+import { RadioPassesParams, SatellitePass } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
+import { PassCalendarOptions, passesToICS } from '../export/ics.js';
+import { MaskedPass, applyHorizonMask } from '../orbit/horizon.js';
+import { findPasses } from '../orbit/passes.js';
+import { LocalSatellite, loadSatellite } from '../orbit/propagator.js';
+import { CalendarUidStore } from '../store/calendar-uids.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { TransmitterRegistry, isActiveTransmitter } from '../store/transmitters.js';
+import {
+  formatLocalTime,
+  formatMaskedPass,
+  formatObserver,
+  formatTransmitter,
+  resolveObserver,
+  transmitterInBand,
+} from './tool-utils.js';
+
+// Upper bound for locally predicted windows
+export const MAX_LOCAL_PASS_DAYS = 60;
 
 export const predictRadioPassesToolSchema = {
   name: 'predict_radio_passes',
@@ -11,6 +30,10 @@ export const predictRadioPassesToolSchema = {
         type: 'number',
         description: 'NORAD ID of the satellite',
       },
+      observer: {
+        type: 'string',
+        description: 'Name of a saved observer profile; replaces observer_lat/observer_lng/observer_alt, which override the profile when also given',
+      },
       observer_lat: {
         type: 'number',
         description: 'Observer latitude (-90 to 90)',
@@ -30,9 +53,9 @@ export const predictRadioPassesToolSchema = {
       },
       days: {
         type: 'number',
-        description: 'Number of days to predict (1-10)',
+        description: 'Number of days to predict (1-10 for n2yo, 1-60 for local)',
         minimum: 1,
-        maximum: 10,
+        maximum: MAX_LOCAL_PASS_DAYS,
       },
       min_elevation: {
         type: 'number',
@@ -40,24 +63,63 @@ export const predictRadioPassesToolSchema = {
         minimum: 0,
         maximum: 90,
       },
+      source: {
+        type: 'string',
+        enum: ['n2yo', 'local'],
+        description: 'Where passes come from: "n2yo" (default) queries the N2YO API, "local" searches the propagated TLE and does not count against the N2YO pass quota',
+      },
+      timestamp: {
+        type: 'number',
+        description: 'Start of the prediction window as a Unix timestamp in seconds (local source only, defaults to now)',
+      },
+      include_transmitters: {
+        type: 'boolean',
+        description: 'Attach the satellite\'s active transmitters from the local transmitter registry to each pass (default: false)',
+      },
+      transmitter_band: {
+        type: 'string',
+        description: 'Only attach transmitters whose downlink is in this band, as an amateur band ("2m", "70cm", "23cm") or radio band ("VHF", "UHF", "S", "X"). Implies include_transmitters',
+      },
+      horizon_mask: {
+        type: 'boolean',
+        description: 'Apply the observer profile\'s horizon mask: passes report masked AOS/LOS and time above the mask, and passes that never clear it are dropped (default: true when the profile has a mask)',
+      },
+      format: {
+        type: 'string',
+        enum: ['json', 'ics'],
+        description: 'Response format: "json" (default) or "ics" for an iCalendar document with one event per pass; event UIDs are stable, so re-importing updates existing events',
+      },
     },
-    required: ['norad_id', 'observer_lat', 'observer_lng'],
+    required: ['norad_id'],
   },
 };
 
 export async function predictRadioPassesTool(
-  apiClient: N2YOApiClient,
+  providers: ProviderChain,
+  profiles: ObserverProfileStore,
+  transmitters: TransmitterRegistry,
+  calendarUids: CalendarUidStore,
   args: {
     norad_id: number;
-    observer_lat: number;
-    observer_lng: number;
+    observer?: string;
+    observer_lat?: number;
+    observer_lng?: number;
     observer_alt?: number;
     days?: number;
     min_elevation?: number;
+    source?: 'n2yo' | 'local';
+    timestamp?: number;
+    include_transmitters?: boolean;
+    transmitter_band?: string;
+    horizon_mask?: boolean;
+    format?: 'json' | 'ics';
   }
 ) {
   try {
-    const { norad_id, observer_lat, observer_lng, observer_alt, days, min_elevation } = args;
+    const { norad_id, days, min_elevation, timestamp, transmitter_band } = args;
+    const includeTransmitters = args.include_transmitters === true || transmitter_band !== undefined;
+    const source = args.source || 'n2yo';
+    const format = args.format || 'json';
 
     // Validate NORAD ID
     if (!Number.isInteger(norad_id) || norad_id <= 0) {
@@ -67,26 +129,31 @@ export async function predictRadioPassesTool(
       );
     }
 
-    // Validate coordinates
-    if (observer_lat < -90 || observer_lat > 90) {
+    // Resolve the observer from a profile and/or coordinates
+    const observer = await resolveObserver(profiles, args);
+
+    // Validate source
+    if (source !== 'n2yo' && source !== 'local') {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid latitude. Must be between -90 and 90.'
+        'Invalid source. Must be "n2yo" or "local".'
       );
     }
 
-    if (observer_lng < -180 || observer_lng > 180) {
+    // Validate days
+    const maxDays = source === 'local' ? MAX_LOCAL_PASS_DAYS : 10;
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > maxDays)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid longitude. Must be between -180 and 180.'
+        `Invalid days. Must be an integer between 1 and ${maxDays}.`
       );
     }
 
-    // Validate days
-    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > 10)) {
+    // Validate timestamp
+    if (timestamp !== undefined && (source !== 'local' || !Number.isFinite(timestamp))) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid days. Must be an integer between 1 and 10.'
+        'Invalid timestamp. Must be a Unix timestamp in seconds and is only supported with source "local".'
       );
     }
 
@@ -98,16 +165,94 @@ export async function predictRadioPassesTool(
       );
     }
 
+    // Validate format
+    if (format !== 'json' && format !== 'ics') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid format. Must be "json" or "ics".'
+      );
+    }
+
+    // Validate transmitter_band
+    if (transmitter_band !== undefined && (typeof transmitter_band !== 'string' || transmitter_band.trim() === '')) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid transmitter_band. Must be a band name such as "2m", "70cm" or "UHF".'
+      );
+    }
+
+    const minElevation = min_elevation ?? observer.minElevation ?? 0;
     const params: RadioPassesParams = {
       noradId: norad_id,
-      observer_lat,
-      observer_lng,
-      observer_alt,
+      observer_lat: observer.latitude,
+      observer_lng: observer.longitude,
+      observer_alt: observer.altitude,
       days,
-      min_elevation,
+      min_elevation: minElevation,
     };
 
-    const passes = await apiClient.getRadioPasses(params);
+    const horizonMask = args.horizon_mask !== false ? observer.horizonMask : null;
+
+    let provider: string;
+    let passes: SatellitePass[];
+    let satellite: LocalSatellite | null = null;
+    if (source === 'local') {
+      const tle = await providers.getTLE(norad_id);
+      satellite = loadSatellite(tle.data);
+      const start = timestamp !== undefined ? new Date(timestamp * 1000) : new Date();
+      passes = findPasses(
+        satellite,
+        observer,
+        {
+          start,
+          end: new Date(start.getTime() + (days || 7) * 86400000),
+          minElevation,
+        }
+      );
+      provider = tle.provider;
+    } else {
+      ({ provider, data: passes } = await providers.getRadioPasses(params));
+    }
+
+    // Clip passes to the horizon mask and drop the ones that never clear it
+    let masked: MaskedPass[] | null = null;
+    let maskedOutCount = 0;
+    if (horizonMask && passes && passes.length > 0) {
+      const localSatellite = satellite ?? loadSatellite((await providers.getTLE(norad_id)).data);
+      const clipped = passes.map(pass => applyHorizonMask(localSatellite, observer, pass, horizonMask, minElevation));
+      maskedOutCount = clipped.filter(entry => entry === null).length;
+      passes = passes.filter((pass, index) => clipped[index] !== null);
+      masked = clipped.filter((entry): entry is MaskedPass => entry !== null);
+    }
+
+    // Active transmitters are the same for every pass of the satellite
+    let activeTransmitters: ReturnType<typeof formatTransmitter>[] | null = null;
+    if (includeTransmitters) {
+      activeTransmitters = (await transmitters.get(norad_id))
+        .filter(transmitter => isActiveTransmitter(transmitter))
+        .filter(transmitter => transmitter_band === undefined || transmitterInBand(transmitter, transmitter_band))
+        .map(transmitter => formatTransmitter(transmitter));
+    }
+
+    if (format === 'ics') {
+      const calendar: PassCalendarOptions = {
+        kind: 'radio',
+        observer,
+        calendarName: `Radio passes of ${passes?.[0]?.satname ?? norad_id}`,
+        notes: (pass, index) => [
+          ...(masked ? [formatMaskNote(masked[index])] : []),
+          ...(activeTransmitters || []).map(transmitter => formatTransmitterNote(transmitter)),
+        ],
+      };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: passesToICS(passes || [], { ...calendar, uids: await calendarUids.assign(passes || [], calendar) }),
+          },
+        ],
+      };
+    }
 
     if (!passes || passes.length === 0) {
       return {
@@ -116,14 +261,15 @@ export async function predictRadioPassesTool(
             type: 'text',
             text: JSON.stringify({
               satellite_id: norad_id,
-              observer: {
-                latitude: observer_lat,
-                longitude: observer_lng,
-                altitude: observer_alt || 0,
-              },
+              observer: formatObserver(observer),
               prediction_days: days || 7,
+              source,
+              provider,
               passes: [],
-              message: `No radio passes found for satellite ${norad_id} in the next ${days || 7} days.`,
+              ...(horizonMask && { horizon_mask_applied: true, masked_out_count: maskedOutCount }),
+              message: maskedOutCount > 0
+                ? `No radio passes of satellite ${norad_id} clear the horizon mask of ${observer.profile} in the next ${days || 7} days (${maskedOutCount} blocked).`
+                : `No radio passes found for satellite ${norad_id} in the next ${days || 7} days.`,
             }, null, 2),
           },
         ],
@@ -131,7 +277,11 @@ export async function predictRadioPassesTool(
     }
 
     // Format the response
-    const formattedPasses = passes.map(pass => formatPassData(pass));
+    const formattedPasses = passes.map((pass, index) => ({
+      ...formatPassData(pass, observer.timezone),
+      ...(masked && { horizon_mask: formatMaskedPass(masked[index], observer.timezone) }),
+      ...(activeTransmitters && { transmitters: activeTransmitters }),
+    }));
 
     return {
       content: [
@@ -140,14 +290,18 @@ export async function predictRadioPassesTool(
           text: JSON.stringify({
             satellite_id: norad_id,
             satellite_name: passes[0].satname,
-            observer: {
-              latitude: observer_lat,
-              longitude: observer_lng,
-              altitude: observer_alt || 0,
-            },
+            observer: formatObserver(observer),
             prediction_days: days || 7,
-            min_elevation: min_elevation || 0,
+            min_elevation: minElevation,
+            source,
+            provider,
+            ...(horizonMask && { horizon_mask_applied: true, masked_out_count: maskedOutCount }),
             passes: formattedPasses,
+            ...(activeTransmitters && activeTransmitters.length === 0 && {
+              message: transmitter_band !== undefined
+                ? `No active transmitters of satellite ${norad_id} in the ${transmitter_band} band are known. Import transmitters with import_transmitters.`
+                : `No active transmitters of satellite ${norad_id} are known. Import transmitters with import_transmitters.`,
+            }),
           }, null, 2),
         },
       ],
@@ -164,7 +318,7 @@ export async function predictRadioPassesTool(
   }
 }
 
-function formatPassData(pass: SatellitePass) {
+function formatPassData(pass: SatellitePass, timezone: string | null) {
   // Convert timestamps to ISO strings
   const startDate = new Date(pass.startUTC * 1000);
   const maxDate = new Date(pass.maxUTC * 1000);
@@ -173,18 +327,21 @@ function formatPassData(pass: SatellitePass) {
   return {
     start: {
       time: startDate.toISOString(),
+      ...(timezone && { local_time: formatLocalTime(startDate, timezone) }),
       azimuth: pass.startAz,
       azimuth_compass: pass.startAzCompass,
       elevation: pass.startEl,
     },
     max: {
       time: maxDate.toISOString(),
+      ...(timezone && { local_time: formatLocalTime(maxDate, timezone) }),
       azimuth: pass.maxAz,
       azimuth_compass: pass.maxAzCompass,
       elevation: pass.maxEl,
     },
     end: {
       time: endDate.toISOString(),
+      ...(timezone && { local_time: formatLocalTime(endDate, timezone) }),
       azimuth: pass.endAz,
       azimuth_compass: pass.endAzCompass,
       elevation: pass.endEl,
@@ -192,3 +349,19 @@ function formatPassData(pass: SatellitePass) {
     duration_seconds: pass.duration,
   };
 }
+
+function formatMaskNote(masked: MaskedPass): string {
+  const { pass } = masked;
+  const time = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString();
+  return `Above horizon mask: ${time(pass.startUTC)} to ${time(pass.endUTC)} (${masked.secondsAboveMask} s)`;
+}
+
+function formatTransmitterNote(transmitter: ReturnType<typeof formatTransmitter>): string {
+  const downlink = transmitter.downlink
+    ? ` downlink ${transmitter.downlink.low_mhz} MHz${transmitter.downlink.mode ? ` ${transmitter.downlink.mode}` : ''}`
+    : '';
+  const uplink = transmitter.uplink
+    ? ` uplink ${transmitter.uplink.low_mhz} MHz${transmitter.uplink.mode ? ` ${transmitter.uplink.mode}` : ''}`
+    : '';
+  return `Transmitter: ${transmitter.description}${downlink}${uplink}`;
+}
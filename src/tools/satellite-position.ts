@@ -1,5 +1,16 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { N2YOApiClient, PositionParams, SatellitePosition } from '../api-client.js';
+import { PositionParams, SatellitePosition } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
+import { trackToCZML } from '../export/czml.js';
+import { trackToKML } from '../export/kml.js';
+import { TrackExport, aboveHorizonIntervals } from '../export/track.js';
+import { computePositions, loadSatellite } from '../orbit/propagator.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { formatLocalTime, formatObserver, resolveObserver } from './tool-utils.js';
+
+// Upper bounds for locally propagated positions
+const MAX_LOCAL_SECONDS = 86400;
+const MAX_LOCAL_POSITIONS = 1000;
 
 export const getSatellitePositionToolSchema = {
   name: 'get_satellite_position',
@@ -11,6 +22,10 @@ export const getSatellitePositionToolSchema = {
         type: 'number',
         description: 'NORAD ID of the satellite',
       },
+      observer: {
+        type: 'string',
+        description: 'Name of a saved observer profile; replaces observer_lat/observer_lng/observer_alt, which override the profile when also given',
+      },
       observer_lat: {
         type: 'number',
         description: 'Observer latitude (-90 to 90)',
@@ -30,27 +45,54 @@ export const getSatellitePositionToolSchema = {
       },
       seconds: {
         type: 'number',
-        description: 'Number of seconds to predict (1-300)',
+        description: 'Number of seconds to predict (1-300 for n2yo, 1-86400 for local)',
         minimum: 1,
-        maximum: 300,
+        maximum: MAX_LOCAL_SECONDS,
+      },
+      source: {
+        type: 'string',
+        enum: ['n2yo', 'local'],
+        description: 'Where positions come from: "n2yo" (default) queries the N2YO API, "local" propagates the TLE with SGP4/SDP4',
+      },
+      timestamp: {
+        type: 'number',
+        description: 'Start time as a Unix timestamp in seconds (local source only, defaults to now)',
+      },
+      step_seconds: {
+        type: 'number',
+        description: 'Seconds between positions (local source only, defaults to 1)',
+        minimum: 1,
+      },
+      format: {
+        type: 'string',
+        enum: ['json', 'czml', 'kml'],
+        description: 'Response format: "json" (default), "czml" for a Cesium CZML document with time-tagged position samples, the observer and its line of sight while the satellite is above the horizon, or "kml" for Google Earth with the track and observer placemark',
       },
     },
-    required: ['norad_id', 'observer_lat', 'observer_lng'],
+    required: ['norad_id'],
   },
 };
 
 export async function getSatellitePositionTool(
-  apiClient: N2YOApiClient,
+  providers: ProviderChain,
+  profiles: ObserverProfileStore,
   args: {
     norad_id: number;
-    observer_lat: number;
-    observer_lng: number;
+    observer?: string;
+    observer_lat?: number;
+    observer_lng?: number;
     observer_alt?: number;
     seconds?: number;
+    source?: 'n2yo' | 'local';
+    timestamp?: number;
+    step_seconds?: number;
+    format?: 'json' | 'czml' | 'kml';
   }
 ) {
   try {
-    const { norad_id, observer_lat, observer_lng, observer_alt, seconds } = args;
+    const { norad_id, seconds, timestamp, step_seconds } = args;
+    const source = args.source || 'n2yo';
+    const format = args.format || 'json';
 
     // Validate NORAD ID
     if (!Number.isInteger(norad_id) || norad_id <= 0) {
@@ -60,38 +102,89 @@ export async function getSatellitePositionTool(
       );
     }
 
-    // Validate coordinates
-    if (observer_lat < -90 || observer_lat > 90) {
+    // Resolve the observer from a profile and/or coordinates
+    const observer = await resolveObserver(profiles, args);
+
+    // Validate source
+    if (source !== 'n2yo' && source !== 'local') {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid latitude. Must be between -90 and 90.'
+        'Invalid source. Must be "n2yo" or "local".'
       );
     }
 
-    if (observer_lng < -180 || observer_lng > 180) {
+    // Validate format
+    if (!['json', 'czml', 'kml'].includes(format)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid longitude. Must be between -180 and 180.'
+        'Invalid format. Must be "json", "czml" or "kml".'
       );
     }
 
     // Validate seconds
-    if (seconds !== undefined && (seconds < 1 || seconds > 300)) {
+    const maxSeconds = source === 'local' ? MAX_LOCAL_SECONDS : 300;
+    if (seconds !== undefined && (seconds < 1 || seconds > maxSeconds)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid seconds. Must be between 1 and ${maxSeconds}.`
+      );
+    }
+
+    if (source === 'n2yo' && (timestamp !== undefined || step_seconds !== undefined)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'timestamp and step_seconds are only supported with source "local".'
+      );
+    }
+
+    // Validate timestamp
+    if (timestamp !== undefined && !Number.isFinite(timestamp)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid seconds. Must be between 1 and 300.'
+        'Invalid timestamp. Must be a Unix timestamp in seconds.'
+      );
+    }
+
+    // Validate step_seconds
+    if (step_seconds !== undefined && (!Number.isFinite(step_seconds) || step_seconds < 1)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid step_seconds. Must be at least 1.'
+      );
+    }
+
+    if (source === 'local' && Math.ceil((seconds || 60) / (step_seconds || 1)) > MAX_LOCAL_POSITIONS) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Too many positions requested. seconds / step_seconds must not exceed ${MAX_LOCAL_POSITIONS}.`
       );
     }
 
     const params: PositionParams = {
       noradId: norad_id,
-      observer_lat,
-      observer_lng,
-      observer_alt,
+      observer_lat: observer.latitude,
+      observer_lng: observer.longitude,
+      observer_alt: observer.altitude,
       seconds,
     };
 
-    const positions = await apiClient.getPositions(params);
+    let provider: string;
+    let positions: SatellitePosition[];
+    if (source === 'local') {
+      const tle = await providers.getTLE(norad_id);
+      const satellite = loadSatellite(tle.data);
+      const start = timestamp !== undefined ? new Date(timestamp * 1000) : new Date();
+      positions = computePositions(
+        satellite,
+        observer,
+        start,
+        seconds || 60,
+        step_seconds || 1
+      );
+      provider = tle.provider;
+    } else {
+      ({ provider, data: positions } = await providers.getPositions(params));
+    }
 
     if (!positions || positions.length === 0) {
       throw new McpError(
@@ -100,8 +193,31 @@ export async function getSatellitePositionTool(
       );
     }
 
+    if (format !== 'json') {
+      const track: TrackExport = {
+        noradId: norad_id,
+        name: positions[0].satname,
+        points: positions.map(pos => ({
+          time: pos.timestamp * 1000,
+          latitude: pos.satlatitude,
+          longitude: pos.satlongitude,
+          altitude: pos.sataltitude,
+        })),
+        observer: { ...observer, name: observer.profile },
+        passes: aboveHorizonIntervals(positions.map(pos => ({ time: pos.timestamp * 1000, elevation: pos.elevation }))),
+      };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: format === 'czml' ? JSON.stringify(trackToCZML(track), null, 2) : trackToKML(track),
+          },
+        ],
+      };
+    }
+
     // Format the response
-    const formattedPositions = positions.map(pos => formatPositionData(pos));
+    const formattedPositions = positions.map(pos => formatPositionData(pos, observer.timezone));
 
     return {
       content: [
@@ -110,11 +226,9 @@ export async function getSatellitePositionTool(
           text: JSON.stringify({
             satellite_id: norad_id,
             satellite_name: positions[0].satname,
-            observer: {
-              latitude: observer_lat,
-              longitude: observer_lng,
-              altitude: observer_alt || 0,
-            },
+            source,
+            provider,
+            observer: formatObserver(observer),
             positions: formattedPositions,
           }, null, 2),
         },
@@ -132,12 +246,13 @@ export async function getSatellitePositionTool(
   }
 }
 
-function formatPositionData(position: SatellitePosition) {
+function formatPositionData(position: SatellitePosition, timezone: string | null) {
   // Convert timestamp to ISO string
   const date = new Date(position.timestamp * 1000);
 
   return {
     timestamp: date.toISOString(),
+    ...(timezone && { local_time: formatLocalTime(date, timezone) }),
     position: {
       latitude: position.satlatitude,
       longitude: position.satlongitude,
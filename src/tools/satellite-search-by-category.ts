@@ -1,5 +1,6 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { N2YOApiClient, SatelliteAbove } from '../api-client.js'; // Assuming SatelliteAbove is correct
+import { SatelliteAbove } from '../api-client.js'; // Assuming SatelliteAbove is correct
+import { ProviderChain } from '../providers/chain.js';
 import { CATEGORY_MAPPING, formatSatelliteData } from './tool-utils.js';
 
 export const searchSatellitesByCategoryToolSchema = {
@@ -20,7 +21,7 @@ export const searchSatellitesByCategoryToolSchema = {
 };
 
 export async function searchSatellitesByCategoryTool(
-  apiClient: N2YOApiClient,
+  providers: ProviderChain,
   args: {
     category_id: number;
   }
@@ -37,7 +38,7 @@ export async function searchSatellitesByCategoryTool(
     }
 
     // Search for satellites
-    const satellites = await apiClient.searchSatellites('', category_id); // Pass empty string for query
+    const { provider, data: satellites } = await providers.getCategory(category_id);
 
     const categoryName = CATEGORY_MAPPING[category_id] || `Unknown (${category_id})`;
 
@@ -49,6 +50,7 @@ export async function searchSatellitesByCategoryTool(
             text: JSON.stringify({
               query: null,
               category: categoryName,
+              provider,
               satellites: [],
               count: 0,
               message: `No satellites found in category: ${categoryName}.`,
@@ -68,6 +70,7 @@ export async function searchSatellitesByCategoryTool(
           text: JSON.stringify({
             query: null,
             category: categoryName,
+            provider,
             satellites: formattedSatellites,
             count: formattedSatellites.length,
             timestamp: new Date().toISOString(),
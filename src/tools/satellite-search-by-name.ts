@@ -1,16 +1,22 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { N2YOApiClient, SatelliteAbove } from '../api-client.js'; // Assuming SatelliteAbove is the correct type for individual satellite data
-import { CATEGORY_MAPPING, formatSatelliteData } from './tool-utils.js'; // We'll need to extract common functions
+import { CatalogMatch, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, SatelliteCatalog } from '../store/catalog.js';
+import { formatCatalogMetadata } from './tool-utils.js';
 
 export const searchSatellitesByNameToolSchema = {
   name: 'search_satellites_by_name',
-  description: 'Search for satellites by name',
+  description: 'Search the local satellite catalog by name, alias, NORAD ID or international designator. Matches exact names, prefixes, words and near-misses, best matches first. The catalog is built from imported catalog files, imported element sets and every satellite the server has seen.',
   inputSchema: {
     type: 'object',
     properties: {
       query: {
         type: 'string',
-        description: 'Search query for satellite name',
+        description: 'Search query (e.g. "HUBBLE", "ISS", "25544" or "1998-067A")',
+      },
+      limit: {
+        type: 'number',
+        description: `Maximum number of results (1-${MAX_SEARCH_LIMIT}, default: ${DEFAULT_SEARCH_LIMIT})`,
+        minimum: 1,
+        maximum: MAX_SEARCH_LIMIT,
       },
     },
     required: ['query'],
@@ -18,18 +24,36 @@ export const searchSatellitesByNameToolSchema = {
 };
 
 export async function searchSatellitesByNameTool(
-  apiClient: N2YOApiClient,
+  catalog: SatelliteCatalog,
   args: {
     query: string;
+    limit?: number;
   }
 ) {
   try {
-    const { query } = args;
+    const { query, limit } = args;
+
+    // Validate query
+    if (typeof query !== 'string' || query.trim() === '') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid query. Must be a non-empty string.'
+      );
+    }
 
-    // Search for satellites
-    const satellites = await apiClient.searchSatellites(query, undefined); // Pass undefined for category_id
+    // Validate limit
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid limit. Must be an integer between 1 and ${MAX_SEARCH_LIMIT}.`
+      );
+    }
 
-    if (!satellites || satellites.length === 0) {
+    // Search the catalog
+    const matches = await catalog.search(query, limit ?? DEFAULT_SEARCH_LIMIT);
+    const catalogSize = await catalog.size();
+
+    if (matches.length === 0) {
       return {
         content: [
           {
@@ -39,7 +63,10 @@ export async function searchSatellitesByNameTool(
               category: null,
               satellites: [],
               count: 0,
-              message: 'No satellites found matching the search name.',
+              catalog_size: catalogSize,
+              message: catalogSize === 0
+                ? 'The satellite catalog is empty. Import a catalog file with import_catalog, or look satellites up by NORAD ID first.'
+                : 'No satellites found matching the search name.',
             }, null, 2),
           },
         ],
@@ -47,7 +74,7 @@ export async function searchSatellitesByNameTool(
     }
 
     // Format the response
-    const formattedSatellites = satellites.map(sat => formatSatelliteData(sat));
+    const formattedSatellites = matches.map(match => formatMatch(match));
 
     return {
       content: [
@@ -58,6 +85,7 @@ export async function searchSatellitesByNameTool(
             category: null,
             satellites: formattedSatellites,
             count: formattedSatellites.length,
+            catalog_size: catalogSize,
             timestamp: new Date().toISOString(),
           }, null, 2),
         },
@@ -74,3 +102,17 @@ export async function searchSatellitesByNameTool(
     );
   }
 }
+
+function formatMatch(match: CatalogMatch) {
+  return {
+    norad_id: match.entry.noradId,
+    name: match.entry.name,
+    aliases: match.entry.aliases,
+    international_designator: match.entry.intDesignator,
+    score: match.score,
+    matched_on: match.matchedOn,
+    matched_text: match.matchedText,
+    sources: match.entry.sources,
+    catalog: formatCatalogMetadata(match.entry),
+  };
+}
@@ -1,9 +1,10 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { N2YOApiClient, SatelliteTLE } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
+import { formatElementSet, parseProviderTLE } from './tool-utils.js';
 
 export const getSatelliteTLEToolSchema = {
   name: 'get_satellite_tle',
-  description: 'Get TLE (Two-Line Element) data for a satellite by NORAD ID',
+  description: 'Get TLE (Two-Line Element) data for a satellite by NORAD ID. The element set is validated (column format, checksums, element ranges) and decoded into its epoch and age, inclination, RAAN, eccentricity, argument of perigee, mean anomaly, mean motion and B*, with the derived period, semi-major axis and apogee/perigee altitudes',
   inputSchema: {
     type: 'object',
     properties: {
@@ -11,17 +12,21 @@ export const getSatelliteTLEToolSchema = {
         type: 'number',
         description: 'NORAD ID of the satellite',
       },
+      refresh: {
+        type: 'boolean',
+        description: 'Bypass the local TLE cache and fetch the latest element set from the data providers. An imported element set is still served when its epoch is newer',
+      },
     },
     required: ['norad_id'],
   },
 };
 
 export async function getSatelliteTLETool(
-  apiClient: N2YOApiClient,
-  args: { norad_id: number }
+  providers: ProviderChain,
+  args: { norad_id: number; refresh?: boolean }
 ) {
   try {
-    const { norad_id } = args;
+    const { norad_id, refresh } = args;
 
     // Validate NORAD ID
     if (!Number.isInteger(norad_id) || norad_id <= 0) {
@@ -31,7 +36,7 @@ export async function getSatelliteTLETool(
       );
     }
 
-    const tleData = await apiClient.getTLE(norad_id);
+    const { provider, data: tleData } = await providers.getTLE(norad_id, { refresh: refresh === true });
 
     if (!tleData || !tleData.tle) {
       throw new McpError(
@@ -40,19 +45,40 @@ export async function getSatelliteTLETool(
       );
     }
 
-    // Parse TLE data
-    const tleLines = tleData.tle.split('\r\n');
+    // Validate and decode the element set
+    const { lines, elements } = parseProviderTLE(norad_id, provider, tleData.tle);
 
     // Format the response
     const formattedResponse = {
       satellite_id: norad_id,
       satellite_name: tleData.satname,
-      tle: {
-        line1: tleLines[0] || '',
-        line2: tleLines[1] || '',
-        line3: tleLines[2] || '',
-      },
+      provider,
+      ...formatElementSet(lines, elements),
       updated: new Date().toISOString(),
+      ...(tleData.cache && {
+        cache: {
+          cached: tleData.cache.cached,
+          stale: tleData.cache.stale,
+          epoch: tleData.cache.epoch,
+          epoch_age_hours: tleData.cache.epochAgeHours,
+          fetched_at: tleData.cache.fetchedAt,
+        },
+      }),
+      ...(tleData.provenance && {
+        provenance: {
+          file: tleData.provenance.file,
+          line: tleData.provenance.line,
+          format: tleData.provenance.format,
+          imported_at: tleData.provenance.importedAt,
+          ...(tleData.imported && {
+            epoch_age_hours: tleData.imported.epochAgeHours,
+            stale: tleData.imported.stale,
+            ...(tleData.imported.stale && {
+              warning: `The imported element set is ${Math.round(tleData.imported.epochAgeHours / 24)} days old and the providers have nothing newer; propagation errors grow with its age. Import a newer element set.`,
+            }),
+          }),
+        },
+      }),
     };
 
     return {
@@ -1,5 +1,9 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { AboveParams, N2YOApiClient, SatelliteAbove } from '../api-client.js';
+import { AboveParams, SatelliteAbove } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
+import { SatelliteCatalog } from '../store/catalog.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { formatCatalogMetadata, formatLocalTime, formatObserver, resolveObserver } from './tool-utils.js';
 
 export const getSatellitesAboveToolSchema = {
   name: 'get_satellites_above',
@@ -7,6 +11,10 @@ export const getSatellitesAboveToolSchema = {
   inputSchema: {
     type: 'object',
     properties: {
+      observer: {
+        type: 'string',
+        description: 'Name of a saved observer profile; replaces observer_lat/observer_lng/observer_alt, which override the profile when also given',
+      },
       observer_lat: {
         type: 'number',
         description: 'Observer latitude (-90 to 90)',
@@ -37,7 +45,7 @@ export const getSatellitesAboveToolSchema = {
         maximum: 30,
       },
     },
-    required: ['observer_lat', 'observer_lng'],
+    required: [],
   },
 };
 
@@ -77,32 +85,23 @@ const CATEGORY_MAPPING: Record<number, string> = {
 };
 
 export async function getSatellitesAboveTool(
-  apiClient: N2YOApiClient,
+  providers: ProviderChain,
+  catalog: SatelliteCatalog,
+  profiles: ObserverProfileStore,
   args: {
-    observer_lat: number;
-    observer_lng: number;
+    observer?: string;
+    observer_lat?: number;
+    observer_lng?: number;
     observer_alt?: number;
     search_radius?: number;
     category_id?: number;
   }
 ) {
   try {
-    const { observer_lat, observer_lng, observer_alt, search_radius, category_id } = args;
-
-    // Validate coordinates
-    if (observer_lat < -90 || observer_lat > 90) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid latitude. Must be between -90 and 90.'
-      );
-    }
+    const { search_radius, category_id } = args;
 
-    if (observer_lng < -180 || observer_lng > 180) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        'Invalid longitude. Must be between -180 and 180.'
-      );
-    }
+    // Resolve the observer from a profile and/or coordinates
+    const observer = await resolveObserver(profiles, args);
 
     // Validate search_radius
     if (search_radius !== undefined && (search_radius < 0 || search_radius > 90)) {
@@ -121,14 +120,14 @@ export async function getSatellitesAboveTool(
     }
 
     const params: AboveParams = {
-      observer_lat,
-      observer_lng,
-      observer_alt,
+      observer_lat: observer.latitude,
+      observer_lng: observer.longitude,
+      observer_alt: observer.altitude,
       search_radius,
       category_id,
     };
 
-    const satellites = await apiClient.getAbove(params);
+    const { provider, data: satellites } = await providers.getAbove(params);
 
     if (!satellites || satellites.length === 0) {
       return {
@@ -136,13 +135,10 @@ export async function getSatellitesAboveTool(
           {
             type: 'text',
             text: JSON.stringify({
-              observer: {
-                latitude: observer_lat,
-                longitude: observer_lng,
-                altitude: observer_alt || 0,
-              },
+              observer: formatObserver(observer),
               search_radius: search_radius || 90,
               category: category_id !== undefined ? CATEGORY_MAPPING[category_id] || `Unknown (${category_id})` : 'All',
+              provider,
               satellites: [],
               count: 0,
               message: 'No satellites found above the specified location.',
@@ -152,24 +148,26 @@ export async function getSatellitesAboveTool(
       };
     }
 
-    // Format the response
-    const formattedSatellites = satellites.map(sat => formatSatelliteData(sat));
+    // Format the response, with SATCAT metadata where it has been imported
+    const entries = await catalog.getMany(satellites.map(sat => sat.satid));
+    const formattedSatellites = satellites.map(sat => ({
+      ...formatSatelliteData(sat),
+      catalog: formatCatalogMetadata(entries.get(sat.satid)),
+    }));
 
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify({
-            observer: {
-              latitude: observer_lat,
-              longitude: observer_lng,
-              altitude: observer_alt || 0,
-            },
+            observer: formatObserver(observer),
             search_radius: search_radius || 90,
             category: category_id !== undefined ? CATEGORY_MAPPING[category_id] || `Unknown (${category_id})` : 'All',
+            provider,
             satellites: formattedSatellites,
             count: formattedSatellites.length,
             timestamp: new Date().toISOString(),
+            ...(observer.timezone && { local_time: formatLocalTime(new Date(), observer.timezone) }),
           }, null, 2),
         },
       ],
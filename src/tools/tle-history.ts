@@ -0,0 +1,166 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_MANEUVER_THRESHOLDS, ManeuverThresholds, detectManeuvers } from '../orbit/maneuvers.js';
+import { decodeTLE, orbitGeometry } from '../orbit/tle.js';
+import { TLEHistory } from '../store/tle-history.js';
+
+export const getTLEHistoryToolSchema = {
+  name: 'get_tle_history',
+  description: 'Get every distinct element set recorded for a satellite (fetched from the data providers or imported with import_elements) in epoch order, unless the server operator limited the history with TLE_HISTORY_RETENTION_DAYS or TLE_HISTORY_MAX_ENTRIES, with its semi-major axis, inclination and mean motion, and flag maneuvers or anomalies: epochs where the semi-major axis, inclination or mean motion jump beyond the thresholds compared with the previous element set, after removing the expected drag decay.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      norad_id: {
+        type: 'number',
+        description: 'NORAD ID of the satellite',
+      },
+      start_time: {
+        type: 'number',
+        description: 'Only element sets with an epoch at or after this Unix timestamp in seconds',
+      },
+      end_time: {
+        type: 'number',
+        description: 'Only element sets with an epoch at or before this Unix timestamp in seconds',
+      },
+      semi_major_axis_threshold_km: {
+        type: 'number',
+        description: `Flag semi-major axis jumps larger than this many km (default: ${DEFAULT_MANEUVER_THRESHOLDS.semiMajorAxisKm})`,
+        exclusiveMinimum: 0,
+      },
+      inclination_threshold_deg: {
+        type: 'number',
+        description: `Flag inclination jumps larger than this many degrees (default: ${DEFAULT_MANEUVER_THRESHOLDS.inclinationDeg})`,
+        exclusiveMinimum: 0,
+      },
+      mean_motion_threshold: {
+        type: 'number',
+        description: `Flag mean motion jumps larger than this many revolutions per day (default: ${DEFAULT_MANEUVER_THRESHOLDS.meanMotion})`,
+        exclusiveMinimum: 0,
+      },
+    },
+    required: ['norad_id'],
+  },
+};
+
+export async function getTLEHistoryTool(
+  history: TLEHistory,
+  args: {
+    norad_id: number;
+    start_time?: number;
+    end_time?: number;
+    semi_major_axis_threshold_km?: number;
+    inclination_threshold_deg?: number;
+    mean_motion_threshold?: number;
+  }
+) {
+  try {
+    const { norad_id, start_time, end_time } = args;
+
+    // Validate NORAD ID
+    if (!Number.isInteger(norad_id) || norad_id <= 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid NORAD ID. Must be a positive integer.'
+      );
+    }
+
+    // Validate start_time and end_time
+    if (start_time !== undefined && !Number.isFinite(start_time)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid start_time. Must be a Unix timestamp in seconds.'
+      );
+    }
+
+    if (end_time !== undefined && (!Number.isFinite(end_time) || (start_time !== undefined && end_time < start_time))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid end_time. Must be a Unix timestamp in seconds, not before start_time.'
+      );
+    }
+
+    // Validate thresholds
+    const thresholdArgs: [string, number | undefined][] = [
+      ['semi_major_axis_threshold_km', args.semi_major_axis_threshold_km],
+      ['inclination_threshold_deg', args.inclination_threshold_deg],
+      ['mean_motion_threshold', args.mean_motion_threshold],
+    ];
+    for (const [name, value] of thresholdArgs) {
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid ${name}. Must be greater than 0.`
+        );
+      }
+    }
+
+    const thresholds: ManeuverThresholds = {
+      semiMajorAxisKm: args.semi_major_axis_threshold_km ?? DEFAULT_MANEUVER_THRESHOLDS.semiMajorAxisKm,
+      inclinationDeg: args.inclination_threshold_deg ?? DEFAULT_MANEUVER_THRESHOLDS.inclinationDeg,
+      meanMotion: args.mean_motion_threshold ?? DEFAULT_MANEUVER_THRESHOLDS.meanMotion,
+    };
+
+    const entries = (await history.get(norad_id)).filter(entry => {
+      const epoch = Date.parse(entry.epoch);
+      return (start_time === undefined || epoch >= start_time * 1000) && (end_time === undefined || epoch <= end_time * 1000);
+    });
+    const elements = entries.map(entry => decodeTLE(entry.tle));
+    const maneuvers = detectManeuvers(elements, thresholds);
+    const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            satellite_id: norad_id,
+            satellite_name: entries.length > 0 ? entries[entries.length - 1].satname : null,
+            element_set_count: entries.length,
+            element_sets: entries.map((entry, index) => {
+              const orbit = orbitGeometry(elements[index]);
+              return {
+                epoch: entry.epoch,
+                source: entry.source,
+                first_seen_at: entry.firstSeenAt,
+                line1: entry.tle.split('\r\n')[0],
+                line2: entry.tle.split('\r\n')[1],
+                semi_major_axis_km: round(orbit.semiMajorAxis, 3),
+                apogee_km: round(orbit.apogee, 1),
+                perigee_km: round(orbit.perigee, 1),
+                inclination: elements[index].inclination,
+                eccentricity: elements[index].eccentricity,
+                mean_motion: elements[index].meanMotion,
+              };
+            }),
+            thresholds: {
+              semi_major_axis_km: thresholds.semiMajorAxisKm,
+              inclination_deg: thresholds.inclinationDeg,
+              mean_motion: thresholds.meanMotion,
+            },
+            maneuver_count: maneuvers.length,
+            maneuvers: maneuvers.map(maneuver => ({
+              epoch: maneuver.epoch.toISOString(),
+              previous_epoch: maneuver.previousEpoch.toISOString(),
+              types: maneuver.types,
+              exceeded: maneuver.exceeded,
+              semi_major_axis_change_km: round(maneuver.semiMajorAxisChange, 3),
+              inclination_change_deg: round(maneuver.inclinationChange, 4),
+              mean_motion_change: round(maneuver.meanMotionChange, 8),
+            })),
+            ...(entries.length === 0 && {
+              message: `No element sets recorded for NORAD ID ${norad_id}${start_time !== undefined || end_time !== undefined ? ' in this time range' : ''}. Element sets are recorded whenever they are fetched from a provider or imported with import_elements.`,
+            }),
+          }, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Error retrieving TLE history: ${(error as Error).message}`
+    );
+  }
+}
@@ -1,4 +1,10 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { SatelliteAbove } from '../api-client.js'; // Adjust path if necessary
+import { HorizonPoint, MaskedPass } from '../orbit/horizon.js';
+import { TLEElements, TLELines, decodeTLE, orbitGeometry, splitTLE, validateTLE } from '../orbit/tle.js';
+import { CatalogEntry } from '../store/catalog.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { FrequencyRange, Transmitter, amateurBand, radioBand } from '../store/transmitters.js';
 
 export const CATEGORY_MAPPING: Record<number, string> = {
   0: 'All',
@@ -47,3 +53,295 @@ export function formatSatelliteData(satellite: SatelliteAbove) { // Ensure Satel
     },
   };
 }
+
+/**
+ * SATCAT metadata of a catalog entry (owner, object type, launch, decay, orbit, RCS), or null if none was imported
+ */
+export function formatCatalogMetadata(entry: CatalogEntry | undefined) {
+  if (!entry?.satcat) {
+    return null;
+  }
+
+  const satcat = entry.satcat;
+  return {
+    object_type: satcat.objectType,
+    operational_status: satcat.operationalStatus,
+    owner: satcat.owner,
+    launch_date: satcat.launchDate,
+    launch_site: satcat.launchSite,
+    decay_date: satcat.decayDate,
+    decayed: satcat.decayDate !== null,
+    period_minutes: satcat.periodMinutes,
+    inclination: satcat.inclination,
+    apogee_km: satcat.apogeeKm,
+    perigee_km: satcat.perigeeKm,
+    rcs_m2: satcat.rcsSquareMeters,
+    rcs_size: satcat.rcsSize,
+  };
+}
+
+function formatFrequencyRange(range: FrequencyRange | null, mode: string | null) {
+  if (!range) {
+    return null;
+  }
+
+  return {
+    low_mhz: range.low / 1e6,
+    high_mhz: range.high / 1e6,
+    band: radioBand(range.low),
+    amateur_band: amateurBand(range.low),
+    mode,
+  };
+}
+
+/**
+ * Split, validate and decode an element set served by a provider. A
+ * malformed element set is a provider fault, reported with every problem found.
+ */
+export function parseProviderTLE(noradId: number, provider: string, tle: string): { lines: TLELines; elements: TLEElements } {
+  let lines: TLELines;
+  try {
+    lines = splitTLE(tle);
+  } catch {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Malformed TLE for NORAD ID ${noradId} from ${provider}: expected a line starting with "1 " followed by a line starting with "2 ".`
+    );
+  }
+
+  const problems = validateTLE(lines);
+  if (problems.length > 0) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Malformed TLE for NORAD ID ${noradId} from ${provider}: ${problems.join(' ')}`
+    );
+  }
+
+  return { lines, elements: decodeTLE(lines) };
+}
+
+/**
+ * Raw lines, decoded mean elements and derived orbit of an element set
+ */
+export function formatElementSet(lines: TLELines, elements: TLEElements, now: Date = new Date()) {
+  const orbit = orbitGeometry(elements);
+  const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+  return {
+    tle: {
+      ...(lines.name && { name: lines.name }),
+      line1: lines.line1,
+      line2: lines.line2,
+    },
+    elements: {
+      norad_id: elements.noradId,
+      classification: elements.classification,
+      international_designator: elements.intDesignator,
+      epoch: elements.epoch.toISOString(),
+      epoch_age_days: round((now.getTime() - elements.epoch.getTime()) / 86400000, 3),
+      inclination: elements.inclination,
+      raan: elements.raan,
+      eccentricity: elements.eccentricity,
+      arg_of_perigee: elements.argOfPerigee,
+      mean_anomaly: elements.meanAnomaly,
+      mean_motion: elements.meanMotion,
+      mean_motion_dot: elements.meanMotionDot,
+      mean_motion_ddot: elements.meanMotionDdot,
+      bstar: elements.bstar,
+      element_set_number: elements.elementSetNumber,
+      revolution_number: elements.revolutionNumber,
+    },
+    orbit: {
+      period_minutes: round(orbit.periodMinutes, 3),
+      semi_major_axis_km: round(orbit.semiMajorAxis, 1),
+      apogee_km: round(orbit.apogee, 1),
+      perigee_km: round(orbit.perigee, 1),
+    },
+  };
+}
+
+/**
+ * Transmitter details with frequencies in MHz and the bands they fall in
+ */
+export function formatTransmitter(transmitter: Transmitter) {
+  return {
+    uuid: transmitter.uuid,
+    description: transmitter.description,
+    type: transmitter.type,
+    status: transmitter.status,
+    alive: transmitter.alive,
+    service: transmitter.service,
+    downlink: formatFrequencyRange(transmitter.downlink, transmitter.mode),
+    uplink: formatFrequencyRange(transmitter.uplink, transmitter.uplinkMode),
+    invert: transmitter.invert,
+    baud: transmitter.baud,
+    updated: transmitter.updated,
+  };
+}
+
+/**
+ * Whether a transmitter's downlink falls in a band, given as an amateur band ("2m", "70cm") or radio band ("VHF", "S")
+ */
+export function transmitterInBand(transmitter: Transmitter, band: string): boolean {
+  if (!transmitter.downlink) {
+    return false;
+  }
+  const wanted = band.trim().toLowerCase();
+  return [amateurBand(transmitter.downlink.low), radioBand(transmitter.downlink.low)]
+    .some(name => name !== null && name.toLowerCase() === wanted);
+}
+
+// Interface for the observer arguments accepted by the tools
+export interface ObserverArgs {
+  observer?: string; // name of a saved observer profile
+  observer_lat?: number;
+  observer_lng?: number;
+  observer_alt?: number;
+}
+
+// Interface for an observer resolved from a profile and/or raw coordinates
+export interface ResolvedObserver {
+  latitude: number;
+  longitude: number;
+  altitude: number; // meters
+  profile: string | null;
+  minElevation: number | null; // profile default, degrees
+  timezone: string | null;
+  horizonMask: HorizonPoint[] | null; // profile horizon mask
+}
+
+/**
+ * Whether a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Resolve the observer of a tool call. A named profile supplies the
+ * location, default minimum elevation and time zone; explicit
+ * observer_lat/observer_lng/observer_alt override the profile's values.
+ */
+export async function resolveObserver(profiles: ObserverProfileStore, args: ObserverArgs): Promise<ResolvedObserver> {
+  let profile = null;
+  if (args.observer !== undefined) {
+    if (typeof args.observer !== 'string' || args.observer.trim() === '') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid observer. Must be the name of a saved observer profile.'
+      );
+    }
+
+    profile = await profiles.get(args.observer);
+    if (!profile) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown observer profile: ${args.observer}. Create it with create_observer_profile or list profiles with list_observer_profiles.`
+      );
+    }
+  }
+
+  const latitude = args.observer_lat ?? profile?.latitude;
+  const longitude = args.observer_lng ?? profile?.longitude;
+  if (latitude === undefined || longitude === undefined) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Provide an observer profile name or observer_lat and observer_lng.'
+    );
+  }
+
+  // Validate coordinates
+  if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Invalid latitude. Must be between -90 and 90.'
+    );
+  }
+
+  if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Invalid longitude. Must be between -180 and 180.'
+    );
+  }
+
+  return {
+    latitude,
+    longitude,
+    altitude: args.observer_alt ?? profile?.altitude ?? 0,
+    profile: profile?.name ?? null,
+    minElevation: profile?.minElevation ?? null,
+    timezone: profile?.timezone ?? null,
+    horizonMask: profile?.horizonMask ?? null,
+  };
+}
+
+/**
+ * Observer block included in tool responses
+ */
+export function formatObserver(observer: ResolvedObserver) {
+  return {
+    latitude: observer.latitude,
+    longitude: observer.longitude,
+    altitude: observer.altitude,
+    ...(observer.profile && { profile: observer.profile }),
+    ...(observer.timezone && { timezone: observer.timezone }),
+  };
+}
+
+/**
+ * ISO 8601 local time with UTC offset in an IANA time zone, e.g. "2024-01-01T19:17:46+01:00"
+ */
+export function formatLocalTime(date: Date, timezone: string): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      timeZoneName: 'longOffset',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  // "GMT+01:00", or plain "GMT" for UTC
+  const offset = parts.timeZoneName === 'GMT' ? '+00:00' : parts.timeZoneName.replace('GMT', '');
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${offset}`;
+}
+
+/**
+ * Horizon mask block of a pass: masked AOS/LOS, time above the mask and the
+ * obstructions in between
+ */
+export function formatMaskedPass(masked: MaskedPass, timezone: string | null) {
+  const { pass } = masked;
+  const point = (unixSeconds: number, azimuth: number, elevation: number) => {
+    const date = new Date(unixSeconds * 1000);
+    return {
+      time: date.toISOString(),
+      ...(timezone && { local_time: formatLocalTime(date, timezone) }),
+      azimuth,
+      elevation,
+    };
+  };
+
+  return {
+    aos: point(pass.startUTC, pass.startAz, pass.startEl),
+    los: point(pass.endUTC, pass.endAz, pass.endEl),
+    max_elevation: pass.maxEl,
+    seconds_above_mask: masked.secondsAboveMask,
+    obstructions: masked.obstructions.map(obstruction => ({
+      start: new Date(obstruction.start * 1000).toISOString(),
+      end: new Date(obstruction.end * 1000).toISOString(),
+      seconds: obstruction.end - obstruction.start,
+    })),
+  };
+}
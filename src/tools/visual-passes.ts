@@ -1,5 +1,15 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { N2YOApiClient, SatellitePass, VisualPassesParams } from '../api-client.js';
+import { SatellitePass, VisualPassesParams } from '../api-client.js';
+import { ProviderChain } from '../providers/chain.js';
+import { PassCalendarOptions, passesToICS } from '../export/ics.js';
+import { MaskedPass, applyHorizonMask } from '../orbit/horizon.js';
+import { findPasses } from '../orbit/passes.js';
+import { LocalSatellite, loadSatellite } from '../orbit/propagator.js';
+import { PassIllumination, analyzePassIllumination, standardMagnitudeFor, toVisualPass } from '../orbit/visibility.js';
+import { CalendarUidStore } from '../store/calendar-uids.js';
+import { ObserverProfileStore } from '../store/observer-profiles.js';
+import { MAX_LOCAL_PASS_DAYS } from './radio-passes.js';
+import { formatLocalTime, formatMaskedPass, formatObserver, resolveObserver } from './tool-utils.js';
 
 export const predictVisualPassesToolSchema = {
   name: 'predict_visual_passes',
@@ -11,6 +21,10 @@ export const predictVisualPassesToolSchema = {
         type: 'number',
         description: 'NORAD ID of the satellite',
       },
+      observer: {
+        type: 'string',
+        description: 'Name of a saved observer profile; replaces observer_lat/observer_lng/observer_alt, which override the profile when also given',
+      },
       observer_lat: {
         type: 'number',
         description: 'Observer latitude (-90 to 90)',
@@ -30,9 +44,9 @@ export const predictVisualPassesToolSchema = {
       },
       days: {
         type: 'number',
-        description: 'Number of days to predict (1-10)',
+        description: 'Number of days to predict (1-10 for n2yo, 1-60 for local)',
         minimum: 1,
-        maximum: 10,
+        maximum: MAX_LOCAL_PASS_DAYS,
       },
       min_visibility: {
         type: 'number',
@@ -40,24 +54,68 @@ export const predictVisualPassesToolSchema = {
         minimum: 0,
         maximum: 600,
       },
+      source: {
+        type: 'string',
+        enum: ['n2yo', 'local'],
+        description: 'Where passes come from: "n2yo" (default) queries the N2YO API, "local" searches the propagated TLE with the built-in Sun and Earth-shadow model',
+      },
+      timestamp: {
+        type: 'number',
+        description: 'Start of the prediction window as a Unix timestamp in seconds (local source only, defaults to now)',
+      },
+      min_elevation: {
+        type: 'number',
+        description: 'Minimum elevation in degrees (local source only, 0-90)',
+        minimum: 0,
+        maximum: 90,
+      },
+      dark_sky_only: {
+        type: 'boolean',
+        description: 'Only return passes whose visible part happens with the Sun more than 18 degrees below the horizon',
+      },
+      standard_magnitude: {
+        type: 'number',
+        description: 'Standard magnitude of the satellite (at 1000 km, 90 degree phase) used for brightness estimates',
+      },
+      horizon_mask: {
+        type: 'boolean',
+        description: 'Apply the observer profile\'s horizon mask to the visible part of each pass: passes report masked AOS/LOS and time above the mask, and passes that never clear it are dropped (default: true when the profile has a mask)',
+      },
+      format: {
+        type: 'string',
+        enum: ['json', 'ics'],
+        description: 'Response format: "json" (default) or "ics" for an iCalendar document with one event per pass; event UIDs are stable, so re-importing updates existing events',
+      },
     },
-    required: ['norad_id', 'observer_lat', 'observer_lng'],
+    required: ['norad_id'],
   },
 };
 
 export async function predictVisualPassesTool(
-  apiClient: N2YOApiClient,
+  providers: ProviderChain,
+  profiles: ObserverProfileStore,
+  calendarUids: CalendarUidStore,
   args: {
     norad_id: number;
-    observer_lat: number;
-    observer_lng: number;
+    observer?: string;
+    observer_lat?: number;
+    observer_lng?: number;
     observer_alt?: number;
     days?: number;
     min_visibility?: number;
+    source?: 'n2yo' | 'local';
+    timestamp?: number;
+    min_elevation?: number;
+    dark_sky_only?: boolean;
+    standard_magnitude?: number;
+    horizon_mask?: boolean;
+    format?: 'json' | 'ics';
   }
 ) {
   try {
-    const { norad_id, observer_lat, observer_lng, observer_alt, days, min_visibility } = args;
+    const { norad_id, days, min_visibility, timestamp, min_elevation, dark_sky_only, standard_magnitude } = args;
+    const source = args.source || 'n2yo';
+    const format = args.format || 'json';
 
     // Validate NORAD ID
     if (!Number.isInteger(norad_id) || norad_id <= 0) {
@@ -67,26 +125,55 @@ export async function predictVisualPassesTool(
       );
     }
 
-    // Validate coordinates
-    if (observer_lat < -90 || observer_lat > 90) {
+    // Resolve the observer from a profile and/or coordinates
+    const observer = await resolveObserver(profiles, args);
+
+    // Validate source
+    if (source !== 'n2yo' && source !== 'local') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid source. Must be "n2yo" or "local".'
+      );
+    }
+
+    // Validate days
+    const maxDays = source === 'local' ? MAX_LOCAL_PASS_DAYS : 10;
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > maxDays)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid latitude. Must be between -90 and 90.'
+        `Invalid days. Must be an integer between 1 and ${maxDays}.`
       );
     }
 
-    if (observer_lng < -180 || observer_lng > 180) {
+    // Validate timestamp
+    if (timestamp !== undefined && (source !== 'local' || !Number.isFinite(timestamp))) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid longitude. Must be between -180 and 180.'
+        'Invalid timestamp. Must be a Unix timestamp in seconds and is only supported with source "local".'
       );
     }
 
-    // Validate days
-    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > 10)) {
+    // Validate min_elevation
+    if (min_elevation !== undefined && (source !== 'local' || min_elevation < 0 || min_elevation > 90)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid min_elevation. Must be between 0 and 90 degrees and is only supported with source "local".'
+      );
+    }
+
+    // Validate format
+    if (format !== 'json' && format !== 'ics') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Invalid format. Must be "json" or "ics".'
+      );
+    }
+
+    // Validate standard_magnitude
+    if (standard_magnitude !== undefined && !Number.isFinite(standard_magnitude)) {
       throw new McpError(
         ErrorCode.InvalidParams,
-        'Invalid days. Must be an integer between 1 and 10.'
+        'Invalid standard_magnitude. Must be a number.'
       );
     }
 
@@ -100,14 +187,100 @@ export async function predictVisualPassesTool(
 
     const params: VisualPassesParams = {
       noradId: norad_id,
-      observer_lat,
-      observer_lng,
-      observer_alt,
+      observer_lat: observer.latitude,
+      observer_lng: observer.longitude,
+      observer_alt: observer.altitude,
       days,
       min_visibility,
     };
 
-    const passes = await apiClient.getVisualPasses(params);
+    const horizonMask = args.horizon_mask !== false ? observer.horizonMask : null;
+
+    let provider: string;
+    let passes: SatellitePass[];
+    let satellite: LocalSatellite | null = null;
+
+    if (source === 'local') {
+      const tle = await providers.getTLE(norad_id);
+      satellite = loadSatellite(tle.data);
+      const start = timestamp !== undefined ? new Date(timestamp * 1000) : new Date();
+      passes = findPasses(satellite, observer, {
+        start,
+        end: new Date(start.getTime() + (days || 7) * 86400000),
+        minElevation: min_elevation ?? observer.minElevation ?? 0,
+      });
+      provider = tle.provider;
+    } else {
+      ({ provider, data: passes } = await providers.getVisualPasses(params));
+      if (passes && passes.length > 0) {
+        // The illumination model only explains the provider's passes, so it is optional unless filtering on it
+        satellite = await providers.getTLE(norad_id)
+          .then(tle => loadSatellite(tle.data))
+          .catch(error => {
+            if (dark_sky_only || horizonMask) {
+              throw error;
+            }
+            console.error('Error loading TLE for illumination analysis:', error);
+            return null;
+          });
+      }
+    }
+
+    // Explain each pass and keep the ones that are actually visible
+    const magnitude = standard_magnitude ?? standardMagnitudeFor(norad_id);
+    let explained: { pass: SatellitePass; illumination?: PassIllumination; masked?: MaskedPass | null }[] = (passes || []).map(pass => ({ pass }));
+    if (satellite) {
+      const localSatellite = satellite;
+      explained = explained.map(({ pass }) => {
+        const illumination = analyzePassIllumination(localSatellite, observer, pass, magnitude);
+        if (source === 'local') {
+          const visualPass = toVisualPass(localSatellite, observer, pass, illumination);
+          return { pass: visualPass || pass, illumination };
+        }
+        return { pass, illumination };
+      });
+    }
+    if (source === 'local') {
+      explained = explained.filter(({ illumination }) =>
+        illumination !== undefined &&
+        illumination.visibleStart !== null &&
+        illumination.visibleSeconds >= (min_visibility ?? 10)
+      );
+    }
+    if (dark_sky_only) {
+      explained = explained.filter(({ illumination }) => illumination?.darkSky);
+    }
+
+    // Clip the visible part of each pass to the horizon mask
+    let maskedOutCount = 0;
+    if (horizonMask && satellite) {
+      const localSatellite = satellite;
+      const minElevation = min_elevation ?? observer.minElevation ?? 0;
+      explained = explained.map(entry => ({
+        ...entry,
+        masked: applyHorizonMask(localSatellite, observer, entry.pass, horizonMask, minElevation),
+      }));
+      maskedOutCount = explained.filter(({ masked }) => masked === null).length;
+      explained = explained.filter(({ masked }) => masked !== null);
+    }
+    passes = explained.map(({ pass }) => pass);
+
+    if (format === 'ics') {
+      const calendar: PassCalendarOptions = {
+        kind: 'visual',
+        observer,
+        calendarName: `Visible passes of ${passes[0]?.satname ?? norad_id}`,
+        notes: (_, index) => formatCalendarNotes(explained[index]),
+      };
+      return {
+        content: [
+          {
+            type: 'text',
+            text: passesToICS(passes, { ...calendar, uids: await calendarUids.assign(passes, calendar) }),
+          },
+        ],
+      };
+    }
 
     if (!passes || passes.length === 0) {
       return {
@@ -116,14 +289,15 @@ export async function predictVisualPassesTool(
             type: 'text',
             text: JSON.stringify({
               satellite_id: norad_id,
-              observer: {
-                latitude: observer_lat,
-                longitude: observer_lng,
-                altitude: observer_alt || 0,
-              },
+              observer: formatObserver(observer),
               prediction_days: days || 7,
+              source,
+              provider,
               passes: [],
-              message: `No visible passes found for satellite ${norad_id} in the next ${days || 7} days.`,
+              ...(horizonMask && { horizon_mask_applied: true, masked_out_count: maskedOutCount }),
+              message: maskedOutCount > 0
+                ? `No visible passes of satellite ${norad_id} clear the horizon mask of ${observer.profile} in the next ${days || 7} days (${maskedOutCount} blocked).`
+                : `No visible passes found for satellite ${norad_id} in the next ${days || 7} days.`,
             }, null, 2),
           },
         ],
@@ -131,7 +305,10 @@ export async function predictVisualPassesTool(
     }
 
     // Format the response
-    const formattedPasses = passes.map(pass => formatPassData(pass));
+    const formattedPasses = explained.map(({ pass, illumination, masked }) => ({
+      ...formatPassData(pass, observer.timezone, illumination),
+      ...(masked && { horizon_mask: formatMaskedPass(masked, observer.timezone) }),
+    }));
 
     return {
       content: [
@@ -140,12 +317,11 @@ export async function predictVisualPassesTool(
           text: JSON.stringify({
             satellite_id: norad_id,
             satellite_name: passes[0].satname,
-            observer: {
-              latitude: observer_lat,
-              longitude: observer_lng,
-              altitude: observer_alt || 0,
-            },
+            observer: formatObserver(observer),
             prediction_days: days || 7,
+            source,
+            provider,
+            ...(horizonMask && { horizon_mask_applied: true, masked_out_count: maskedOutCount }),
             passes: formattedPasses,
           }, null, 2),
         },
@@ -163,7 +339,7 @@ export async function predictVisualPassesTool(
   }
 }
 
-function formatPassData(pass: SatellitePass) {
+function formatPassData(pass: SatellitePass, timezone: string | null, illumination?: PassIllumination) {
   // Convert timestamps to ISO strings
   const startDate = new Date(pass.startUTC * 1000);
   const maxDate = new Date(pass.maxUTC * 1000);
@@ -172,23 +348,59 @@ function formatPassData(pass: SatellitePass) {
   return {
     start: {
       time: startDate.toISOString(),
+      ...(timezone && { local_time: formatLocalTime(startDate, timezone) }),
       azimuth: pass.startAz,
       azimuth_compass: pass.startAzCompass,
       elevation: pass.startEl,
     },
     max: {
       time: maxDate.toISOString(),
+      ...(timezone && { local_time: formatLocalTime(maxDate, timezone) }),
       azimuth: pass.maxAz,
       azimuth_compass: pass.maxAzCompass,
       elevation: pass.maxEl,
     },
     end: {
       time: endDate.toISOString(),
+      ...(timezone && { local_time: formatLocalTime(endDate, timezone) }),
       azimuth: pass.endAz,
       azimuth_compass: pass.endAzCompass,
       elevation: pass.endEl,
     },
-    magnitude: pass.mag,
+    magnitude: pass.mag ?? null,
     duration_seconds: pass.duration,
+    ...(illumination && { illumination: formatIllumination(illumination) }),
   };
 }
+
+function formatIllumination(illumination: PassIllumination) {
+  const toISO = (timestamp: number | null) => timestamp === null ? null : new Date(timestamp * 1000).toISOString();
+
+  return {
+    sun_elevation: illumination.sunElevation,
+    twilight: illumination.twilight,
+    satellite_shadow_at_max: illumination.shadowAtMax,
+    shadow_events: illumination.shadowEvents.map(event => ({
+      event: event.event,
+      time: toISO(event.time),
+    })),
+    visible_start: toISO(illumination.visibleStart),
+    visible_end: toISO(illumination.visibleEnd),
+    visible_seconds: illumination.visibleSeconds,
+    estimated_magnitude: illumination.magnitude,
+    standard_magnitude: illumination.standardMagnitude,
+    dark_sky: illumination.darkSky,
+  };
+}
+
+function formatCalendarNotes({ illumination, masked }: { illumination?: PassIllumination; masked?: MaskedPass | null }): string[] {
+  const notes: string[] = [];
+  if (illumination) {
+    notes.push(`Sky: ${illumination.twilight}, Sun at ${illumination.sunElevation}°`);
+  }
+  if (masked) {
+    const time = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString();
+    notes.push(`Above horizon mask: ${time(masked.pass.startUTC)} to ${time(masked.pass.endUTC)} (${masked.secondsAboveMask} s)`);
+  }
+  return notes;
+}
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { SatellitePass } from '../src/api-client.js';
+import { PassCalendarOptions, passesToICS } from '../src/export/ics.js';
+import { CalendarUidStore } from '../src/store/calendar-uids.js';
+
+const CALENDAR: PassCalendarOptions = { kind: 'radio', observer: { latitude: 40, longitude: -75 } };
+
+// An ISS pass from `start` lasting nine minutes, culminating halfway
+function pass(start: number): SatellitePass {
+  return {
+    satid: 25544,
+    satname: 'SPACE STATION',
+    startAz: 300,
+    startAzCompass: 'WNW',
+    startEl: 0,
+    startUTC: start,
+    maxAz: 210,
+    maxAzCompass: 'SSW',
+    maxEl: 40,
+    maxUTC: start + 270,
+    endAz: 120,
+    endAzCompass: 'ESE',
+    endEl: 0,
+    endUTC: start + 540,
+    duration: 540,
+    mag: -2.5,
+  };
+}
+
+describe('CalendarUidStore', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'calendar-uids-test-'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps the UID of a pass whose culmination moves across a ten-minute mark', async () => {
+    const filePath = path.join(directory, 'moved.json');
+    const now = new Date('2024-01-01T12:00:00Z');
+    // Culminates 15 s before the culmination rounds to the next ten minutes
+    const first = pass(1704126015);
+    const next = pass(first.startUTC + 5580);
+
+    const uids = new CalendarUidStore(filePath);
+    const [firstUid, nextUid] = await uids.assign([first, next], CALENDAR, now);
+    assert.notEqual(firstUid, nextUid);
+    await uids.flush();
+
+    // A newer element set moves both passes by a minute; a restart reads the UIDs back
+    const moved = [pass(first.startUTC + 60), pass(next.startUTC + 60)];
+    const reloaded = new CalendarUidStore(filePath);
+    assert.deepEqual(await reloaded.assign(moved, CALENDAR, now), [firstUid, nextUid]);
+
+    const ics = passesToICS(moved, { ...CALENDAR, uids: [firstUid, nextUid], now });
+    assert.ok(ics.replace(/\r\n /g, '').includes(`UID:${firstUid}`));
+
+    // Another observer gets its own UIDs
+    const elsewhere = await reloaded.assign(moved, { ...CALENDAR, observer: { latitude: 50, longitude: 10 } }, now);
+    assert.ok(!elsewhere.includes(firstUid));
+  });
+});
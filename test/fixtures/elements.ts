@@ -0,0 +1,18 @@
+import { SatelliteTLE } from '../../src/api-client.js';
+import { decodeTLE, formatTLE } from '../../src/orbit/tle.js';
+
+// ISS element set with an epoch of 2024-01-01 12:00 UTC, as a provider returns it
+export const ISS_TLE: SatelliteTLE = {
+  satid: 25544,
+  satname: 'SPACE STATION',
+  transactionscount: 0,
+  tle: '1 25544U 98067A   24001.50000000  .00016717  00000-0  10270-3 0  9009\r\n2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391428896',
+};
+
+/**
+ * The ISS element set moved to another epoch
+ */
+export function issTLEAt(epoch: Date): SatelliteTLE {
+  const lines = formatTLE({ ...decodeTLE(ISS_TLE.tle), epoch });
+  return { ...ISS_TLE, tle: `${lines.line1}\r\n${lines.line2}` };
+}
@@ -0,0 +1,281 @@
+/*
+ * SGP4 verification cases from Vallado, Crawford, Hujsak & Kelso, "Revisiting
+ * Spacetrack Report #3" (AIAA 2006-6753): element sets from SGP4-VER.TLE and
+ * TEME states (km, km/s) at minutes since epoch, at the precision of the
+ * reference output tcppver.out (WGS-72, improved mode). The states were
+ * generated with satellite.js 7.1.0, an independent port of the same
+ * reference code, and match tcppver.out where checked (00005).
+ */
+
+// Interface for one verification case
+export interface SGP4Vector {
+  satnum: string;
+  description: string;
+  line1: string;
+  line2: string;
+  // [minutes since epoch, x, y, z, xdot, ydot, zdot]
+  states: [number, number, number, number, number, number, number][];
+}
+
+export const SGP4_VECTORS: SGP4Vector[] = [
+  {
+    satnum: '00005',
+    description: 'Near earth, eccentricity 0.19',
+    line1: '1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753',
+    line2: '2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667',
+    states: [
+      [0.0, 7022.46529266, -1400.08296755, 0.03995155, 1.893841015, 6.405893759, 4.534807250],
+      [360.0, -7154.03120202, -3783.17682504, -3536.19412294, 4.741887409, -4.151817765, -2.093935425],
+      [720.0, -7134.59340119, 6531.68641334, 3260.27186483, -4.113793027, -2.911922039, -2.557327851],
+      [1080.0, 5568.53901181, 4492.06992591, 3863.87641983, -4.209106476, 5.159719888, 2.744852980],
+      [1440.0, -938.55923943, -6268.18748831, -4294.02924751, 7.536105209, -0.427127707, 0.989878080],
+      [1800.0, -9680.56121728, 2802.47771354, 124.10688038, -0.905874102, -4.659467970, -3.227347517],
+      [2160.0, 190.19796988, 7746.96653614, 5110.00675412, -6.112325142, 1.527008184, -0.139152358],
+      [2520.0, 5579.55640116, -3995.61396789, -1518.82108966, 4.767927483, 5.123185301, 4.276837355],
+      [2880.0, -8650.73082219, -1914.93811525, -3007.03603443, 3.067165127, -4.828384068, -2.515322836],
+      [3240.0, -5429.79204164, 7574.36493792, 3747.39305236, -4.999442110, -1.800561422, -2.229392830],
+      [3600.0, 6759.04583722, 2001.58198220, 2783.55192533, -2.180993947, 6.402085603, 3.644723952],
+      [3960.0, -3791.44531559, -5712.95617894, -4533.48630714, 6.668817493, -2.516382327, -0.082384354],
+      [4320.0, -9060.47373569, 4658.70952502, 813.68673153, -2.232832783, -4.110453490, -3.157345433],
+    ],
+  },
+  {
+    satnum: '06251',
+    description: 'Near earth, normal drag',
+    line1: '1 06251U 62025E   06176.82412014  .00008885  00000-0  12808-3 0  3985',
+    line2: '2 06251  58.0579  54.0425 0030035 139.1568 221.1854 15.56387291  6774',
+    states: [
+      [0.0, 3988.31022699, 5498.96657235, 0.90055879, -3.290032738, 2.357652820, 6.496623475],
+      [120.0, -3935.69800083, 409.10980837, 5471.33577327, -3.374784183, -6.635211043, -1.942056221],
+      [240.0, -1675.12766915, -5683.30432352, -3286.21510937, 5.282496925, 1.508674259, -5.354872978],
+      [360.0, 4993.62642836, 2890.54969900, -3600.40145627, 0.347333429, 5.707031557, 5.070699638],
+      [480.0, -1115.07959514, 4015.11691491, 5326.99727718, -5.524279443, -4.765738774, 2.402255961],
+      [600.0, -4329.10008198, -5176.70287935, 409.65313857, 2.858408303, -2.933091792, -6.509690397],
+      [720.0, 3692.60030028, -976.24265255, -5623.36447493, 3.897257243, 6.415554948, 1.429112190],
+      [840.0, 2301.83510037, 5723.92394553, 2814.61514580, -5.110924966, -0.764510559, 5.662120145],
+      [960.0, -4990.91637950, -2303.42547880, 3920.86335598, -0.993439372, -5.967458360, -4.759110856],
+      [1080.0, 642.27769977, -4332.89821901, -5183.31523910, 5.720542579, 4.216573838, -2.846576139],
+      [1200.0, 4719.78335752, 4798.06938996, -943.58851062, -2.294860662, 3.492499389, 6.408334723],
+      [1320.0, -3299.16993602, 1576.83168320, 5678.67840638, -4.460347074, -6.202025196, -0.885874586],
+      [1440.0, -2777.14682335, -5663.16031708, -2462.54889123, 4.915493146, 0.123328992, -5.896495091],
+      [1560.0, 4992.31573893, 1716.62356770, -4287.86065581, 1.640717189, 6.071570434, 4.338797931],
+      [1680.0, -8.22384755, 4662.21521668, 4905.66411857, -5.891011274, -3.593173872, 3.365100460],
+      [1800.0, -4966.20137963, -4379.59155037, 1349.33347502, 1.763172581, -3.981456387, -6.343279443],
+      [1920.0, 2954.49390331, -2080.65984650, -5754.75038057, 4.895893306, 5.858184322, 0.375474825],
+      [2040.0, 3363.28794321, 5559.55841180, 1956.05542266, -4.587378863, 0.591943403, 6.107838605],
+      [2160.0, -4856.66780070, -1107.03450192, 4557.21258241, -2.304158557, -6.186437070, -3.956549542],
+      [2280.0, -497.84480071, -4863.46005312, -4700.81211217, 5.960065407, 2.996683369, -3.767123329],
+      [2400.0, 5241.61936096, 3910.75960683, -1857.93473952, -1.124834806, 4.406213160, 6.148161299],
+      [2520.0, -2451.38045953, 2610.60463261, 5729.79022069, -5.366560525, -5.500855666, 0.187958716],
+      [2640.0, -3791.87520638, -5378.82851382, -1575.82737930, 4.266273592, -1.199162551, -6.276154080],
+      [2760.0, 4730.53958356, 524.05006433, -4857.29369725, 2.918056288, 6.135412849, 3.495115636],
+      [2880.0, 1159.27802897, 5056.60175495, 4353.49418579, -5.968060341, -2.314790406, 4.230722669],
+    ],
+  },
+  {
+    satnum: '28057',
+    description: 'Near earth, nearly circular, sun-synchronous',
+    line1: '1 28057U 03049A   06177.78615833  .00000060  00000-0  35940-4 0  1836',
+    line2: '2 28057  98.4283 247.6961 0000884  88.1964 271.9322 14.35478080140550',
+    states: [
+      [0.0, -2715.28237486, -6619.26436889, -0.01341443, -1.008587273, 0.422782003, 7.385272942],
+      [120.0, -1816.87920942, -1835.78762132, 6661.07926465, 2.325140071, 6.655669329, 2.463394512],
+      [240.0, 1483.17364291, 5395.21248786, 4448.65907172, 2.560540387, 4.039025766, -5.736648561],
+      [360.0, 2801.25607157, 5455.03931333, -3692.12865694, -0.595095864, -3.951923117, -6.298799125],
+      [480.0, 411.09332812, -1728.99769152, -6935.45548810, -2.935970964, -6.684085058, 1.492800886],
+      [600.0, -2506.52558454, -6628.98655094, -988.07784497, -1.390577189, -0.556164143, 7.312736468],
+      [720.0, -2090.79884266, -2723.22832193, 6266.13356576, 1.992640665, 6.337529519, 3.411803080],
+      [840.0, 1091.80560222, 4809.88229503, 5172.42897894, 2.717483546, 4.805518977, -5.030019896],
+      [960.0, 2811.14062300, 5950.65707171, -2813.23705389, -0.159662742, -3.121215491, -6.775341949],
+      [1080.0, 805.72698304, -812.16627907, -7067.58483968, -2.798936020, -6.889265977, 0.472770873],
+      [1200.0, -2249.59837532, -6505.84890714, -1956.72365062, -1.731234729, -1.528750230, 7.096660885],
+      [1320.0, -2311.57375797, -3560.99112891, 5748.16749600, 1.626569751, 5.890482233, 4.293545048],
+      [1440.0, 688.16056594, 4124.87618964, 5794.55994449, 2.810973665, 5.479585563, -4.224866316],
+      [1560.0, 2759.94088230, 6329.87271798, -1879.19518331, 0.266930672, -2.222670878, -7.119390567],
+      [1680.0, 1171.50677137, 125.82053748, -7061.96626202, -2.605687852, -6.958489749, -0.556333225],
+      [1800.0, -1951.43708472, -6251.71945820, -2886.95472355, -2.024131483, -2.475214272, 6.741537478],
+      [1920.0, -2475.70722288, -4331.90569958, 5117.31234924, 1.235823539, 5.322743371, 5.091281211],
+      [2040.0, 281.46097847, 3353.51057102, 6302.87900650, 2.840647273, 6.047222485, -3.337085992],
+      [2160.0, 2650.33118860, 6584.33434851, -908.29027134, 0.675457235, -1.274044972, -7.323921567],
+      [2280.0, 1501.17226597, 1066.31132756, -6918.71472952, -2.361891904, -6.889669974, -1.574718619],
+      [2400.0, -1619.73468334, -5871.14051991, -3760.56587071, -2.264093975, -3.376316601, 6.254622256],
+      [2520.0, -2581.04202505, -5020.05572531, 4385.92329047, 0.829668458, 4.645048038, 5.789262667],
+      [2640.0, -119.22080628, 2510.90620488, 6687.45615459, 2.807575712, 6.496549689, -2.384136661],
+      [2760.0, 2486.23806726, 6708.18210028, 80.43349581, 1.057274905, -0.294294027, -7.384689123],
+      [2880.0, 1788.42334580, 1990.50530957, -6640.59337725, -2.074169091, -6.683381288, -2.562777776],
+    ],
+  },
+  {
+    satnum: '28350',
+    description: 'Near earth, perigee 129 km (simplified drag equations)',
+    line1: '1 28350U 04020A   06167.21788666  .16154492  76267-5  18678-3 0  8894',
+    line2: '2 28350  64.9977 345.6130 0024870 260.7578  99.9590 16.47856722116490',
+    states: [
+      [0.0, 6333.08123128, -1580.82852326, 90.69355720, 0.714634423, 3.224246550, 7.083128132],
+      [120.0, -3990.93845855, 3052.98341907, 4155.32700629, -5.909006188, -0.876307966, -5.039131404],
+      [240.0, -603.55232010, -2685.13474569, -5891.70274282, 7.572519907, -1.975656726, 0.121722605],
+      [360.0, 4788.22345627, 782.56169214, 4335.14284621, -4.954509026, 3.683346464, 4.804645839],
+      [480.0, -6291.84601644, 1547.82790772, -453.67116498, -0.308625588, -3.341538574, -7.082659115],
+      [600.0, 4480.74573428, -3028.55200374, -3586.94343641, 5.320920857, 1.199736275, 5.626350481],
+      [720.0, -446.42460916, 2932.28872588, 5759.19389757, -7.561000245, 1.550975493, -1.374970885],
+      [840.0, -3713.79581831, -1382.66125130, -5122.45131136, 6.090931626, -3.512629733, -3.467571746],
+      [960.0, 6058.32017522, -827.47406722, 2104.04678651, -1.798403024, 3.787067272, 6.641439744],
+      [1080.0, -5631.73659006, 2623.70953644, 1766.49125084, -3.216401578, -2.309140959, -6.788609120],
+      [1200.0, 2776.84991560, -3255.36941953, -4837.19667790, 6.748135564, -0.193044825, 4.005718698],
+      [1320.0, 1148.04430837, 2486.07343386, 5826.34075913, -7.420162295, 2.589456382, 0.356350006],
+      [1440.0, -4527.90871828, -723.29199041, -4527.44608319, 5.121674217, -3.909895427, -4.500218556],
+    ],
+  },
+  {
+    satnum: '29238',
+    description: 'Near earth, perigee 212 km (simplified drag equations)',
+    line1: '1 29238U 06022G   06177.28732010  .00766286  10823-4  13334-2 0   101',
+    line2: '2 29238  51.5595 213.7903 0202579  95.2503 267.9010 15.73823839  1061',
+    states: [
+      [0.0, -5566.59512819, -3789.75991159, 67.60382245, 2.873759367, -3.825340523, 6.023253926],
+      [120.0, 4474.27915495, -1447.72286142, 4619.83927235, 4.712595822, 5.668306153, -2.701606741],
+      [240.0, 1922.17712474, 5113.01138342, -4087.08470203, -6.490769651, -0.522350158, -3.896001154],
+      [360.0, -6157.93546882, -2094.70798790, -1941.63730960, 0.149900661, -5.175192523, 5.604262034],
+      [480.0, 2482.64052411, -3268.45944555, 5146.38006190, 6.501814698, 4.402848754, -0.350943511],
+      [600.0, 4036.26455287, 4827.43347201, -2507.99063955, -5.184409515, 1.772280695, -5.331390168],
+      [720.0, -5776.81371622, -118.64155319, -3641.22052418, -2.539917207, -5.622701582, 4.403125405],
+      [840.0, 67.98699487, -4456.49213473, 4863.71794283, 7.183809420, 2.418917791, 2.015642495],
+      [960.0, 5520.62207038, 3782.38203554, -596.73193161, -3.027966069, 3.754152525, -6.013506363],
+      [1080.0, -4528.05104455, 1808.46273329, -4816.99727762, -4.808419763, -5.185789345, 2.642104494],
+      [1200.0, -2356.61468078, -4852.51202272, 3856.53816184, 6.688446735, 0.118520958, 4.021854210],
+      [1320.0, 6149.65800134, 2173.59423261, 1369.29488732, -0.345832777, 5.109857861, -5.842951828],
+      [1440.0, -2629.55011449, 3400.98040158, -5344.38217129, -6.368548448, -3.998963509, 0.577253064],
+    ],
+  },
+  {
+    satnum: '08195',
+    description: 'Deep space, Molniya, 12 h resonance',
+    line1: '1 08195U 75081A   06176.33215444  .00000099  00000-0  11873-3 0   813',
+    line2: '2 08195  64.1586 279.0717 6877146 264.7651  20.2257  2.00491383225656',
+    states: [
+      [0.0, 2349.89483350, -14785.93811562, 0.02119378, 2.721488096, -3.256811655, 4.498416672],
+      [120.0, 15223.91713658, -17852.95881713, 25280.39558224, 1.079041732, 0.875187372, 2.485682813],
+      [240.0, 19752.78050009, -8600.07130962, 37522.72921090, 0.238105279, 1.546110924, 0.986410447],
+      [360.0, 19089.29762968, 3107.89495018, 39958.14661370, -0.410308034, 1.640332277, -0.306873818],
+      [480.0, 13829.66070574, 13977.39999817, 32736.32082508, -1.065096849, 1.279983299, -1.760166075],
+      [600.0, 3333.05838525, 18395.31728674, 12738.25031238, -1.882432221, -0.611623333, -4.039586549],
+      [720.0, 2622.13222207, -15125.15464924, 474.51048398, 2.688287199, -3.078426664, 4.494979530],
+      [840.0, 15320.56770017, -17777.32564586, 25539.53198382, 1.064346229, 0.892184771, 2.459822414],
+      [960.0, 19769.70267785, -8458.65104454, 37624.20130236, 0.229304396, 1.550363884, 0.966993056],
+      [1080.0, 19048.56201523, 3260.43223119, 39923.39143967, -0.418015536, 1.639346953, -0.326094840],
+      [1200.0, 13729.19205837, 14097.70014810, 32547.52799890, -1.074511043, 1.270505211, -1.785099927],
+      [1320.0, 3148.86165643, 18323.19841703, 12305.75195578, -1.895271701, -0.678343847, -4.086577951],
+      [1440.0, 2890.80638268, -15446.43952300, 948.77010176, 2.654407490, -2.909344895, 4.486437362],
+      [1560.0, 15415.98410712, -17699.90714437, 25796.19644689, 1.049818334, 0.908822332, 2.434107329],
+      [1680.0, 19786.00618538, -8316.74570581, 37723.74539119, 0.220539813, 1.554518900, 0.947601047],
+      [1800.0, 19007.28688729, 3412.85948715, 39886.66579255, -0.425733568, 1.638276809, -0.345353807],
+      [1920.0, 13627.93015254, 14216.95401307, 32356.13706868, -1.083991976, 1.260802347, -1.810193903],
+      [2040.0, 2963.26486560, 18243.85063641, 11868.25797486, -1.908015447, -0.747870342, -4.134004492],
+      [2160.0, 3155.85126036, -15750.70393364, 1422.32496953, 2.620085624, -2.748990396, 4.473527039],
+      [2280.0, 15510.15191770, -17620.71002219, 26050.43525345, 1.035454678, 0.925111006, 2.408534465],
+      [2400.0, 19801.67198812, -8174.33337167, 37821.38577439, 0.211812700, 1.558576937, 0.928231880],
+      [2520.0, 18965.46529379, 3565.19666242, 39847.97510998, -0.433459945, 1.637120585, -0.364653213],
+      [2640.0, 13525.88227400, 14335.15978787, 32162.13236536, -1.093537945, 1.250868256, -1.835451681],
+      [2760.0, 2776.30574260, 18156.98538451, 11425.73046481, -1.920632199, -0.820370733, -4.181839232],
+      [2880.0, 3417.20931586, -16038.79510665, 1894.74934058, 2.585515864, -2.596818146, 4.456882556],
+    ],
+  },
+  {
+    satnum: '09880',
+    description: 'Deep space, Molniya, 12 h resonance',
+    line1: '1 09880U 77021A   06176.56157475  .00000421  00000-0  10000-3 0  9814',
+    line2: '2 09880  64.5968 349.3786 7069051 270.0229  16.3320  2.00813614112380',
+    states: [
+      [0.0, 13020.06750784, -2449.07193500, 1.15896030, 4.247363935, 1.597178501, 4.956708611],
+      [120.0, 19190.32482476, 9249.01266902, 26596.71345328, -0.624960193, 1.324550562, 2.495697637],
+      [240.0, 11332.67806218, 16517.99124008, 38569.78482991, -1.400974747, 0.710947006, 0.923935636],
+      [360.0, 328.74217398, 19554.92047380, 40558.26246145, -1.593281066, 0.126772913, -0.359627307],
+      [480.0, -10684.90590680, 18057.15728839, 33158.75253886, -1.383205997, -0.582328999, -1.744412556],
+      [600.0, -17069.78000550, 9944.86797897, 13885.91649059, 0.044133354, -1.853448464, -3.815303117],
+      [720.0, 13725.09398980, -2180.70877090, 863.29684523, 3.878478111, 1.656846496, 4.944867241],
+      [840.0, 19089.63879226, 9456.29670247, 27026.79562883, -0.656614299, 1.309112636, 2.449371941],
+      [960.0, 11106.41248373, 16627.60874079, 38727.35140296, -1.409722680, 0.698582526, 0.891383535],
+      [1080.0, 72.40958621, 19575.08054144, 40492.12544001, -1.593394604, 0.113655142, -0.390556063],
+      [1200.0, -10905.89252576, 17965.41205111, 32850.07298244, -1.371396120, -0.601706604, -1.782817058],
+      [1320.0, -17044.61207568, 9635.48491849, 13212.59462953, 0.129244030, -1.903551430, -3.884569098],
+      [1440.0, 14369.90303735, -1903.85601062, 1722.15319852, 3.543393116, 1.701687176, 4.913881358],
+      [1560.0, 18983.96210441, 9661.12233804, 27448.99557732, -0.687189304, 1.293808870, 2.403630759],
+      [1680.0, 10878.79336704, 16735.31433954, 38879.23434264, -1.418239666, 0.686235750, 0.858951848],
+      [1800.0, -184.03743100, 19593.09371709, 40420.40606889, -1.593348925, 0.100448697, -0.421571993],
+      [1920.0, -11125.12138631, 17870.19488928, 32534.21521208, -1.359116236, -0.621413776, -1.821629856],
+      [2040.0, -17004.43272827, 9316.53926351, 12526.11883812, 0.220330736, -1.955594322, -3.955058575],
+      [2160.0, 14960.06492693, -1620.68430805, 2574.96359381, 3.238634028, 1.734723385, 4.868880331],
+      [2280.0, 18873.46347257, 9863.57004586, 27863.46574735, -0.716736981, 1.278632817, 2.358448535],
+      [2400.0, 10649.86857581, 16841.14172669, 39025.48035006, -1.426527152, 0.673901057, 0.826632332],
+      [2520.0, -440.53459323, 19608.95524423, 40343.10675451, -1.593138597, 0.087147884, -0.452680559],
+      [2640.0, -11342.45028909, 17771.44223942, 32211.12535721, -1.346344015, -0.641464291, -1.860864234],
+      [2760.0, -16948.06005711, 8987.64254880, 11826.28284367, 0.318007297, -2.009693492, -4.026726648],
+      [2880.0, 15500.53445068, -1332.90981042, 3419.72315308, 2.960917974, 1.758331634, 4.813698638],
+    ],
+  },
+  {
+    satnum: '14128',
+    description: 'Deep space, 24 h synchronous resonance',
+    line1: '1 14128U 83058A   06176.02844893 -.00000158  00000-0  10000-3 0  9627',
+    line2: '2 14128  11.4384  35.2134 0011562  26.4582 333.5652  0.98870114 46093',
+    states: [
+      [0.0, 34747.57932696, 24502.37114079, -1.32832986, -1.731642662, 2.452772615, 0.608510081],
+      [120.0, 18263.33439094, 38159.96004751, 4186.18304085, -2.744396611, 1.255583260, 0.528558932],
+      [240.0, -3023.38840703, 41783.13186459, 7273.03412906, -3.035574793, -0.271656544, 0.309645251],
+      [360.0, -23516.34391907, 34424.42065671, 8448.49867693, -2.529120477, -1.726186020, 0.009582303],
+      [480.0, -37837.46699511, 18028.39727170, 7406.25540271, -1.360069525, -2.725794686, -0.292555349],
+      [600.0, -42243.58460661, -3093.72887774, 4422.91711801, 0.163110919, -3.009980598, -0.517584362],
+      [720.0, -35597.57919549, -23407.91145393, 282.09554383, 1.641405246, -2.506773678, -0.606963478],
+      [840.0, -19649.19834455, -37606.11623860, -3932.71525948, 2.689647056, -1.349150016, -0.537710698],
+      [960.0, 1431.30912160, -41982.04949668, -7120.45467057, 3.035263353, 0.160882945, -0.327993994],
+      [1080.0, 22136.97605384, -35388.19823762, -8447.62393401, 2.587624889, 1.630097136, -0.032349004],
+      [1200.0, 37050.15790219, -19537.23321425, -7564.83463543, 1.461844494, 2.674654256, 0.272202191],
+      [1320.0, 42253.81760945, 1431.81867593, -4699.87621174, -0.049247334, 3.019518960, 0.505890058],
+      [1440.0, 36366.59147396, 22023.54245720, -601.47121821, -1.549681546, 2.571788981, 0.607057418],
+      [1560.0, 20922.12287985, 36826.33975981, 3654.91125886, -2.644070068, 1.447521216, 0.548722983],
+      [1680.0, -23.77224182, 41945.51688402, 6950.29891751, -3.043358385, -0.057417440, 0.346112094],
+      [1800.0, -20964.17821076, 36039.06206172, 8418.91984963, -2.642795221, -1.546099886, 0.052725852],
+      [1920.0, -36401.63863057, 20669.75286162, 7677.19769359, -1.549488154, -2.627052310, -0.254079652],
+      [2040.0, -42298.30327543, -119.03351118, 4922.96388841, -0.052232768, -3.018152669, -0.493827331],
+      [2160.0, -37125.62383511, -20879.63058368, 879.86971348, 1.456499841, -2.619358421, -0.604081694],
+      [2280.0, -22250.12320553, -36182.74736487, -3393.15365183, 2.583161226, -1.536647628, -0.556404555],
+      [2400.0, -1563.06258654, -42035.43179159, -6780.02161760, 3.034917506, -0.052702046, -0.363395654],
+      [2520.0, 19531.64069587, -36905.65470956, -8395.46892032, 2.693682199, 1.446079999, -0.075256054],
+      [2640.0, 35516.53506142, -22123.71916638, -7815.04516935, 1.646882125, 2.568416058, 0.232985912],
+      [2760.0, 42196.03535976, -1547.32646751, -5187.39401981, 0.166491841, 3.019211549, 0.480665780],
+      [2880.0, 37802.25393045, 19433.57330019, -1198.66634226, -1.359930580, 2.677830903, 0.602507466],
+    ],
+  },
+  {
+    satnum: '16925',
+    description: 'Deep space, eccentricity 0.56, perigee 83 km',
+    line1: '1 16925U 86065D   06151.67415771  .02550794 -30915-6  18784-3 0  4486',
+    line2: '2 16925  62.0906 295.0239 5596327 245.1593  47.9690  4.88511875148616',
+    states: [
+      [0.0, 5559.11686836, -11941.04090781, -19.41235206, 3.392116762, -1.946985124, 4.250755852],
+      [120.0, 12339.83273749, -2771.14447871, 18904.57603433, -0.871247614, 2.600917693, 0.581560002],
+      [240.0, -3385.00215658, 7538.13955729, 200.59008616, -2.023512865, -4.261808344, -6.856385787],
+      [360.0, 12805.22442200, -10258.94667177, 13780.16486738, 0.619279224, 1.821510542, 2.507365975],
+      [480.0, 5682.46556318, 7199.30270473, 15437.67134070, -2.474365406, 2.087897336, -2.583767460],
+      [600.0, 7628.94243982, -12852.72097492, 2902.87208981, 2.748131081, -0.740084579, 4.125307943],
+      [720.0, 11531.64866625, -858.27542736, 19086.85993771, -1.170071901, 2.660311986, 0.096005705],
+      [840.0, -3866.98069515, 2603.73442786, -4577.36484577, 1.157257298, -8.453281164, -4.683959407],
+      [960.0, 13054.77732721, -8707.92757730, 15537.63259903, 0.229846748, 2.119467054, 2.063396852],
+      [1080.0, 3496.91064652, 8712.83919778, 12845.81838327, -2.782184997, 1.552950644, -3.554436131],
+      [1200.0, 9593.07424729, -13023.75963608, 6250.46484931, 2.072666376, 0.278735334, 3.778111073],
+      [1320.0, 10284.79205084, 1487.89914169, 18824.37381327, -1.530335053, 2.663107730, -0.542205966],
+      [1440.0, -984.62035146, -5187.03480813, -5745.59594144, 4.340271916, -7.266811354, 1.777668888],
+    ],
+  },
+  {
+    satnum: '11801',
+    description: 'Deep space, eccentricity 0.73, no international designator',
+    line1: '1 11801U          80230.29629788  .01431103  00000-0  14311-1      13',
+    line2: '2 11801  46.7916 230.4354 7318036  47.4722  10.4117  2.28537848    13',
+    states: [
+      [0.0, 7473.37102491, 428.94748312, 5828.74846783, 5.107155391, 6.444680305, -0.186133297],
+      [720.0, 14271.29083858, 24110.44309009, -4725.76320143, -0.320504528, 2.679841539, -2.084054355],
+      [1440.0, 9787.87836256, 33753.32249667, -15030.79874625, -1.094251553, 0.923589906, -1.522311008],
+    ],
+  },
+];
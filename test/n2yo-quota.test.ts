@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { QuotaManager } from '../src/providers/n2yo-quota.js';
+
+const HOUR_MS = 3600000;
+
+describe('QuotaManager', () => {
+  it('never lets a 60-minute window carry more than the hourly limit', async () => {
+    let now = Date.parse('2024-01-01T00:00:00Z');
+    const quota = new QuotaManager({ maxWaitSeconds: 0, now: () => now });
+
+    // Three requests every 10 seconds for three hours, against ABOVE's 100 per hour
+    const sent: number[] = [];
+    for (let step = 0; step < 3 * 360; step++, now += 10000) {
+      for (let request = 0; request < 3; request++) {
+        try {
+          await quota.acquire('ABOVE');
+          sent.push(now);
+        } catch (error) {
+          assert.match((error as Error).message, /N2YO hourly limit reached for the ABOVE endpoint/);
+        }
+      }
+    }
+
+    for (const windowStart of sent) {
+      const inWindow = sent.filter(time => time >= windowStart && time < windowStart + HOUR_MS).length;
+      assert.ok(inWindow <= 100, `${inWindow} requests in the hour from ${new Date(windowStart).toISOString()}`);
+    }
+    // The budget is used again as requests leave the window
+    assert.equal(sent.length, 300);
+  });
+
+  it('counts the transactions N2YO reports from other clients of the key', async () => {
+    let now = Date.parse('2024-01-01T00:00:00Z');
+    const quota = new QuotaManager({ maxWaitSeconds: 0, now: () => now });
+
+    await quota.acquire('VISUAL_PASSES');
+    quota.recordTransactions('VISUAL_PASSES', 99);
+    let usage = quota.usage().find(entry => entry.endpoint === 'VISUAL_PASSES')!;
+    assert.equal(usage.remaining, 1);
+
+    await quota.acquire('VISUAL_PASSES');
+    await assert.rejects(quota.acquire('VISUAL_PASSES'), /Next request allowed at 2024-01-01T01:00:00.000Z/);
+
+    now += HOUR_MS;
+    usage = quota.usage().find(entry => entry.endpoint === 'VISUAL_PASSES')!;
+    assert.equal(usage.remaining, 100);
+  });
+
+  it('uses up the budget after N2YO answers 429', async () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    const quota = new QuotaManager({ maxWaitSeconds: 0, now: () => now });
+
+    quota.recordRateLimited('TLE');
+    const usage = quota.usage().find(entry => entry.endpoint === 'TLE')!;
+    assert.equal(usage.remaining, 0);
+    assert.equal(usage.nextRequestAt, '2024-01-01T01:00:00.000Z');
+    await assert.rejects(quota.acquire('TLE'), /N2YO hourly limit reached for the TLE endpoint/);
+  });
+});
@@ -0,0 +1,205 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { PassAlertNotification, PassAlertScheduler, SchedulerClock } from '../src/alerts/scheduler.js';
+import { loadSatellite } from '../src/orbit/propagator.js';
+import { PassAlertInput, PassAlertStore } from '../src/store/pass-alerts.js';
+import { ISS_TLE, issTLEAt } from './fixtures/elements.js';
+
+const ISS = loadSatellite(ISS_TLE);
+
+// Watching the ISS from mid-latitudes, shortly after its element set epoch
+const ALERT: PassAlertInput = {
+  noradId: 25544,
+  satelliteName: 'SPACE STATION',
+  label: null,
+  observer: { latitude: 40, longitude: -75, altitude: 0, profile: null, timezone: null, horizonMask: null },
+  minElevation: 0,
+  minMaxElevation: 0,
+  leadMinutes: 10,
+  events: ['lead', 'aos', 'los'],
+};
+
+/**
+ * Clock that only moves when told to. Timers are recorded, not fired:
+ * tests call `tick()` themselves once the time has moved.
+ */
+class FakeClock implements SchedulerClock {
+  time: number;
+  timers = new Map<number, number>(); // handle to due time
+  private nextHandle = 1;
+
+  constructor(time: number) {
+    this.time = time;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, this.time + ms);
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+}
+
+describe('PassAlertScheduler', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pass-alerts-test-'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  // Scheduler over an alert store in `name`, collecting the notifications it sends
+  function setup(name: string, clock: FakeClock, store = new PassAlertStore(path.join(directory, `${name}.json`))) {
+    const sent: PassAlertNotification[] = [];
+    const scheduler = new PassAlertScheduler({
+      store,
+      loadSatellite: async () => ISS,
+      notify: async notification => {
+        sent.push(notification);
+      },
+      clock,
+    });
+    return { store, scheduler, sent };
+  }
+
+  it('sends the lead time, AOS and LOS notifications of a pass as they fall due', async () => {
+    const clock = new FakeClock(Date.parse('2024-01-01T12:00:00Z'));
+    const { store, scheduler, sent } = setup('delivery', clock);
+    const alert = await store.create(ALERT, new Date(clock.now()));
+    await scheduler.start();
+
+    const [lead, aos, los] = scheduler.upcoming(alert.id);
+    assert.deepEqual([lead.event, aos.event, los.event], ['lead', 'aos', 'los']);
+    assert.equal(aos.at - lead.at, 10 * 60000);
+    // The scheduler wakes up for the next notification or the next recompute, whichever comes first
+    assert.deepEqual([...clock.timers.values()], [Math.min(lead.at, clock.now() + 30 * 60000)]);
+
+    for (const expected of [lead, aos, los]) {
+      clock.time = expected.at;
+      await scheduler.tick();
+      assert.equal(sent[sent.length - 1].key, expected.key);
+    }
+    assert.deepEqual(sent.map(notification => notification.event), ['lead', 'aos', 'los']);
+    assert.deepEqual(Object.keys((await store.get(alert.id))!.delivered).sort(), [aos.key, lead.key, los.key].sort());
+    scheduler.stop();
+  });
+
+  it('skips notifications that fall due more than the late window ago', async () => {
+    const clock = new FakeClock(Date.parse('2024-01-01T12:00:00Z'));
+    const { store, scheduler, sent } = setup('late', clock);
+    const alert = await store.create(ALERT, new Date(clock.now()));
+    await scheduler.start();
+
+    const [lead, aos] = scheduler.upcoming(alert.id);
+    clock.time = lead.at + 121000;
+    await scheduler.tick();
+    assert.equal(sent.length, 0);
+
+    // Later notifications of the same pass are still sent
+    clock.time = aos.at;
+    await scheduler.tick();
+    assert.deepEqual(sent.map(notification => notification.key), [aos.key]);
+    scheduler.stop();
+  });
+
+  it('does not send a notification again after the store is reloaded', async () => {
+    const clock = new FakeClock(Date.parse('2024-01-01T12:00:00Z'));
+    const first = setup('reload', clock);
+    const alert = await first.store.create(ALERT, new Date(clock.now()));
+    await first.scheduler.start();
+
+    const [lead] = first.scheduler.upcoming(alert.id);
+    clock.time = lead.at;
+    await first.scheduler.tick();
+    assert.deepEqual(first.sent.map(notification => notification.key), [lead.key]);
+    first.scheduler.stop();
+
+    // A restart within the late window reads the delivered notifications back
+    clock.time = lead.at + 30000;
+    const second = setup('reload', clock);
+    await second.scheduler.start();
+    assert.ok(!second.scheduler.upcoming(alert.id).some(notification => notification.key === lead.key));
+    await second.scheduler.tick();
+    assert.equal(second.sent.length, 0);
+    second.scheduler.stop();
+  });
+
+  it('recognises a notified pass after a newer element set moves it', async () => {
+    const clock = new FakeClock(Date.parse('2024-01-01T12:00:00Z'));
+    let satellite = ISS;
+    const store = new PassAlertStore(path.join(directory, 'moved.json'));
+    const sent: PassAlertNotification[] = [];
+    const scheduler = new PassAlertScheduler({
+      store,
+      loadSatellite: async () => satellite,
+      notify: async notification => {
+        sent.push(notification);
+      },
+      clock,
+    });
+    const alert = await store.create(ALERT, new Date(clock.now()));
+    await scheduler.start();
+
+    const [lead] = scheduler.upcoming(alert.id);
+    clock.time = lead.at;
+    await scheduler.tick();
+
+    // The same orbit 200 seconds later: the pass moves by about as much, across a ten-minute mark
+    satellite = loadSatellite(issTLEAt(new Date(Date.parse('2024-01-01T12:03:20Z'))));
+    await scheduler.recompute();
+    const [aos, ...rest] = scheduler.upcoming(alert.id);
+    assert.equal(aos.event, 'aos');
+    assert.ok(Math.abs(aos.pass.maxUTC - lead.pass.maxUTC) > 150);
+    assert.ok(!rest.some(notification => notification.event === 'lead' && notification.pass.startUTC < lead.pass.endUTC));
+
+    clock.time = aos.at;
+    await scheduler.tick();
+    assert.deepEqual(sent.map(notification => notification.event), ['lead', 'aos']);
+    scheduler.stop();
+  });
+
+  it('includes an alert created while a prediction is in progress', async () => {
+    const clock = new FakeClock(Date.parse('2024-01-01T12:00:00Z'));
+    const store = new PassAlertStore(path.join(directory, 'race.json'));
+    const first = await store.create(ALERT, new Date(clock.now()));
+
+    // Hold the prediction of the first alert until the second one exists
+    let loading!: () => void;
+    let release!: () => void;
+    const loadingStarted = new Promise<void>(resolve => loading = resolve);
+    const released = new Promise<void>(resolve => release = resolve);
+    const scheduler = new PassAlertScheduler({
+      store,
+      loadSatellite: async () => {
+        loading();
+        await released;
+        return ISS;
+      },
+      notify: async () => undefined,
+      clock,
+    });
+
+    const inProgress = scheduler.recompute();
+    await loadingStarted;
+    const second = await store.create({ ...ALERT, label: 'second' }, new Date(clock.now()));
+    const afterCreate = scheduler.recompute();
+    release();
+    await Promise.all([inProgress, afterCreate]);
+
+    assert.ok(scheduler.upcoming(first.id).length > 0);
+    assert.ok(scheduler.upcoming(second.id).length > 0);
+  });
+});
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { passesToICS } from '../src/export/ics.js';
+import { findPasses } from '../src/orbit/passes.js';
+import { loadSatellite } from '../src/orbit/propagator.js';
+import { ISS_TLE } from './fixtures/elements.js';
+
+const ISS = loadSatellite(ISS_TLE);
+const OBSERVER = { latitude: 40, longitude: -75, altitude: 0 };
+
+describe('findPasses', () => {
+  it('leaves the magnitude of predicted passes unset', () => {
+    const passes = findPasses(ISS, OBSERVER, {
+      start: new Date('2024-01-01T12:00:00Z'),
+      end: new Date('2024-01-02T12:00:00Z'),
+    });
+    assert.ok(passes.length > 0);
+    for (const pass of passes) {
+      assert.ok(!('mag' in pass));
+      assert.ok(pass.startUTC < pass.maxUTC && pass.maxUTC < pass.endUTC);
+    }
+
+    // The JSON and calendar forms carry no magnitude rather than a null or NaN one
+    assert.ok(!JSON.stringify(passes).includes('mag'));
+    const ics = passesToICS(passes, { kind: 'radio', observer: OBSERVER });
+    assert.ok(!ics.includes('Magnitude'));
+    assert.ok(!ics.includes('NaN'));
+  });
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { SatelliteTLE } from '../src/api-client.js';
+import { IMPORTED_PROVIDER, ProviderChain } from '../src/providers/chain.js';
+import { SatelliteDataProvider } from '../src/providers/provider.js';
+import { ElementStore } from '../src/store/element-store.js';
+import { TLECache } from '../src/store/tle-cache.js';
+import { issTLEAt } from './fixtures/elements.js';
+
+const HOUR_MS = 3600000;
+
+describe('ProviderChain imported element sets', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'provider-chain-test-'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  // Chain over one provider answering with `answer`, with the ISS imported at `importedEpoch`
+  async function setup(name: string, importedEpoch: Date, answer: () => Promise<SatelliteTLE>) {
+    const elementsFile = path.join(directory, `${name}.tle`);
+    const imported = issTLEAt(importedEpoch);
+    await fs.writeFile(elementsFile, `${imported.satname}\n${imported.tle.replace('\r\n', '\n')}\n`, 'utf8');
+
+    const elementStore = new ElementStore({ filePath: path.join(directory, `${name}-elements.json`) });
+    await elementStore.importPath(elementsFile);
+
+    let calls = 0;
+    const provider: SatelliteDataProvider = {
+      name: 'fixture',
+      getTLE: () => {
+        calls++;
+        return answer();
+      },
+    };
+    const chain = new ProviderChain([provider], {
+      tleCache: new TLECache({ filePath: path.join(directory, `${name}-cache.json`) }),
+      elementStore,
+    });
+    return { chain, imported, calls: () => calls };
+  }
+
+  it('serves a fresh imported element set without asking the providers', async () => {
+    const { chain, imported, calls } = await setup('fresh', new Date(Date.now() - HOUR_MS), async () => issTLEAt(new Date()));
+
+    const response = await chain.getTLE(25544);
+    assert.equal(response.provider, IMPORTED_PROVIDER);
+    assert.equal(response.data.tle, imported.tle);
+    assert.equal(response.data.imported?.stale, false);
+    assert.equal(calls(), 0);
+  });
+
+  it('prefers a newer provider element set over an outdated import', async () => {
+    const newer = issTLEAt(new Date(Date.now() - HOUR_MS));
+    const { chain, calls } = await setup('outdated', new Date(Date.now() - 30 * 24 * HOUR_MS), async () => newer);
+
+    const response = await chain.getTLE(25544);
+    assert.equal(response.provider, 'fixture');
+    assert.equal(response.data.tle, newer.tle);
+
+    // The newer set is cached and keeps winning without another request
+    assert.equal((await chain.getTLE(25544)).provider, 'fixture');
+    assert.equal(calls(), 1);
+  });
+
+  it('keeps an outdated import, flagged stale, when the providers have nothing newer', async () => {
+    const { chain, imported, calls } = await setup('stale', new Date(Date.now() - 30 * 24 * HOUR_MS), async () => {
+      throw new Error('not found');
+    });
+
+    const response = await chain.getTLE(25544);
+    assert.equal(response.provider, IMPORTED_PROVIDER);
+    assert.equal(response.data.tle, imported.tle);
+    assert.equal(response.data.imported?.stale, true);
+
+    // The providers are not asked again within the refetch interval
+    await chain.getTLE(25544);
+    assert.equal(calls(), 1);
+  });
+
+  it('asks the providers on refresh even for a fresh import', async () => {
+    const newer = issTLEAt(new Date());
+    const { chain, calls } = await setup('refresh', new Date(Date.now() - HOUR_MS), async () => newer);
+
+    const response = await chain.getTLE(25544, { refresh: true });
+    assert.equal(response.provider, 'fixture');
+    assert.equal(response.data.tle, newer.tle);
+    assert.equal(calls(), 1);
+  });
+});
@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { N2YOApiClient } from '../src/api-client.js';
+import { CelesTrakProvider } from '../src/providers/celestrak.js';
+import { ProviderChain } from '../src/providers/chain.js';
+import { TLECache } from '../src/store/tle-cache.js';
+import { ISS_TLE, issTLEAt } from './fixtures/elements.js';
+
+// Tiangong core module, a second member of the "stations" group
+const CSS_TLE = '1 48274U 21035A   24001.50000000  .00020000  00000-0  22000-3 0  9997\r\n2 48274  41.4700 300.0000 0005000  90.0000 270.0000 15.62000000150009';
+
+// How the stand-in answers: with data, with an HTTP 500, or with "not found"
+type StandInMode = 'ok' | 'error' | 'missing';
+
+describe('providers against a local HTTP stand-in', () => {
+  const modes: { n2yo: StandInMode; celestrak: StandInMode } = { n2yo: 'ok', celestrak: 'ok' };
+  const requests: string[] = [];
+  const fresh = issTLEAt(new Date());
+  let server: http.Server;
+  let baseUrl: string;
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'providers-test-'));
+
+    // N2YO under /n2yo (/tle/{id}/&apiKey=...), CelesTrak GP under /celestrak (/NORAD/elements/gp.php?CATNR=...)
+    server = http.createServer((request, response) => {
+      const url = new URL(request.url || '/', 'http://localhost');
+      requests.push(url.pathname);
+
+      if (url.pathname.startsWith('/n2yo/tle/')) {
+        const noradId = Number(url.pathname.split('/').filter(part => /^\d+$/.test(part))[0]);
+        if (modes.n2yo === 'error') {
+          response.writeHead(500).end('upstream failure');
+          return;
+        }
+        response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+          info: { satid: noradId, satname: modes.n2yo === 'ok' ? 'SPACE STATION' : null, transactionscount: 7 },
+          tle: modes.n2yo === 'ok' ? fresh.tle : '',
+        }));
+        return;
+      }
+
+      if (url.pathname === '/celestrak/NORAD/elements/gp.php') {
+        if (modes.celestrak === 'error') {
+          response.writeHead(500).end('upstream failure');
+          return;
+        }
+        if (url.searchParams.has('GROUP')) {
+          response.writeHead(200, { 'Content-Type': 'text/plain' }).end(url.searchParams.get('GROUP') === 'stations'
+            ? `ISS (ZARYA)\r\n${fresh.tle}\r\nCSS (TIANHE)\r\n${CSS_TLE}\r\n`
+            : 'Invalid query: "GROUP" value not found');
+          return;
+        }
+        response.writeHead(200, { 'Content-Type': 'text/plain' }).end(modes.celestrak === 'ok'
+          ? `ISS (ZARYA)\r\n${fresh.tle}\r\n`
+          : 'No GP data found');
+        return;
+      }
+
+      response.writeHead(404).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    modes.n2yo = 'ok';
+    modes.celestrak = 'ok';
+    requests.length = 0;
+  });
+
+  function chain(cacheFile: string) {
+    return new ProviderChain([
+      new N2YOApiClient('test-key', { baseUrl: `${baseUrl}/n2yo` }),
+      new CelesTrakProvider({ baseUrl: `${baseUrl}/celestrak` }),
+    ], {
+      tleCache: new TLECache({ filePath: path.join(directory, cacheFile) }),
+    });
+  }
+
+  it('answers from the primary provider and reports it', async () => {
+    const response = await chain('primary.json').getTLE(25544);
+
+    assert.equal(response.provider, 'n2yo');
+    assert.equal(response.data.satname, 'SPACE STATION');
+    assert.equal(response.data.tle, fresh.tle);
+    assert.equal(response.data.transactionscount, 7);
+    assert.equal(response.data.cache?.cached, false);
+    assert.deepEqual(requests, ['/n2yo/tle//25544/&apiKey=test-key']);
+  });
+
+  it('falls back to the secondary provider when the primary fails', async () => {
+    modes.n2yo = 'error';
+    const response = await chain('fallback.json').getTLE(25544);
+
+    assert.equal(response.provider, 'celestrak');
+    assert.equal(response.data.satname, 'ISS (ZARYA)');
+    assert.equal(response.data.tle, fresh.tle);
+    assert.equal(requests.length, 2);
+  });
+
+  it('falls back to the secondary provider when the primary has no element set', async () => {
+    modes.n2yo = 'missing';
+    const response = await chain('missing.json').getTLE(25544);
+
+    assert.equal(response.provider, 'celestrak');
+    assert.equal(response.data.tle, fresh.tle);
+  });
+
+  it('serves the fresh cache without contacting the providers', async () => {
+    const providers = chain('fresh-cache.json');
+    await providers.getTLE(25544);
+    requests.length = 0;
+
+    const response = await providers.getTLE(25544);
+    assert.equal(response.provider, 'n2yo');
+    assert.equal(response.data.cache?.cached, true);
+    assert.deepEqual(requests, []);
+  });
+
+  it('serves a stale cached element set when every provider fails', async () => {
+    const cacheFile = 'stale-cache.json';
+    const seeded = new TLECache({ filePath: path.join(directory, cacheFile) });
+    await seeded.set(ISS_TLE, 'celestrak', new Date(Date.now() - 7 * 86400000));
+    await seeded.flush();
+    modes.n2yo = 'error';
+    modes.celestrak = 'error';
+
+    const response = await chain(cacheFile).getTLE(25544);
+    assert.equal(response.provider, 'celestrak');
+    assert.equal(response.data.tle, ISS_TLE.tle);
+    assert.equal(response.data.cache?.cached, true);
+    assert.equal(response.data.cache?.stale, true);
+    assert.equal(requests.length, 2);
+  });
+
+  it('lists the members of a CelesTrak group', async () => {
+    const celestrak = new CelesTrakProvider({ baseUrl: `${baseUrl}/celestrak` });
+
+    const members = await celestrak.getGroup('stations');
+    assert.deepEqual(members.map(member => [member.satid, member.satname]), [[25544, 'ISS (ZARYA)'], [48274, 'CSS (TIANHE)']]);
+    assert.equal(members[1].tle, CSS_TLE);
+    assert.deepEqual(await celestrak.getGroup('no-such-group'), []);
+  });
+
+  it('fails when every provider fails and nothing is cached', async () => {
+    modes.n2yo = 'error';
+    modes.celestrak = 'error';
+
+    await assert.rejects(chain('empty.json').getTLE(25544), /All providers failed for getTLE/);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SatellitePass } from '../src/api-client.js';
+import { StationPass, planNetworkSchedule } from '../src/orbit/schedule.js';
+
+// A station pass of `satid` from `start` lasting `duration` seconds
+function stationPass(station: string, satid: number, start: number, duration: number, maxEl = 45): StationPass {
+  const pass: SatellitePass = {
+    satid,
+    satname: `SAT ${satid}`,
+    startAz: 0,
+    startAzCompass: 'N',
+    startEl: 0,
+    startUTC: start,
+    maxAz: 90,
+    maxAzCompass: 'E',
+    maxEl,
+    maxUTC: start + duration / 2,
+    endAz: 180,
+    endAzCompass: 'S',
+    endEl: 0,
+    endUTC: start + duration,
+    mag: 0,
+    duration,
+  };
+  return { id: `${station}:${satid}-${start}`, station, pass };
+}
+
+// No station tracks two passes at once (plus the gap) and no satellite is tracked twice at once
+function assertConflictFree(contacts: StationPass[], gapSeconds: number) {
+  for (let i = 0; i < contacts.length; i++) {
+    for (let j = i + 1; j < contacts.length; j++) {
+      const a = contacts[i];
+      const b = contacts[j];
+      if (a.station === b.station) {
+        assert.ok(a.pass.startUTC >= b.pass.endUTC + gapSeconds || b.pass.startUTC >= a.pass.endUTC + gapSeconds, `${a.id} overlaps ${b.id}`);
+      }
+      if (a.pass.satid === b.pass.satid) {
+        assert.ok(a.pass.startUTC >= b.pass.endUTC || b.pass.startUTC >= a.pass.endUTC, `${a.id} overlaps ${b.id}`);
+      }
+    }
+  }
+}
+
+describe('planNetworkSchedule', () => {
+  it('spreads contact time across satellites with the coverage objective', () => {
+    const candidates = [
+      stationPass('a', 1, 0, 900),
+      stationPass('a', 2, 300, 600),
+      stationPass('b', 1, 1000, 800),
+      stationPass('b', 2, 1200, 300),
+    ];
+
+    const contactTime = planNetworkSchedule(candidates, { objective: 'contact_time' });
+    assert.deepEqual(contactTime.contacts.map(contact => contact.id), ['a:1-0', 'b:1-1000']);
+
+    const coverage = planNetworkSchedule(candidates, { objective: 'coverage' });
+    assert.deepEqual(coverage.contacts.map(contact => contact.id), ['a:1-0', 'b:2-1200']);
+    assert.deepEqual(coverage.unassigned.map(entry => entry.reason), [
+      'station a is tracking SAT 1 (1) 1970-01-01T00:00:00Z-1970-01-01T00:15:00Z',
+      'station b is tracking SAT 2 (2) 1970-01-01T00:20:00Z-1970-01-01T00:25:00Z',
+    ]);
+  });
+
+  it('plans thousands of passes across a network quickly', () => {
+    // Roughly the tool's limits: 25 satellites over 10 stations for 10 days
+    let seed = 1;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const candidates: StationPass[] = [];
+    for (let i = 0; i < 15000; i++) {
+      const start = Math.floor(random() * 864000);
+      candidates.push(stationPass(`s${i % 10}`, 1 + Math.floor(random() * 25), start, 60 + Math.floor(random() * 600)));
+    }
+
+    const started = Date.now();
+    const schedule = planNetworkSchedule(candidates, { objective: 'coverage', gapSeconds: 60 });
+    assert.ok(Date.now() - started < 10000);
+    assert.equal(schedule.contacts.length + schedule.unassigned.length, candidates.length);
+    assertConflictFree(schedule.contacts, 60);
+  });
+});
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { sgp4, twoline2satrec } from '../src/orbit/sgp4.js';
+import { decodeTLE } from '../src/orbit/tle.js';
+import { SGP4_VECTORS } from './fixtures/sgp4-vectors.js';
+
+// Millimetre and millimetre-per-second agreement with the reference output
+const POSITION_TOLERANCE_KM = 1e-6;
+const VELOCITY_TOLERANCE_KM_S = 1e-6;
+
+describe('sgp4', () => {
+  for (const vector of SGP4_VECTORS) {
+    it(`matches the reference states of ${vector.satnum} (${vector.description})`, () => {
+      const satrec = twoline2satrec(decodeTLE(`${vector.line1}\n${vector.line2}`));
+
+      for (const [tsince, x, y, z, xdot, ydot, zdot] of vector.states) {
+        const state = sgp4(satrec, tsince);
+        assert.ok(state, `no state at ${tsince} min (error ${satrec.error})`);
+
+        const position = [state.position.x - x, state.position.y - y, state.position.z - z];
+        const velocity = [state.velocity.x - xdot, state.velocity.y - ydot, state.velocity.z - zdot];
+        assert.ok(
+          position.every(delta => Math.abs(delta) <= POSITION_TOLERANCE_KM),
+          `position at ${tsince} min off by ${position.map(delta => delta.toExponential(2)).join(', ')} km`
+        );
+        assert.ok(
+          velocity.every(delta => Math.abs(delta) <= VELOCITY_TOLERANCE_KM_S),
+          `velocity at ${tsince} min off by ${velocity.map(delta => delta.toExponential(2)).join(', ')} km/s`
+        );
+      }
+    });
+  }
+});
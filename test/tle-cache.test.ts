@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { ProviderChain } from '../src/providers/chain.js';
+import { SatelliteDataProvider } from '../src/providers/provider.js';
+import { ElementStore } from '../src/store/element-store.js';
+import { TLECache } from '../src/store/tle-cache.js';
+import { ISS_TLE } from './fixtures/elements.js';
+
+describe('unreadable data files', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tle-cache-test-'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('treats a corrupt TLE cache and element store as empty and moves them aside', async () => {
+    const cacheFile = path.join(directory, 'tle-cache.json');
+    const elementsFile = path.join(directory, 'imported-elements.json');
+    await fs.writeFile(cacheFile, '{"version": 1, "entries": {"25544": {', 'utf8');
+    await fs.writeFile(elementsFile, 'not json', 'utf8');
+
+    const provider: SatelliteDataProvider = {
+      name: 'fixture',
+      getTLE: async () => ({ ...ISS_TLE }),
+    };
+    const tleCache = new TLECache({ filePath: cacheFile });
+    const chain = new ProviderChain([provider], {
+      tleCache,
+      elementStore: new ElementStore({ filePath: elementsFile }),
+    });
+
+    const response = await chain.getTLE(25544);
+    assert.equal(response.provider, 'fixture');
+    assert.equal(response.data.tle, ISS_TLE.tle);
+
+    const files = await fs.readdir(directory);
+    assert.ok(files.some(file => file.startsWith('tle-cache.json.corrupt-')));
+    assert.ok(files.some(file => file.startsWith('imported-elements.json.corrupt-')));
+
+    // The fetched element set was cached in a fresh file
+    await tleCache.flush();
+    const cache = JSON.parse(await fs.readFile(cacheFile, 'utf8'));
+    assert.equal(cache.entries['25544'].tle, ISS_TLE.tle);
+  });
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { TLEHistory } from '../src/store/tle-history.js';
+import { issTLEAt } from './fixtures/elements.js';
+
+describe('TLE history', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'tle-history-test-'));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('drops element sets beyond the retention limits', async () => {
+    const filePath = path.join(directory, 'retention.json');
+    const history = new TLEHistory(filePath, { retentionDays: 10, maxEntriesPerSatellite: 3 });
+    const day = (n: number) => issTLEAt(new Date(Date.UTC(2024, 0, 1 + n)));
+
+    assert.equal(await history.record([day(0), day(5), day(12)], 'n2yo'), 3);
+    let kept = (await history.get(25544)).map(entry => entry.epoch);
+    assert.deepEqual(kept, ['2024-01-06T00:00:00.000Z', '2024-01-13T00:00:00.000Z']);
+
+    await history.record([day(13), day(14)], 'n2yo');
+    kept = (await history.get(25544)).map(entry => entry.epoch);
+    assert.deepEqual(kept, ['2024-01-13T00:00:00.000Z', '2024-01-14T00:00:00.000Z', '2024-01-15T00:00:00.000Z']);
+  });
+
+  it('keeps every element set unless retention is configured', async () => {
+    const history = new TLEHistory(path.join(directory, 'unbounded.json'));
+    await history.record([issTLEAt(new Date(Date.UTC(2014, 0, 1))), issTLEAt(new Date(Date.UTC(2024, 0, 1)))], 'n2yo');
+    assert.equal((await history.get(25544)).length, 2);
+  });
+
+  it('writes batched changes to disk on flush', async () => {
+    const filePath = path.join(directory, 'flush.json');
+    const history = new TLEHistory(filePath);
+    await history.record([issTLEAt(new Date(Date.UTC(2024, 0, 1)))], 'n2yo');
+    await history.record([issTLEAt(new Date(Date.UTC(2024, 0, 2)))], 'celestrak');
+    await history.flush();
+
+    const reloaded = new TLEHistory(filePath);
+    assert.deepEqual((await reloaded.get(25544)).map(entry => entry.source), ['n2yo', 'celestrak']);
+  });
+});